@@ -1,9 +1,15 @@
 import { Plugin, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
 import JWT from '@hapi/jwt';
 import { Logger } from 'pino';
 import redisClient from '../config/redis';
 import logger from '../config/logger';
-import { AuthCredentials, JWTPayload, User } from '../types';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../services/refreshTokenService';
+import apiKeyService, { API_KEY_PREFIX } from '../services/apiKeyService';
+import signingKeyService, { TOKEN_CLOCK_SKEW_SECONDS } from '../services/signingKeyService';
+import { BUILT_IN_ROLES, operatorScope, scopeForRole } from '../utils/permissions';
+import { getCredentials } from '../utils/tenantContext';
+import { AuthCredentials, JWTPayload, Tenant, TenantSettings, User } from '../types';
 
 interface JWTArtifacts {
   decoded: {
@@ -25,15 +31,16 @@ const authPlugin: Plugin<void> = {
     await server.register(JWT);
 
     server.auth.strategy('jwt', 'jwt', {
-      keys: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
+      // Looked up per request so that rotated keys are picked up without a restart
+      keys: () => signingKeyService.verificationKeys(),
       verify: {
         aud: false,
         iss: false,
         sub: false,
         nbf: true,
         exp: true,
-        maxAgeSec: 14400, // 4 hours
-        timeSkewSec: 15
+        maxAgeSec: ACCESS_TOKEN_TTL_SECONDS,
+        timeSkewSec: TOKEN_CLOCK_SKEW_SECONDS
       },
       validate: async (artifacts: JWTArtifacts, _request: Request, _h: ResponseToolkit) => {
         try {
@@ -51,6 +58,15 @@ const authPlugin: Plugin<void> = {
             return { isValid: false };
           }
 
+          // Tokens issued at login stop working once the session is revoked
+          if (payload.sessionId) {
+            const sessionExists = await redis.exists(`session:${payload.sessionId}`);
+            if (!sessionExists) {
+              log.warn({ userId: payload.userId, sessionId: payload.sessionId }, 'Session has ended');
+              return { isValid: false };
+            }
+          }
+
           // Verify tenant exists
           const tenantExists = await redis.exists(`tenant:${payload.tenantId}`);
           if (!tenantExists) {
@@ -68,12 +84,20 @@ const authPlugin: Plugin<void> = {
           const user: User = JSON.parse(userData);
           const { password, ...userWithoutPassword } = user;
 
+          // Custom roles are defined in the tenant's settings
+          let settings: TenantSettings = {};
+          if (!Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, user.role)) {
+            const tenantData = await redis.get(`tenant:${payload.tenantId}`);
+            settings = tenantData ? (JSON.parse(tenantData) as Tenant).settings || {} : {};
+          }
+
           log.info({ userId: payload.userId, role: user.role }, 'Token validated successfully');
 
           const credentials: AuthCredentials = {
             user: userWithoutPassword,
             tenantId: payload.tenantId,
-            scope: user.role === 'admin' ? ['admin', 'user'] : ['user']
+            scope: [...scopeForRole(user.role, settings), ...operatorScope(user.role, payload.tenantId)],
+            ...(payload.sessionId ? { sessionId: payload.sessionId } : {})
           };
 
           return {
@@ -89,10 +113,59 @@ const authPlugin: Plugin<void> = {
 
     server.auth.default('jwt');
 
+    // API keys sent as "Authorization: Bearer sk-...". Other bearer tokens are
+    // reported as missing so that routes listing both strategies fall through to jwt.
+    server.auth.scheme('api-key', () => ({
+      authenticate: async (request: Request, h: ResponseToolkit) => {
+        const [type, key] = ((request.headers.authorization as string | undefined) || '').split(/\s+/);
+        if (type?.toLowerCase() !== 'bearer' || !key?.startsWith(API_KEY_PREFIX)) {
+          return h.unauthenticated(Boom.unauthorized(null, 'Bearer'));
+        }
+
+        try {
+          const apiKey = await apiKeyService.authenticate(key);
+          if (!apiKey) {
+            log.warn('Unknown, revoked or expired API key');
+            return h.unauthenticated(Boom.unauthorized('Invalid API key', 'Bearer'));
+          }
+
+          const tenantExists = await redisClient.getClient().exists(`tenant:${apiKey.tenantId}`);
+          if (!tenantExists) {
+            log.warn({ tenantId: apiKey.tenantId, keyId: apiKey.keyId }, 'Tenant does not exist');
+            return h.unauthenticated(Boom.unauthorized('Invalid API key', 'Bearer'));
+          }
+
+          log.debug({ tenantId: apiKey.tenantId, keyId: apiKey.keyId }, 'API key validated');
+
+          // The key acts as a user of its own, so usage, quotas and batches are tracked per key
+          const credentials: AuthCredentials = {
+            user: {
+              userId: `apikey:${apiKey.keyId}`,
+              tenantId: apiKey.tenantId,
+              username: apiKey.name,
+              email: '',
+              role: 'user',
+              status: 'active',
+              createdAt: apiKey.createdAt
+            },
+            tenantId: apiKey.tenantId,
+            scope: apiKey.scopes,
+            apiKeyId: apiKey.keyId
+          };
+
+          return h.authenticated({ credentials });
+        } catch (error) {
+          log.error({ error: error instanceof Error ? error.message : error }, 'API key validation error');
+          return h.unauthenticated(Boom.unauthorized('Invalid API key', 'Bearer'));
+        }
+      }
+    }));
+    server.auth.strategy('apiKey', 'api-key');
+
     // Pre-handler for tenant context
     server.ext('onPreHandler', (request: Request, h: ResponseToolkit) => {
       if (request.auth.isAuthenticated) {
-        const credentials = request.auth.credentials as any as AuthCredentials;
+        const credentials = getCredentials(request);
         (request as any).tenantId = credentials.tenantId;
         (request as any).user = credentials.user;
         
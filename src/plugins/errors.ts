@@ -0,0 +1,47 @@
+import { Plugin, Request, ResponseToolkit } from '@hapi/hapi';
+import { Logger } from 'pino';
+import logger from '../config/logger';
+
+// Logs failed requests and answers with the error's payload, headers included
+const errorPlugin: Plugin<void> = {
+  name: 'error-plugin',
+  version: '1.0.0',
+  register: async (server, _options) => {
+    const log: Logger = logger.child({ module: 'ErrorPlugin' });
+
+    server.ext('onPreResponse', (request: Request, h: ResponseToolkit) => {
+      const response = request.response;
+
+      if ('isBoom' in response && response.isBoom) {
+        const error = response;
+        const statusCode = error.output.statusCode;
+
+        log.error({
+          path: request.path,
+          method: request.method,
+          statusCode,
+          error: error.message
+        }, 'Request error');
+
+        // Extra fields added to the payload, e.g. the validation errors of a 422, are kept
+        const errorResponse = h.response({
+          ...error.output.payload,
+          statusCode,
+          error: error.output.payload.error,
+          message: error.message
+        }).code(statusCode);
+
+        // Keep headers set on the error, e.g. Retry-After on 429
+        for (const [name, value] of Object.entries(error.output.headers)) {
+          errorResponse.header(name, String(value));
+        }
+
+        return errorResponse;
+      }
+
+      return h.continue;
+    });
+  }
+};
+
+export default errorPlugin;
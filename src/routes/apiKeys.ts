@@ -0,0 +1,184 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import apiKeyService, { API_KEY_SCOPES, MAX_API_KEYS } from '../services/apiKeyService';
+import logger from '../config/logger';
+import { missingPermissions } from '../utils/permissions';
+import { getCredentials } from '../utils/tenantContext';
+import { CreateApiKeyData, UpdateApiKeyData } from '../types';
+
+const log: Logger = logger.child({ module: 'ApiKeyRoutes' });
+
+// Validation schemas
+const keyParamsSchema = Joi.object({
+  keyId: Joi.string().uuid().required()
+});
+
+const scopesSchema = Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique()
+  .description('What the key may call; the caller\'s own API key scopes when omitted on creation');
+
+const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().description('Label telling the key apart, e.g. the job that uses it'),
+  scopes: scopesSchema.optional(),
+  expiresAt: Joi.date().iso().greater('now').optional().description('The key stops working after this time')
+});
+
+const updateApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  scopes: scopesSchema.optional()
+}).min(1);
+
+const apiKeyRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/api-keys',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['apikeys:manage']
+      },
+      description: 'List the tenant\'s API keys (requires apikeys:manage)',
+      notes: 'Keys are listed by their prefix; the full key is only shown when it is created',
+      tags: ['api', 'api-keys']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+
+        const apiKeys = await apiKeyService.listKeys(tenantId);
+
+        return { apiKeys };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'List API keys error');
+        throw Boom.badImplementation('Failed to list API keys');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/api-keys',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['apikeys:manage']
+      },
+      validate: {
+        payload: createApiKeySchema
+      },
+      description: 'Create an API key (requires apikeys:manage)',
+      notes: `Returns the key in "key"; it cannot be retrieved again. Send it as "Authorization: Bearer sk-..." with the x-tenant-id header to call /api/llm endpoints within its scopes. A tenant has at most ${MAX_API_KEYS} keys.`,
+      tags: ['api', 'api-keys']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = getCredentials(request);
+        const { expiresAt, ...data } = request.payload as Omit<CreateApiKeyData, 'expiresAt'> & { expiresAt?: Date };
+
+        // Keys get the caller's own scopes unless asked for fewer; nobody can hand out more than they have
+        const scopes = data.scopes || API_KEY_SCOPES.filter((scope) => credentials.scope.includes(scope));
+        const missing = missingPermissions(credentials.scope, scopes);
+        if (missing.length > 0) {
+          throw Boom.forbidden(`API keys cannot be given permissions you do not have: ${missing.join(', ')}`);
+        }
+        if (scopes.length === 0) {
+          throw Boom.forbidden('You have none of the permissions an API key can be given');
+        }
+
+        const created = await apiKeyService.createKey(
+          credentials.tenantId,
+          { ...data, scopes, ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {}) },
+          credentials.user.userId
+        );
+        if (!created) {
+          throw Boom.badRequest(`A tenant can have at most ${MAX_API_KEYS} API keys`);
+        }
+
+        return h.response({ ...created.apiKey, key: created.key }).code(201);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Create API key error');
+        throw Boom.badImplementation('Failed to create API key');
+      }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/api-keys/{keyId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['apikeys:manage']
+      },
+      validate: {
+        params: keyParamsSchema,
+        payload: updateApiKeySchema
+      },
+      description: 'Rename an API key or change its scopes (requires apikeys:manage)',
+      tags: ['api', 'api-keys']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId, scope } = getCredentials(request);
+        const { keyId } = request.params as { keyId: string };
+        const updates = request.payload as UpdateApiKeyData;
+
+        const missing = missingPermissions(scope, updates.scopes || []);
+        if (missing.length > 0) {
+          throw Boom.forbidden(`API keys cannot be given permissions you do not have: ${missing.join(', ')}`);
+        }
+
+        const apiKey = await apiKeyService.updateKey(tenantId, keyId, updates);
+        if (!apiKey) {
+          throw Boom.notFound('API key not found');
+        }
+
+        return apiKey;
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Update API key error');
+        throw Boom.badImplementation('Failed to update API key');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/api-keys/{keyId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['apikeys:manage']
+      },
+      validate: {
+        params: keyParamsSchema
+      },
+      description: 'Revoke an API key (requires apikeys:manage)',
+      tags: ['api', 'api-keys']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { keyId } = request.params as { keyId: string };
+
+        const revoked = await apiKeyService.revokeKey(tenantId, keyId);
+        if (!revoked) {
+          throw Boom.notFound('API key not found');
+        }
+
+        return h.response().code(204);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Revoke API key error');
+        throw Boom.badImplementation('Failed to revoke API key');
+      }
+    }
+  }
+];
+
+export default apiKeyRoutes;
@@ -1,11 +1,14 @@
 import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
 import Boom from '@hapi/boom';
 import Joi from 'joi';
-import JWT from '@hapi/jwt';
 import { Logger } from 'pino';
 import tenantService from '../services/tenantService';
+import refreshTokenService, { ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_SECONDS } from '../services/refreshTokenService';
+import signingKeyService from '../services/signingKeyService';
 import logger from '../config/logger';
-import { AuthCredentials, RegisterPayload, LoginPayload, CreateUserData, UserWithoutPassword } from '../types';
+import { BUILT_IN_ROLES, isRoleDefined, missingPermissions, ROLE_NAME_PATTERN, scopeForRole } from '../utils/permissions';
+import { getCredentials } from '../utils/tenantContext';
+import { RegisterPayload, LoginPayload, CreateUserData, UserWithoutPassword } from '../types';
 
 const log: Logger = logger.child({ module: 'AuthRoutes' });
 
@@ -25,35 +28,51 @@ const loginSchema = Joi.object({
   domain: Joi.string().domain().optional()
 }).xor('tenantId', 'domain'); // Either tenantId or domain must be provided
 
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
 const createUserSchema = Joi.object({
   username: Joi.string().alphanum().min(3).max(30).required(),
   email: Joi.string().email().required(),
   password: Joi.string().min(8).required(),
-  role: Joi.string().valid('user', 'admin').default('user')
+  role: Joi.string().pattern(ROLE_NAME_PATTERN).default('user').description('"admin", "user" or one of the tenant\'s custom roles')
 });
 
-// Generate JWT token
-const generateToken = (user: UserWithoutPassword, tenantId: string): string => {
-  const token = JWT.token.generate(
+// Generate JWT access token, tied to the login session when there is one
+const generateToken = (user: UserWithoutPassword, tenantId: string, sessionId?: string): string => {
+  const token = signingKeyService.sign(
     {
       aud: 'urn:audience:api',
       iss: 'urn:issuer:api',
       userId: user.userId,
       tenantId: tenantId,
-      role: user.role
-    },
-    {
-      key: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
-      algorithm: 'HS256'
+      role: user.role,
+      ...(sessionId ? { sessionId } : {})
     },
-    {
-      ttlSec: 14400 // 4 hours
-    }
+    ACCESS_TOKEN_TTL_SECONDS
   );
   return token;
 };
 
 const authRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/.well-known/jwks.json',
+    options: {
+      auth: false,
+      cache: {
+        expiresIn: 5 * 60 * 1000,
+        privacy: 'public'
+      },
+      description: 'Public keys for verifying access tokens',
+      notes: 'Lists the signing key in use, keys scheduled to take over and retired keys whose tokens may not have expired yet. Match a token to its key by the "kid" header.',
+      tags: ['api', 'auth']
+    },
+    handler: (_request: Request, _h: ResponseToolkit) => {
+      return signingKeyService.jwks();
+    }
+  },
   {
     method: 'POST',
     path: '/api/auth/register',
@@ -170,21 +189,24 @@ const authRoutes: ServerRoute[] = [
           throw Boom.forbidden('User account is not active');
         }
 
-        // Generate token
-        const { password: _, ...userWithoutPassword } = user;
-        const token = generateToken(userWithoutPassword, tenant.tenantId);
-
         // Create session
         const session = await tenantService.createSession(tenant.tenantId, user.userId, {
           loginTime: new Date().toISOString(),
-          userAgent: request.headers['user-agent']
-        } as any);
+          ...(request.headers['user-agent'] ? { userAgent: String(request.headers['user-agent']) } : {})
+        }, REFRESH_TOKEN_TTL_SECONDS);
+
+        // Generate tokens
+        const { password: _, ...userWithoutPassword } = user;
+        const token = generateToken(userWithoutPassword, tenant.tenantId, session.sessionId);
+        const refreshToken = await refreshTokenService.issue(session);
 
         log.info({ userId: user.userId, tenantId: tenant.tenantId, sessionId: session.sessionId }, 'Login successful');
 
         return {
           message: 'Login successful',
           token,
+          refreshToken,
+          expiresIn: ACCESS_TOKEN_TTL_SECONDS,
           user: userWithoutPassword,
           tenant: {
             tenantId: tenant.tenantId,
@@ -202,29 +224,90 @@ const authRoutes: ServerRoute[] = [
       }
     }
   },
+  {
+    method: 'POST',
+    path: '/api/auth/refresh',
+    options: {
+      auth: false,
+      validate: {
+        payload: refreshSchema
+      },
+      description: 'Exchange a refresh token for a new access token and refresh token',
+      notes: 'Each refresh token can be used once. Presenting a used one again ends the session it belongs to.',
+      tags: ['api', 'auth']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { refreshToken } = request.payload as { refreshToken: string };
+
+        const use = await refreshTokenService.consume(refreshToken);
+        if (!use) {
+          log.warn('Unknown or expired refresh token');
+          throw Boom.unauthorized('Invalid refresh token');
+        }
+
+        const { record } = use;
+        if (use.reused) {
+          await tenantService.deleteSession(record.sessionId);
+          throw Boom.unauthorized('Invalid refresh token');
+        }
+
+        // The session may have expired or the account been disabled since the last refresh
+        const [session, tenant, user] = await Promise.all([
+          tenantService.getSession(record.sessionId),
+          tenantService.getTenant(record.tenantId),
+          tenantService.getUser(record.tenantId, record.userId)
+        ]);
+        if (!session || !tenant || tenant.status !== 'active' || !user || user.status !== 'active') {
+          log.warn({ sessionId: record.sessionId, userId: record.userId }, 'Refresh for an ended session or inactive account');
+          await refreshTokenService.revokeFamily(record.sessionId);
+          await tenantService.deleteSession(record.sessionId);
+          throw Boom.unauthorized('Invalid refresh token');
+        }
+
+        const token = generateToken(user, record.tenantId, record.sessionId);
+        const nextRefreshToken = await refreshTokenService.issue(record);
+
+        log.info({ userId: user.userId, sessionId: record.sessionId }, 'Tokens refreshed');
+
+        return {
+          token,
+          refreshToken: nextRefreshToken,
+          expiresIn: ACCESS_TOKEN_TTL_SECONDS
+        };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Refresh error');
+        throw Boom.badImplementation('Failed to refresh token');
+      }
+    }
+  },
   {
     method: 'POST',
     path: '/api/auth/logout',
     options: {
       auth: 'jwt',
-      description: 'Logout and invalidate token',
+      description: 'Logout, invalidating the token and the session\'s refresh token',
       tags: ['api', 'auth']
     },
     handler: async (request: Request, _h: ResponseToolkit) => {
       try {
-        const credentials = request.auth.credentials as any as AuthCredentials;
-        const authHeader = request.headers.authorization;
-        if (!authHeader) {
-          throw Boom.unauthorized('No authorization header');
-        }
-        
-        const token = authHeader.split(' ')[1];
+        const credentials = getCredentials(request);
+        const { token } = request.auth.artifacts as { token: string };
         
         log.info({ userId: credentials.user.userId, tenantId: credentials.tenantId }, 'Logout attempt');
         
         // Blacklist the token
         await tenantService.blacklistToken(token);
 
+        // End the session so its refresh token can no longer be used
+        if (credentials.sessionId) {
+          await refreshTokenService.revokeFamily(credentials.sessionId);
+          await tenantService.deleteSession(credentials.sessionId);
+        }
+
         log.info({ userId: credentials.user.userId }, 'Logout successful');
 
         return {
@@ -246,7 +329,7 @@ const authRoutes: ServerRoute[] = [
     },
     handler: async (request: Request, _h: ResponseToolkit) => {
       try {
-        const credentials = request.auth.credentials as any as AuthCredentials;
+        const credentials = getCredentials(request);
         const { user, tenantId } = credentials;
         
         log.debug({ userId: user.userId, tenantId }, 'Fetching current user info');
@@ -273,22 +356,34 @@ const authRoutes: ServerRoute[] = [
     options: {
       auth: {
         strategy: 'jwt',
-        scope: ['admin']
+        scope: ['users:write']
       },
       validate: {
         payload: createUserSchema
       },
-      description: 'Create a new user in tenant (admin only)',
+      description: 'Create a new user in tenant (requires users:write)',
       tags: ['api', 'users']
     },
     handler: async (request: Request, h: ResponseToolkit) => {
       try {
-        const credentials = request.auth.credentials as any as AuthCredentials;
+        const credentials = getCredentials(request);
         const { tenantId } = credentials;
         const userData = request.payload as CreateUserData;
 
         log.info({ tenantId, email: userData.email }, 'Admin creating new user');
 
+        const role = userData.role || 'user';
+        // Custom roles are defined in the tenant's settings
+        const settings = Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, role)
+          ? {}
+          : await tenantService.getTenantSettings(tenantId);
+        if (!isRoleDefined(role, settings)) {
+          throw Boom.badRequest(`Role "${role}" is not defined`);
+        }
+        if (missingPermissions(credentials.scope, scopeForRole(role, settings).slice(1)).length > 0) {
+          throw Boom.forbidden('Cannot assign a role with permissions you do not have');
+        }
+
         // Check if user with email already exists in tenant
         const existingUser = await tenantService.getUserByEmail(tenantId, userData.email);
         if (existingUser) {
@@ -319,14 +414,14 @@ const authRoutes: ServerRoute[] = [
     options: {
       auth: {
         strategy: 'jwt',
-        scope: ['admin']
+        scope: ['users:read']
       },
-      description: 'Get all users in tenant (admin only)',
+      description: 'Get all users in tenant (requires users:read)',
       tags: ['api', 'users']
     },
     handler: async (request: Request, _h: ResponseToolkit) => {
       try {
-        const credentials = request.auth.credentials as any as AuthCredentials;
+        const credentials = getCredentials(request);
         const { tenantId } = credentials;
         
         log.debug({ tenantId }, 'Admin fetching all users');
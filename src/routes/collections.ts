@@ -0,0 +1,299 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import collectionService, { DEFAULT_CHUNK_SIZE, MAX_COLLECTION_CHUNKS } from '../services/collectionService';
+import tenantService from '../services/tenantService';
+import logger from '../config/logger';
+import { assertTenantAccess, tenantHeadersSchema } from '../utils/tenantContext';
+import { enforceQuota } from '../utils/quota';
+import { resolveModel } from '../utils/modelPolicy';
+import { chunkText } from '../utils/chunking';
+import { COLLECTION_NAME_PATTERN, embedTexts } from '../utils/retrieval';
+import { CreateCollectionData } from '../types';
+
+const log: Logger = logger.child({ module: 'CollectionRoutes' });
+
+// Document text accepted per upload
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+// Validation schemas
+const collectionParamsSchema = Joi.object({
+  name: Joi.string().pattern(COLLECTION_NAME_PATTERN).required()
+});
+
+const documentParamsSchema = Joi.object({
+  name: Joi.string().pattern(COLLECTION_NAME_PATTERN).required(),
+  documentId: Joi.string().uuid().required()
+});
+
+const createCollectionSchema = Joi.object({
+  name: Joi.string().pattern(COLLECTION_NAME_PATTERN).required(),
+  description: Joi.string().max(500).optional(),
+  embeddingModel: Joi.string().required().description('Model the documents and questions are embedded with, e.g. nomic-embed-text'),
+  chunkSize: Joi.number().integer().min(200).max(8000).optional().description('Chunk length in characters (default 1000)'),
+  chunkOverlap: Joi.number().integer().min(0).max(4000).optional()
+    .description('Characters repeated from the end of the previous chunk (default 150); at most half the chunk size')
+});
+
+const addDocumentSchema = Joi.object({
+  title: Joi.string().max(200).required(),
+  content: Joi.string().required().description('Plain text or Markdown, e.g. text extracted from a PDF'),
+  source: Joi.string().max(500).optional().description('Where the text came from, e.g. a URL or file name')
+});
+
+const collectionRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/collections',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['collections:read']
+      },
+      validate: {
+        headers: tenantHeadersSchema
+      },
+      description: 'List the tenant\'s document collections',
+      tags: ['api', 'collections']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+
+        const collections = await collectionService.listCollections(credentials.tenantId);
+
+        return { collections };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'List collections error');
+        throw Boom.badImplementation('Failed to list collections');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/collections/{name}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['collections:read']
+      },
+      validate: {
+        params: collectionParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Get a collection and its documents',
+      tags: ['api', 'collections']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { name } = request.params as { name: string };
+
+        const collection = await collectionService.getCollection(credentials.tenantId, name);
+        if (!collection) {
+          throw Boom.notFound('Collection not found');
+        }
+
+        const documents = await collectionService.listDocuments(credentials.tenantId, name);
+
+        return { ...collection, documents };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get collection error');
+        throw Boom.badImplementation('Failed to get collection');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/collections',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['collections:write']
+      },
+      validate: {
+        payload: createCollectionSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Create a document collection (requires collections:write)',
+      notes: 'The embedding model and chunking cannot be changed later, since every chunk is embedded with them',
+      tags: ['api', 'collections']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { name, ...data } = request.payload as CreateCollectionData & { name: string };
+
+        if (data.chunkOverlap !== undefined && data.chunkOverlap * 2 > (data.chunkSize || DEFAULT_CHUNK_SIZE)) {
+          throw Boom.badRequest('"chunkOverlap" must be at most half of "chunkSize"');
+        }
+
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        resolveModel(data.embeddingModel, settings);
+
+        const collection = await collectionService.createCollection(credentials.tenantId, name, data, credentials.user.userId);
+        if (!collection) {
+          throw Boom.conflict('Collection already exists');
+        }
+
+        return h.response(collection).code(201);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Create collection error');
+        throw Boom.badImplementation('Failed to create collection');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/collections/{name}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['collections:write']
+      },
+      validate: {
+        params: collectionParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Delete a collection with all its documents (requires collections:write)',
+      tags: ['api', 'collections']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const { tenantId } = assertTenantAccess(request, log);
+        const { name } = request.params as { name: string };
+
+        const deleted = await collectionService.deleteCollection(tenantId, name);
+        if (!deleted) {
+          throw Boom.notFound('Collection not found');
+        }
+
+        return h.response().code(204);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Delete collection error');
+        throw Boom.badImplementation('Failed to delete collection');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/collections/{name}/documents',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['collections:write']
+      },
+      payload: {
+        maxBytes: MAX_DOCUMENT_BYTES
+      },
+      validate: {
+        params: collectionParamsSchema,
+        payload: addDocumentSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Add a document to a collection (requires collections:write)',
+      notes: `The text is split into chunks and embedded with the collection's model; the embeddings are charged to the caller like any embeddings request. A collection holds at most ${MAX_COLLECTION_CHUNKS} chunks.`,
+      tags: ['api', 'collections']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { name } = request.params as { name: string };
+        const { title, content, source } = request.payload as { title: string; content: string; source?: string };
+
+        const collection = await collectionService.getCollection(credentials.tenantId, name);
+        if (!collection) {
+          throw Boom.notFound('Collection not found');
+        }
+
+        const texts = chunkText(content, collection.chunkSize, collection.chunkOverlap);
+        if (texts.length === 0) {
+          throw Boom.badRequest('The document has no text');
+        }
+        if (!await collectionService.reserveChunks(credentials.tenantId, name, texts.length)) {
+          throw Boom.entityTooLarge(`A collection holds at most ${MAX_COLLECTION_CHUNKS} chunks`);
+        }
+
+        let document;
+        try {
+          await enforceQuota(credentials);
+
+          const settings = await tenantService.getTenantSettings(credentials.tenantId);
+          const vectors = await embedTexts(credentials, settings, collection.embeddingModel, texts);
+
+          document = await collectionService.addDocument(
+            credentials.tenantId,
+            name,
+            { title, ...(source ? { source } : {}), characters: content.length },
+            texts.map((text, index) => ({ text, vector: vectors[index] })),
+            credentials.user.userId
+          );
+        } catch (error) {
+          await collectionService.releaseChunks(credentials.tenantId, name, texts.length);
+          throw error;
+        }
+        if (!document) {
+          throw Boom.notFound('Collection not found');
+        }
+
+        return h.response(document).code(201);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Add collection document error');
+        throw Boom.badImplementation('Failed to add document');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/collections/{name}/documents/{documentId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['collections:write']
+      },
+      validate: {
+        params: documentParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Remove a document and its chunks from a collection (requires collections:write)',
+      tags: ['api', 'collections']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const { tenantId } = assertTenantAccess(request, log);
+        const { name, documentId } = request.params as { name: string; documentId: string };
+
+        const deleted = await collectionService.deleteDocument(tenantId, name, documentId);
+        if (!deleted) {
+          throw Boom.notFound('Document not found');
+        }
+
+        return h.response().code(204);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Delete collection document error');
+        throw Boom.badImplementation('Failed to delete document');
+      }
+    }
+  }
+];
+
+export default collectionRoutes;
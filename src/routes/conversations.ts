@@ -0,0 +1,362 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import conversationService from '../services/conversationService';
+import tenantService from '../services/tenantService';
+import providerService from '../services/providerService';
+import { OllamaChatRequest, OllamaChatResponse } from '../services/ollamaService';
+import logger from '../config/logger';
+import { assertTenantAccess, tenantHeadersSchema } from '../utils/tenantContext';
+import { enforceQuota, withQuotaHeaders } from '../utils/quota';
+import { acquireSlot, withQueueHeaders } from '../utils/queue';
+import { recordUsage } from '../utils/usage';
+import { applyModelPolicy } from '../utils/modelPolicy';
+import { applyPromptTemplate } from '../utils/promptTemplate';
+import { contextOverrideSchema, fitContextWindow } from '../utils/contextWindow';
+import { ContextReport, ContextSettings, ConversationMessage, CreateConversationData, UpdateConversationData } from '../types';
+
+const log: Logger = logger.child({ module: 'ConversationRoutes' });
+
+// Validation schemas
+const conversationParamsSchema = Joi.object({
+  conversationId: Joi.string().uuid().required()
+});
+
+const createConversationSchema = Joi.object({
+  title: Joi.string().max(200).optional(),
+  model: Joi.string().optional().description('Model for this thread; defaults to the tenant\'s default model'),
+  systemPrompt: Joi.string().optional().description('Sent as the system message on every turn')
+});
+
+const updateConversationSchema = Joi.object({
+  title: Joi.string().max(200).allow(null).optional(),
+  model: Joi.string().allow(null).optional(),
+  systemPrompt: Joi.string().allow(null).optional()
+}).min(1);
+
+const listConversationsSchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+const sendMessageSchema = Joi.object({
+  content: Joi.string().required().description('User message'),
+  model: Joi.string().optional().description('Overrides the thread model for this turn'),
+  options: Joi.object({
+    temperature: Joi.number().min(0).max(2).optional(),
+    top_p: Joi.number().min(0).max(1).optional(),
+    top_k: Joi.number().integer().min(1).optional(),
+    num_predict: Joi.number().integer().min(1).optional(),
+    stop: Joi.array().items(Joi.string()).optional()
+  }).optional(),
+  context: contextOverrideSchema
+});
+
+const conversationRoutes: ServerRoute[] = [
+  {
+    method: 'POST',
+    path: '/api/conversations',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        payload: createConversationSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Create a conversation thread',
+      tags: ['api', 'conversations']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const data = request.payload as CreateConversationData;
+
+        const conversation = await conversationService.createConversation(
+          credentials.tenantId,
+          credentials.user.userId,
+          data
+        );
+
+        return h.response(conversation).code(201);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Create conversation error');
+        throw Boom.badImplementation('Failed to create conversation');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/conversations',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        query: listConversationsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'List the current user\'s conversations',
+      notes: 'Most recently updated first; messages are not included',
+      tags: ['api', 'conversations']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { limit, offset } = request.query as { limit: number; offset: number };
+
+        const { conversations, total } = await conversationService.listConversations(
+          credentials.tenantId,
+          credentials.user.userId,
+          limit,
+          offset
+        );
+
+        return { conversations, total, limit, offset };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'List conversations error');
+        throw Boom.badImplementation('Failed to list conversations');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/conversations/{conversationId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        params: conversationParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Get a conversation with its messages',
+      tags: ['api', 'conversations']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { conversationId } = request.params as { conversationId: string };
+
+        const conversation = await conversationService.getConversationWithMessages(
+          credentials.tenantId,
+          credentials.user.userId,
+          conversationId
+        );
+        if (!conversation) {
+          throw Boom.notFound('Conversation not found');
+        }
+
+        return conversation;
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get conversation error');
+        throw Boom.badImplementation('Failed to get conversation');
+      }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/conversations/{conversationId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        params: conversationParamsSchema,
+        payload: updateConversationSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Update a conversation\'s title, model or system prompt',
+      notes: 'null clears a field',
+      tags: ['api', 'conversations']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { conversationId } = request.params as { conversationId: string };
+
+        const conversation = await conversationService.updateConversation(
+          credentials.tenantId,
+          credentials.user.userId,
+          conversationId,
+          request.payload as UpdateConversationData
+        );
+        if (!conversation) {
+          throw Boom.notFound('Conversation not found');
+        }
+
+        return conversation;
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Update conversation error');
+        throw Boom.badImplementation('Failed to update conversation');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/conversations/{conversationId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        params: conversationParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Delete a conversation and its messages',
+      tags: ['api', 'conversations']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { conversationId } = request.params as { conversationId: string };
+
+        const deleted = await conversationService.deleteConversation(
+          credentials.tenantId,
+          credentials.user.userId,
+          conversationId
+        );
+        if (!deleted) {
+          throw Boom.notFound('Conversation not found');
+        }
+
+        return h.response().code(204);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Delete conversation error');
+        throw Boom.badImplementation('Failed to delete conversation');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/conversations/{conversationId}/messages',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        params: conversationParamsSchema,
+        payload: sendMessageSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Send a message in a conversation',
+      notes: 'Replays the thread (system prompt and history) to the model, then stores both the user message and the assistant reply.',
+      tags: ['api', 'conversations']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { tenantId } = credentials;
+        const userId = credentials.user.userId;
+        const { conversationId } = request.params as { conversationId: string };
+        const payload = request.payload as {
+          content: string;
+          model?: string;
+          options?: OllamaChatRequest['options'];
+          context?: ContextSettings;
+        };
+
+        const conversation = await conversationService.getConversation(tenantId, userId, conversationId);
+        if (!conversation) {
+          throw Boom.notFound('Conversation not found');
+        }
+
+        const history = await conversationService.getMessages(tenantId, userId, conversationId);
+        const userMessage: ConversationMessage = {
+          role: 'user',
+          content: payload.content,
+          createdAt: new Date().toISOString()
+        };
+
+        const settings = await tenantService.getTenantSettings(tenantId);
+        // Threads without a system prompt get the tenant's default template
+        const messages = await applyPromptTemplate([
+          ...(conversation.systemPrompt ? [{ role: 'system' as const, content: conversation.systemPrompt }] : []),
+          ...[...history, userMessage].map(({ role, content }) => ({ role, content }))
+        ], settings, tenantId);
+        const chatRequest = applyModelPolicy({
+          model: payload.model || conversation.model || '',
+          messages,
+          ...(payload.options ? { options: payload.options } : {})
+        }, settings);
+        const provider = providerService.getProvider(settings, chatRequest.model);
+
+        log.info({
+          tenantId,
+          userId,
+          conversationId,
+          model: chatRequest.model,
+          historyLength: history.length
+        }, 'Conversation message received');
+
+        const quota = await enforceQuota(credentials);
+        const ticket = await acquireSlot(credentials, settings, provider);
+
+        let report: ContextReport | undefined;
+        let response: OllamaChatResponse;
+        try {
+          // The stored thread stays complete; only what is sent to the model is trimmed
+          const fitted = await fitContextWindow(chatRequest, settings, provider, credentials, payload.context);
+          report = fitted.report;
+
+          response = await provider.chat(fitted.request, tenantId);
+        } finally {
+          ticket?.release();
+        }
+
+        const assistantMessage: ConversationMessage = {
+          role: 'assistant',
+          content: response.message.content,
+          createdAt: new Date().toISOString(),
+          model: response.model
+        };
+        await conversationService.appendMessages(tenantId, userId, conversationId, [userMessage, assistantMessage]);
+
+        await recordUsage(credentials, response);
+
+        return withQueueHeaders(withQuotaHeaders(h.response({
+          conversation_id: conversationId,
+          model: response.model,
+          message: assistantMessage,
+          done_reason: response.done_reason,
+          prompt_eval_count: response.prompt_eval_count,
+          eval_count: response.eval_count,
+          total_duration: response.total_duration,
+          ...(report ? { context: report } : {}),
+          tenant_id: tenantId,
+          user_id: userId
+        }), quota), ticket);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Conversation message failed');
+        throw Boom.badImplementation('Failed to process conversation message');
+      }
+    }
+  }
+];
+
+export default conversationRoutes;
@@ -2,129 +2,1053 @@ import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
 import Boom from '@hapi/boom';
 import Joi from 'joi';
 import { Logger } from 'pino';
-import ollamaService, { OllamaChatRequest } from '../services/ollamaService';
+import ollamaService, {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse
+} from '../services/ollamaService';
+import providerService from '../services/providerService';
+import { LLMProvider } from '../services/llmProvider';
+import { OllamaBackendStatus } from '../services/ollamaPool';
+import tenantService from '../services/tenantService';
+import apiKeyService from '../services/apiKeyService';
+import requestQueue from '../services/requestQueue';
+import batchService, { MAX_BATCH_BYTES, MAX_BATCH_REQUESTS } from '../services/batchService';
 import logger from '../config/logger';
-import { AuthCredentials } from '../types';
+import { EventStream } from '../utils/eventStream';
+import { assertTenantAccess, jwtOrApiKey, tenantHeadersSchema } from '../utils/tenantContext';
+import { enforceQuota, withQuotaHeaders } from '../utils/quota';
+import { acquireSlot, withQueueHeaders } from '../utils/queue';
+import { chatChunkText, recordUsage, streamedUsage, tokensForChars, UsageMetrics } from '../utils/usage';
+import { applyModelPolicy, filterModels, resolveModel } from '../utils/modelPolicy';
+import { contextOverrideSchema, estimateTokens, fitContextWindow } from '../utils/contextWindow';
+import { applyPromptTemplate, promptTemplateRefSchema } from '../utils/promptTemplate';
+import { completeStructured, ResponseFormat, responseFormatSchema } from '../utils/structuredOutput';
+import { applyImagePolicy, MAX_IMAGE_PAYLOAD_BYTES } from '../utils/images';
+import { applyRetrieval, retrievalRefSchema } from '../utils/retrieval';
+import { operatorScope, scopeForRole } from '../utils/permissions';
+import {
+  planCache,
+  planSemanticCache,
+  readCache,
+  readSemanticCache,
+  withCacheHeader,
+  writeCache,
+  writeSemanticCache
+} from '../utils/responseCache';
+import {
+  AuthCredentials,
+  BatchJob,
+  Citation,
+  ContextReport,
+  ContextSettings,
+  PromptTemplateRef,
+  RetrievalRef,
+  TenantSettings
+} from '../types';
 
 const log: Logger = logger.child({ module: 'LLMRoutes' });
 
 // Validation schemas
+const generationOptionsSchema = Joi.object({
+  temperature: Joi.number().min(0).max(2).optional(),
+  top_p: Joi.number().min(0).max(1).optional(),
+  top_k: Joi.number().integer().min(1).optional(),
+  num_predict: Joi.number().integer().min(1).optional(),
+  stop: Joi.array().items(Joi.string()).optional()
+}).optional();
+
+const toolSchema = Joi.object({
+  type: Joi.string().valid('function').required(),
+  function: Joi.object({
+    name: Joi.string().pattern(/^[A-Za-z0-9_-]{1,64}$/).required(),
+    description: Joi.string().optional(),
+    parameters: Joi.object().unknown(true).optional().description('JSON schema of the arguments')
+  }).required()
+});
+
+const toolCallSchema = Joi.object({
+  function: Joi.object({
+    name: Joi.string().required(),
+    arguments: Joi.object().unknown(true).required()
+  }).unknown(true).required()
+}).unknown(true);
+
 const chatRequestSchema = Joi.object({
-  model: Joi.string().required().description('Model name (e.g., llama2, mistral, codellama)'),
+  model: Joi.string().optional().description('Model name (e.g., llama2, mistral, codellama); defaults to the tenant\'s default model'),
   messages: Joi.array().items(
     Joi.object({
-      role: Joi.string().valid('system', 'user', 'assistant').required(),
-      content: Joi.string().required()
+      role: Joi.string().valid('system', 'user', 'assistant', 'tool').required(),
+      content: Joi.string().when('tool_calls', { is: Joi.exist(), then: Joi.allow('') }).required(),
+      images: Joi.array().items(Joi.string()).optional()
+        .description('Base64-encoded (or data URL) PNG, JPEG, GIF or WebP images for vision models'),
+      tool_calls: Joi.when('role', {
+        is: 'assistant',
+        then: Joi.array().items(toolCallSchema).optional(),
+        otherwise: Joi.forbidden()
+      }).description('Calls the model asked for, sent back with their results'),
+      tool_name: Joi.when('role', {
+        is: 'tool',
+        then: Joi.string().optional(),
+        otherwise: Joi.forbidden()
+      }).description('Function whose result a tool message carries')
     })
-  ).min(1).required().description('Array of chat messages'),
+  ).min(1).when('template', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() })
+    .description('Array of chat messages; optional when a template is given'),
   stream: Joi.boolean().optional().default(false).description('Enable streaming response'),
-  options: Joi.object({
-    temperature: Joi.number().min(0).max(2).optional(),
-    top_p: Joi.number().min(0).max(1).optional(),
-    top_k: Joi.number().integer().min(1).optional(),
-    num_predict: Joi.number().integer().min(1).optional(),
-    stop: Joi.array().items(Joi.string()).optional()
-  }).optional()
+  tools: Joi.array().items(toolSchema).max(128).optional().description('Functions the model may call'),
+  options: generationOptionsSchema,
+  context: contextOverrideSchema,
+  template: promptTemplateRefSchema,
+  retrieval: retrievalRefSchema,
+  response_format: responseFormatSchema
+});
+
+// Reply of a non-streamed chat. Hapi cannot validate streamed responses, so the handler checks it
+const chatResponseSchema = Joi.object({
+  model: Joi.string(),
+  message: Joi.object({
+    role: Joi.string(),
+    content: Joi.string().allow(''),
+    images: Joi.array().items(Joi.string()).optional(),
+    tool_calls: Joi.array().items(toolCallSchema).optional()
+  }),
+  created_at: Joi.string(),
+  done: Joi.boolean(),
+  done_reason: Joi.string().optional(),
+  total_duration: Joi.number().optional(),
+  load_duration: Joi.number().optional(),
+  prompt_eval_count: Joi.number().optional(),
+  prompt_eval_duration: Joi.number().optional(),
+  eval_count: Joi.number().optional(),
+  eval_duration: Joi.number().optional(),
+  parsed: Joi.any().optional(),
+  repairs: Joi.number().optional(),
+  context: Joi.object().unknown(true).optional(),
+  citations: Joi.array().items(Joi.object().unknown(true)).optional(),
+  tenant_id: Joi.string(),
+  user_id: Joi.string()
+});
+
+// Form fields of the multipart chat route; files are Buffers
+const chatUploadSchema = Joi.object({
+  request: Joi.alternatives().try(Joi.string(), Joi.object()).required()
+    .description('Chat request as JSON, as for /api/llm/chat')
+}).pattern(
+  /^images(\.\d+)?$/,
+  Joi.alternatives().try(Joi.binary(), Joi.array().items(Joi.binary()))
+);
+
+const generateRequestSchema = Joi.object({
+  model: Joi.string().optional().description('Model name (e.g., codellama); defaults to the tenant\'s default model'),
+  prompt: Joi.string().allow('').required().description('Prompt to complete'),
+  suffix: Joi.string().optional().description('Text after the completion, for fill-in-the-middle'),
+  system: Joi.string().optional().description('System prompt; overrides the one in the Modelfile'),
+  template: Joi.string().optional().description('Prompt template; overrides the one in the Modelfile'),
+  raw: Joi.boolean().optional().description('Send the prompt as-is, without applying a template'),
+  format: Joi.alternatives().try(
+    Joi.string().valid('json'),
+    Joi.object().unknown(true)
+  ).optional().description('"json" or a JSON schema the response must follow'),
+  stream: Joi.boolean().optional().default(false).description('Enable streaming response'),
+  options: generationOptionsSchema
+});
+
+const embeddingsRequestSchema = Joi.object({
+  model: Joi.string().optional().description('Embedding model (e.g., nomic-embed-text); defaults to the tenant\'s default model'),
+  input: Joi.alternatives().try(
+    Joi.string(),
+    Joi.array().items(Joi.string()).min(1).max(512)
+  ).required().description('Text or list of texts to embed'),
+  truncate: Joi.boolean().optional().description('Truncate inputs that exceed the model\'s context (default true)')
+});
+
+// One request per line of a batch: a chat request as for /api/llm/chat, without streaming
+const batchRequestSchema = chatRequestSchema.keys({
+  custom_id: Joi.string().max(64).optional().description('ID of your choosing, echoed in the request\'s result'),
+  stream: Joi.boolean().valid(false).optional().default(false)
 });
 
+const batchParamsSchema = Joi.object({
+  batchId: Joi.string().uuid().required()
+});
+
+const batchListQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).optional().default(20)
+});
+
+// Relay chunks from the provider to the client, then a summary event carrying the token counts
+// and any `summary` fields. The call is billed however the stream ends: a client abort or a
+// provider error still charges the prompt and whatever was relayed, estimated where the
+// provider sent no counts.
+const streamResponse = <T extends UsageMetrics & { done: boolean }>(
+  request: Request,
+  h: ResponseToolkit,
+  credentials: AuthCredentials,
+  model: string,
+  relay: (onChunk: (chunk: T) => void, signal: AbortSignal) => Promise<void>,
+  estimate: { promptTokens: number; text: (chunk: T) => string },
+  summary: Record<string, unknown> = {},
+  onFinish?: () => void
+) => {
+  const events = new EventStream(request);
+  const { tenantId } = credentials;
+  const userId = credentials.user.userId;
+  let finalChunk: T | null = null;
+  let streamedChars = 0;
+
+  log.info({ tenantId, userId, model, format: events.format }, 'Streaming LLM response started');
+
+  relay((chunk) => {
+    events.send(chunk);
+    streamedChars += estimate.text(chunk).length;
+    if (chunk.done) {
+      finalChunk = chunk;
+    }
+  }, events.signal)
+    .then(() => {
+      if (!finalChunk) {
+        log.info({ tenantId, userId }, 'Streaming LLM response ended before completion');
+        return;
+      }
+
+      const usage = streamedUsage(model, estimate.promptTokens, streamedChars, finalChunk);
+      const promptTokens = usage.prompt_eval_count || 0;
+      const completionTokens = usage.eval_count || 0;
+
+      events.event('summary', {
+        model: usage.model,
+        done: true,
+        prompt_eval_count: promptTokens,
+        eval_count: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+        total_duration: usage.total_duration,
+        ...summary,
+        tenant_id: tenantId,
+        user_id: userId
+      });
+
+      log.info({ tenantId, userId, model: usage.model, eval_count: completionTokens }, 'Streaming LLM response completed');
+    })
+    .catch((error) => {
+      log.error({
+        tenantId,
+        userId,
+        error: error instanceof Error ? error.message : error
+      }, 'Streaming LLM response failed');
+
+      events.event('error', { message: 'Failed to process request' });
+    })
+    .finally(async () => {
+      // Nothing reached the model's output, e.g. the backend was unreachable
+      if (finalChunk || streamedChars > 0) {
+        await recordUsage(credentials, streamedUsage(model, estimate.promptTokens, streamedChars, finalChunk));
+      }
+      events.end();
+      onFinish?.();
+    });
+
+  return events.toResponse(h);
+};
+
+type ChatPayload = OllamaChatRequest & {
+  context?: ContextSettings;
+  template?: PromptTemplateRef;
+  retrieval?: RetrievalRef;
+  response_format?: ResponseFormat;
+};
+
+// Chat response body as cached, without the tenant and user fields
+type CachedReply = Record<string, unknown> & { model: string };
+
+// Respond with a non-streamed chat reply once it matches chatResponseSchema
+const chatReply = (h: ResponseToolkit, reply: Record<string, unknown>) => {
+  const { error } = chatResponseSchema.validate(reply);
+  if (error) {
+    throw Boom.badImplementation(`Chat response failed validation: ${error.message}`);
+  }
+  return h.response(reply);
+};
+
+// Turn the multipart form into a chat request, with the files as base64 images
+const parseChatUpload = (form: Record<string, unknown>): ChatPayload => {
+  let json = form.request;
+  if (typeof json === 'string') {
+    try {
+      json = JSON.parse(json);
+    } catch (error) {
+      throw Boom.badRequest('"request" must be a JSON chat request');
+    }
+  }
+
+  const { value, error } = chatRequestSchema.validate(json);
+  if (error) {
+    throw Boom.badRequest(error.message);
+  }
+
+  const body = value as ChatPayload;
+  const messages = [...(body.messages || [])];
+  let lastUser = -1;
+  messages.forEach((message, index) => {
+    if (message.role === 'user') {
+      lastUser = index;
+    }
+  });
+
+  for (const [field, files] of Object.entries(form)) {
+    if (field === 'request') {
+      continue;
+    }
+
+    const index = field === 'images' ? lastUser : Number(field.slice('images.'.length));
+    if (!messages[index]) {
+      throw Boom.badRequest(`"${field}" does not refer to a message`);
+    }
+
+    const images = (Array.isArray(files) ? files : [files]).map((file: Buffer) => file.toString('base64'));
+    messages[index] = { ...messages[index], images: [...(messages[index].images || []), ...images] };
+  }
+
+  return { ...body, messages };
+};
+
+// Ask the provider for a whole reply, validated against the response format when one is given.
+// Every call is charged as it is made; the context report is added when history was trimmed.
+const completeChat = async (
+  provider: LLMProvider,
+  fitted: { request: OllamaChatRequest; report?: ContextReport },
+  credentials: AuthCredentials,
+  responseFormat?: ResponseFormat
+): Promise<Record<string, unknown>> => {
+  // Validated JSON replies; each attempt is charged as it happens
+  if (responseFormat) {
+    const structured = await completeStructured(provider, fitted.request, credentials, responseFormat);
+
+    log.info({
+      tenantId: credentials.tenantId,
+      userId: credentials.user.userId,
+      model: structured.response.model,
+      repairs: structured.repairs
+    }, 'LLM structured chat response returned');
+
+    return {
+      ...structured.response,
+      parsed: structured.parsed,
+      repairs: structured.repairs,
+      ...(fitted.report ? { context: fitted.report } : {})
+    };
+  }
+
+  const response = await provider.chat(fitted.request, credentials.tenantId);
+
+  await recordUsage(credentials, response);
+
+  log.info({ 
+    tenantId: credentials.tenantId,
+    userId: credentials.user.userId,
+    model: response.model,
+    done: response.done,
+    toolCalls: response.message.tool_calls?.length
+  }, 'LLM chat response returned');
+
+  return {
+    ...response,
+    ...(fitted.report ? { context: fitted.report } : {})
+  };
+};
+
+// Shared by the JSON and multipart chat routes; the routes handle errors
+const chat = async (request: Request, h: ResponseToolkit, credentials: AuthCredentials, body: ChatPayload) => {
+  // Resolve the model and cap options according to the tenant's settings
+  const settings = await tenantService.getTenantSettings(credentials.tenantId);
+  const { context, template, retrieval, response_format: responseFormat, ...payload } = body;
+  if (responseFormat && payload.stream) {
+    throw Boom.badRequest('"response_format" cannot be combined with "stream"');
+  }
+  if (responseFormat && payload.tools) {
+    throw Boom.badRequest('"response_format" cannot be combined with "tools"');
+  }
+
+  // Check the images, then render the requested (or the tenant's default) prompt template into the messages
+  const checked = applyImagePolicy(payload.messages || [], settings);
+  const messages = await applyPromptTemplate(checked, settings, credentials.tenantId, template);
+  let chatRequest = applyModelPolicy({ ...payload, messages }, settings);
+  const provider = providerService.getProvider(settings, chatRequest.model);
+
+  log.info({ 
+    userId: credentials.user.userId, 
+    tenantId: credentials.tenantId,
+    model: chatRequest.model,
+    provider: provider.name,
+    tools: chatRequest.tools?.length,
+    collection: retrieval?.collection
+  }, 'LLM chat request received');
+
+  // Reject before reaching the provider when the tenant or user is over quota
+  const quota = await enforceQuota(credentials);
+
+  // Put the collection's most relevant chunks in front of the question; they are returned as citations
+  let citations: Citation[] | undefined;
+  if (retrieval) {
+    const retrieved = await applyRetrieval(credentials, settings, chatRequest.messages, retrieval);
+    chatRequest = { ...chatRequest, messages: retrieved.messages };
+    citations = retrieved.citations;
+  }
+
+  // Repeated deterministic chats are answered from the tenant's cache and charged no tokens;
+  // failing that, so may chats whose final user message is close to one answered before
+  const cache = planCache(request, settings, credentials.tenantId, chatRequest, { context, response_format: responseFormat });
+  const semantic = planSemanticCache(request, settings, credentials.tenantId, chatRequest, Boolean(responseFormat || retrieval));
+  let cached: { reply: CachedReply; similarity?: number } | null = null;
+  if (cache) {
+    const reply = await readCache<CachedReply>(credentials.tenantId, cache);
+    cached = reply ? { reply } : null;
+  }
+  if (!cached && semantic) {
+    cached = await readSemanticCache<CachedReply>(credentials, settings, semantic);
+  }
+
+  if (cached) {
+    await recordUsage(credentials, { model: cached.reply.model });
+
+    log.info({
+      tenantId: credentials.tenantId,
+      userId: credentials.user.userId,
+      model: cached.reply.model,
+      similarity: cached.similarity
+    }, 'LLM chat response returned from cache');
+
+    return withCacheHeader(withQuotaHeaders(chatReply(h, {
+      ...cached.reply,
+      tenant_id: credentials.tenantId,
+      user_id: credentials.user.userId
+    }), quota), true, true, cached.similarity);
+  }
+
+  // Wait for a turn at the Ollama backends; the slot is held until the reply is complete
+  const ticket = await acquireSlot(credentials, settings, provider);
+  let streaming = false;
+  let reply: Record<string, unknown>;
+
+  try {
+    // Trim history that would not fit the model's context window
+    const fitted = await fitContextWindow(chatRequest, settings, provider, credentials, context);
+
+    // Relay chunks to the client as they arrive from the provider
+    if (chatRequest.stream) {
+      streaming = true;
+      return withQueueHeaders(withQuotaHeaders(
+        streamResponse<OllamaChatResponse>(
+          request,
+          h,
+          credentials,
+          fitted.request.model,
+          (onChunk, signal) => provider.streamChat(fitted.request, credentials.tenantId, onChunk, signal),
+          { promptTokens: estimateTokens(fitted.request.messages), text: chatChunkText },
+          {
+            ...(fitted.report ? { context: fitted.report } : {}),
+            ...(citations ? { citations } : {})
+          },
+          () => ticket?.release()
+        ),
+        quota
+      ), ticket);
+    }
+
+    reply = await completeChat(provider, fitted, credentials, responseFormat);
+    if (citations) {
+      reply = { ...reply, citations };
+    }
+  } finally {
+    // Streams give the slot back when they end
+    if (!streaming) {
+      ticket?.release();
+    }
+  }
+
+  if (cache) {
+    await writeCache(credentials.tenantId, cache, reply);
+  }
+  if (semantic) {
+    await writeSemanticCache(credentials.tenantId, semantic, reply);
+  }
+
+  // Add tenant and user context to response
+  return withQueueHeaders(withCacheHeader(withQuotaHeaders(chatReply(h, {
+    ...reply,
+    tenant_id: credentials.tenantId,
+    user_id: credentials.user.userId
+  }), quota), Boolean(cache || semantic), false), ticket);
+};
+
+type BatchLine = ChatPayload & { custom_id?: string };
+
+// Parse and check every line of a JSONL batch up front, so a bad line rejects the whole batch
+const parseBatch = (payload: Buffer, settings: TenantSettings): BatchLine[] => {
+  const lines: BatchLine[] = [];
+
+  payload.toString('utf8').split('\n').forEach((text, index) => {
+    if (!text.trim()) {
+      return;
+    }
+
+    const lineNumber = index + 1;
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch (error) {
+        throw Boom.badRequest('not valid JSON');
+      }
+
+      const { value, error } = batchRequestSchema.validate(json);
+      if (error) {
+        throw Boom.badRequest(error.message);
+      }
+
+      const line = value as BatchLine;
+      if (line.response_format && line.tools) {
+        throw Boom.badRequest('"response_format" cannot be combined with "tools"');
+      }
+
+      lines.push(applyModelPolicy({ ...line, messages: applyImagePolicy(line.messages || [], settings) }, settings));
+    } catch (error) {
+      if (Boom.isBoom(error)) {
+        throw new Boom.Boom(`Line ${lineNumber}: ${error.message}`, { statusCode: error.output.statusCode });
+      }
+      throw error;
+    }
+  });
+
+  if (lines.length === 0) {
+    throw Boom.badRequest('The batch has no requests');
+  }
+  if (lines.length > MAX_BATCH_REQUESTS) {
+    throw Boom.badRequest(`A batch may hold at most ${MAX_BATCH_REQUESTS} requests`);
+  }
+
+  return lines;
+};
+
+// The batch's submitter and tenant settings as they stand now. A batch outlives the request that
+// queued it, so its remaining requests fail once the tenant, user or API key is gone or disabled, or
+// may no longer run batches, and pick up changes to the tenant's settings.
+const reloadBatchCaller = async (
+  submitted: AuthCredentials
+): Promise<{ credentials: AuthCredentials; settings: TenantSettings }> => {
+  const { tenantId } = submitted;
+  const tenant = await tenantService.getTenant(tenantId);
+  if (!tenant || tenant.status !== 'active') {
+    throw Boom.unauthorized('The tenant is no longer active');
+  }
+  const settings = tenant.settings || {};
+
+  let credentials: AuthCredentials;
+  if (submitted.apiKeyId) {
+    const apiKey = await apiKeyService.getKey(tenantId, submitted.apiKeyId);
+    if (!apiKey || (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date())) {
+      throw Boom.unauthorized('The API key has been revoked or has expired');
+    }
+    credentials = { ...submitted, scope: apiKey.scopes };
+  } else {
+    const user = await tenantService.getUser(tenantId, submitted.user.userId);
+    if (!user || user.status !== 'active') {
+      throw Boom.unauthorized('The user no longer exists or is inactive');
+    }
+    credentials = { ...submitted, user, scope: [...scopeForRole(user.role, settings), ...operatorScope(user.role, tenantId)] };
+  }
+
+  if (!credentials.scope.includes('llm:batches')) {
+    throw Boom.forbidden('The submitter may no longer run batches');
+  }
+  return { credentials, settings };
+};
+
+// Answer one request of a batch like a non-streamed chat, waiting in the same queue as interactive requests
+const runBatchRequest = async (
+  submitted: AuthCredentials,
+  line: BatchLine
+): Promise<Record<string, unknown>> => {
+  const { credentials, settings } = await reloadBatchCaller(submitted);
+  // Checked on submission too, so that a batch is refused up front rather than line by line
+  const { custom_id: _customId, context, template, retrieval, response_format: responseFormat, ...payload } = applyModelPolicy(
+    { ...line, messages: applyImagePolicy(line.messages || [], settings) },
+    settings
+  );
+
+  // Each request counts against the caller's quotas like an interactive chat; a 429 becomes the line's error
+  await enforceQuota(credentials);
+
+  let messages = await applyPromptTemplate(payload.messages, settings, credentials.tenantId, template);
+  let citations: Citation[] | undefined;
+  if (retrieval) {
+    ({ messages, citations } = await applyRetrieval(credentials, settings, messages, retrieval));
+  }
+
+  const chatRequest = { ...payload, messages };
+  const provider = providerService.getProvider(settings, chatRequest.model);
+
+  const ticket = await acquireSlot(credentials, settings, provider);
+  try {
+    const fitted = await fitContextWindow(chatRequest, settings, provider, credentials, context);
+    const reply = await completeChat(provider, fitted, credentials, responseFormat);
+    return citations ? { ...reply, citations } : reply;
+  } finally {
+    ticket?.release();
+  }
+};
+
+// Users see their own batches; with llm:batches:manage, all of the tenant's
+const canSeeBatch = (credentials: AuthCredentials, job: BatchJob): boolean => {
+  return job.userId === credentials.user.userId || credentials.scope.includes('llm:batches:manage');
+};
+
+// Refresh every backend: healthy when all are up, degraded while only some are
+const checkBackends = async (): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; backends: OllamaBackendStatus[] }> => {
+  const available = await ollamaService.checkHealth();
+  const backends = ollamaService.getBackendStatus();
+  if (!available) {
+    return { status: 'unhealthy', backends };
+  }
+  return { status: backends.every((backend) => backend.healthy) ? 'healthy' : 'degraded', backends };
+};
+
 const llmRoutes: ServerRoute[] = [
   {
     method: 'POST',
     path: '/api/llm/chat',
     options: {
-      auth: 'jwt',
+      auth: jwtOrApiKey('llm:chat'),
+      // JSON bodies keep hapi's 1 MB limit; larger images go through /api/llm/chat/upload
       validate: {
         payload: chatRequestSchema,
-        headers: Joi.object({
-          'x-tenant-id': Joi.string().uuid().required(),
-          authorization: Joi.string().required()
-        }).unknown()
+        headers: tenantHeadersSchema
       },
       description: 'Chat with LLM (Ollama wrapper)',
-      notes: 'Sends chat messages to Ollama and returns the response. Requires authentication and tenant ID in header.',
-      tags: ['api', 'llm'],
-      response: {
-        schema: Joi.object({
-          model: Joi.string(),
-          message: Joi.object({
-            role: Joi.string(),
-            content: Joi.string()
-          }),
-          created_at: Joi.string(),
-          done: Joi.boolean(),
-          total_duration: Joi.number().optional(),
-          load_duration: Joi.number().optional(),
-          prompt_eval_count: Joi.number().optional(),
-          prompt_eval_duration: Joi.number().optional(),
-          eval_count: Joi.number().optional(),
-          eval_duration: Joi.number().optional(),
-          tenant_id: Joi.string(),
-          user_id: Joi.string()
-        })
+      notes: 'Sends chat messages to Ollama and returns the response. With stream: true the reply is relayed as server-sent events (or NDJSON when Accept is application/x-ndjson) followed by a summary event. A "template" is rendered in front of "messages". Messages may carry base64 "images" for vision models, within the 1 MB body limit (upload larger ones to /api/llm/chat/upload). With "tools" the model may answer with "message.tool_calls"; run them and send the results back as "tool" messages. With "response_format" the reply must be JSON matching the given schema; it is returned parsed in "parsed" or rejected with 422. History that does not fit the model\'s context window is trimmed and reported in "context". With the tenant\'s response cache enabled, non-streamed chats at temperature 0 may be answered from the cache, and with the semantic cache chats whose final user message is similar to an earlier one after the same preceding messages (see the X-Cache header; Cache-Control: no-cache skips it). Requires authentication and tenant ID in header.',
+      // Streamed replies cannot be validated by hapi, so the handler checks non-streamed ones against chatResponseSchema
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        // Verify tenant ID matches the authenticated user's tenant
+        const credentials = assertTenantAccess(request, log);
+
+        return await chat(request, h, credentials, request.payload as ChatPayload);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        
+        log.error({ 
+          error: error instanceof Error ? error.message : error 
+        }, 'LLM chat request failed');
+        
+        throw Boom.badImplementation('Failed to process chat request');
       }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/llm/chat/upload',
+    options: {
+      auth: jwtOrApiKey('llm:chat'),
+      payload: {
+        output: 'data',
+        parse: true,
+        multipart: { output: 'data' },
+        allow: 'multipart/form-data',
+        maxBytes: MAX_IMAGE_PAYLOAD_BYTES
+      },
+      validate: {
+        payload: chatUploadSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Chat with LLM, uploading images as multipart form data',
+      notes: `The "request" field holds the same JSON body as /api/llm/chat. Files in "images" are attached to the last user message, files in "images.<n>" to message n. The body may be up to ${MAX_IMAGE_PAYLOAD_BYTES / (1024 * 1024)} MB. Requires authentication and tenant ID in header.`,
+      tags: ['api', 'llm']
     },
-    handler: async (request: Request) => {
+    handler: async (request: Request, h: ResponseToolkit) => {
       try {
-        const credentials = request.auth.credentials as any as AuthCredentials;
-        const headerTenantId = request.headers['x-tenant-id'];
-        const chatRequest = request.payload as OllamaChatRequest;
+        const credentials = assertTenantAccess(request, log);
 
-        log.info({ 
-          userId: credentials.user.userId, 
-          credentialsTenantId: credentials.tenantId,
-          headerTenantId,
-          model: chatRequest.model 
-        }, 'LLM chat request received');
+        return await chat(request, h, credentials, parseChatUpload(request.payload as Record<string, unknown>));
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
 
-        // Verify tenant ID matches the authenticated user's tenant
-        if (headerTenantId !== credentials.tenantId) {
-          log.warn({ 
-            userId: credentials.user.userId,
-            credentialsTenantId: credentials.tenantId,
-            headerTenantId 
-          }, 'Tenant ID mismatch');
-          
-          throw Boom.forbidden('Tenant ID does not match authenticated user');
-        }
-
-        // Check if streaming is requested
-        if (chatRequest.stream) {
-          log.info({ 
-            tenantId: credentials.tenantId,
-            userId: credentials.user.userId 
-          }, 'Streaming not yet implemented, falling back to non-streaming');
-          
-          // For now, we'll just set stream to false
-          // TODO: Implement proper streaming support
-          chatRequest.stream = false;
-        }
-
-        // Call Ollama service
-        const response = await ollamaService.chat(chatRequest, credentials.tenantId);
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'LLM chat upload request failed');
 
-        log.info({ 
+        throw Boom.badImplementation('Failed to process chat request');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/llm/generate',
+    options: {
+      auth: jwtOrApiKey('llm:generate'),
+      validate: {
+        payload: generateRequestSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Complete a raw prompt (Ollama /api/generate wrapper)',
+      notes: 'Plain prompt completion for workloads such as code infill (prompt plus suffix) or classification. Streams like /api/llm/chat with stream: true. Only available for Ollama models. Requires authentication and tenant ID in header.',
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        const generateRequest = applyModelPolicy(request.payload as OllamaGenerateRequest, settings);
+        const provider = providerService.getProvider(settings, generateRequest.model);
+        if (!provider.generate || !provider.streamGenerate) {
+          throw Boom.badRequest(`Provider "${provider.name}" does not support raw completion`);
+        }
+
+        log.info({
+          userId: credentials.user.userId,
+          tenantId: credentials.tenantId,
+          model: generateRequest.model,
+          raw: generateRequest.raw
+        }, 'LLM generate request received');
+
+        const quota = await enforceQuota(credentials);
+        const ticket = await acquireSlot(credentials, settings, provider);
+
+        if (generateRequest.stream) {
+          return withQueueHeaders(withQuotaHeaders(
+            streamResponse<OllamaGenerateResponse>(
+              request,
+              h,
+              credentials,
+              generateRequest.model,
+              (onChunk, signal) => provider.streamGenerate!(generateRequest, credentials.tenantId, onChunk, signal),
+              {
+                promptTokens: tokensForChars(
+                  generateRequest.prompt.length + (generateRequest.system || '').length + (generateRequest.suffix || '').length
+                ),
+                text: (chunk) => chunk.response
+              },
+              {},
+              () => ticket?.release()
+            ),
+            quota
+          ), ticket);
+        }
+
+        let response: OllamaGenerateResponse;
+        try {
+          response = await provider.generate(generateRequest, credentials.tenantId);
+        } finally {
+          ticket?.release();
+        }
+
+        await recordUsage(credentials, response);
+
+        log.info({
           tenantId: credentials.tenantId,
           userId: credentials.user.userId,
           model: response.model,
           done: response.done
-        }, 'LLM chat response returned');
+        }, 'LLM generate response returned');
 
-        // Add tenant and user context to response
-        return {
+        return withQueueHeaders(withQuotaHeaders(h.response({
           ...response,
           tenant_id: credentials.tenantId,
           user_id: credentials.user.userId
-        };
+        }), quota), ticket);
       } catch (error) {
         if (Boom.isBoom(error)) {
           throw error;
         }
-        
-        log.error({ 
-          error: error instanceof Error ? error.message : error 
-        }, 'LLM chat request failed');
-        
-        throw Boom.badImplementation('Failed to process chat request');
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'LLM generate request failed');
+
+        throw Boom.badImplementation('Failed to process generate request');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/llm/embeddings',
+    options: {
+      auth: jwtOrApiKey('llm:embeddings'),
+      validate: {
+        payload: embeddingsRequestSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Create embeddings (Ollama /api/embed wrapper)',
+      notes: 'Returns one vector per input, in input order, and their dimensions. Counts towards the same quotas and usage as chat. Requires authentication and tenant ID in header.',
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const payload = request.payload as Omit<OllamaEmbedRequest, 'model'> & { model?: string };
+
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        const model = resolveModel(payload.model, settings);
+        const provider = providerService.getProvider(settings, model);
+        if (!provider.embed) {
+          throw Boom.badRequest(`Provider "${provider.name}" does not support embeddings`);
+        }
+
+        log.info({
+          userId: credentials.user.userId,
+          tenantId: credentials.tenantId,
+          model,
+          provider: provider.name,
+          inputCount: Array.isArray(payload.input) ? payload.input.length : 1
+        }, 'Embeddings request received');
+
+        const quota = await enforceQuota(credentials);
+        const ticket = await acquireSlot(credentials, settings, provider);
+
+        let response: OllamaEmbedResponse;
+        try {
+          response = await provider.embed({ ...payload, model }, credentials.tenantId);
+        } finally {
+          ticket?.release();
+        }
+
+        await recordUsage(credentials, response);
+
+        return withQueueHeaders(withQuotaHeaders(h.response({
+          model: response.model,
+          embeddings: response.embeddings,
+          dimensions: response.embeddings[0]?.length || 0,
+          prompt_eval_count: response.prompt_eval_count,
+          total_duration: response.total_duration,
+          tenant_id: credentials.tenantId,
+          user_id: credentials.user.userId
+        }), quota), ticket);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'Embeddings request failed');
+
+        throw Boom.badImplementation('Failed to create embeddings');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/llm/batches',
+    options: {
+      auth: jwtOrApiKey('llm:batches'),
+      payload: {
+        output: 'data',
+        parse: false,
+        maxBytes: MAX_BATCH_BYTES
+      },
+      validate: {
+        headers: tenantHeadersSchema
+      },
+      description: 'Submit a batch of chat requests to run in the background',
+      notes: `The body is JSONL: one chat request per line, as for /api/llm/chat without streaming, with an optional "custom_id". At most ${MAX_BATCH_REQUESTS} requests. Returns 202 with the batch to poll at /api/llm/batches/{batchId}. Each request is checked against the caller's quotas as it runs (a request over quota fails with 429) and charged to usage as it is answered. Requires authentication and tenant ID in header.`,
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        const lines = parseBatch((request.payload as Buffer) || Buffer.alloc(0), settings);
+
+        // Refuse the batch up front when the caller is already over quota; each request is checked again as it runs
+        const quota = await enforceQuota(credentials);
+
+        const { job } = await batchService.submit(
+          credentials.tenantId,
+          credentials.user.userId,
+          lines,
+          (line) => runBatchRequest(credentials, line)
+        );
+
+        log.info({
+          tenantId: credentials.tenantId,
+          userId: credentials.user.userId,
+          batchId: job.batchId,
+          total: job.total
+        }, 'LLM batch submitted');
+
+        return withQuotaHeaders(h.response(job).code(202), quota);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'LLM batch submission failed');
+
+        throw Boom.badImplementation('Failed to submit batch');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/llm/batches',
+    options: {
+      auth: jwtOrApiKey('llm:batches'),
+      validate: {
+        query: batchListQuerySchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'List batches, newest first',
+      notes: 'Users see their own batches; with the llm:batches:manage permission, all of the tenant\'s. Batches are kept for a week. Requires authentication and tenant ID in header.',
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { limit } = request.query as { limit: number };
+
+        const userId = credentials.scope.includes('llm:batches:manage') ? undefined : credentials.user.userId;
+        const batches = await batchService.listJobs(credentials.tenantId, limit, userId);
+
+        return { batches };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'List LLM batches failed');
+
+        throw Boom.badImplementation('Failed to list batches');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/llm/batches/{batchId}',
+    options: {
+      auth: jwtOrApiKey('llm:batches'),
+      validate: {
+        params: batchParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Get the status and progress of a batch',
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { batchId } = request.params as { batchId: string };
+
+        const job = await batchService.getJob(credentials.tenantId, batchId);
+        if (!job || !canSeeBatch(credentials, job)) {
+          throw Boom.notFound('Batch not found');
+        }
+
+        return job;
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'Get LLM batch failed');
+
+        throw Boom.badImplementation('Failed to get batch');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/llm/batches/{batchId}/results',
+    options: {
+      auth: jwtOrApiKey('llm:batches'),
+      validate: {
+        params: batchParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Download the results of a batch as JSONL',
+      notes: 'One line per answered request, in request order, holding either "response" or "error". Available while the batch runs, with the results so far.',
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { batchId } = request.params as { batchId: string };
+
+        const job = await batchService.getJob(credentials.tenantId, batchId);
+        if (!job || !canSeeBatch(credentials, job)) {
+          throw Boom.notFound('Batch not found');
+        }
+
+        const results = await batchService.getResults(batchId);
+        const body = results.map((result) => JSON.stringify(result) + '\n').join('');
+
+        return h.response(body)
+          .type('application/x-ndjson')
+          .header('Content-Disposition', `attachment; filename="batch-${batchId}.jsonl"`);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'Get LLM batch results failed');
+
+        throw Boom.badImplementation('Failed to get batch results');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/llm/batches/{batchId}/cancel',
+    options: {
+      auth: jwtOrApiKey('llm:batches'),
+      validate: {
+        params: batchParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Cancel a running batch',
+      notes: 'Requests already sent to the model finish and keep their results; the rest are not run. Answers 409 when the batch has already finished.',
+      tags: ['api', 'llm']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { batchId } = request.params as { batchId: string };
+
+        const job = await batchService.getJob(credentials.tenantId, batchId);
+        if (!job || !canSeeBatch(credentials, job)) {
+          throw Boom.notFound('Batch not found');
+        }
+        if (job.status !== 'running') {
+          throw Boom.conflict(`Batch is already ${job.status}`);
+        }
+
+        return await batchService.cancel(credentials.tenantId, batchId);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'Cancel LLM batch failed');
+
+        throw Boom.badImplementation('Failed to cancel batch');
       }
     }
   },
@@ -132,39 +1056,31 @@ const llmRoutes: ServerRoute[] = [
     method: 'GET',
     path: '/api/llm/models',
     options: {
-      auth: 'jwt',
+      auth: jwtOrApiKey('llm:models'),
       validate: {
-        headers: Joi.object({
-          'x-tenant-id': Joi.string().uuid().required(),
-          authorization: Joi.string().required()
-        }).unknown()
+        headers: tenantHeadersSchema
       },
       description: 'List available LLM models',
-      notes: 'Returns list of available models from Ollama',
+      notes: 'Returns the Ollama and tenant provider models (as provider/model) the tenant is allowed to use',
       tags: ['api', 'llm']
     },
     handler: async (request: Request, _h: ResponseToolkit) => {
       try {
-        const credentials = request.auth.credentials as any as AuthCredentials;
-        const headerTenantId = request.headers['x-tenant-id'];
+        // Verify tenant ID matches
+        const credentials = assertTenantAccess(request, log);
 
         log.info({ 
           userId: credentials.user.userId,
           tenantId: credentials.tenantId 
         }, 'List models request received');
 
-        // Verify tenant ID matches
-        if (headerTenantId !== credentials.tenantId) {
-          log.warn({ 
-            userId: credentials.user.userId,
-            credentialsTenantId: credentials.tenantId,
-            headerTenantId 
-          }, 'Tenant ID mismatch');
-          
-          throw Boom.forbidden('Tenant ID does not match authenticated user');
-        }
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        const available = await providerService.listModels(settings);
 
-        const models = await ollamaService.listModels();
+        // Only show the models the tenant is entitled to
+        const models = {
+          models: filterModels(available, settings)
+        };
 
         log.info({ 
           tenantId: credentials.tenantId,
@@ -194,26 +1110,18 @@ const llmRoutes: ServerRoute[] = [
     options: {
       auth: false,
       description: 'Check Ollama service health',
-      notes: 'Returns health status of Ollama service',
+      notes: 'Healthy when every Ollama backend responds, degraded while only some do and unhealthy (503) when none does. Backend details are at /api/llm/health/details.',
       tags: ['api', 'llm', 'health']
     },
     handler: async (_request: Request, h: ResponseToolkit) => {
       try {
-        const isHealthy = await ollamaService.checkHealth();
-
-        if (isHealthy) {
-          return {
-            status: 'healthy',
-            service: 'ollama',
-            timestamp: new Date().toISOString()
-          };
-        } else {
-          return h.response({
-            status: 'unhealthy',
-            service: 'ollama',
-            timestamp: new Date().toISOString()
-          }).code(503);
-        }
+        const { status } = await checkBackends();
+
+        return h.response({
+          status,
+          service: 'ollama',
+          timestamp: new Date().toISOString()
+        }).code(status === 'unhealthy' ? 503 : 200);
       } catch (error) {
         log.error({ 
           error: error instanceof Error ? error.message : error 
@@ -227,6 +1135,35 @@ const llmRoutes: ServerRoute[] = [
         }).code(503);
       }
     }
+  },
+  {
+    method: 'GET',
+    path: '/api/llm/health/details',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:backends:read']
+      },
+      description: 'Get the status of every Ollama backend and the request queue (requires llm:backends:read)',
+      notes: 'The backends and the queue are shared by every tenant, so only operators can see them',
+      tags: ['api', 'llm', 'health']
+    },
+    handler: async (_request: Request, h: ResponseToolkit) => {
+      try {
+        const { status, backends } = await checkBackends();
+
+        return h.response({
+          status,
+          service: 'ollama',
+          backends,
+          queue: requestQueue.getStatus(),
+          timestamp: new Date().toISOString()
+        }).code(status === 'unhealthy' ? 503 : 200);
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Ollama health details error');
+        throw Boom.badImplementation('Failed to check Ollama backends');
+      }
+    }
   }
 ];
 
@@ -0,0 +1,269 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import ollamaService from '../services/ollamaService';
+import modelAdminService from '../services/modelAdminService';
+import logger from '../config/logger';
+import { EventStream } from '../utils/eventStream';
+import { getCredentials } from '../utils/tenantContext';
+
+const log: Logger = logger.child({ module: 'ModelRoutes' });
+
+// Validation schemas
+// Ollama model names: optional namespace/registry, name and tag, e.g. "hf.co/org/model:Q4_K_M"
+const modelNameSchema = Joi.string().pattern(/^[A-Za-z0-9][A-Za-z0-9._:/-]*$/).max(200);
+
+const modelParamsSchema = Joi.object({
+  model: modelNameSchema.required()
+});
+
+const pullSchema = Joi.object({
+  model: modelNameSchema.required().description('Model to pull, e.g. llama3.1:8b'),
+  insecure: Joi.boolean().optional().description('Allow pulling from a registry without TLS'),
+  stream: Joi.boolean().optional().default(false).description('Relay the progress as events until the pull ends')
+});
+
+const copySchema = Joi.object({
+  source: modelNameSchema.required(),
+  destination: modelNameSchema.required()
+});
+
+const jobParamsSchema = Joi.object({
+  jobId: Joi.string().uuid().required()
+});
+
+const actionsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(1000).optional().default(100)
+});
+
+const modelRoutes: ServerRoute[] = [
+  {
+    method: 'POST',
+    path: '/api/models/pull',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models:manage']
+      },
+      validate: {
+        payload: pullSchema
+      },
+      description: 'Pull a model onto the Ollama backends (requires llm:models:manage)',
+      notes: 'Returns 202 with a job to poll at /api/models/pulls/{jobId}. With stream: true the progress is relayed as server-sent events (or NDJSON) ending with a "job" event; the job ID is in the X-Job-Id header. The pull carries on if the client disconnects.',
+      tags: ['api', 'models']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = getCredentials(request);
+        const { model, insecure, stream } = request.payload as { model: string; insecure?: boolean; stream: boolean };
+
+        if (!stream) {
+          const { job } = await modelAdminService.startPull(credentials.tenantId, credentials.user.userId, model, insecure);
+          return h.response(job).code(202);
+        }
+
+        const events = new EventStream(request);
+        const { job, completion } = await modelAdminService.startPull(
+          credentials.tenantId,
+          credentials.user.userId,
+          model,
+          insecure,
+          (progress) => events.send(progress)
+        );
+
+        completion
+          .then((finished) => events.event('job', finished))
+          .finally(() => events.end());
+
+        return events.toResponse(h).header('X-Job-Id', job.jobId);
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Start model pull error');
+        throw Boom.badImplementation('Failed to start model pull');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/models/pulls/{jobId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models:manage']
+      },
+      validate: {
+        params: jobParamsSchema
+      },
+      description: 'Get the progress of a model pull (requires llm:models:manage)',
+      notes: 'Jobs are kept for a day after they finish',
+      tags: ['api', 'models']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { jobId } = request.params as { jobId: string };
+
+        const job = await modelAdminService.getJob(tenantId, jobId);
+        if (!job) {
+          throw Boom.notFound('Pull job not found');
+        }
+
+        return job;
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get model pull error');
+        throw Boom.badImplementation('Failed to get model pull');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/models/actions',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models:manage']
+      },
+      validate: {
+        query: actionsQuerySchema
+      },
+      description: 'List the tenant\'s model pulls, deletions and copies (requires llm:models:manage)',
+      notes: 'Newest first',
+      tags: ['api', 'models']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { limit } = request.query as { limit: number };
+
+        const actions = await modelAdminService.listActions(tenantId, limit);
+
+        return { actions };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'List model actions error');
+        throw Boom.badImplementation('Failed to list model actions');
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/models/copy',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models:manage']
+      },
+      validate: {
+        payload: copySchema
+      },
+      description: 'Copy a model under a new name (requires llm:models:manage)',
+      tags: ['api', 'models']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = getCredentials(request);
+        const { source, destination } = request.payload as { source: string; destination: string };
+
+        const copied = await ollamaService.copyModel(source, destination);
+        if (!copied) {
+          throw Boom.notFound('Model not found');
+        }
+
+        await modelAdminService.recordAction(credentials.tenantId, {
+          action: 'copy',
+          model: source,
+          destination,
+          userId: credentials.user.userId
+        });
+        log.info({ tenantId: credentials.tenantId, source, destination }, 'Model copied');
+
+        return h.response({ source, destination }).code(201);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Copy model error');
+        throw Boom.badImplementation('Failed to copy model');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/models/{model*}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models:manage']
+      },
+      validate: {
+        params: modelParamsSchema
+      },
+      description: 'Show a model\'s details, parameters and template (requires llm:models:manage)',
+      notes: 'Wraps Ollama /api/show',
+      tags: ['api', 'models']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { model } = request.params as { model: string };
+
+        const details = await ollamaService.showModel(model);
+        if (!details) {
+          throw Boom.notFound('Model not found');
+        }
+
+        return { model, ...details };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Show model error');
+        throw Boom.badImplementation('Failed to show model');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/models/{model*}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models:manage']
+      },
+      validate: {
+        params: modelParamsSchema
+      },
+      description: 'Delete a model from every Ollama backend (requires llm:models:manage)',
+      tags: ['api', 'models']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = getCredentials(request);
+        const { model } = request.params as { model: string };
+
+        const deleted = await ollamaService.deleteModel(model);
+        if (!deleted) {
+          throw Boom.notFound('Model not found');
+        }
+
+        await modelAdminService.recordAction(credentials.tenantId, {
+          action: 'delete',
+          model,
+          userId: credentials.user.userId
+        });
+        log.info({ tenantId: credentials.tenantId, model }, 'Model deleted');
+
+        return h.response().code(204);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Delete model error');
+        throw Boom.badImplementation('Failed to delete model');
+      }
+    }
+  }
+];
+
+export default modelRoutes;
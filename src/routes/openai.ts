@@ -0,0 +1,355 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import { OllamaChatRequest, OllamaChatResponse } from '../services/ollamaService';
+import { LLMProvider } from '../services/llmProvider';
+import providerService from '../services/providerService';
+import tenantService from '../services/tenantService';
+import logger from '../config/logger';
+import { EventStream } from '../utils/eventStream';
+import { assertTenantAccess, tenantHeadersSchema } from '../utils/tenantContext';
+import { enforceQuota, withQuotaHeaders } from '../utils/quota';
+import { acquireSlot, withQueueHeaders } from '../utils/queue';
+import { chatChunkText, recordUsage, streamedUsage } from '../utils/usage';
+import { applyModelPolicy, filterModels } from '../utils/modelPolicy';
+import { applyPromptTemplate } from '../utils/promptTemplate';
+import { applyImagePolicy } from '../utils/images';
+import { estimateTokens, fitContextWindow, withContextHeaders } from '../utils/contextWindow';
+import {
+  OpenAIChatRequest,
+  createCompletionId,
+  toChatCompletion,
+  toChatCompletionChunk,
+  toFinishReason,
+  toOllamaChatRequest,
+  toOpenAIToolCalls,
+  toUsage,
+  unixTimestamp
+} from '../utils/openai';
+import { AuthCredentials, ContextReport } from '../types';
+
+const log: Logger = logger.child({ module: 'OpenAIRoutes' });
+
+// Validation schemas
+// Parameters Ollama has no equivalent for are rejected rather than silently ignored
+const toolSchema = Joi.object({
+  type: Joi.string().valid('function').required(),
+  function: Joi.object({
+    name: Joi.string().pattern(/^[A-Za-z0-9_-]{1,64}$/).required(),
+    description: Joi.string().optional(),
+    parameters: Joi.object().unknown(true).optional()
+  }).required()
+});
+
+const toolCallSchema = Joi.object({
+  id: Joi.string().required(),
+  type: Joi.string().valid('function').required(),
+  function: Joi.object({
+    name: Joi.string().required(),
+    arguments: Joi.string().allow('').required()
+  }).required()
+});
+
+const chatCompletionSchema = Joi.object({
+  model: Joi.string().required(),
+  messages: Joi.array().items(
+    Joi.object({
+      role: Joi.string().valid('system', 'user', 'assistant', 'tool').required(),
+      content: Joi.alternatives().try(
+        Joi.string().allow(''),
+        Joi.array().items(
+          Joi.object({
+            type: Joi.string().valid('text').required(),
+            text: Joi.string().allow('').required()
+          }),
+          Joi.object({
+            type: Joi.string().valid('image_url').required(),
+            image_url: Joi.object({
+              url: Joi.string().pattern(/^data:/).required()
+                .messages({ 'string.pattern.base': 'Only data URLs are supported for images' }),
+              detail: Joi.string().optional()
+            }).required()
+          })
+        ).min(1)
+      ).when('tool_calls', { is: Joi.exist(), then: Joi.allow(null).optional(), otherwise: Joi.required() }),
+      name: Joi.string().optional(),
+      tool_calls: Joi.when('role', {
+        is: 'assistant',
+        then: Joi.array().items(toolCallSchema).min(1).optional(),
+        otherwise: Joi.forbidden()
+      }),
+      tool_call_id: Joi.when('role', {
+        is: 'tool',
+        then: Joi.string().required(),
+        otherwise: Joi.forbidden()
+      })
+    })
+  ).min(1).required(),
+  tools: Joi.array().items(toolSchema).max(128).optional(),
+  tool_choice: Joi.string().valid('auto', 'none').optional()
+    .messages({ 'any.only': 'Only "auto" and "none" are supported for tool_choice' }),
+  response_format: Joi.alternatives().try(
+    Joi.object({ type: Joi.string().valid('text', 'json_object').required() }),
+    Joi.object({
+      type: Joi.string().valid('json_schema').required(),
+      json_schema: Joi.object({
+        name: Joi.string().required(),
+        description: Joi.string().optional(),
+        schema: Joi.object().unknown(true).required(),
+        strict: Joi.boolean().optional()
+      }).required()
+    })
+  ).optional(),
+  temperature: Joi.number().min(0).max(2).optional(),
+  top_p: Joi.number().min(0).max(1).optional(),
+  max_tokens: Joi.number().integer().min(1).optional(),
+  stop: Joi.alternatives().try(
+    Joi.string(),
+    Joi.array().items(Joi.string()).max(4)
+  ).optional(),
+  n: Joi.number().integer().min(1).max(8).optional().default(1),
+  stream: Joi.boolean().optional().default(false),
+  stream_options: Joi.object({
+    include_usage: Joi.boolean().optional()
+  }).optional().allow(null),
+  user: Joi.string().optional()
+});
+
+// OpenAI clients expect to be told which parameter was refused
+const rejectInvalidCompletion = async (_request: Request, _h: ResponseToolkit, err?: Error) => {
+  throw Boom.badRequest(err?.message || 'Invalid request payload input');
+};
+
+const streamChatCompletion = (
+  request: Request,
+  h: ResponseToolkit,
+  openaiRequest: OpenAIChatRequest,
+  chatRequest: OllamaChatRequest,
+  credentials: AuthCredentials,
+  provider: LLMProvider,
+  onFinish?: () => void
+) => {
+  // OpenAI clients always expect SSE terminated by [DONE]
+  const events = new EventStream(request, 'sse');
+  const { tenantId } = credentials;
+  const id = createCompletionId();
+  const created = unixTimestamp();
+  const promptTokens = estimateTokens(chatRequest.messages);
+  let finalChunk: OllamaChatResponse | null = null;
+  let streamedChars = 0;
+  // Tool calls arrive whole, each as its own index
+  let toolCallCount = 0;
+
+  events.send(toChatCompletionChunk(id, created, chatRequest.model, { role: 'assistant', content: '' }));
+
+  provider.streamChat(chatRequest, tenantId, (chunk) => {
+    streamedChars += chatChunkText(chunk).length;
+    if (chunk.done) {
+      finalChunk = chunk;
+      events.send(toChatCompletionChunk(id, created, chunk.model, {}, toFinishReason(chunk, toolCallCount > 0)));
+      return;
+    }
+    if (chunk.message.tool_calls?.length) {
+      const toolCalls = toOpenAIToolCalls(chunk.message.tool_calls).map((call) => ({ index: toolCallCount++, ...call }));
+      events.send(toChatCompletionChunk(id, created, chunk.model, { tool_calls: toolCalls }));
+    }
+    if (chunk.message.content) {
+      events.send(toChatCompletionChunk(id, created, chunk.model, { content: chunk.message.content }));
+    }
+  }, events.signal)
+    .then(() => {
+      if (!finalChunk) {
+        log.info({ tenantId, id }, 'Chat completion stream ended before completion');
+        return;
+      }
+
+      if (openaiRequest.stream_options?.include_usage) {
+        events.send({
+          ...toChatCompletionChunk(id, created, finalChunk.model, {}),
+          choices: [],
+          usage: toUsage(streamedUsage(chatRequest.model, promptTokens, streamedChars, finalChunk))
+        });
+      }
+      events.send('[DONE]');
+
+      log.info({ tenantId, id, model: finalChunk.model }, 'Chat completion stream completed');
+    })
+    .catch((error) => {
+      log.error({
+        tenantId,
+        id,
+        error: error instanceof Error ? error.message : error
+      }, 'Chat completion stream failed');
+
+      events.send({ error: { message: 'Failed to process chat completion', type: 'server_error' } });
+    })
+    .finally(async () => {
+      // An aborted or failed stream is still billed for what the model produced
+      if (finalChunk || streamedChars > 0) {
+        await recordUsage(credentials, streamedUsage(chatRequest.model, promptTokens, streamedChars, finalChunk));
+      }
+      events.end();
+      onFinish?.();
+    });
+
+  return events.toResponse(h);
+};
+
+const openaiRoutes: ServerRoute[] = [
+  {
+    method: 'POST',
+    path: '/v1/chat/completions',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:chat']
+      },
+      validate: {
+        payload: chatCompletionSchema,
+        headers: tenantHeadersSchema,
+        failAction: rejectInvalidCompletion
+      },
+      description: 'OpenAI-compatible chat completions',
+      notes: 'Accepts the OpenAI Chat Completions request format and answers in the same format, backed by Ollama. Images are accepted as image_url content parts with data URLs. With "tools" the model may answer with "tool_calls"; send the results back as "tool" messages with the matching "tool_call_id". "response_format" with json_object or json_schema constrains the reply to JSON. Parameters without an Ollama equivalent are rejected with 400. Requires authentication and tenant ID in header.',
+      tags: ['api', 'openai']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const openaiRequest = request.payload as OpenAIChatRequest;
+        const credentials = assertTenantAccess(request, log);
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        const ollamaRequest = toOllamaChatRequest(openaiRequest);
+        const chatRequest = applyModelPolicy({
+          ...ollamaRequest,
+          messages: await applyPromptTemplate(
+            applyImagePolicy(ollamaRequest.messages, settings),
+            settings,
+            credentials.tenantId
+          )
+        }, settings);
+        const provider = providerService.getProvider(settings, chatRequest.model);
+        const choices = openaiRequest.n || 1;
+
+        log.info({
+          userId: credentials.user.userId,
+          tenantId: credentials.tenantId,
+          model: openaiRequest.model,
+          stream: openaiRequest.stream,
+          n: choices
+        }, 'Chat completion request received');
+
+        if (openaiRequest.stream && choices > 1) {
+          throw Boom.badRequest('Streaming is only supported with n=1');
+        }
+
+        const quota = await enforceQuota(credentials);
+
+        // Each choice is a separate generation, so it takes its own slot
+        const ticket = await acquireSlot(credentials, settings, provider, choices);
+        let streaming = false;
+        let report: ContextReport | undefined;
+        let responses: OllamaChatResponse[];
+
+        try {
+          // OpenAI clients cannot pick a strategy; the tenant's applies
+          const fitted = await fitContextWindow(chatRequest, settings, provider, credentials);
+          report = fitted.report;
+
+          if (openaiRequest.stream) {
+            streaming = true;
+            return withQueueHeaders(withContextHeaders(withQuotaHeaders(
+              streamChatCompletion(request, h, openaiRequest, fitted.request, credentials, provider, () => ticket?.release()),
+              quota
+            ), report), ticket);
+          }
+
+          // Providers return a single reply per call, so each choice is a separate generation
+          responses = await Promise.all(
+            Array.from({ length: choices }, () => provider.chat(fitted.request, credentials.tenantId))
+          );
+        } finally {
+          if (!streaming) {
+            ticket?.release();
+          }
+        }
+
+        const completion = toChatCompletion(createCompletionId(), chatRequest.model, responses);
+
+        for (const response of responses) {
+          await recordUsage(credentials, response);
+        }
+
+        log.info({
+          tenantId: credentials.tenantId,
+          userId: credentials.user.userId,
+          id: completion.id,
+          totalTokens: completion.usage.total_tokens
+        }, 'Chat completion returned');
+
+        return withQueueHeaders(withContextHeaders(withQuotaHeaders(h.response(completion), quota), report), ticket);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'Chat completion request failed');
+
+        throw Boom.badImplementation('Failed to process chat completion');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/v1/models',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['llm:models']
+      },
+      validate: {
+        headers: tenantHeadersSchema
+      },
+      description: 'OpenAI-compatible model list',
+      notes: 'Returns the models of Ollama and the tenant\'s providers in the OpenAI model list format',
+      tags: ['api', 'openai']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const settings = await tenantService.getTenantSettings(credentials.tenantId);
+        const available = await providerService.listModels(settings);
+        const models = filterModels(available, settings);
+
+        log.info({
+          tenantId: credentials.tenantId,
+          modelCount: models.length
+        }, 'OpenAI model list returned');
+
+        return {
+          object: 'list',
+          data: models.map((model) => ({
+            id: model.name,
+            object: 'model',
+            created: Math.floor(new Date(model.modified_at).getTime() / 1000),
+            owned_by: providerService.getProviderName(settings, model.name)
+          }))
+        };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+
+        log.error({
+          error: error instanceof Error ? error.message : error
+        }, 'Failed to list models');
+
+        throw Boom.badImplementation('Failed to fetch models');
+      }
+    }
+  }
+];
+
+export default openaiRoutes;
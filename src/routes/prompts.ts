@@ -0,0 +1,208 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import promptService from '../services/promptService';
+import logger from '../config/logger';
+import { assertTenantAccess, getCredentials, tenantHeadersSchema } from '../utils/tenantContext';
+import { TEMPLATE_NAME_PATTERN } from '../utils/promptTemplate';
+import { SavePromptTemplateData } from '../types';
+
+const log: Logger = logger.child({ module: 'PromptRoutes' });
+
+// Validation schemas
+const templateParamsSchema = Joi.object({
+  name: Joi.string().pattern(TEMPLATE_NAME_PATTERN).required()
+});
+
+const getTemplateQuerySchema = Joi.object({
+  version: Joi.number().integer().min(1).optional()
+});
+
+const saveTemplateSchema = Joi.object({
+  description: Joi.string().max(500).optional(),
+  messages: Joi.array().items(
+    Joi.object({
+      role: Joi.string().valid('system', 'user', 'assistant').required(),
+      content: Joi.string().required().description('May contain {{variable}} placeholders')
+    })
+  ).min(1).required()
+});
+
+const promptRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/prompts',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['prompts:read']
+      },
+      validate: {
+        headers: tenantHeadersSchema
+      },
+      description: 'List the tenant\'s prompt templates',
+      notes: 'Latest version of each template, by name',
+      tags: ['api', 'prompts']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+
+        const templates = await promptService.listTemplates(credentials.tenantId);
+
+        return { templates };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'List prompt templates error');
+        throw Boom.badImplementation('Failed to list prompt templates');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/prompts/{name}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['prompts:read']
+      },
+      validate: {
+        params: templateParamsSchema,
+        query: getTemplateQuerySchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'Get a prompt template',
+      notes: 'Latest version unless ?version= is given',
+      tags: ['api', 'prompts']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { name } = request.params as { name: string };
+        const { version } = request.query as { version?: number };
+
+        const template = await promptService.getTemplate(credentials.tenantId, name, version);
+        if (!template) {
+          throw Boom.notFound('Prompt template not found');
+        }
+
+        return template;
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get prompt template error');
+        throw Boom.badImplementation('Failed to get prompt template');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/prompts/{name}/versions',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['prompts:read']
+      },
+      validate: {
+        params: templateParamsSchema,
+        headers: tenantHeadersSchema
+      },
+      description: 'List every version of a prompt template',
+      tags: ['api', 'prompts']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const credentials = assertTenantAccess(request, log);
+        const { name } = request.params as { name: string };
+
+        const versions = await promptService.listVersions(credentials.tenantId, name);
+        if (versions.length === 0) {
+          throw Boom.notFound('Prompt template not found');
+        }
+
+        return { versions };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'List prompt template versions error');
+        throw Boom.badImplementation('Failed to list prompt template versions');
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/prompts/{name}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['prompts:write']
+      },
+      validate: {
+        params: templateParamsSchema,
+        payload: saveTemplateSchema
+      },
+      description: 'Create or update a prompt template (requires prompts:write)',
+      notes: 'Every save adds a new version; earlier versions stay available. Returns 201 for a new template.',
+      tags: ['api', 'prompts']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const credentials = getCredentials(request);
+        const { name } = request.params as { name: string };
+
+        const template = await promptService.saveTemplate(
+          credentials.tenantId,
+          name,
+          request.payload as SavePromptTemplateData,
+          credentials.user.userId
+        );
+
+        return h.response(template).code(template.version === 1 ? 201 : 200);
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Save prompt template error');
+        throw Boom.badImplementation('Failed to save prompt template');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/prompts/{name}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['prompts:write']
+      },
+      validate: {
+        params: templateParamsSchema
+      },
+      description: 'Delete a prompt template and all its versions (requires prompts:write)',
+      tags: ['api', 'prompts']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { name } = request.params as { name: string };
+
+        const deleted = await promptService.deleteTemplate(tenantId, name);
+        if (!deleted) {
+          throw Boom.notFound('Prompt template not found');
+        }
+
+        return h.response().code(204);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Delete prompt template error');
+        throw Boom.badImplementation('Failed to delete prompt template');
+      }
+    }
+  }
+];
+
+export default promptRoutes;
@@ -0,0 +1,199 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import quotaService from '../services/quotaService';
+import tenantService from '../services/tenantService';
+import logger from '../config/logger';
+import { getCredentials } from '../utils/tenantContext';
+import { QuotaLimits } from '../types';
+
+const log: Logger = logger.child({ module: 'QuotaRoutes' });
+
+// Validation schemas
+// Omitted or null limits are unlimited
+const quotaLimitsSchema = Joi.object({
+  requestsPerMinute: Joi.number().integer().min(1).allow(null).optional(),
+  tokensPerDay: Joi.number().integer().min(1).allow(null).optional(),
+  tokensPerMonth: Joi.number().integer().min(1).allow(null).optional()
+});
+
+const userParamsSchema = Joi.object({
+  userId: Joi.string().uuid().required()
+});
+
+const ensureUserExists = async (tenantId: string, userId: string): Promise<void> => {
+  const user = await tenantService.getUser(tenantId, userId);
+  if (!user) {
+    log.warn({ tenantId, userId }, 'User not found');
+    throw Boom.notFound('User not found');
+  }
+};
+
+const quotaRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/quotas',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['quotas:read']
+      },
+      description: 'Get tenant quota limits and current consumption (requires quotas:read)',
+      tags: ['api', 'quotas']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+
+        log.debug({ tenantId }, 'Fetching tenant quota');
+
+        const limits = await quotaService.getTenantLimits(tenantId);
+        const usage = await quotaService.getStatus(tenantId);
+
+        return { limits, usage };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get quota error');
+        throw Boom.badImplementation('Failed to get quota');
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/quotas',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['quotas:write']
+      },
+      validate: {
+        payload: quotaLimitsSchema
+      },
+      description: 'Set tenant quota limits (requires quotas:write)',
+      tags: ['api', 'quotas']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const limits = await quotaService.setTenantLimits(tenantId, request.payload as QuotaLimits);
+
+        log.info({ tenantId, limits }, 'Tenant quota updated');
+
+        return {
+          message: 'Quota updated successfully',
+          limits
+        };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Update quota error');
+        throw Boom.badImplementation('Failed to update quota');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/quotas/users/{userId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['quotas:read']
+      },
+      validate: {
+        params: userParamsSchema
+      },
+      description: 'Get a user\'s quota limits and current consumption (requires quotas:read)',
+      tags: ['api', 'quotas']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { userId } = request.params as { userId: string };
+
+        await ensureUserExists(tenantId, userId);
+
+        const limits = await quotaService.getUserLimits(tenantId, userId);
+        const usage = await quotaService.getStatus(tenantId, userId);
+
+        return { limits, usage };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get user quota error');
+        throw Boom.badImplementation('Failed to get user quota');
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/quotas/users/{userId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['quotas:write']
+      },
+      validate: {
+        params: userParamsSchema,
+        payload: quotaLimitsSchema
+      },
+      description: 'Set quota limits for a single user (requires quotas:write)',
+      tags: ['api', 'quotas']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { userId } = request.params as { userId: string };
+
+        await ensureUserExists(tenantId, userId);
+
+        const limits = await quotaService.setUserLimits(tenantId, userId, request.payload as QuotaLimits);
+
+        log.info({ tenantId, userId, limits }, 'User quota updated');
+
+        return {
+          message: 'User quota updated successfully',
+          limits
+        };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Update user quota error');
+        throw Boom.badImplementation('Failed to update user quota');
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/quotas/users/{userId}',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['quotas:write']
+      },
+      validate: {
+        params: userParamsSchema
+      },
+      description: 'Remove a user\'s quota override (requires quotas:write)',
+      tags: ['api', 'quotas']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const { userId } = request.params as { userId: string };
+
+        await quotaService.deleteUserLimits(tenantId, userId);
+
+        log.info({ tenantId, userId }, 'User quota removed');
+
+        return {
+          message: 'User quota removed successfully'
+        };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Delete user quota error');
+        throw Boom.badImplementation('Failed to remove user quota');
+      }
+    }
+  }
+];
+
+export default quotaRoutes;
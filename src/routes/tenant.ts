@@ -0,0 +1,203 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import tenantService from '../services/tenantService';
+import providerService, { DEFAULT_PROVIDER } from '../services/providerService';
+import promptService from '../services/promptService';
+import logger from '../config/logger';
+import { isModelAllowed } from '../utils/modelPolicy';
+import { CONTEXT_STRATEGIES } from '../utils/contextWindow';
+import { TEMPLATE_NAME_PATTERN } from '../utils/promptTemplate';
+import { BUILT_IN_ROLES, missingPermissions, PERMISSIONS, ROLE_NAME_PATTERN } from '../utils/permissions';
+import { isBlockedHost } from '../utils/egress';
+import { getCredentials } from '../utils/tenantContext';
+import { TenantSettings } from '../types';
+
+const log: Logger = logger.child({ module: 'TenantRoutes' });
+
+// Validation schemas
+const modelLimitsSchema = Joi.object({
+  maxNumPredict: Joi.number().integer().min(1).optional(),
+  maxTemperature: Joi.number().min(0).max(2).optional(),
+  contextLength: Joi.number().integer().min(256).optional()
+});
+
+const contextSettingsSchema = Joi.object({
+  strategy: Joi.string().valid(...CONTEXT_STRATEGIES).optional(),
+  keepLast: Joi.number().integer().min(1).optional(),
+  reserveTokens: Joi.number().integer().min(0).optional()
+});
+
+const providerSchema = Joi.object({
+  baseUrl: Joi.string().uri({ scheme: ['http', 'https'] }).required()
+    .custom((value, helpers) => (isBlockedHost(new URL(value).hostname) ? helpers.error('any.invalid') : value))
+    .messages({ 'any.invalid': '{{#label}} must not point at a loopback, private or link-local address' })
+    .description('Base URL of an OpenAI-compatible API, e.g. https://api.openai.com/v1'),
+  apiKey: Joi.string().optional().description('Stored encrypted; omit to keep the current key')
+});
+
+const roleSchema = Joi.object({
+  description: Joi.string().max(200).optional(),
+  permissions: Joi.array().items(Joi.string().valid(...PERMISSIONS)).unique().required()
+});
+
+const tenantSettingsSchema = Joi.object({
+  models: Joi.object({
+    allowed: Joi.array().items(Joi.string()).optional(),
+    default: Joi.string().optional(),
+    limits: Joi.object().pattern(Joi.string(), modelLimitsSchema).optional()
+  }).optional(),
+  context: contextSettingsSchema.optional(),
+  prompts: Joi.object({
+    defaultTemplate: Joi.string().pattern(TEMPLATE_NAME_PATTERN).optional()
+      .description('Prompt template prepended to chats without a system message')
+  }).optional(),
+  images: Joi.object({
+    maxBytes: Joi.number().integer().min(1).optional().description('Largest accepted image, in decoded bytes'),
+    maxCount: Joi.number().integer().min(0).optional().description('Images accepted per request; 0 disables images')
+  }).optional(),
+  cache: Joi.object({
+    enabled: Joi.boolean().optional().description('Serve repeated chats at temperature 0 from the cache'),
+    ttlSeconds: Joi.number().integer().min(1).max(30 * 86400).optional(),
+    maxEntries: Joi.number().integer().min(1).max(100000).optional().description('Replies kept; the oldest are evicted first'),
+    semantic: Joi.object({
+      enabled: Joi.boolean().optional().description('Reuse replies to prompts similar to the final user message'),
+      embeddingModel: Joi.string().when('enabled', { is: true, then: Joi.required(), otherwise: Joi.optional() }),
+      threshold: Joi.number().min(0).max(1).optional().description('Cosine similarity needed for a match (default 0.95)')
+    }).optional()
+  }).optional(),
+  queue: Joi.object({
+    weight: Joi.number().min(0.01).max(100).optional().description('Relative share of upstream slots when tenants compete'),
+    maxQueued: Joi.number().integer().min(0).max(10000).optional().description('Waiting requests allowed before new ones get 503')
+  }).optional(),
+  providers: Joi.object().pattern(
+    Joi.string().pattern(/^[a-z0-9][a-z0-9_-]*$/).invalid(DEFAULT_PROVIDER),
+    providerSchema
+  ).optional(),
+  roles: Joi.object().pattern(
+    Joi.string().pattern(ROLE_NAME_PATTERN).invalid(...Object.keys(BUILT_IN_ROLES)),
+    roleSchema
+  ).optional().description('Custom roles by name, assigned to users like the built-in admin and user roles')
+}).min(1);
+
+const tenantRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/tenant/settings',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['settings:read']
+      },
+      description: 'Get tenant settings (requires settings:read)',
+      tags: ['api', 'tenant']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+
+        log.debug({ tenantId }, 'Fetching tenant settings');
+
+        const settings = await tenantService.getTenantSettings(tenantId);
+
+        return { settings: providerService.redactSettings(settings) };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'Get tenant settings error');
+        throw Boom.badImplementation('Failed to get tenant settings');
+      }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/tenant/settings',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['settings:write']
+      },
+      validate: {
+        payload: tenantSettingsSchema
+      },
+      description: 'Update tenant settings (requires settings:write)',
+      notes: 'Each top-level section present in the payload replaces the stored section; other sections are kept. Provider API keys are encrypted at rest and never returned.',
+      tags: ['api', 'tenant']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId, scope } = getCredentials(request);
+        const updates = { ...(request.payload as TenantSettings) };
+
+        if (updates.roles) {
+          const granted = Object.values(updates.roles).flatMap((role) => role.permissions);
+          const missing = missingPermissions(scope, granted);
+          if (missing.length > 0) {
+            throw Boom.forbidden(`Roles cannot grant permissions you do not have: ${[...new Set(missing)].join(', ')}`);
+          }
+        }
+
+        const models = updates.models;
+        if (models?.default && !isModelAllowed({ models }, models.default)) {
+          throw Boom.badRequest('Default model must be in the allowed models list');
+        }
+
+        const defaultTemplate = updates.prompts?.defaultTemplate;
+        if (defaultTemplate && !(await promptService.getTemplate(tenantId, defaultTemplate))) {
+          throw Boom.badRequest(`Prompt template "${defaultTemplate}" not found`);
+        }
+
+        // Provider API keys never reach Redis in plain text
+        if (updates.providers) {
+          const current = await tenantService.getTenantSettings(tenantId);
+          updates.providers = providerService.sealProviders(updates.providers, current.providers);
+        }
+
+        const settings = await tenantService.updateTenantSettings(tenantId, updates);
+        if (!settings) {
+          throw Boom.notFound('Tenant not found');
+        }
+
+        log.info({ tenantId, sections: Object.keys(updates) }, 'Tenant settings updated');
+
+        return {
+          message: 'Tenant settings updated successfully',
+          settings: providerService.redactSettings(settings)
+        };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Update tenant settings error');
+        throw Boom.badImplementation('Failed to update tenant settings');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/tenant/roles',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['settings:read']
+      },
+      description: 'List the tenant\'s roles and the permissions they grant (requires settings:read)',
+      tags: ['api', 'tenant']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+
+        const settings = await tenantService.getTenantSettings(tenantId);
+        const builtIn = Object.entries(BUILT_IN_ROLES).map(([name, permissions]) => ({ name, builtIn: true, permissions }));
+        const custom = Object.entries(settings.roles || {}).map(([name, role]) => ({ name, builtIn: false, ...role }));
+
+        return { permissions: PERMISSIONS, roles: [...builtIn, ...custom] };
+      } catch (error) {
+        log.error({ error: error instanceof Error ? error.message : error }, 'List roles error');
+        throw Boom.badImplementation('Failed to list roles');
+      }
+    }
+  }
+];
+
+export default tenantRoutes;
@@ -0,0 +1,160 @@
+import { ServerRoute, Request, ResponseToolkit } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import usageService from '../services/usageService';
+import logger from '../config/logger';
+import { getCredentials } from '../utils/tenantContext';
+import { UsageGroupBy, UsageQuery } from '../types';
+
+const log: Logger = logger.child({ module: 'UsageRoutes' });
+
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+interface UsageQueryParams {
+  from?: string;
+  to?: string;
+  groupBy?: UsageGroupBy;
+  userId?: string;
+  model?: string;
+}
+
+// Validation schemas
+const isoDay = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).message('must be a date in YYYY-MM-DD format');
+
+const usageQuerySchema = Joi.object({
+  from: isoDay.optional(),
+  to: isoDay.optional(),
+  groupBy: Joi.string().valid('model', 'user', 'day').optional(),
+  // API keys record their usage as "apikey:{keyId}"
+  userId: Joi.alternatives().try(
+    Joi.string().uuid(),
+    Joi.string().pattern(/^apikey:[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i)
+  ).optional(),
+  model: Joi.string().optional()
+});
+
+// Default to the last 30 days (UTC), inclusive of today
+const resolveRange = (params: UsageQueryParams): UsageQuery => {
+  const to = params.to || new Date().toISOString().slice(0, 10);
+  const from = params.from
+    || new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * 86400000).toISOString().slice(0, 10);
+
+  const days = (Date.parse(to) - Date.parse(from)) / 86400000 + 1;
+  if (Number.isNaN(days) || days < 1) {
+    throw Boom.badRequest('"from" must be on or before "to"');
+  }
+  if (days > MAX_RANGE_DAYS) {
+    throw Boom.badRequest(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  return { from, to, userId: params.userId, model: params.model };
+};
+
+const toCsvValue = (value: string | number): string => {
+  // Prefix text a spreadsheet would otherwise run as a formula, e.g. a model named "=HYPERLINK(...)"
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (columns: string[], rows: Array<Record<string, string | number>>): string => {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvValue(row[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const METRIC_COLUMNS = ['requests', 'prompt_tokens', 'completion_tokens', 'total_tokens', 'duration_ms'];
+
+const usageRoutes: ServerRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/usage',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['usage:read']
+      },
+      validate: {
+        query: usageQuerySchema
+      },
+      description: 'Get tenant LLM usage (requires usage:read)',
+      notes: 'Aggregates recorded LLM calls between from and to (inclusive, UTC days), grouped by model, user or day.',
+      tags: ['api', 'usage']
+    },
+    handler: async (request: Request, _h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const params = request.query as UsageQueryParams;
+        const query = resolveRange(params);
+        const groupBy = params.groupBy || 'day';
+
+        log.info({ tenantId, query, groupBy }, 'Usage report requested');
+
+        const rows = await usageService.getRows(tenantId, query);
+
+        return {
+          tenant_id: tenantId,
+          from: query.from,
+          to: query.to,
+          groupBy,
+          usage: usageService.group(rows, groupBy),
+          totals: usageService.total(rows)
+        };
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Usage report error');
+        throw Boom.badImplementation('Failed to get usage');
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/usage/export',
+    options: {
+      auth: {
+        strategy: 'jwt',
+        scope: ['usage:read']
+      },
+      validate: {
+        query: usageQuerySchema
+      },
+      description: 'Export tenant LLM usage as CSV (requires usage:read)',
+      notes: 'Without groupBy, exports one row per day, user and model.',
+      tags: ['api', 'usage']
+    },
+    handler: async (request: Request, h: ResponseToolkit) => {
+      try {
+        const { tenantId } = getCredentials(request);
+        const params = request.query as UsageQueryParams;
+        const query = resolveRange(params);
+
+        log.info({ tenantId, query, groupBy: params.groupBy }, 'Usage export requested');
+
+        const rows = await usageService.getRows(tenantId, query);
+        rows.sort((a, b) => a.date.localeCompare(b.date) || a.user_id.localeCompare(b.user_id) || a.model.localeCompare(b.model));
+
+        const csv = params.groupBy
+          ? toCsv([params.groupBy, ...METRIC_COLUMNS], usageService.group(rows, params.groupBy)
+            .map(({ key, ...totals }) => ({ [params.groupBy as string]: key, ...totals })))
+          : toCsv(['date', 'user_id', 'model', ...METRIC_COLUMNS], rows.map((row) => ({ ...row })));
+
+        return h.response(csv)
+          .type('text/csv')
+          .header('Content-Disposition', `attachment; filename="usage-${query.from}-${query.to}.csv"`);
+      } catch (error) {
+        if (Boom.isBoom(error)) {
+          throw error;
+        }
+        log.error({ error: error instanceof Error ? error.message : error }, 'Usage export error');
+        throw Boom.badImplementation('Failed to export usage');
+      }
+    }
+  }
+];
+
+export default usageRoutes;
@@ -4,10 +4,35 @@ import Inert from '@hapi/inert';
 import Vision from '@hapi/vision';
 import redisClient from './config/redis';
 import authPlugin from './plugins/auth';
+import errorPlugin from './plugins/errors';
 import authRoutes from './routes/auth';
 import docsRoutes from './routes/docs';
 import llmRoutes from './routes/llm';
+import openaiRoutes from './routes/openai';
+import quotaRoutes from './routes/quotas';
+import usageRoutes from './routes/usage';
+import tenantRoutes from './routes/tenant';
+import conversationRoutes from './routes/conversations';
+import promptRoutes from './routes/prompts';
+import modelRoutes from './routes/models';
+import collectionRoutes from './routes/collections';
+import apiKeyRoutes from './routes/apiKeys';
 import tenantService from './services/tenantService';
+import refreshTokenService from './services/refreshTokenService';
+import quotaService from './services/quotaService';
+import usageService from './services/usageService';
+import conversationService from './services/conversationService';
+import promptService from './services/promptService';
+import modelAdminService from './services/modelAdminService';
+import responseCacheService from './services/responseCacheService';
+import semanticCacheService from './services/semanticCacheService';
+import requestQueue from './services/requestQueue';
+import batchService from './services/batchService';
+import collectionService from './services/collectionService';
+import apiKeyService from './services/apiKeyService';
+import signingKeyService from './services/signingKeyService';
+import { checkEncryptionKey } from './utils/secrets';
+import ollamaService from './services/ollamaService';
 import logger from './config/logger';
 
 const init = async (): Promise<void> => {
@@ -36,12 +61,37 @@ const init = async (): Promise<void> => {
   });
 
   try {
+    // Load the token signing keys and settings encryption key first; production refuses to start without them
+    signingKeyService.initialize();
+    checkEncryptionKey();
+
     // Connect to Redis
     logger.info('Connecting to Redis');
     await redisClient.connect();
     
     // Initialize tenant service
     tenantService.initialize();
+    refreshTokenService.initialize();
+    quotaService.initialize();
+    usageService.initialize();
+    conversationService.initialize();
+    promptService.initialize();
+    modelAdminService.initialize();
+    responseCacheService.initialize();
+    semanticCacheService.initialize();
+    requestQueue.initialize();
+    batchService.initialize();
+    collectionService.initialize();
+    apiKeyService.initialize();
+
+    // Batches left running by a replica that crashed are not coming back
+    await batchService.recoverInterrupted();
+
+    // Track Ollama backend health and loaded models
+    ollamaService.startHealthChecks();
+
+    // Share queue load with the other replicas
+    requestQueue.startSync();
 
     // Register plugins
     await server.register([
@@ -49,13 +99,23 @@ const init = async (): Promise<void> => {
       Vision
     ]);
 
-    // Register auth plugin
+    // Register auth and error handling plugins
     await server.register(authPlugin);
+    await server.register(errorPlugin);
 
     // Register routes
     server.route(authRoutes);
     server.route(docsRoutes);
     server.route(llmRoutes);
+    server.route(openaiRoutes);
+    server.route(quotaRoutes);
+    server.route(usageRoutes);
+    server.route(tenantRoutes);
+    server.route(conversationRoutes);
+    server.route(promptRoutes);
+    server.route(modelRoutes);
+    server.route(collectionRoutes);
+    server.route(apiKeyRoutes);
 
     // Health check route (no auth required)
     server.route({
@@ -115,52 +175,87 @@ const init = async (): Promise<void> => {
             auth: {
               register: 'POST /api/auth/register',
               login: 'POST /api/auth/login',
+              refresh: 'POST /api/auth/refresh',
               logout: 'POST /api/auth/logout',
-              me: 'GET /api/auth/me'
+              me: 'GET /api/auth/me',
+              jwks: 'GET /.well-known/jwks.json'
             },
             users: {
-              create: 'POST /api/users (admin only)',
-              list: 'GET /api/users (admin only)'
+              create: 'POST /api/users (requires users:write)',
+              list: 'GET /api/users (requires users:read)'
+            },
+            apiKeys: {
+              list: 'GET /api/api-keys (requires apikeys:manage)',
+              create: 'POST /api/api-keys (requires apikeys:manage)',
+              update: 'PATCH /api/api-keys/{keyId} (requires apikeys:manage)',
+              revoke: 'DELETE /api/api-keys/{keyId} (requires apikeys:manage)'
+            },
+            tenant: {
+              settings: 'GET|PATCH /api/tenant/settings (requires settings:read|settings:write)',
+              roles: 'GET /api/tenant/roles (requires settings:read)'
+            },
+            quotas: {
+              get: 'GET /api/quotas (requires quotas:read)',
+              update: 'PUT /api/quotas (requires quotas:write)',
+              user: 'GET|PUT|DELETE /api/quotas/users/{userId} (requires quotas:read|quotas:write)'
+            },
+            usage: {
+              report: 'GET /api/usage?from=&to=&groupBy=model|user|day (requires usage:read)',
+              export: 'GET /api/usage/export (requires usage:read, CSV)'
             },
             llm: {
               chat: 'POST /api/llm/chat (requires x-tenant-id header)',
+              chatUpload: 'POST /api/llm/chat/upload (multipart, requires x-tenant-id header)',
+              generate: 'POST /api/llm/generate (requires x-tenant-id header)',
+              embeddings: 'POST /api/llm/embeddings (requires x-tenant-id header)',
+              batches: 'POST|GET /api/llm/batches (JSONL, requires x-tenant-id header)',
+              batch: 'GET /api/llm/batches/{batchId}, GET .../results, POST .../cancel (requires x-tenant-id header)',
               models: 'GET /api/llm/models (requires x-tenant-id header)',
-              health: 'GET /api/llm/health'
+              health: 'GET /api/llm/health',
+              healthDetails: 'GET /api/llm/health/details (requires llm:backends:read)'
+            },
+            conversations: {
+              create: 'POST /api/conversations',
+              list: 'GET /api/conversations',
+              get: 'GET|PATCH|DELETE /api/conversations/{conversationId}',
+              send: 'POST /api/conversations/{conversationId}/messages'
+            },
+            prompts: {
+              list: 'GET /api/prompts',
+              get: 'GET /api/prompts/{name}',
+              versions: 'GET /api/prompts/{name}/versions',
+              manage: 'PUT|DELETE /api/prompts/{name} (requires prompts:write)'
+            },
+            models: {
+              pull: 'POST /api/models/pull (requires llm:models:manage)',
+              pullStatus: 'GET /api/models/pulls/{jobId} (requires llm:models:manage)',
+              show: 'GET /api/models/{model} (requires llm:models:manage)',
+              delete: 'DELETE /api/models/{model} (requires llm:models:manage)',
+              copy: 'POST /api/models/copy (requires llm:models:manage)',
+              actions: 'GET /api/models/actions (requires llm:models:manage)'
+            },
+            collections: {
+              list: 'GET /api/collections',
+              get: 'GET /api/collections/{name}',
+              manage: 'POST /api/collections, DELETE /api/collections/{name} (requires collections:write)',
+              documents: 'POST /api/collections/{name}/documents, DELETE .../documents/{documentId} (requires collections:write)'
+            },
+            openai: {
+              chatCompletions: 'POST /v1/chat/completions (requires x-tenant-id header)',
+              models: 'GET /v1/models (requires x-tenant-id header)'
             }
           }
         };
       }
     });
 
-    // Error handling
-    server.ext('onPreResponse', (request: Request, h: ResponseToolkit) => {
-      const response = request.response;
-      
-      if ('isBoom' in response && response.isBoom) {
-        const error = response;
-        const statusCode = error.output.statusCode;
-        
-        logger.error({
-          path: request.path,
-          method: request.method,
-          statusCode,
-          error: error.message
-        }, 'Request error');
-        
-        return h.response({
-          statusCode,
-          error: error.output.payload.error,
-          message: error.message
-        }).code(statusCode);
-      }
-      
-      return h.continue;
-    });
-
     // Graceful shutdown
     const shutdown = async (): Promise<void> => {
       logger.info('Shutting down gracefully');
       await server.stop({ timeout: 10000 });
+      await batchService.shutdown();
+      ollamaService.stopHealthChecks();
+      requestQueue.stopSync();
       await redisClient.disconnect();
       logger.info('Server stopped');
       process.exit(0);
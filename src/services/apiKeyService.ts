@@ -0,0 +1,175 @@
+import { createHash, randomBytes } from 'crypto';
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { ApiKey, ApiKeyScope, CreateApiKeyData, UpdateApiKeyData } from '../types';
+
+export const API_KEY_PREFIX = 'sk-';
+export const API_KEY_SCOPES: ApiKeyScope[] = ['llm:chat', 'llm:generate', 'llm:embeddings', 'llm:batches', 'llm:models'];
+// Keys per tenant
+export const MAX_API_KEYS = 100;
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+interface StoredApiKey extends ApiKey {
+  hash: string;
+}
+
+// Keys are looked up by their SHA-256; the key itself is never stored
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+const withoutHash = ({ hash: _, ...apiKey }: StoredApiKey): ApiKey => apiKey;
+
+class ApiKeyService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'ApiKeyService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('ApiKeyService initialized');
+  }
+
+  // Hash of key ID -> key
+  private indexKey(tenantId: string): string {
+    return `tenant:${tenantId}:apikeys`;
+  }
+
+  // Hash of key ID -> when the key was last used, kept apart so that using a key never rewrites it
+  private lastUsedKey(tenantId: string): string {
+    return `tenant:${tenantId}:apikeys:lastused`;
+  }
+
+  // Key hash -> "{tenantId}:{keyId}"
+  private lookupKey(hash: string): string {
+    return `apikey:${hash}`;
+  }
+
+  // The key is returned only here; null when the tenant already has MAX_API_KEYS
+  async createKey(
+    tenantId: string,
+    data: CreateApiKeyData,
+    createdBy: string
+  ): Promise<{ apiKey: ApiKey; key: string } | null> {
+    if (await this.redis!.hLen(this.indexKey(tenantId)) >= MAX_API_KEYS) {
+      return null;
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const now = new Date().toISOString();
+    const stored: StoredApiKey = {
+      keyId: uuidv4(),
+      tenantId,
+      name: data.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      scopes: data.scopes && data.scopes.length > 0 ? data.scopes : [...API_KEY_SCOPES],
+      createdAt: now,
+      createdBy,
+      updatedAt: now,
+      ...(data.expiresAt ? { expiresAt: data.expiresAt } : {}),
+      hash: hashKey(key)
+    };
+
+    await this.redis!.hSet(this.indexKey(tenantId), stored.keyId, JSON.stringify(stored));
+    await this.redis!.set(this.lookupKey(stored.hash), `${tenantId}:${stored.keyId}`);
+
+    this.logger.info({ tenantId, keyId: stored.keyId, scopes: stored.scopes }, 'API key created');
+    return { apiKey: withoutHash(stored), key };
+  }
+
+  async getKey(tenantId: string, keyId: string): Promise<ApiKey | null> {
+    const stored = await this.getStored(tenantId, keyId);
+    if (!stored) {
+      return null;
+    }
+
+    const lastUsedAt = await this.redis!.hGet(this.lastUsedKey(tenantId), keyId);
+    return { ...withoutHash(stored), ...(lastUsedAt ? { lastUsedAt } : {}) };
+  }
+
+  async listKeys(tenantId: string): Promise<ApiKey[]> {
+    const entries = await this.redis!.hGetAll(this.indexKey(tenantId));
+    const lastUsed = await this.redis!.hGetAll(this.lastUsedKey(tenantId));
+    return Object.values(entries)
+      .map((entry): ApiKey => {
+        const apiKey = withoutHash(JSON.parse(entry));
+        return lastUsed[apiKey.keyId] ? { ...apiKey, lastUsedAt: lastUsed[apiKey.keyId] } : apiKey;
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async updateKey(tenantId: string, keyId: string, updates: UpdateApiKeyData): Promise<ApiKey | null> {
+    const stored = await this.getStored(tenantId, keyId);
+    if (!stored) {
+      return null;
+    }
+
+    const updated: StoredApiKey = {
+      ...stored,
+      ...(updates.name !== undefined ? { name: updates.name } : {}),
+      ...(updates.scopes !== undefined ? { scopes: updates.scopes } : {}),
+      updatedAt: new Date().toISOString()
+    };
+    await this.redis!.hSet(this.indexKey(tenantId), keyId, JSON.stringify(updated));
+
+    this.logger.info({ tenantId, keyId }, 'API key updated');
+    return this.getKey(tenantId, keyId);
+  }
+
+  async revokeKey(tenantId: string, keyId: string): Promise<boolean> {
+    const stored = await this.getStored(tenantId, keyId);
+    if (!stored) {
+      return false;
+    }
+
+    await this.redis!.del(this.lookupKey(stored.hash));
+    await this.redis!.hDel(this.indexKey(tenantId), keyId);
+    await this.redis!.hDel(this.lastUsedKey(tenantId), keyId);
+
+    this.logger.info({ tenantId, keyId }, 'API key revoked');
+    return true;
+  }
+
+  /**
+   * The key presented in a request, or null when it is unknown, revoked or
+   * expired. Records when the key was last used.
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const ref = await this.redis!.get(this.lookupKey(hashKey(key)));
+    if (!ref) {
+      return null;
+    }
+
+    const separator = ref.indexOf(':');
+    const stored = await this.getStored(ref.slice(0, separator), ref.slice(separator + 1));
+    if (!stored) {
+      return null;
+    }
+
+    const now = new Date();
+    if (stored.expiresAt && new Date(stored.expiresAt) <= now) {
+      this.logger.debug({ tenantId: stored.tenantId, keyId: stored.keyId }, 'API key expired');
+      return null;
+    }
+
+    let lastUsedAt = await this.redis!.hGet(this.lastUsedKey(stored.tenantId), stored.keyId);
+    if (!lastUsedAt || now.getTime() - new Date(lastUsedAt).getTime() >= LAST_USED_RESOLUTION_MS) {
+      lastUsedAt = now.toISOString();
+      await this.redis!.hSet(this.lastUsedKey(stored.tenantId), stored.keyId, lastUsedAt);
+    }
+
+    return { ...withoutHash(stored), lastUsedAt };
+  }
+
+  private async getStored(tenantId: string, keyId: string): Promise<StoredApiKey | null> {
+    const data = await this.redis!.hGet(this.indexKey(tenantId), keyId);
+    return data ? JSON.parse(data) : null;
+  }
+}
+
+export default new ApiKeyService();
@@ -0,0 +1,358 @@
+import Boom from '@hapi/boom';
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { BatchJob, BatchResult, BatchStatus } from '../types';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_REQUESTS = 1000;
+export const MAX_BATCH_BYTES = 20 * 1024 * 1024;
+// Batches and their results can be fetched for a week
+const BATCH_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Requests turned away by a busy queue are tried this many times in all
+const MAX_ATTEMPTS = 3;
+// A running batch's lease outlives its replica by this long; it is renewed at a third of it
+const LEASE_TTL_SECONDS = 60;
+// Set of the batch IDs running on any replica
+const RUNNING_KEY = 'batches:running';
+
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '', 10) || DEFAULT_BATCH_CONCURRENCY;
+
+// Requests may carry an ID of the caller's choosing, echoed in their result
+export interface BatchRequest {
+  custom_id?: string;
+}
+
+// Answers one request of a batch; errors are recorded as the request's result
+export type BatchRunner<T> = (request: T, index: number) => Promise<Record<string, unknown>>;
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+class BatchService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+  // Batches running on this replica
+  private active = new Map<string, AbortController>();
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'BatchService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info({ concurrency: BATCH_CONCURRENCY }, 'BatchService initialized');
+  }
+
+  private jobKey(batchId: string): string {
+    return `batch:${batchId}`;
+  }
+
+  // Held by the replica running the batch for as long as it runs
+  private leaseKey(batchId: string): string {
+    return `batch:${batchId}:lease`;
+  }
+
+  // Hash of request index to result
+  private resultsKey(batchId: string): string {
+    return `batch:${batchId}:results`;
+  }
+
+  // Sorted set of the tenant's batch IDs by creation time
+  private indexKey(tenantId: string): string {
+    return `tenant:${tenantId}:batches`;
+  }
+
+  /**
+   * Save a batch and answer its requests in the background, at most
+   * `concurrency` at a time. Progress is kept in Redis as requests finish;
+   * `completion` resolves with the finished batch and never rejects.
+   */
+  async submit<T extends BatchRequest>(
+    tenantId: string,
+    userId: string,
+    requests: T[],
+    run: BatchRunner<T>,
+    concurrency: number = BATCH_CONCURRENCY
+  ): Promise<{ job: BatchJob; completion: Promise<BatchJob> }> {
+    const now = new Date().toISOString();
+    const job: BatchJob = {
+      batchId: uuidv4(),
+      tenantId,
+      userId,
+      status: 'running',
+      total: requests.length,
+      succeeded: 0,
+      failed: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const key = this.jobKey(job.batchId);
+    await this.redis!.hSet(key, this.toHash(job));
+    await this.redis!.expire(key, BATCH_TTL_SECONDS);
+
+    const indexKey = this.indexKey(tenantId);
+    await this.redis!.zAdd(indexKey, { score: Date.now(), value: job.batchId });
+    await this.redis!.zRemRangeByScore(indexKey, 0, Date.now() - BATCH_TTL_SECONDS * 1000);
+    await this.redis!.expire(indexKey, BATCH_TTL_SECONDS);
+
+    await this.redis!.sAdd(RUNNING_KEY, job.batchId);
+    await this.redis!.setEx(this.leaseKey(job.batchId), LEASE_TTL_SECONDS, '1');
+    const heartbeat = setInterval(() => {
+      this.redis!.expire(this.leaseKey(job.batchId), LEASE_TTL_SECONDS).catch((error) => {
+        this.logger.warn({ batchId: job.batchId, error: error instanceof Error ? error.message : error }, 'Failed to renew batch lease');
+      });
+    }, LEASE_TTL_SECONDS * 1000 / 3);
+    heartbeat.unref();
+
+    this.logger.info({ tenantId, userId, batchId: job.batchId, total: job.total }, 'Batch started');
+
+    const controller = new AbortController();
+    this.active.set(job.batchId, controller);
+
+    const completion = this.process(job, requests, run, concurrency, controller.signal)
+      .then(() => this.complete(job.batchId))
+      .catch((error) => {
+        this.logger.error({ batchId: job.batchId, error: error instanceof Error ? error.message : error }, 'Batch failed');
+        return this.fail(job.batchId, 'Batch processing failed');
+      })
+      .then(async () => {
+        clearInterval(heartbeat);
+        this.active.delete(job.batchId);
+        await this.release(job.batchId);
+        return (await this.readJob(job.batchId).catch(() => null)) || job;
+      });
+
+    return { job: { ...job }, completion };
+  }
+
+  private async process<T extends BatchRequest>(
+    job: BatchJob,
+    requests: T[],
+    run: BatchRunner<T>,
+    concurrency: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    const key = this.jobKey(job.batchId);
+    const resultsKey = this.resultsKey(job.batchId);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      for (;;) {
+        if (await this.stopped(job.batchId, signal)) {
+          return;
+        }
+
+        const index = next++;
+        if (index >= requests.length) {
+          return;
+        }
+
+        const result = await this.runRequest(job, requests[index], index, run, signal);
+        await this.redis!.hSet(resultsKey, String(index), JSON.stringify(result));
+        await this.redis!.expire(resultsKey, BATCH_TTL_SECONDS);
+        await this.redis!.hIncrBy(key, result.error ? 'failed' : 'succeeded', 1);
+        await this.redis!.hSet(key, 'updatedAt', new Date().toISOString());
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, requests.length) }, worker));
+  }
+
+  // Cancelled here, or on another replica
+  private async stopped(batchId: string, signal: AbortSignal): Promise<boolean> {
+    return signal.aborted || (await this.redis!.hGet(this.jobKey(batchId), 'status')) !== 'running';
+  }
+
+  private async runRequest<T extends BatchRequest>(
+    job: BatchJob,
+    request: T,
+    index: number,
+    run: BatchRunner<T>,
+    signal: AbortSignal
+  ): Promise<BatchResult> {
+    const result: BatchResult = {
+      index,
+      ...(request.custom_id !== undefined ? { custom_id: request.custom_id } : {})
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { ...result, response: await run(request, index) };
+      } catch (error) {
+        // A full or slow queue asks to come back later; the batch can afford to
+        if (Boom.isBoom(error) && error.output.statusCode === 503 && attempt < MAX_ATTEMPTS) {
+          await sleep((Number(error.output.headers['Retry-After']) || 1) * 1000, signal);
+          if (!signal.aborted) {
+            continue;
+          }
+        }
+
+        if (Boom.isBoom(error)) {
+          return { ...result, error: { statusCode: error.output.statusCode, message: error.output.payload.message } };
+        }
+
+        this.logger.error({
+          batchId: job.batchId,
+          index,
+          error: error instanceof Error ? error.message : error
+        }, 'Batch request failed');
+        return { ...result, error: { statusCode: 500, message: 'Failed to process chat request' } };
+      }
+    }
+  }
+
+  // A cancelled or interrupted batch keeps its status
+  private async complete(batchId: string): Promise<void> {
+    const key = this.jobKey(batchId);
+    if ((await this.redis!.hGet(key, 'status')) === 'running') {
+      const now = new Date().toISOString();
+      await this.redis!.hSet(key, { status: 'completed', updatedAt: now, completedAt: now });
+      this.logger.info({ batchId }, 'Batch completed');
+    }
+  }
+
+  private async fail(batchId: string, message: string): Promise<void> {
+    try {
+      const key = this.jobKey(batchId);
+      if ((await this.redis!.hGet(key, 'status')) === 'running') {
+        const now = new Date().toISOString();
+        await this.redis!.hSet(key, { status: 'failed', error: message, updatedAt: now, completedAt: now });
+      }
+    } catch (error) {
+      this.logger.error({ batchId, error: error instanceof Error ? error.message : error }, 'Failed to save batch');
+    }
+  }
+
+  private async release(batchId: string): Promise<void> {
+    try {
+      await this.redis!.sRem(RUNNING_KEY, batchId);
+      await this.redis!.del(this.leaseKey(batchId));
+    } catch (error) {
+      this.logger.error({ batchId, error: error instanceof Error ? error.message : error }, 'Failed to release batch');
+    }
+  }
+
+  /**
+   * Mark failed the batches left running by a replica that stopped without
+   * shutting down, found by their expired lease. Their requests are only held
+   * in memory, so they cannot be resumed. Called once at startup.
+   */
+  async recoverInterrupted(): Promise<number> {
+    let recovered = 0;
+
+    for (const batchId of await this.redis!.sMembers(RUNNING_KEY)) {
+      if (this.active.has(batchId) || await this.redis!.exists(this.leaseKey(batchId))) {
+        continue;
+      }
+
+      await this.fail(batchId, 'Interrupted by a server restart');
+      await this.redis!.sRem(RUNNING_KEY, batchId);
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      this.logger.warn({ recovered }, 'Marked interrupted batches as failed');
+    }
+    return recovered;
+  }
+
+  // Batches are only visible to the tenant that submitted them
+  async getJob(tenantId: string, batchId: string): Promise<BatchJob | null> {
+    const job = await this.readJob(batchId);
+    return job && job.tenantId === tenantId ? job : null;
+  }
+
+  // Newest first; only the given user's batches when `userId` is set
+  async listJobs(tenantId: string, limit: number, userId?: string): Promise<BatchJob[]> {
+    const batchIds = await this.redis!.zRange(this.indexKey(tenantId), 0, -1, { REV: true });
+    const jobs: BatchJob[] = [];
+
+    for (const batchId of batchIds) {
+      const job = await this.readJob(batchId);
+      if (job && (!userId || job.userId === userId)) {
+        jobs.push(job);
+        if (jobs.length >= limit) {
+          break;
+        }
+      }
+    }
+
+    return jobs;
+  }
+
+  // Results so far, in request order
+  async getResults(batchId: string): Promise<BatchResult[]> {
+    const fields = await this.redis!.hGetAll(this.resultsKey(batchId));
+    return Object.values(fields)
+      .map((value): BatchResult => JSON.parse(value))
+      .sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Stop a running batch. Requests already sent to the model finish and keep
+   * their results; the rest are not run. Finished batches are returned as-is.
+   */
+  async cancel(tenantId: string, batchId: string): Promise<BatchJob | null> {
+    const job = await this.getJob(tenantId, batchId);
+    if (!job || job.status !== 'running') {
+      return job;
+    }
+
+    const now = new Date().toISOString();
+    await this.redis!.hSet(this.jobKey(batchId), { status: 'cancelled', updatedAt: now, completedAt: now });
+    this.active.get(batchId)?.abort();
+    this.logger.info({ tenantId, batchId }, 'Batch cancelled');
+
+    return { ...job, status: 'cancelled', updatedAt: now, completedAt: now };
+  }
+
+  // Batches are not resumed after a restart, so the ones running here are marked failed
+  async shutdown(): Promise<void> {
+    for (const [batchId, controller] of this.active) {
+      controller.abort();
+      await this.fail(batchId, 'Interrupted by a server restart');
+    }
+  }
+
+  private async readJob(batchId: string): Promise<BatchJob | null> {
+    const fields = await this.redis!.hGetAll(this.jobKey(batchId));
+    if (!fields.batchId) {
+      return null;
+    }
+
+    return {
+      batchId: fields.batchId,
+      tenantId: fields.tenantId,
+      userId: fields.userId,
+      status: fields.status as BatchStatus,
+      total: Number(fields.total) || 0,
+      succeeded: Number(fields.succeeded) || 0,
+      failed: Number(fields.failed) || 0,
+      ...(fields.error ? { error: fields.error } : {}),
+      createdAt: fields.createdAt,
+      updatedAt: fields.updatedAt,
+      ...(fields.completedAt ? { completedAt: fields.completedAt } : {})
+    };
+  }
+
+  private toHash(job: BatchJob): Record<string, string> {
+    const hash: Record<string, string> = {};
+    for (const [field, value] of Object.entries(job)) {
+      if (value !== undefined) {
+        hash[field] = String(value);
+      }
+    }
+    return hash;
+  }
+}
+
+export default new BatchService();
@@ -0,0 +1,300 @@
+import { commandOptions, RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { cosineSimilarity } from '../utils/vectors';
+import { Citation, Collection, CollectionDocument, CreateCollectionData } from '../types';
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 150;
+// searchExhaustive() reads and compares every embedding, so collections are kept to this size
+export const MAX_COLLECTION_CHUNKS = 5000;
+
+interface StoredChunk {
+  documentId: string;
+  title: string;
+  source?: string;
+  index: number;
+  text: string;
+}
+
+// Embeddings are stored as float32 arrays, a quarter of the size of their JSON
+const toBinary = (vector: number[]): Buffer => Buffer.from(new Float32Array(vector).buffer);
+
+// Copied, since a Buffer from Redis need not be aligned for a Float32Array view
+const fromBinary = (buffer: Buffer): Float32Array => new Float32Array(new Uint8Array(buffer).buffer);
+
+// Chunk found by a search, before it is numbered for the prompt
+export type ChunkMatch = Omit<Citation, 'index'>;
+
+class CollectionService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'CollectionService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('CollectionService initialized');
+  }
+
+  // Hash of collection name -> collection
+  private indexKey(tenantId: string): string {
+    return `tenant:${tenantId}:collections`;
+  }
+
+  // Hash of document ID -> document
+  private documentsKey(tenantId: string, name: string): string {
+    return `tenant:${tenantId}:collection:${name}:documents`;
+  }
+
+  // Hash of "{documentId}:{index}" -> chunk text
+  private chunksKey(tenantId: string, name: string): string {
+    return `tenant:${tenantId}:collection:${name}:chunks`;
+  }
+
+  // Hash of "{documentId}:{index}" -> chunk embedding
+  private vectorsKey(tenantId: string, name: string): string {
+    return `tenant:${tenantId}:collection:${name}:vectors`;
+  }
+
+  // Chunks stored plus those reserved by uploads still being embedded
+  private reservedKey(tenantId: string, name: string): string {
+    return `tenant:${tenantId}:collection:${name}:reserved-chunks`;
+  }
+
+  // Null when a collection of that name already exists
+  async createCollection(
+    tenantId: string,
+    name: string,
+    data: CreateCollectionData,
+    createdBy: string
+  ): Promise<Collection | null> {
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      name,
+      ...(data.description ? { description: data.description } : {}),
+      embeddingModel: data.embeddingModel,
+      chunkSize: data.chunkSize || DEFAULT_CHUNK_SIZE,
+      chunkOverlap: data.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
+      documentCount: 0,
+      chunkCount: 0,
+      createdAt: now,
+      createdBy,
+      updatedAt: now
+    };
+
+    const created = await this.redis!.hSetNX(this.indexKey(tenantId), name, JSON.stringify(collection));
+    if (!created) {
+      return null;
+    }
+
+    this.logger.info({ tenantId, name, embeddingModel: collection.embeddingModel }, 'Collection created');
+    return collection;
+  }
+
+  async getCollection(tenantId: string, name: string): Promise<Collection | null> {
+    const data = await this.redis!.hGet(this.indexKey(tenantId), name);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async listCollections(tenantId: string): Promise<Collection[]> {
+    const entries = await this.redis!.hGetAll(this.indexKey(tenantId));
+    return Object.values(entries)
+      .map((entry): Collection => JSON.parse(entry))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Removes the collection with its documents and chunks
+  async deleteCollection(tenantId: string, name: string): Promise<boolean> {
+    const deleted = await this.redis!.hDel(this.indexKey(tenantId), name);
+    await this.redis!.del([
+      this.documentsKey(tenantId, name),
+      this.chunksKey(tenantId, name),
+      this.vectorsKey(tenantId, name),
+      this.reservedKey(tenantId, name)
+    ]);
+
+    if (deleted > 0) {
+      this.logger.info({ tenantId, name }, 'Collection deleted');
+    }
+    return deleted > 0;
+  }
+
+  /**
+   * Reserve room for `count` chunks before they are embedded; false when the
+   * collection would exceed MAX_COLLECTION_CHUNKS. The counter is incremented
+   * first, so concurrent uploads cannot both pass the check. Release the
+   * reservation if the document is not added after all.
+   */
+  async reserveChunks(tenantId: string, name: string, count: number): Promise<boolean> {
+    const key = this.reservedKey(tenantId, name);
+    await this.seedReservations(tenantId, name);
+
+    const reserved = await this.redis!.incrBy(key, count);
+    if (reserved > MAX_COLLECTION_CHUNKS) {
+      await this.redis!.decrBy(key, count);
+      return false;
+    }
+    return true;
+  }
+
+  async releaseChunks(tenantId: string, name: string, count: number): Promise<void> {
+    await this.redis!.decrBy(this.reservedKey(tenantId, name), count);
+  }
+
+  // Collections created before the counter existed start from their stored chunks
+  private async seedReservations(tenantId: string, name: string): Promise<void> {
+    const stored = await this.redis!.hLen(this.chunksKey(tenantId, name));
+    await this.redis!.set(this.reservedKey(tenantId, name), String(stored), { NX: true });
+  }
+
+  /**
+   * Store a document's chunks with their embeddings, in the order they appear in the document.
+   * Null when the collection was deleted meanwhile; what was written is removed again.
+   */
+  async addDocument(
+    tenantId: string,
+    name: string,
+    document: { title: string; source?: string; characters: number },
+    chunks: Array<{ text: string; vector: number[] }>,
+    createdBy: string
+  ): Promise<CollectionDocument | null> {
+    const entry: CollectionDocument = {
+      documentId: uuidv4(),
+      title: document.title,
+      ...(document.source ? { source: document.source } : {}),
+      characters: document.characters,
+      chunkCount: chunks.length,
+      createdAt: new Date().toISOString(),
+      createdBy
+    };
+
+    const texts: Record<string, string> = {};
+    const vectors: Record<string, Buffer> = {};
+    chunks.forEach((chunk, index) => {
+      const stored: StoredChunk = {
+        documentId: entry.documentId,
+        title: entry.title,
+        ...(entry.source ? { source: entry.source } : {}),
+        index,
+        text: chunk.text
+      };
+      texts[`${entry.documentId}:${index}`] = JSON.stringify(stored);
+      vectors[`${entry.documentId}:${index}`] = toBinary(chunk.vector);
+    });
+
+    if (chunks.length > 0) {
+      await this.redis!.hSet(this.chunksKey(tenantId, name), texts);
+      await this.redis!.hSet(this.vectorsKey(tenantId, name), vectors);
+    }
+    await this.redis!.hSet(this.documentsKey(tenantId, name), entry.documentId, JSON.stringify(entry));
+
+    // Checked after writing: a deleteCollection that ran before this point may have missed the chunks,
+    // one that runs after it deletes them itself
+    if (!(await this.getCollection(tenantId, name))) {
+      await this.removeDocument(tenantId, name, entry.documentId, Object.keys(texts));
+      await this.redis!.del(this.reservedKey(tenantId, name));
+      this.logger.warn({ tenantId, name, documentId: entry.documentId }, 'Collection deleted while a document was added');
+      return null;
+    }
+    await this.updateCounts(tenantId, name);
+
+    this.logger.info({ tenantId, name, documentId: entry.documentId, chunks: chunks.length }, 'Document added to collection');
+    return entry;
+  }
+
+  async listDocuments(tenantId: string, name: string): Promise<CollectionDocument[]> {
+    const entries = await this.redis!.hGetAll(this.documentsKey(tenantId, name));
+    return Object.values(entries)
+      .map((entry): CollectionDocument => JSON.parse(entry))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async deleteDocument(tenantId: string, name: string, documentId: string): Promise<boolean> {
+    const data = await this.redis!.hGet(this.documentsKey(tenantId, name), documentId);
+    if (!data) {
+      return false;
+    }
+
+    const document: CollectionDocument = JSON.parse(data);
+    const fields = Array.from({ length: document.chunkCount }, (_, index) => `${documentId}:${index}`);
+    await this.seedReservations(tenantId, name);
+    await this.removeDocument(tenantId, name, documentId, fields);
+    await this.releaseChunks(tenantId, name, fields.length);
+    await this.updateCounts(tenantId, name);
+
+    this.logger.info({ tenantId, name, documentId }, 'Document removed from collection');
+    return true;
+  }
+
+  private async removeDocument(tenantId: string, name: string, documentId: string, fields: string[]): Promise<void> {
+    if (fields.length > 0) {
+      await this.redis!.hDel(this.chunksKey(tenantId, name), fields);
+      await this.redis!.hDel(this.vectorsKey(tenantId, name), fields);
+    }
+    await this.redis!.hDel(this.documentsKey(tenantId, name), documentId);
+  }
+
+  /**
+   * The `topK` chunks most similar to `vector`, best first, leaving out those
+   * below `minScore`. There is no vector index: every embedding of the
+   * collection is read from Redis and compared in memory, and only the texts
+   * of the best chunks are read afterwards. A search costs time and memory in
+   * proportion to the collection, e.g. 15 MB for MAX_COLLECTION_CHUNKS
+   * embeddings of 768 dimensions.
+   */
+  async searchExhaustive(tenantId: string, name: string, vector: number[], topK: number, minScore: number = -1): Promise<ChunkMatch[]> {
+    const entries = await this.redis!.hGetAll(commandOptions({ returnBuffers: true }), this.vectorsKey(tenantId, name));
+    const scored: Array<{ field: string; score: number }> = [];
+
+    for (const [field, data] of Object.entries(entries)) {
+      const score = cosineSimilarity(vector, fromBinary(data));
+      if (score >= minScore) {
+        scored.push({ field, score });
+      }
+    }
+
+    const best = scored.sort((a, b) => b.score - a.score).slice(0, topK);
+    if (best.length === 0) {
+      return [];
+    }
+
+    const texts = await this.redis!.hmGet(this.chunksKey(tenantId, name), best.map((match) => match.field));
+    const matches: ChunkMatch[] = [];
+    best.forEach((match, position) => {
+      // Removed since the embeddings were read
+      if (!texts[position]) {
+        return;
+      }
+
+      const chunk: StoredChunk = JSON.parse(texts[position]);
+      matches.push({
+        documentId: chunk.documentId,
+        title: chunk.title,
+        ...(chunk.source ? { source: chunk.source } : {}),
+        chunk: chunk.index,
+        score: match.score,
+        text: chunk.text
+      });
+    });
+    return matches;
+  }
+
+  private async updateCounts(tenantId: string, name: string): Promise<void> {
+    const collection = await this.getCollection(tenantId, name);
+    if (!collection) {
+      return;
+    }
+
+    collection.documentCount = await this.redis!.hLen(this.documentsKey(tenantId, name));
+    collection.chunkCount = await this.redis!.hLen(this.chunksKey(tenantId, name));
+    collection.updatedAt = new Date().toISOString();
+    await this.redis!.hSet(this.indexKey(tenantId), name, JSON.stringify(collection));
+  }
+}
+
+export default new CollectionService();
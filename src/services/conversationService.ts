@@ -0,0 +1,189 @@
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationWithMessages,
+  CreateConversationData,
+  UpdateConversationData
+} from '../types';
+
+const TITLE_LENGTH = 80;
+
+// Title untitled threads after the opening user message
+const deriveTitle = (content: string): string => {
+  const line = content.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+};
+
+class ConversationService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'ConversationService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('ConversationService initialized');
+  }
+
+  private userPrefix(tenantId: string, userId: string): string {
+    return `tenant:${tenantId}:user:${userId}`;
+  }
+
+  private conversationKey(tenantId: string, userId: string, conversationId: string): string {
+    return `${this.userPrefix(tenantId, userId)}:conversation:${conversationId}`;
+  }
+
+  // Sorted set of the user's conversation IDs scored by last update
+  private indexKey(tenantId: string, userId: string): string {
+    return `${this.userPrefix(tenantId, userId)}:conversations`;
+  }
+
+  async createConversation(tenantId: string, userId: string, data: CreateConversationData): Promise<Conversation> {
+    const conversationId = uuidv4();
+    const now = new Date().toISOString();
+    this.logger.info({ tenantId, userId, conversationId }, 'Creating conversation');
+
+    const conversation: Conversation = {
+      conversationId,
+      tenantId,
+      userId,
+      title: data.title || null,
+      ...(data.model ? { model: data.model } : {}),
+      ...(data.systemPrompt ? { systemPrompt: data.systemPrompt } : {}),
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.saveConversation(conversation);
+    return conversation;
+  }
+
+  async getConversation(tenantId: string, userId: string, conversationId: string): Promise<Conversation | null> {
+    const data = await this.redis!.get(this.conversationKey(tenantId, userId, conversationId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  async getConversationWithMessages(
+    tenantId: string,
+    userId: string,
+    conversationId: string
+  ): Promise<ConversationWithMessages | null> {
+    const conversation = await this.getConversation(tenantId, userId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    const messages = await this.getMessages(tenantId, userId, conversationId);
+    return { ...conversation, messages };
+  }
+
+  async getMessages(tenantId: string, userId: string, conversationId: string): Promise<ConversationMessage[]> {
+    const key = `${this.conversationKey(tenantId, userId, conversationId)}:messages`;
+    const entries = await this.redis!.lRange(key, 0, -1);
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  // Most recently updated first
+  async listConversations(
+    tenantId: string,
+    userId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ conversations: Conversation[]; total: number }> {
+    const indexKey = this.indexKey(tenantId, userId);
+    const [ids, total] = await Promise.all([
+      this.redis!.zRange(indexKey, offset, offset + limit - 1, { REV: true }),
+      this.redis!.zCard(indexKey)
+    ]);
+
+    const conversations = await Promise.all(ids.map((id) => this.getConversation(tenantId, userId, id)));
+    return {
+      conversations: conversations.filter((conversation): conversation is Conversation => conversation !== null),
+      total
+    };
+  }
+
+  // null clears a field
+  async updateConversation(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    updates: UpdateConversationData
+  ): Promise<Conversation | null> {
+    const conversation = await this.getConversation(tenantId, userId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    this.logger.info({ tenantId, userId, conversationId, fields: Object.keys(updates) }, 'Updating conversation');
+
+    const updated: Conversation = { ...conversation, updatedAt: new Date().toISOString() };
+    if (updates.title !== undefined) updated.title = updates.title;
+    for (const field of ['model', 'systemPrompt'] as const) {
+      if (updates[field] === null) {
+        delete updated[field];
+      } else if (updates[field] !== undefined) {
+        updated[field] = updates[field] as string;
+      }
+    }
+
+    await this.saveConversation(updated);
+    return updated;
+  }
+
+  async appendMessages(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    messages: ConversationMessage[]
+  ): Promise<Conversation | null> {
+    const conversation = await this.getConversation(tenantId, userId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    const key = `${this.conversationKey(tenantId, userId, conversationId)}:messages`;
+    await this.redis!.rPush(key, messages.map((message) => JSON.stringify(message)));
+
+    const firstUserMessage = messages.find((message) => message.role === 'user');
+    const updated: Conversation = {
+      ...conversation,
+      title: conversation.title ?? (firstUserMessage ? deriveTitle(firstUserMessage.content) : null),
+      messageCount: conversation.messageCount + messages.length,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.saveConversation(updated);
+    return updated;
+  }
+
+  async deleteConversation(tenantId: string, userId: string, conversationId: string): Promise<boolean> {
+    const key = this.conversationKey(tenantId, userId, conversationId);
+    const deleted = await this.redis!.del([key, `${key}:messages`]);
+    await this.redis!.zRem(this.indexKey(tenantId, userId), conversationId);
+
+    if (deleted > 0) {
+      this.logger.info({ tenantId, userId, conversationId }, 'Conversation deleted');
+    }
+    return deleted > 0;
+  }
+
+  private async saveConversation(conversation: Conversation): Promise<void> {
+    const { tenantId, userId, conversationId } = conversation;
+    await this.redis!.set(this.conversationKey(tenantId, userId, conversationId), JSON.stringify(conversation));
+    await this.redis!.zAdd(this.indexKey(tenantId, userId), {
+      score: Date.parse(conversation.updatedAt),
+      value: conversationId
+    });
+  }
+}
+
+export default new ConversationService();
@@ -0,0 +1,44 @@
+import {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse
+} from './ollamaService';
+
+export interface ProviderModel {
+  name: string;
+  size: number;
+  modified_at: string;
+}
+
+/**
+ * A chat backend. Requests and responses use Ollama's shapes, which the rest of
+ * the API (usage, quotas, streaming, OpenAI facade) is built around; other
+ * providers translate to and from them.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: OllamaChatRequest, tenantId: string): Promise<OllamaChatResponse>;
+  streamChat(
+    request: OllamaChatRequest,
+    tenantId: string,
+    onChunk: (chunk: OllamaChatResponse) => void,
+    signal?: AbortSignal
+  ): Promise<void>;
+  listModels(): Promise<{ models: ProviderModel[] }>;
+  checkHealth(): Promise<boolean>;
+  // Raw prompt completion; only Ollama offers it
+  generate?(request: OllamaGenerateRequest, tenantId: string): Promise<OllamaGenerateResponse>;
+  streamGenerate?(
+    request: OllamaGenerateRequest,
+    tenantId: string,
+    onChunk: (chunk: OllamaGenerateResponse) => void,
+    signal?: AbortSignal
+  ): Promise<void>;
+  // Only for providers that serve embedding models
+  embed?(request: OllamaEmbedRequest, tenantId: string): Promise<OllamaEmbedResponse>;
+  // Context window in tokens, when the provider can tell
+  getContextLength?(model: string): Promise<number | null>;
+}
@@ -0,0 +1,127 @@
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import ollamaService, { OllamaPullProgress } from './ollamaService';
+import { ModelActionRecord, PullJob } from '../types';
+
+// Finished jobs can be polled for a day
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+// Progress lines arrive many times a second; the job is saved at most this often
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+const MAX_ACTIONS = 1000;
+
+class ModelAdminService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'ModelAdminService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('ModelAdminService initialized');
+  }
+
+  private jobKey(jobId: string): string {
+    return `model-pull:${jobId}`;
+  }
+
+  // List of the tenant's model actions, newest first
+  private actionsKey(tenantId: string): string {
+    return `tenant:${tenantId}:model-actions`;
+  }
+
+  /**
+   * Start pulling a model in the background. The returned job is saved and
+   * updated in Redis as the pull progresses; `completion` resolves with the
+   * finished job and never rejects.
+   */
+  async startPull(
+    tenantId: string,
+    userId: string,
+    model: string,
+    insecure?: boolean,
+    onProgress?: (progress: OllamaPullProgress) => void
+  ): Promise<{ job: PullJob; completion: Promise<PullJob> }> {
+    const now = new Date().toISOString();
+    const job: PullJob = {
+      jobId: uuidv4(),
+      tenantId,
+      userId,
+      model,
+      status: 'running',
+      progress: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.saveJob(job);
+    await this.recordAction(tenantId, { action: 'pull', model, userId, jobId: job.jobId });
+    this.logger.info({ tenantId, userId, model, jobId: job.jobId }, 'Model pull started');
+
+    let savedAt = Date.now();
+    const completion = ollamaService.pullModel(model, tenantId, (progress) => {
+      job.progress = progress;
+      job.updatedAt = new Date().toISOString();
+      onProgress?.(progress);
+
+      if (Date.now() - savedAt >= PROGRESS_SAVE_INTERVAL_MS) {
+        savedAt = Date.now();
+        this.saveJob(job).catch(() => undefined);
+      }
+    }, insecure)
+      .then(() => {
+        job.status = 'completed';
+        this.logger.info({ tenantId, model, jobId: job.jobId }, 'Model pull completed');
+      })
+      .catch((error) => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        this.logger.error({ tenantId, model, jobId: job.jobId, error: job.error }, 'Model pull failed');
+      })
+      .then(async () => {
+        job.updatedAt = new Date().toISOString();
+        try {
+          await this.saveJob(job);
+        } catch (error) {
+          this.logger.error({ jobId: job.jobId, error: error instanceof Error ? error.message : error }, 'Failed to save pull job');
+        }
+        return job;
+      });
+
+    return { job: { ...job }, completion };
+  }
+
+  // Jobs are only visible to the tenant that started them
+  async getJob(tenantId: string, jobId: string): Promise<PullJob | null> {
+    const data = await this.redis!.get(this.jobKey(jobId));
+    if (!data) {
+      return null;
+    }
+
+    const job: PullJob = JSON.parse(data);
+    return job.tenantId === tenantId ? job : null;
+  }
+
+  async recordAction(tenantId: string, action: Omit<ModelActionRecord, 'createdAt'>): Promise<void> {
+    const record: ModelActionRecord = { ...action, createdAt: new Date().toISOString() };
+
+    await this.redis!.lPush(this.actionsKey(tenantId), JSON.stringify(record));
+    await this.redis!.lTrim(this.actionsKey(tenantId), 0, MAX_ACTIONS - 1);
+  }
+
+  // Newest first
+  async listActions(tenantId: string, limit: number): Promise<ModelActionRecord[]> {
+    const entries = await this.redis!.lRange(this.actionsKey(tenantId), 0, limit - 1);
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  private async saveJob(job: PullJob): Promise<void> {
+    await this.redis!.set(this.jobKey(job.jobId), JSON.stringify(job), { EX: JOB_TTL_SECONDS });
+  }
+}
+
+export default new ModelAdminService();
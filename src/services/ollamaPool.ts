@@ -0,0 +1,291 @@
+import axios, { AxiosInstance } from 'axios';
+import { Logger } from 'pino';
+import logger from '../config/logger';
+
+export type BalancingStrategy = 'round-robin' | 'least-inflight';
+
+export interface OllamaBackendConfig {
+  url: string;
+  weight: number;
+}
+
+export interface OllamaBackend extends OllamaBackendConfig {
+  client: AxiosInstance;
+  healthy: boolean;
+  inflight: number;
+  // Models reported by /api/tags; null until the first successful refresh
+  models: Set<string> | null;
+  lastCheckedAt: string | null;
+  // Running weight for smooth weighted round-robin
+  currentWeight: number;
+}
+
+export interface OllamaBackendStatus {
+  url: string;
+  weight: number;
+  healthy: boolean;
+  inflight: number;
+  models: string[] | null;
+  lastCheckedAt: string | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000; // 2 minutes timeout for LLM responses
+export const DEFAULT_MAX_CONCURRENT = 4;
+
+// OLLAMA_MAX_CONCURRENT sets the calls in flight per backend; 0 means no cap. The request queue
+// enforces it as a total over all backends, and select() uses it to spread calls between them
+export const parseMaxConcurrent = (value: string | undefined): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_MAX_CONCURRENT;
+};
+
+// "llama2" and "llama2:latest" name the same model
+export const normalizeModelName = (model: string): string => {
+  return model.includes(':') ? model : `${model}:latest`;
+};
+
+// OLLAMA_BACKENDS="http://ollama-a:11434|3,http://ollama-b:11434" (weight defaults to 1)
+export const parseBackends = (value: string | undefined, fallbackUrl: string): OllamaBackendConfig[] => {
+  const entries = (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    return [{ url: fallbackUrl, weight: 1 }];
+  }
+
+  return entries.map((entry) => {
+    const [url, weight] = entry.split('|');
+    const parsedWeight = parseInt(weight, 10);
+    return {
+      url: url.replace(/\/+$/, ''),
+      weight: Number.isFinite(parsedWeight) && parsedWeight > 0 ? parsedWeight : 1
+    };
+  });
+};
+
+// Connection failures, timeouts, 5xx and "model not found" are worth another backend; other 4xx are not
+export const isRetryableError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (axios.isCancel(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status >= 500 || status === 404;
+};
+
+// Ollama answers 404 when the backend does not have the model; the backend itself is fine
+export const isModelNotFound = (error: unknown): boolean => {
+  return axios.isAxiosError(error) && error.response?.status === 404;
+};
+
+export class OllamaPool {
+  private backends: OllamaBackend[];
+  private strategy: BalancingStrategy;
+  private maxConcurrent: number;
+  private logger: Logger;
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    configs: OllamaBackendConfig[],
+    strategy: BalancingStrategy = 'round-robin',
+    loggerInstance: Logger = logger,
+    maxConcurrent: number = 0
+  ) {
+    this.logger = loggerInstance.child({ module: 'OllamaPool' });
+    this.strategy = strategy;
+    this.maxConcurrent = maxConcurrent;
+    this.backends = configs.map((config) => ({
+      ...config,
+      client: axios.create({
+        baseURL: config.url,
+        timeout: DEFAULT_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }),
+      healthy: true,
+      inflight: 0,
+      models: null,
+      lastCheckedAt: null,
+      currentWeight: 0
+    }));
+  }
+
+  getBackends(): OllamaBackend[] {
+    return this.backends;
+  }
+
+  getStatus(): OllamaBackendStatus[] {
+    return this.backends.map((backend) => ({
+      url: backend.url,
+      weight: backend.weight,
+      healthy: backend.healthy,
+      inflight: backend.inflight,
+      models: backend.models ? Array.from(backend.models) : null,
+      lastCheckedAt: backend.lastCheckedAt
+    }));
+  }
+
+  /**
+   * Pick a backend for a model, skipping those already tried.
+   * Healthy backends that have the model win; then any healthy backend whose
+   * model list is unknown or lacks it; unhealthy ones are a last resort.
+   * Within that group, backends at their concurrency cap are passed over
+   * while others have room. The cap is not a hard limit per backend: the
+   * request queue admits calls against the total of all backends, so when
+   * only one backend has a model it may run more than its share.
+   */
+  select(model?: string, exclude: Set<OllamaBackend> = new Set()): OllamaBackend | null {
+    const untried = this.backends.filter((backend) => !exclude.has(backend));
+    const healthy = untried.filter((backend) => backend.healthy);
+
+    if (model) {
+      const name = normalizeModelName(model);
+      const withModel = healthy.filter((backend) => backend.models?.has(name));
+      if (withModel.length > 0) {
+        return this.pickWithRoom(withModel);
+      }
+    }
+
+    if (healthy.length > 0) {
+      return this.pickWithRoom(healthy);
+    }
+    return untried.length > 0 ? this.pickWithRoom(untried) : null;
+  }
+
+  /**
+   * Run an operation against a selected backend, moving on to the next one
+   * while the failure is retryable and backends remain.
+   */
+  async run<T>(
+    model: string | undefined,
+    operation: (backend: OllamaBackend) => Promise<T>,
+    canRetry: (error: unknown) => boolean = isRetryableError
+  ): Promise<T> {
+    const tried = new Set<OllamaBackend>();
+    let backend = this.select(model, tried);
+
+    if (!backend) {
+      throw new Error('No Ollama backends configured');
+    }
+
+    for (;;) {
+      tried.add(backend);
+
+      try {
+        return await this.track(backend, operation);
+      } catch (error) {
+        if (!canRetry(error)) {
+          throw error;
+        }
+
+        if (isModelNotFound(error)) {
+          this.forgetModel(backend, model);
+        } else {
+          this.markUnhealthy(backend, error);
+        }
+
+        const next = this.select(model, tried);
+        if (!next) {
+          throw error;
+        }
+
+        this.logger.warn({ model, failed: backend.url, next: next.url }, 'Retrying request on another Ollama backend');
+        backend = next;
+      }
+    }
+  }
+
+  // Check every backend and reload its model list; returns true if any backend is healthy
+  async refresh(): Promise<boolean> {
+    await Promise.all(this.backends.map((backend) => this.refreshBackend(backend)));
+    return this.backends.some((backend) => backend.healthy);
+  }
+
+  startHealthChecks(intervalMs: number): void {
+    this.stopHealthChecks();
+    void this.refresh();
+    this.healthTimer = setInterval(() => void this.refresh(), intervalMs);
+    this.healthTimer.unref();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  private async refreshBackend(backend: OllamaBackend): Promise<void> {
+    const wasHealthy = backend.healthy;
+
+    try {
+      const response = await backend.client.get<{ models?: Array<{ name: string }> }>('/api/tags', {
+        timeout: 5000
+      });
+      backend.models = new Set((response.data.models || []).map((model) => normalizeModelName(model.name)));
+      backend.healthy = true;
+    } catch (error) {
+      backend.healthy = false;
+    }
+    backend.lastCheckedAt = new Date().toISOString();
+
+    if (backend.healthy !== wasHealthy) {
+      this.logger.info({ url: backend.url, healthy: backend.healthy }, 'Ollama backend health changed');
+    }
+  }
+
+  private async track<T>(backend: OllamaBackend, operation: (backend: OllamaBackend) => Promise<T>): Promise<T> {
+    backend.inflight++;
+    try {
+      return await operation(backend);
+    } finally {
+      backend.inflight--;
+    }
+  }
+
+  private markUnhealthy(backend: OllamaBackend, error: unknown): void {
+    this.logger.warn({
+      url: backend.url,
+      error: error instanceof Error ? error.message : error
+    }, 'Ollama backend failed, marking unhealthy until next health check');
+    backend.healthy = false;
+  }
+
+  // Stop preferring a backend for a model it turned out not to have; the next refresh corrects the list
+  private forgetModel(backend: OllamaBackend, model: string | undefined): void {
+    this.logger.warn({ url: backend.url, model }, 'Ollama backend does not have the model');
+    if (model) {
+      backend.models?.delete(normalizeModelName(model));
+    }
+  }
+
+  private pickWithRoom(candidates: OllamaBackend[]): OllamaBackend {
+    const withRoom = candidates.filter((backend) => !this.maxConcurrent || backend.inflight < this.maxConcurrent);
+    return this.pick(withRoom.length > 0 ? withRoom : candidates);
+  }
+
+  private pick(candidates: OllamaBackend[]): OllamaBackend {
+    if (this.strategy === 'least-inflight') {
+      return candidates.reduce((best, backend) => (
+        backend.inflight / backend.weight < best.inflight / best.weight ? backend : best
+      ));
+    }
+
+    // Smooth weighted round-robin: spreads picks by weight without bursts
+    const totalWeight = candidates.reduce((sum, backend) => sum + backend.weight, 0);
+    let best = candidates[0];
+    for (const backend of candidates) {
+      backend.currentWeight += backend.weight;
+      if (backend.currentWeight > best.currentWeight) {
+        best = backend;
+      }
+    }
+    best.currentWeight -= totalWeight;
+    return best;
+  }
+}
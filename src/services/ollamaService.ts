@@ -1,16 +1,53 @@
-import axios, { AxiosInstance } from 'axios';
+import axios from 'axios';
 import { Logger } from 'pino';
 import logger from '../config/logger';
+import {
+  BalancingStrategy,
+  OllamaBackend,
+  OllamaBackendStatus,
+  OllamaPool,
+  isRetryableError,
+  parseBackends,
+  parseMaxConcurrent
+} from './ollamaPool';
+import { LLMProvider, ProviderModel } from './llmProvider';
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    // JSON schema of the arguments
+    parameters?: Record<string, unknown>;
+  };
+}
 
 export interface OllamaMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  // Base64-encoded images, for vision models
+  images?: string[];
+  // Functions the model wants called (assistant messages)
+  tool_calls?: OllamaToolCall[];
+  // Function whose result this is (tool messages)
+  tool_name?: string;
 }
 
 export interface OllamaChatRequest {
   model: string;
   messages: OllamaMessage[];
   stream?: boolean;
+  // Functions the model may call instead of replying
+  tools?: OllamaTool[];
+  // "json" or a JSON schema the reply must follow
+  format?: 'json' | Record<string, unknown>;
   options?: {
     temperature?: number;
     top_p?: number;
@@ -25,6 +62,36 @@ export interface OllamaChatResponse {
   created_at: string;
   message: OllamaMessage;
   done: boolean;
+  done_reason?: string;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
+export interface OllamaGenerateRequest {
+  model: string;
+  prompt: string;
+  // Text after the insertion point, for fill-in-the-middle
+  suffix?: string;
+  system?: string;
+  // Overrides the model's prompt template (Go template syntax)
+  template?: string;
+  // Send the prompt without applying any template
+  raw?: boolean;
+  format?: OllamaChatRequest['format'];
+  stream?: boolean;
+  options?: OllamaChatRequest['options'];
+}
+
+export interface OllamaGenerateResponse {
+  model: string;
+  created_at: string;
+  response: string;
+  done: boolean;
+  done_reason?: string;
   total_duration?: number;
   load_duration?: number;
   prompt_eval_count?: number;
@@ -33,24 +100,74 @@ export interface OllamaChatResponse {
   eval_duration?: number;
 }
 
-class OllamaService {
-  private client: AxiosInstance;
+export interface OllamaEmbedRequest {
+  model: string;
+  input: string | string[];
+  // Truncate inputs longer than the model's context instead of failing (Ollama's default)
+  truncate?: boolean;
+}
+
+export interface OllamaEmbedResponse {
+  model: string;
+  // One vector per input, in input order
+  embeddings: number[][];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+}
+
+// One line of /api/pull's progress stream
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  // Backend being pulled to
+  backend?: string;
+}
+
+export interface OllamaShowResponse {
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  details?: Record<string, unknown>;
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+  modified_at?: string;
+}
+
+const CONTEXT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const isNotFound = (error: unknown): boolean => axios.isAxiosError(error) && error.response?.status === 404;
+
+class OllamaService implements LLMProvider {
+  readonly name = 'ollama';
+  private pool: OllamaPool;
   private logger: Logger;
-  private ollamaUrl: string;
+  private contextLengths = new Map<string, { value: number | null; expiresAt: number }>();
 
   constructor(loggerInstance: Logger = logger) {
     this.logger = loggerInstance.child({ module: 'OllamaService' });
-    this.ollamaUrl = process.env.OLLAMA_URL || 'http://localhost:11434';
-    
-    this.client = axios.create({
-      baseURL: this.ollamaUrl,
-      timeout: 120000, // 2 minutes timeout for LLM responses
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
 
-    this.logger.info({ ollamaUrl: this.ollamaUrl }, 'OllamaService initialized');
+    const backends = parseBackends(process.env.OLLAMA_BACKENDS, process.env.OLLAMA_URL || 'http://localhost:11434');
+    const strategy: BalancingStrategy = process.env.OLLAMA_BALANCING === 'least-inflight' ? 'least-inflight' : 'round-robin';
+    const maxConcurrent = parseMaxConcurrent(process.env.OLLAMA_MAX_CONCURRENT);
+    this.pool = new OllamaPool(backends, strategy, loggerInstance, maxConcurrent);
+
+    this.logger.info({ backends: backends.map((backend) => backend.url), strategy, maxConcurrent }, 'OllamaService initialized');
+  }
+
+  startHealthChecks(): void {
+    const intervalMs = parseInt(process.env.OLLAMA_HEALTH_CHECK_INTERVAL_MS || '30000', 10);
+    this.pool.startHealthChecks(intervalMs);
+  }
+
+  stopHealthChecks(): void {
+    this.pool.stopHealthChecks();
+  }
+
+  getBackendStatus(): OllamaBackendStatus[] {
+    return this.pool.getStatus();
   }
 
   async chat(request: OllamaChatRequest, tenantId: string): Promise<OllamaChatResponse> {
@@ -61,10 +178,10 @@ class OllamaService {
     }, 'Sending chat request to Ollama');
 
     try {
-      const response = await this.client.post<OllamaChatResponse>('/api/chat', {
+      const response = await this.pool.run(request.model, (backend) => backend.client.post<OllamaChatResponse>('/api/chat', {
         ...request,
         stream: false // Force non-streaming for simplicity
-      });
+      }));
 
       this.logger.info({ 
         tenantId, 
@@ -91,10 +208,44 @@ class OllamaService {
     }
   }
 
+  async embed(request: OllamaEmbedRequest, tenantId: string): Promise<OllamaEmbedResponse> {
+    const inputCount = Array.isArray(request.input) ? request.input.length : 1;
+    this.logger.info({ tenantId, model: request.model, inputCount }, 'Sending embed request to Ollama');
+
+    try {
+      const response = await this.pool.run(request.model, (backend) => (
+        backend.client.post<OllamaEmbedResponse>('/api/embed', request)
+      ));
+
+      this.logger.info({
+        tenantId,
+        model: request.model,
+        prompt_eval_count: response.data.prompt_eval_count
+      }, 'Embed response received from Ollama');
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        this.logger.error({
+          tenantId,
+          error: error.message,
+          status: error.response?.status,
+          data: error.response?.data
+        }, 'Ollama embed request failed');
+
+        throw new Error(`Ollama request failed: ${error.message}`);
+      }
+
+      this.logger.error({ tenantId, error }, 'Unexpected error in Ollama embed');
+      throw error;
+    }
+  }
+
   async streamChat(
     request: OllamaChatRequest, 
     tenantId: string,
-    onChunk: (chunk: OllamaChatResponse) => void
+    onChunk: (chunk: OllamaChatResponse) => void,
+    signal?: AbortSignal
   ): Promise<void> {
     this.logger.info({ 
       tenantId, 
@@ -102,92 +253,381 @@ class OllamaService {
       messageCount: request.messages.length 
     }, 'Starting streaming chat with Ollama');
 
+    await this.stream('/api/chat', request, tenantId, onChunk, signal);
+  }
+
+  async generate(request: OllamaGenerateRequest, tenantId: string): Promise<OllamaGenerateResponse> {
+    this.logger.info({ tenantId, model: request.model, raw: request.raw }, 'Sending generate request to Ollama');
+
     try {
-      const response = await this.client.post('/api/chat', {
+      const response = await this.pool.run(request.model, (backend) => backend.client.post<OllamaGenerateResponse>('/api/generate', {
         ...request,
-        stream: true
-      }, {
-        responseType: 'stream'
-      });
+        stream: false
+      }));
 
-      const stream = response.data;
+      this.logger.info({
+        tenantId,
+        model: request.model,
+        done: response.data.done,
+        eval_count: response.data.eval_count
+      }, 'Generate response received from Ollama');
 
-      return new Promise((resolve, reject) => {
-        let buffer = '';
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        this.logger.error({
+          tenantId,
+          error: error.message,
+          status: error.response?.status,
+          data: error.response?.data
+        }, 'Ollama generate request failed');
 
-        stream.on('data', (chunk: Buffer) => {
-          buffer += chunk.toString();
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+        throw new Error(`Ollama request failed: ${error.message}`);
+      }
 
-          for (const line of lines) {
-            if (line.trim()) {
-              try {
-                const data = JSON.parse(line);
-                onChunk(data);
-              } catch (e) {
-                this.logger.warn({ tenantId, line }, 'Failed to parse stream chunk');
-              }
-            }
-          }
-        });
+      this.logger.error({ tenantId, error }, 'Unexpected error in Ollama generate');
+      throw error;
+    }
+  }
 
-        stream.on('end', () => {
-          this.logger.info({ tenantId }, 'Streaming chat completed');
-          resolve();
-        });
+  async streamGenerate(
+    request: OllamaGenerateRequest,
+    tenantId: string,
+    onChunk: (chunk: OllamaGenerateResponse) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.logger.info({ tenantId, model: request.model, raw: request.raw }, 'Starting streaming generate with Ollama');
 
-        stream.on('error', (error: Error) => {
-          this.logger.error({ tenantId, error: error.message }, 'Stream error');
-          reject(error);
-        });
-      });
+    await this.stream('/api/generate', request, tenantId, onChunk, signal);
+  }
+
+  // Relay an NDJSON stream, failing over to another backend only while nothing has been relayed
+  private async stream<T>(
+    path: string,
+    request: { model: string },
+    tenantId: string,
+    onChunk: (chunk: T) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Once a token has reached the client the reply cannot be restarted elsewhere
+    let received = false;
+    const forward = (chunk: T) => {
+      received = true;
+      onChunk(chunk);
+    };
+    const canRetry = (error: unknown) => (
+      !received && !signal?.aborted && (!axios.isAxiosError(error) || isRetryableError(error))
+    );
+
+    try {
+      await this.pool.run(
+        request.model,
+        (backend) => this.streamFromBackend(backend, path, request, tenantId, forward, signal),
+        canRetry
+      );
     } catch (error) {
+      if (axios.isCancel(error)) {
+        this.logger.info({ tenantId, path }, 'Streaming request cancelled before response');
+        return;
+      }
+
       if (axios.isAxiosError(error)) {
         this.logger.error({ 
           tenantId,
+          path,
           error: error.message,
           status: error.response?.status
-        }, 'Ollama streaming chat failed');
+        }, 'Ollama streaming request failed');
         
         throw new Error(`Ollama streaming request failed: ${error.message}`);
       }
       
-      this.logger.error({ tenantId, error }, 'Unexpected error in streaming chat');
+      this.logger.error({ tenantId, path, error }, 'Unexpected error in streaming request');
       throw error;
     }
   }
 
-  async listModels(): Promise<{ models: Array<{ name: string; size: number; modified_at: string }> }> {
+  private async streamFromBackend<T>(
+    backend: OllamaBackend,
+    path: string,
+    request: object,
+    tenantId: string,
+    onChunk: (chunk: T) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await backend.client.post(path, {
+      ...request,
+      stream: true
+    }, {
+      responseType: 'stream',
+      signal
+    });
+
+    const stream = response.data;
+
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+
+      // Client went away: stop reading from Ollama so it can stop generating
+      const onAbort = () => {
+        this.logger.info({ tenantId, path }, 'Streaming request aborted by client');
+        stream.destroy();
+        resolve();
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      stream.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.trim()) {
+            try {
+              const data = JSON.parse(line);
+              onChunk(data);
+            } catch (e) {
+              this.logger.warn({ tenantId, line }, 'Failed to parse stream chunk');
+            }
+          }
+        }
+      });
+
+      stream.on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.logger.info({ tenantId, path, backend: backend.url }, 'Streaming request completed');
+        resolve();
+      });
+
+      stream.on('error', (error: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          resolve();
+          return;
+        }
+        this.logger.error({ tenantId, path, backend: backend.url, error: error.message }, 'Stream error');
+        reject(error);
+      });
+    });
+  }
+
+  // Union of the models available across backends; fails only if no backend answers
+  async listModels(): Promise<{ models: ProviderModel[] }> {
     this.logger.debug('Fetching available models from Ollama');
 
-    try {
-      const response = await this.client.get('/api/tags');
-      
-      this.logger.info({ 
-        modelCount: response.data.models?.length || 0 
-      }, 'Models fetched from Ollama');
+    const results = await Promise.allSettled(
+      this.pool.getBackends().map((backend) => backend.client.get<{ models?: ProviderModel[] }>('/api/tags'))
+    );
 
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
+    const models = new Map<string, ProviderModel>();
+    let firstError: unknown = null;
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        firstError = firstError || result.reason;
+        continue;
+      }
+      for (const model of result.value.data.models || []) {
+        if (!models.has(model.name)) {
+          models.set(model.name, model);
+        }
+      }
+    }
+
+    if (results.every((result) => result.status === 'rejected')) {
+      if (axios.isAxiosError(firstError)) {
         this.logger.error({ 
-          error: error.message,
-          status: error.response?.status
+          error: firstError.message,
+          status: firstError.response?.status
         }, 'Failed to fetch models from Ollama');
         
-        throw new Error(`Failed to fetch models: ${error.message}`);
+        throw new Error(`Failed to fetch models: ${firstError.message}`);
       }
       
-      this.logger.error({ error }, 'Unexpected error fetching models');
-      throw error;
+      this.logger.error({ error: firstError }, 'Unexpected error fetching models');
+      throw firstError;
+    }
+
+    this.logger.info({ 
+      modelCount: models.size
+    }, 'Models fetched from Ollama');
+
+    return { models: Array.from(models.values()) };
+  }
+
+  /**
+   * Context window Ollama runs the model with: the Modelfile's num_ctx when set,
+   * otherwise the length the model was trained for. Cached per model.
+   */
+  async getContextLength(model: string): Promise<number | null> {
+    const cached = this.contextLengths.get(model);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    try {
+      const response = await this.pool.run(model, (backend) => backend.client.post<{
+        parameters?: string;
+        model_info?: Record<string, unknown>;
+      }>('/api/show', { model }));
+
+      const numCtx = /^num_ctx\s+(\d+)/m.exec(response.data.parameters || '');
+      const trained = Object.entries(response.data.model_info || {})
+        .find(([key]) => key.endsWith('.context_length'))?.[1];
+      const value = numCtx ? parseInt(numCtx[1], 10) : (typeof trained === 'number' ? trained : null);
+
+      this.contextLengths.set(model, { value, expiresAt: Date.now() + CONTEXT_CACHE_TTL_MS });
+      return value;
+    } catch (error) {
+      this.logger.warn({
+        model,
+        error: error instanceof Error ? error.message : error
+      }, 'Failed to read model context length');
+      return null;
+    }
+  }
+
+  // Model management below applies to every backend, so they keep serving the same models
+
+  // null when no backend has the model
+  async showModel(model: string): Promise<OllamaShowResponse | null> {
+    try {
+      // Backends that have the model are tried first, so a 404 means none has it
+      const response = await this.pool.run(
+        model,
+        (backend) => backend.client.post<OllamaShowResponse>('/api/show', { model }),
+        (error) => isRetryableError(error) && !isNotFound(error)
+      );
+      return response.data;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw this.wrapAdminError(error, 'show', model);
     }
   }
 
+  /**
+   * Pull the model onto each backend in turn, reporting Ollama's progress lines.
+   * Rejects on the first backend that fails; earlier backends keep the model.
+   */
+  async pullModel(
+    model: string,
+    tenantId: string,
+    onProgress: (progress: OllamaPullProgress) => void,
+    insecure?: boolean
+  ): Promise<void> {
+    this.logger.info({ tenantId, model }, 'Pulling model onto Ollama backends');
+
+    for (const backend of this.pool.getBackends()) {
+      // Ollama reports pull failures in the stream rather than with a status code
+      let failure: string | null = null;
+
+      try {
+        await this.streamFromBackend<OllamaPullProgress & { error?: string }>(
+          backend,
+          '/api/pull',
+          { model, ...(insecure ? { insecure } : {}) },
+          tenantId,
+          ({ error, ...progress }) => {
+            if (error) {
+              failure = error;
+              return;
+            }
+            onProgress({ ...progress, backend: backend.url });
+          }
+        );
+      } catch (error) {
+        throw this.wrapAdminError(error, 'pull', model);
+      }
+
+      if (failure) {
+        this.logger.error({ tenantId, model, backend: backend.url, error: failure }, 'Ollama model pull failed');
+        throw new Error(`Ollama pull failed: ${failure}`);
+      }
+    }
+
+    await this.afterModelChange(model);
+  }
+
+  // false when no backend had the model
+  async deleteModel(model: string): Promise<boolean> {
+    const deleted = await this.onEveryBackend('delete', model, (backend) => (
+      backend.client.delete('/api/delete', { data: { model } })
+    ));
+
+    await this.afterModelChange(model);
+    return deleted > 0;
+  }
+
+  // false when no backend has the source model
+  async copyModel(source: string, destination: string): Promise<boolean> {
+    const copied = await this.onEveryBackend('copy', source, (backend) => (
+      backend.client.post('/api/copy', { source, destination })
+    ));
+
+    await this.afterModelChange(destination);
+    return copied > 0;
+  }
+
+  // Runs the operation on all backends; returns how many had the model
+  private async onEveryBackend(
+    action: string,
+    model: string,
+    operation: (backend: OllamaBackend) => Promise<unknown>
+  ): Promise<number> {
+    let found = 0;
+
+    for (const backend of this.pool.getBackends()) {
+      try {
+        await operation(backend);
+        found++;
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw this.wrapAdminError(error, action, model);
+        }
+      }
+    }
+
+    this.logger.info({ action, model, backends: found }, 'Ollama model updated');
+    return found;
+  }
+
+  // Routing and cached context lengths depend on which models each backend has
+  private async afterModelChange(model: string): Promise<void> {
+    this.contextLengths.delete(model);
+    await this.pool.refresh();
+  }
+
+  private wrapAdminError(error: unknown, action: string, model: string): unknown {
+    if (axios.isAxiosError(error)) {
+      this.logger.error({
+        model,
+        action,
+        error: error.message,
+        status: error.response?.status
+      }, 'Ollama model request failed');
+
+      return new Error(`Ollama ${action} failed: ${error.message}`);
+    }
+
+    this.logger.error({ model, action, error }, 'Unexpected error managing Ollama model');
+    return error;
+  }
+
+  // Healthy when at least one backend answers; also refreshes each backend's model list
   async checkHealth(): Promise<boolean> {
     try {
-      await this.client.get('/');
-      return true;
+      const healthy = await this.pool.refresh();
+      if (!healthy) {
+        this.logger.warn('Ollama health check failed');
+      }
+      return healthy;
     } catch (error) {
       this.logger.warn('Ollama health check failed');
       return false;
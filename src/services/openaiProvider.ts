@@ -0,0 +1,302 @@
+import axios, { AxiosInstance } from 'axios';
+import { Logger } from 'pino';
+import logger from '../config/logger';
+import { LLMProvider, ProviderModel } from './llmProvider';
+import { isBlockedHost, providerHttpAgent, providerHttpsAgent } from '../utils/egress';
+import { OllamaChatRequest, OllamaChatResponse, OllamaEmbedRequest, OllamaEmbedResponse } from './ollamaService';
+import {
+  OpenAIChatCompletion,
+  OpenAIChatCompletionChunk,
+  OpenAIUsage,
+  toOllamaToolCalls,
+  toOpenAIChatRequest
+} from '../utils/openai';
+
+export interface OpenAIProviderConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI Chat Completions API
+ * (OpenAI, vLLM, LiteLLM, llama.cpp server, ...). Models are exposed and
+ * accepted as "<name>/<model>".
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private client: AxiosInstance;
+  private logger: Logger;
+
+  constructor(config: OpenAIProviderConfig, loggerInstance: Logger = logger) {
+    this.name = config.name;
+    this.logger = loggerInstance.child({ module: 'OpenAICompatibleProvider', provider: config.name });
+    this.client = axios.create({
+      baseURL: config.baseUrl.replace(/\/+$/, ''),
+      timeout: 120000, // 2 minutes timeout for LLM responses
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      // The agents refuse hostnames resolving to private addresses; redirects could lead anywhere
+      httpAgent: providerHttpAgent,
+      httpsAgent: providerHttpsAgent,
+      maxRedirects: 0
+    });
+
+    // IP literals and localhost are never looked up, so check them before connecting
+    const { hostname } = new URL(config.baseUrl);
+    this.client.interceptors.request.use((request) => {
+      if (isBlockedHost(hostname)) {
+        throw new Error(`Provider host ${hostname} is a private address`);
+      }
+      return request;
+    });
+  }
+
+  async chat(request: OllamaChatRequest, tenantId: string): Promise<OllamaChatResponse> {
+    this.logger.info({ tenantId, model: request.model, messageCount: request.messages.length }, 'Sending chat request to provider');
+
+    try {
+      const response = await this.client.post<OpenAIChatCompletion>('/chat/completions', {
+        ...toOpenAIChatRequest(request),
+        model: this.upstreamModel(request.model),
+        stream: false
+      });
+
+      const completion = response.data;
+      const choice = completion.choices[0];
+      const toolCalls = toOllamaToolCalls(choice?.message.tool_calls);
+
+      return {
+        model: this.qualify(completion.model),
+        created_at: new Date(completion.created * 1000).toISOString(),
+        message: {
+          role: 'assistant',
+          content: choice?.message.content || '',
+          ...(toolCalls ? { tool_calls: toolCalls } : {})
+        },
+        done: true,
+        done_reason: choice?.finish_reason === 'length' ? 'length' : 'stop',
+        prompt_eval_count: completion.usage?.prompt_tokens,
+        eval_count: completion.usage?.completion_tokens
+      };
+    } catch (error) {
+      throw this.wrapError(error, tenantId, 'Provider chat request failed');
+    }
+  }
+
+  async streamChat(
+    request: OllamaChatRequest,
+    tenantId: string,
+    onChunk: (chunk: OllamaChatResponse) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.logger.info({ tenantId, model: request.model, messageCount: request.messages.length }, 'Starting streaming chat with provider');
+
+    let response;
+    try {
+      response = await this.client.post('/chat/completions', {
+        ...toOpenAIChatRequest(request),
+        model: this.upstreamModel(request.model),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, {
+        responseType: 'stream',
+        signal
+      });
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        this.logger.info({ tenantId }, 'Streaming chat cancelled before response');
+        return;
+      }
+      throw this.wrapError(error, tenantId, 'Provider streaming chat failed');
+    }
+
+    const stream = response.data;
+    let model = this.qualify(this.upstreamModel(request.model));
+    let finishReason: string | null = null;
+    let usage: OpenAIUsage | null = null;
+    // Tool call fragments by index, assembled until the stream ends
+    const toolCalls: Array<{ name: string; arguments: string }> = [];
+
+    // Ollama sends tool calls whole and ends a stream with a done chunk carrying
+    // the token counts; synthesise both
+    const finish = () => {
+      const calls = toOllamaToolCalls(toolCalls.filter(Boolean).map((call) => ({ function: call })));
+      if (calls) {
+        onChunk({
+          model,
+          created_at: new Date().toISOString(),
+          message: { role: 'assistant', content: '', tool_calls: calls },
+          done: false
+        });
+      }
+
+      onChunk({
+        model,
+        created_at: new Date().toISOString(),
+        message: { role: 'assistant', content: '' },
+        done: true,
+        done_reason: finishReason === 'length' ? 'length' : 'stop',
+        prompt_eval_count: usage?.prompt_tokens,
+        eval_count: usage?.completion_tokens
+      });
+    };
+
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+      let finished = false;
+
+      const onAbort = () => {
+        this.logger.info({ tenantId }, 'Streaming chat aborted by client');
+        stream.destroy();
+        resolve();
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const handleLine = (line: string) => {
+        if (!line.startsWith('data:')) return;
+        const data = line.slice(5).trim();
+
+        if (data === '[DONE]') {
+          if (!finished) {
+            finished = true;
+            finish();
+          }
+          return;
+        }
+
+        try {
+          const chunk = JSON.parse(data) as OpenAIChatCompletionChunk;
+          model = this.qualify(chunk.model || model);
+          usage = chunk.usage || usage;
+
+          const choice = chunk.choices?.[0];
+          finishReason = choice?.finish_reason || finishReason;
+          for (const delta of choice?.delta.tool_calls || []) {
+            const call = toolCalls[delta.index] || (toolCalls[delta.index] = { name: '', arguments: '' });
+            call.name += delta.function?.name || '';
+            call.arguments += delta.function?.arguments || '';
+          }
+          if (choice?.delta.content) {
+            onChunk({
+              model,
+              created_at: new Date(chunk.created * 1000).toISOString(),
+              message: { role: 'assistant', content: choice.delta.content },
+              done: false
+            });
+          }
+        } catch (e) {
+          this.logger.warn({ tenantId, line }, 'Failed to parse stream chunk');
+        }
+      };
+
+      stream.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach((line) => handleLine(line.trim()));
+      });
+
+      stream.on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        handleLine(buffer.trim());
+        if (!finished && finishReason) {
+          finished = true;
+          finish();
+        }
+        this.logger.info({ tenantId }, 'Streaming chat completed');
+        resolve();
+      });
+
+      stream.on('error', (error: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          resolve();
+          return;
+        }
+        this.logger.error({ tenantId, error: error.message }, 'Stream error');
+        reject(error);
+      });
+    });
+  }
+
+  async embed(request: OllamaEmbedRequest, tenantId: string): Promise<OllamaEmbedResponse> {
+    this.logger.info({ tenantId, model: request.model }, 'Sending embedding request to provider');
+
+    try {
+      const response = await this.client.post<{
+        model: string;
+        data: Array<{ index: number; embedding: number[] }>;
+        usage?: { prompt_tokens: number };
+      }>('/embeddings', {
+        model: this.upstreamModel(request.model),
+        input: request.input
+      });
+
+      return {
+        model: this.qualify(response.data.model || this.upstreamModel(request.model)),
+        embeddings: [...response.data.data]
+          .sort((a, b) => a.index - b.index)
+          .map((entry) => entry.embedding),
+        prompt_eval_count: response.data.usage?.prompt_tokens
+      };
+    } catch (error) {
+      throw this.wrapError(error, tenantId, 'Provider embedding request failed');
+    }
+  }
+
+  async listModels(): Promise<{ models: ProviderModel[] }> {
+    try {
+      const response = await this.client.get<{ data: Array<{ id: string; created?: number }> }>('/models');
+
+      return {
+        models: (response.data.data || []).map((model) => ({
+          name: this.qualify(model.id),
+          size: 0,
+          modified_at: new Date((model.created || 0) * 1000).toISOString()
+        }))
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        this.logger.error({ error: error.message, status: error.response?.status }, 'Failed to fetch models from provider');
+        throw new Error(`Failed to fetch models: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await this.client.get('/models');
+      return true;
+    } catch (error) {
+      this.logger.warn('Provider health check failed');
+      return false;
+    }
+  }
+
+  private qualify(model: string): string {
+    return model.startsWith(`${this.name}/`) ? model : `${this.name}/${model}`;
+  }
+
+  private upstreamModel(model: string): string {
+    return model.startsWith(`${this.name}/`) ? model.slice(this.name.length + 1) : model;
+  }
+
+  private wrapError(error: unknown, tenantId: string, message: string): unknown {
+    if (axios.isAxiosError(error)) {
+      this.logger.error({ tenantId, error: error.message, status: error.response?.status }, message);
+      return new Error(`${this.name} request failed: ${error.message}`);
+    }
+
+    this.logger.error({ tenantId, error }, message);
+    return error;
+  }
+}
@@ -0,0 +1,123 @@
+import { RedisClientType } from 'redis';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { PromptMessage, PromptTemplate, SavePromptTemplateData } from '../types';
+
+// {{name}}, optionally with spaces inside the braces
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export const extractVariables = (messages: PromptMessage[]): string[] => {
+  const names = new Set<string>();
+  for (const message of messages) {
+    for (const match of message.content.matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+};
+
+// Placeholders without a value are left as they are; extra variables are ignored
+export const renderMessages = (
+  messages: PromptMessage[],
+  variables: Record<string, string | number | boolean>
+): PromptMessage[] => {
+  return messages.map((message) => ({
+    role: message.role,
+    content: message.content.replace(PLACEHOLDER, (match, name: string) => (
+      variables[name] === undefined ? match : String(variables[name])
+    ))
+  }));
+};
+
+class PromptService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'PromptService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('PromptService initialized');
+  }
+
+  // List of the template's versions, oldest first; version N is at index N - 1
+  private versionsKey(tenantId: string, name: string): string {
+    return `tenant:${tenantId}:prompt:${name}`;
+  }
+
+  // Set of the tenant's template names
+  private indexKey(tenantId: string): string {
+    return `tenant:${tenantId}:prompts`;
+  }
+
+  // Stores the messages as a new version; the list position is the version number
+  async saveTemplate(
+    tenantId: string,
+    name: string,
+    data: SavePromptTemplateData,
+    createdBy: string
+  ): Promise<PromptTemplate> {
+    const entry: Omit<PromptTemplate, 'version'> = {
+      name,
+      ...(data.description ? { description: data.description } : {}),
+      messages: data.messages,
+      variables: extractVariables(data.messages),
+      createdAt: new Date().toISOString(),
+      createdBy
+    };
+
+    // One transaction, so the version and the index entry are written together
+    const [pushed] = await this.redis!.multi()
+      .rPush(this.versionsKey(tenantId, name), JSON.stringify(entry))
+      .sAdd(this.indexKey(tenantId), name)
+      .exec();
+    const version = Number(pushed);
+
+    this.logger.info({ tenantId, name, version }, 'Prompt template saved');
+    return { ...entry, version };
+  }
+
+  // Latest version when `version` is omitted
+  async getTemplate(tenantId: string, name: string, version?: number): Promise<PromptTemplate | null> {
+    const index = version ? version - 1 : -1;
+    const data = await this.redis!.lIndex(this.versionsKey(tenantId, name), index);
+    if (!data) {
+      return null;
+    }
+
+    const entry = JSON.parse(data);
+    const resolvedVersion = version || await this.redis!.lLen(this.versionsKey(tenantId, name));
+    return { ...entry, version: resolvedVersion };
+  }
+
+  async listVersions(tenantId: string, name: string): Promise<PromptTemplate[]> {
+    const entries = await this.redis!.lRange(this.versionsKey(tenantId, name), 0, -1);
+    return entries.map((entry, index) => ({ ...JSON.parse(entry), version: index + 1 }));
+  }
+
+  // Latest version of every template, by name
+  async listTemplates(tenantId: string): Promise<PromptTemplate[]> {
+    const names = (await this.redis!.sMembers(this.indexKey(tenantId))).sort();
+    const templates = await Promise.all(names.map((name) => this.getTemplate(tenantId, name)));
+    return templates.filter((template): template is PromptTemplate => template !== null);
+  }
+
+  // Removes every version
+  async deleteTemplate(tenantId: string, name: string): Promise<boolean> {
+    const [removed] = await this.redis!.multi()
+      .del(this.versionsKey(tenantId, name))
+      .sRem(this.indexKey(tenantId), name)
+      .exec();
+    const deleted = Number(removed);
+
+    if (deleted > 0) {
+      this.logger.info({ tenantId, name }, 'Prompt template deleted');
+    }
+    return deleted > 0;
+  }
+}
+
+export default new PromptService();
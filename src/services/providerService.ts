@@ -0,0 +1,103 @@
+import { Logger } from 'pino';
+import logger from '../config/logger';
+import ollamaService from './ollamaService';
+import { LLMProvider, ProviderModel } from './llmProvider';
+import { OpenAICompatibleProvider } from './openaiProvider';
+import { decryptSecret, encryptSecret, isEncrypted } from '../utils/secrets';
+import { ProviderSettings, TenantSettings } from '../types';
+
+export const DEFAULT_PROVIDER = 'ollama';
+
+class ProviderService {
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'ProviderService' });
+  }
+
+  /**
+   * Name of the provider serving a model. "<provider>/<model>" selects one of
+   * the tenant's configured providers; anything else (including Ollama
+   * namespaces such as "library/llama2") goes to Ollama.
+   */
+  getProviderName(settings: TenantSettings, model: string): string {
+    const slash = model.indexOf('/');
+    if (slash > 0 && settings.providers?.[model.slice(0, slash)]) {
+      return model.slice(0, slash);
+    }
+    return DEFAULT_PROVIDER;
+  }
+
+  getProvider(settings: TenantSettings, model: string): LLMProvider {
+    const name = this.getProviderName(settings, model);
+    if (name === DEFAULT_PROVIDER) {
+      return ollamaService;
+    }
+    return this.createProvider(name, settings.providers![name]);
+  }
+
+  getProviders(settings: TenantSettings): LLMProvider[] {
+    const configured = Object.entries(settings.providers || {})
+      .map(([name, config]) => this.createProvider(name, config));
+
+    return [ollamaService, ...configured];
+  }
+
+  // Models across Ollama and the tenant's providers; a failing external provider is skipped
+  async listModels(settings: TenantSettings): Promise<ProviderModel[]> {
+    const [ollama, ...others] = await Promise.all(this.getProviders(settings).map((provider, index) => {
+      if (index === 0) {
+        return provider.listModels();
+      }
+      return provider.listModels().catch((error) => {
+        this.logger.warn({
+          provider: provider.name,
+          error: error instanceof Error ? error.message : error
+        }, 'Skipping provider that failed to list models');
+        return { models: [] };
+      });
+    }));
+
+    return [...(ollama.models || []), ...others.flatMap((result) => result.models)];
+  }
+
+  /**
+   * Encrypt API keys before providers are stored. A provider updated without
+   * an apiKey keeps the one already stored under the same name.
+   */
+  sealProviders(
+    updates: Record<string, ProviderSettings>,
+    existing: Record<string, ProviderSettings> = {}
+  ): Record<string, ProviderSettings> {
+    return Object.fromEntries(Object.entries(updates).map(([name, config]) => {
+      const apiKey = config.apiKey ?? existing[name]?.apiKey;
+      return [name, {
+        ...config,
+        ...(apiKey ? { apiKey: isEncrypted(apiKey) ? apiKey : encryptSecret(apiKey) } : {})
+      }];
+    }));
+  }
+
+  // Settings as returned by the API: API keys are replaced by a flag
+  redactSettings(settings: TenantSettings): TenantSettings {
+    if (!settings.providers) {
+      return settings;
+    }
+
+    const providers = Object.fromEntries(Object.entries(settings.providers).map(([name, { apiKey, ...config }]) => (
+      [name, { ...config, hasApiKey: Boolean(apiKey) }]
+    )));
+
+    return { ...settings, providers };
+  }
+
+  private createProvider(name: string, config: ProviderSettings): LLMProvider {
+    return new OpenAICompatibleProvider({
+      name,
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey ? decryptSecret(config.apiKey) : undefined
+    });
+  }
+}
+
+export default new ProviderService();
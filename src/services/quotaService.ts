@@ -0,0 +1,215 @@
+import { RedisClientType } from 'redis';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { QuotaCheckResult, QuotaLimits, QuotaStatus, QuotaWindow } from '../types';
+
+interface QuotaScope {
+  prefix: string;
+  limits: QuotaLimits;
+}
+
+interface QuotaWindows {
+  minute: number;
+  day: string;
+  month: string;
+  minuteResetSeconds: number;
+  dayResetSeconds: number;
+  monthResetSeconds: number;
+}
+
+const parseLimit = (value?: string): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const hasLimits = (limits: QuotaLimits): boolean => {
+  return Object.values(limits).some((value) => value !== undefined && value !== null);
+};
+
+class QuotaService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'QuotaService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('QuotaService initialized');
+  }
+
+  // Applied to tenants that have no quota configured
+  getDefaultLimits(): QuotaLimits {
+    return {
+      requestsPerMinute: parseLimit(process.env.QUOTA_REQUESTS_PER_MINUTE),
+      tokensPerDay: parseLimit(process.env.QUOTA_TOKENS_PER_DAY),
+      tokensPerMonth: parseLimit(process.env.QUOTA_TOKENS_PER_MONTH)
+    };
+  }
+
+  // Limit configuration
+  async getTenantLimits(tenantId: string): Promise<QuotaLimits> {
+    const data = await this.redis!.get(`tenant:${tenantId}:quota`);
+    return data ? JSON.parse(data) : this.getDefaultLimits();
+  }
+
+  async setTenantLimits(tenantId: string, limits: QuotaLimits): Promise<QuotaLimits> {
+    this.logger.info({ tenantId, limits }, 'Updating tenant quota');
+    await this.redis!.set(`tenant:${tenantId}:quota`, JSON.stringify(limits));
+    return limits;
+  }
+
+  async getUserLimits(tenantId: string, userId: string): Promise<QuotaLimits | null> {
+    const data = await this.redis!.get(`tenant:${tenantId}:user:${userId}:quota`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async setUserLimits(tenantId: string, userId: string, limits: QuotaLimits): Promise<QuotaLimits> {
+    this.logger.info({ tenantId, userId, limits }, 'Updating user quota');
+    await this.redis!.set(`tenant:${tenantId}:user:${userId}:quota`, JSON.stringify(limits));
+    return limits;
+  }
+
+  async deleteUserLimits(tenantId: string, userId: string): Promise<void> {
+    this.logger.info({ tenantId, userId }, 'Removing user quota');
+    await this.redis!.del(`tenant:${tenantId}:user:${userId}:quota`);
+  }
+
+  // Enforcement
+  async checkQuota(tenantId: string, userId: string): Promise<QuotaCheckResult> {
+    const scopes = await this.getScopes(tenantId, userId);
+    const windows = this.getWindows();
+    const status: QuotaStatus = {};
+
+    // Token budgets are only read here; they are charged once the reply is known
+    for (const scope of scopes) {
+      const checks: Array<[keyof QuotaStatus, number | undefined, string, number]> = [
+        ['tokensPerDay', scope.limits.tokensPerDay, `${scope.prefix}:quota:tokens:day:${windows.day}`, windows.dayResetSeconds],
+        ['tokensPerMonth', scope.limits.tokensPerMonth, `${scope.prefix}:quota:tokens:month:${windows.month}`, windows.monthResetSeconds]
+      ];
+
+      for (const [name, limit, key, resetSeconds] of checks) {
+        if (!limit) continue;
+
+        const used = Number(await this.redis!.get(key)) || 0;
+        this.mergeWindow(status, name, this.toWindow(limit, used, resetSeconds));
+
+        if (used >= limit) {
+          this.logger.warn({ tenantId, userId, scope: scope.prefix, quota: name, limit, used }, 'Token quota exceeded');
+          return { allowed: false, status, exceeded: name, retryAfter: resetSeconds };
+        }
+      }
+    }
+
+    for (const scope of scopes) {
+      const limit = scope.limits.requestsPerMinute;
+      if (!limit) continue;
+
+      const key = `${scope.prefix}:quota:requests:${windows.minute}`;
+      const used = await this.redis!.incr(key);
+      if (used === 1) {
+        await this.redis!.expire(key, 60);
+      }
+
+      this.mergeWindow(status, 'requests', this.toWindow(limit, used, windows.minuteResetSeconds));
+
+      if (used > limit) {
+        this.logger.warn({ tenantId, userId, scope: scope.prefix, limit, used }, 'Request rate quota exceeded');
+        return { allowed: false, status, exceeded: 'requests', retryAfter: windows.minuteResetSeconds };
+      }
+    }
+
+    return { allowed: true, status };
+  }
+
+  async recordTokens(tenantId: string, userId: string, tokens: number): Promise<void> {
+    if (tokens <= 0) return;
+
+    const windows = this.getWindows();
+    const prefixes = [`tenant:${tenantId}`, `tenant:${tenantId}:user:${userId}`];
+
+    for (const prefix of prefixes) {
+      const dayKey = `${prefix}:quota:tokens:day:${windows.day}`;
+      const monthKey = `${prefix}:quota:tokens:month:${windows.month}`;
+
+      await this.redis!.incrBy(dayKey, tokens);
+      await this.redis!.expire(dayKey, 2 * 86400);
+      await this.redis!.incrBy(monthKey, tokens);
+      await this.redis!.expire(monthKey, 32 * 86400);
+    }
+
+    this.logger.debug({ tenantId, userId, tokens }, 'Token usage charged to quota');
+  }
+
+  // Current consumption against the configured limits, without counting a request
+  async getStatus(tenantId: string, userId?: string): Promise<QuotaStatus> {
+    const limits = userId ? await this.getUserLimits(tenantId, userId) : await this.getTenantLimits(tenantId);
+    const prefix = userId ? `tenant:${tenantId}:user:${userId}` : `tenant:${tenantId}`;
+    const windows = this.getWindows();
+    const status: QuotaStatus = {};
+
+    if (!limits) return status;
+
+    if (limits.requestsPerMinute) {
+      const used = Number(await this.redis!.get(`${prefix}:quota:requests:${windows.minute}`)) || 0;
+      status.requests = this.toWindow(limits.requestsPerMinute, used, windows.minuteResetSeconds);
+    }
+    if (limits.tokensPerDay) {
+      const used = Number(await this.redis!.get(`${prefix}:quota:tokens:day:${windows.day}`)) || 0;
+      status.tokensPerDay = this.toWindow(limits.tokensPerDay, used, windows.dayResetSeconds);
+    }
+    if (limits.tokensPerMonth) {
+      const used = Number(await this.redis!.get(`${prefix}:quota:tokens:month:${windows.month}`)) || 0;
+      status.tokensPerMonth = this.toWindow(limits.tokensPerMonth, used, windows.monthResetSeconds);
+    }
+
+    return status;
+  }
+
+  private async getScopes(tenantId: string, userId: string): Promise<QuotaScope[]> {
+    const scopes: QuotaScope[] = [];
+
+    const tenantLimits = await this.getTenantLimits(tenantId);
+    if (hasLimits(tenantLimits)) {
+      scopes.push({ prefix: `tenant:${tenantId}`, limits: tenantLimits });
+    }
+
+    const userLimits = await this.getUserLimits(tenantId, userId);
+    if (userLimits && hasLimits(userLimits)) {
+      scopes.push({ prefix: `tenant:${tenantId}:user:${userId}`, limits: userLimits });
+    }
+
+    return scopes;
+  }
+
+  private getWindows(now: Date = new Date()): QuotaWindows {
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) / 1000;
+    const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) / 1000;
+
+    return {
+      minute: Math.floor(nowSeconds / 60),
+      day: now.toISOString().slice(0, 10),
+      month: now.toISOString().slice(0, 7),
+      minuteResetSeconds: 60 - (nowSeconds % 60),
+      dayResetSeconds: nextDay - nowSeconds,
+      monthResetSeconds: nextMonth - nowSeconds
+    };
+  }
+
+  private toWindow(limit: number, used: number, resetSeconds: number): QuotaWindow {
+    return { limit, used, remaining: Math.max(limit - used, 0), resetSeconds };
+  }
+
+  // When tenant and user limits both apply, report whichever is closer to running out
+  private mergeWindow(status: QuotaStatus, name: keyof QuotaStatus, window: QuotaWindow): void {
+    const current = status[name];
+    if (!current || window.remaining < current.remaining) {
+      status[name] = window;
+    }
+  }
+}
+
+export default new QuotaService();
@@ -0,0 +1,130 @@
+import { createHash, randomBytes } from 'crypto';
+import { RedisClientType } from 'redis';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { RefreshTokenRecord } from '../types';
+
+// Access tokens are short-lived; clients renew them with their refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL || '900', 10);
+// Login sessions, and with them their refresh tokens, last this long
+export const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.REFRESH_TOKEN_TTL || String(30 * 24 * 3600), 10);
+
+export interface RefreshTokenUse {
+  record: RefreshTokenRecord;
+  // The token had already been exchanged, so it was replayed and the session has been revoked
+  reused: boolean;
+}
+
+// Only a hash of each token is stored, so the tokens cannot be read back from Redis
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Read a token and mark it used in one step, so that two refreshes cannot both see it unused and a
+// token deleted by a revocation is not brought back. Returns nil for a missing token, otherwise
+// whether the token had already been used and its fields as they were before this call.
+const CONSUME_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return nil
+end
+local fields = redis.call('HGETALL', KEYS[1])
+local reused = redis.call('HSETNX', KEYS[1], 'usedAt', ARGV[1]) == 0 and 1 or 0
+if redis.call('TTL', KEYS[1]) < 0 then
+  redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return { reused, fields }
+`;
+
+/**
+ * Opaque refresh tokens, one family per login session. Every refresh
+ * exchanges the token for a new one; the old token is kept, marked used,
+ * until it expires so that a replay can be spotted and the whole family
+ * revoked.
+ */
+class RefreshTokenService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'RefreshTokenService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('RefreshTokenService initialized');
+  }
+
+  // Hash of the token's session, owner and timestamps
+  private tokenKey(hash: string): string {
+    return `refresh:${hash}`;
+  }
+
+  // Set of the hashes of every token issued for a session
+  private familyKey(sessionId: string): string {
+    return `refresh:family:${sessionId}`;
+  }
+
+  // Issue a new refresh token for the session
+  async issue(session: Pick<RefreshTokenRecord, 'sessionId' | 'tenantId' | 'userId'>): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const hash = hashToken(token);
+    const record: RefreshTokenRecord = {
+      sessionId: session.sessionId,
+      tenantId: session.tenantId,
+      userId: session.userId,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.redis!.hSet(this.tokenKey(hash), { ...record });
+    await this.redis!.expire(this.tokenKey(hash), REFRESH_TOKEN_TTL_SECONDS);
+    await this.redis!.sAdd(this.familyKey(session.sessionId), hash);
+    await this.redis!.expire(this.familyKey(session.sessionId), REFRESH_TOKEN_TTL_SECONDS);
+
+    this.logger.debug({ sessionId: session.sessionId }, 'Refresh token issued');
+    return token;
+  }
+
+  /**
+   * Mark a refresh token used. Null when the token is unknown, expired or
+   * revoked. A token that was already used revokes its session's tokens.
+   */
+  async consume(token: string): Promise<RefreshTokenUse | null> {
+    const usedAt = new Date().toISOString();
+    const result = await this.redis!.eval(CONSUME_SCRIPT, {
+      keys: [this.tokenKey(hashToken(token))],
+      arguments: [usedAt, String(REFRESH_TOKEN_TTL_SECONDS)]
+    }) as [number, string[]] | null;
+    if (!result) {
+      return null;
+    }
+
+    const [reused, fields] = result;
+    const data: Record<string, string> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      data[fields[i]] = fields[i + 1];
+    }
+    if (!data.sessionId) {
+      return null;
+    }
+
+    const record = data as unknown as RefreshTokenRecord;
+    if (reused) {
+      this.logger.warn(
+        { sessionId: record.sessionId, tenantId: record.tenantId, userId: record.userId },
+        'Refresh token reused, revoking session'
+      );
+      await this.revokeFamily(record.sessionId);
+      return { record, reused: true };
+    }
+
+    return { record: { ...record, usedAt }, reused: false };
+  }
+
+  // Revoke every refresh token issued for the session
+  async revokeFamily(sessionId: string): Promise<void> {
+    const hashes = await this.redis!.sMembers(this.familyKey(sessionId));
+    await this.redis!.del([...hashes.map((hash) => this.tokenKey(hash)), this.familyKey(sessionId)]);
+    this.logger.info({ sessionId, tokens: hashes.length }, 'Refresh tokens revoked');
+  }
+}
+
+export default new RefreshTokenService();
@@ -0,0 +1,289 @@
+import Boom from '@hapi/boom';
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { parseBackends, parseMaxConcurrent } from './ollamaPool';
+
+export const DEFAULT_MAX_QUEUED = 50;
+export const DEFAULT_QUEUE_TIMEOUT_MS = 60000;
+const DEFAULT_SYNC_INTERVAL_MS = 1000;
+const REPLICAS_KEY = 'queue:replicas';
+
+export interface RequestQueueOptions {
+  // Upstream calls allowed at once across all replicas; 0 means no limit
+  capacity: number;
+  // Default cap on a tenant's waiting requests
+  maxQueued?: number;
+  // How long a request may wait for a slot
+  timeoutMs?: number;
+  syncIntervalMs?: number;
+}
+
+export interface QueueTicket {
+  // Place in the queue when the request was queued, from 1; 0 when it ran straight away
+  position: number;
+  waitedMs: number;
+  // Give the slots back; safe to call more than once
+  release: () => void;
+}
+
+interface Waiter {
+  slots: number;
+  enqueuedAt: number;
+  position: number;
+  resolve: (ticket: QueueTicket) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface TenantQueue {
+  waiters: Waiter[];
+  weight: number;
+  // Virtual finish time of the tenant's last admitted request; the lowest goes next
+  pass: number;
+}
+
+// Counts another replica reported at its last heartbeat
+interface ReplicaLoad {
+  running: number;
+  waiting: Map<string, number>;
+}
+
+const unavailable = (message: string, retryAfterSeconds: number): Boom.Boom => {
+  const error = Boom.serverUnavailable(message);
+  error.output.headers['Retry-After'] = String(retryAfterSeconds);
+  return error;
+};
+
+/**
+ * Admits requests to the Ollama backends at most `capacity` at a time. Waiting
+ * requests are served by weighted fair queuing: each tenant is charged
+ * slots / weight of virtual time per admitted request and the tenant that is
+ * furthest behind goes next, so a busy tenant cannot starve the others.
+ * Replicas publish their counts to Redis and subtract each other's running
+ * requests from the capacity; scheduling itself stays in-process.
+ */
+export class RequestQueue {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+  private options: Required<RequestQueueOptions>;
+  private replicaId = uuidv4();
+  private tenants = new Map<string, TenantQueue>();
+  private running = 0;
+  private virtualTime = 0;
+  private remote: ReplicaLoad = { running: 0, waiting: new Map() };
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: RequestQueueOptions, loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'RequestQueue' });
+    this.options = {
+      maxQueued: DEFAULT_MAX_QUEUED,
+      timeoutMs: DEFAULT_QUEUE_TIMEOUT_MS,
+      syncIntervalMs: DEFAULT_SYNC_INTERVAL_MS,
+      ...options
+    };
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info({ capacity: this.options.capacity, replicaId: this.replicaId }, 'RequestQueue initialized');
+  }
+
+  startSync(): void {
+    this.stopSync();
+    this.syncTimer = setInterval(() => void this.sync(), this.options.syncIntervalMs);
+    this.syncTimer.unref();
+  }
+
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  getStatus(): { capacity: number; running: number; remoteRunning: number; waiting: number } {
+    return {
+      capacity: this.options.capacity,
+      running: this.running,
+      remoteRunning: this.remote.running,
+      waiting: this.waitingCount()
+    };
+  }
+
+  /**
+   * Wait for `slots` upstream slots. Rejects with 503 when the tenant already
+   * has `maxQueued` requests waiting (across replicas) or the wait times out.
+   */
+  acquire(tenantId: string, options: { weight?: number; maxQueued?: number; slots?: number } = {}): Promise<QueueTicket> {
+    const slots = options.slots || 1;
+    const tenant = this.tenantQueue(tenantId, options.weight);
+
+    if (this.waitingCount() === 0 && this.hasRoom(slots)) {
+      return Promise.resolve(this.admit(tenant, slots, Date.now(), 0));
+    }
+
+    const maxQueued = options.maxQueued ?? this.options.maxQueued;
+    const queued = tenant.waiters.length + (this.remote.waiting.get(tenantId) || 0);
+    if (queued >= maxQueued) {
+      this.logger.warn({ tenantId, queued, maxQueued }, 'Tenant queue full');
+      return Promise.reject(unavailable('Too many queued requests for this tenant', 1));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        slots,
+        enqueuedAt: Date.now(),
+        position: this.waitingCount() + 1,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          tenant.waiters.splice(tenant.waiters.indexOf(waiter), 1);
+          this.logger.warn({ tenantId, timeoutMs: this.options.timeoutMs }, 'Queued request timed out');
+          reject(unavailable('Timed out waiting for a free model slot', Math.ceil(this.options.timeoutMs / 1000)));
+        }, this.options.timeoutMs)
+      };
+
+      // A tenant returning from idle starts level with the others rather than with banked credit
+      if (tenant.waiters.length === 0) {
+        tenant.pass = Math.max(tenant.pass, this.virtualTime);
+      }
+      tenant.waiters.push(waiter);
+    });
+  }
+
+  private tenantQueue(tenantId: string, weight: number = 1): TenantQueue {
+    let tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      tenant = { waiters: [], weight, pass: this.virtualTime };
+      this.tenants.set(tenantId, tenant);
+    }
+    tenant.weight = weight;
+    return tenant;
+  }
+
+  private waitingCount(): number {
+    let count = 0;
+    for (const tenant of this.tenants.values()) {
+      count += tenant.waiters.length;
+    }
+    return count;
+  }
+
+  private hasRoom(slots: number): boolean {
+    const { capacity } = this.options;
+    // A request larger than the whole capacity still runs once nothing else does
+    return !capacity || this.running + this.remote.running + slots <= capacity || (this.running === 0 && slots > capacity);
+  }
+
+  private admit(tenant: TenantQueue, slots: number, enqueuedAt: number, position: number): QueueTicket {
+    this.running += slots;
+    tenant.pass += slots / tenant.weight;
+
+    let released = false;
+    return {
+      position,
+      waitedMs: Date.now() - enqueuedAt,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.running -= slots;
+        this.dispatch();
+      }
+    };
+  }
+
+  // Admit waiting requests while there is room, the furthest-behind tenant first
+  private dispatch(): void {
+    for (;;) {
+      let next: TenantQueue | null = null;
+      for (const tenant of this.tenants.values()) {
+        if (tenant.waiters.length > 0 && (!next || tenant.pass < next.pass)) {
+          next = tenant;
+        }
+      }
+
+      if (!next || !this.hasRoom(next.waiters[0].slots)) {
+        break;
+      }
+
+      const waiter = next.waiters.shift()!;
+      clearTimeout(waiter.timer);
+      this.virtualTime = next.pass;
+      waiter.resolve(this.admit(next, waiter.slots, waiter.enqueuedAt, waiter.position));
+    }
+
+    // Idle tenants that are not ahead of the clock have nothing to remember
+    for (const [tenantId, tenant] of this.tenants) {
+      if (tenant.waiters.length === 0 && tenant.pass <= this.virtualTime) {
+        this.tenants.delete(tenantId);
+      }
+    }
+  }
+
+  private replicaKey(replicaId: string): string {
+    return `queue:replica:${replicaId}`;
+  }
+
+  // Publish this replica's counts, then read the other live replicas' counts
+  async sync(): Promise<void> {
+    if (!this.redis) {
+      return;
+    }
+
+    const now = Date.now();
+    const staleMs = this.options.syncIntervalMs * 3;
+    const key = this.replicaKey(this.replicaId);
+
+    try {
+      const counts: Record<string, string> = { running: String(this.running) };
+      for (const [tenantId, tenant] of this.tenants) {
+        if (tenant.waiters.length > 0) {
+          counts[`waiting:${tenantId}`] = String(tenant.waiters.length);
+        }
+      }
+
+      await this.redis.del(key);
+      await this.redis.hSet(key, counts);
+      await this.redis.pExpire(key, staleMs);
+      await this.redis.zAdd(REPLICAS_KEY, { score: now, value: this.replicaId });
+      await this.redis.zRemRangeByScore(REPLICAS_KEY, 0, now - staleMs);
+
+      const remote: ReplicaLoad = { running: 0, waiting: new Map() };
+      const replicaIds = await this.redis.zRange(REPLICAS_KEY, 0, -1);
+      for (const replicaId of replicaIds) {
+        if (replicaId === this.replicaId) {
+          continue;
+        }
+
+        const fields = await this.redis.hGetAll(this.replicaKey(replicaId));
+        for (const [field, value] of Object.entries(fields)) {
+          if (field === 'running') {
+            remote.running += Number(value) || 0;
+          } else if (field.startsWith('waiting:')) {
+            const tenantId = field.slice('waiting:'.length);
+            remote.waiting.set(tenantId, (remote.waiting.get(tenantId) || 0) + (Number(value) || 0));
+          }
+        }
+      }
+
+      this.remote = remote;
+      this.dispatch();
+    } catch (error) {
+      this.logger.warn({ error: error instanceof Error ? error.message : error }, 'Failed to sync queue with other replicas');
+    }
+  }
+}
+
+// OLLAMA_MAX_CONCURRENT per backend, enforced as a total; the pool spreads the calls between backends
+const backendCount = parseBackends(process.env.OLLAMA_BACKENDS, process.env.OLLAMA_URL || 'http://localhost:11434').length;
+
+export default new RequestQueue({
+  capacity: backendCount * parseMaxConcurrent(process.env.OLLAMA_MAX_CONCURRENT),
+  maxQueued: parseInt(process.env.QUEUE_MAX_PER_TENANT || '', 10) || DEFAULT_MAX_QUEUED,
+  timeoutMs: parseInt(process.env.QUEUE_TIMEOUT_MS || '', 10) || DEFAULT_QUEUE_TIMEOUT_MS
+});
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import { RedisClientType } from 'redis';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { CacheSettings } from '../types';
+
+export const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+// JSON with object keys sorted, so the same request always hashes the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+class ResponseCacheService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'ResponseCacheService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('ResponseCacheService initialized');
+  }
+
+  private entryKey(tenantId: string, hash: string): string {
+    return `tenant:${tenantId}:chat-cache:${hash}`;
+  }
+
+  // Sorted set of the tenant's cached hashes scored by when they were stored
+  private indexKey(tenantId: string): string {
+    return `tenant:${tenantId}:chat-cache`;
+  }
+
+  // Hash of everything that shapes the reply; the tenant is part of it so entries are never shared
+  hashRequest(tenantId: string, request: object): string {
+    return createHash('sha256').update(canonicalJson({ tenantId, request })).digest('hex');
+  }
+
+  async get<T>(tenantId: string, hash: string): Promise<T | null> {
+    const data = await this.redis!.get(this.entryKey(tenantId, hash));
+    return data ? JSON.parse(data) : null;
+  }
+
+  // Store a reply, then evict expired and, past the tenant's limit, the oldest entries
+  async set(tenantId: string, hash: string, value: unknown, settings: CacheSettings = {}): Promise<void> {
+    const ttlSeconds = settings.ttlSeconds || DEFAULT_CACHE_TTL_SECONDS;
+    const maxEntries = settings.maxEntries || DEFAULT_CACHE_MAX_ENTRIES;
+    const indexKey = this.indexKey(tenantId);
+    const now = Date.now();
+
+    await this.redis!.set(this.entryKey(tenantId, hash), JSON.stringify(value), { EX: ttlSeconds });
+    await this.redis!.zAdd(indexKey, { score: now, value: hash });
+    await this.redis!.zRemRangeByScore(indexKey, 0, now - ttlSeconds * 1000);
+
+    const overflow = await this.redis!.zCard(indexKey) - maxEntries;
+    if (overflow > 0) {
+      const evicted = await this.redis!.zRange(indexKey, 0, overflow - 1);
+      await this.redis!.del(evicted.map((item) => this.entryKey(tenantId, item)));
+      await this.redis!.zRem(indexKey, evicted);
+      this.logger.debug({ tenantId, evicted: evicted.length }, 'Evicted cached replies');
+    }
+
+    await this.redis!.expire(indexKey, ttlSeconds);
+  }
+}
+
+export default new ResponseCacheService();
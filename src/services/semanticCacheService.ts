@@ -0,0 +1,157 @@
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { cosineSimilarity } from '../utils/vectors';
+import { DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTL_SECONDS } from './responseCacheService';
+import { CacheSettings } from '../types';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+// Replies kept, and so compared on each lookup, per conversation before the final message
+export const MAX_ENTRIES_PER_SCOPE = 200;
+
+interface SemanticCacheEntry {
+  vector: number[];
+  reply: unknown;
+  // Milliseconds since the epoch
+  storedAt: number;
+}
+
+export interface SemanticCacheMatch<T> {
+  reply: T;
+  similarity: number;
+}
+
+/**
+ * Replies stored under the embedding of the final user message. Entries are
+ * grouped by scope, a hash of everything before that message (system prompt,
+ * rendered template, history), and only the scope's entries are compared, so
+ * a lookup reads at most MAX_ENTRIES_PER_SCOPE embeddings. The tenant's
+ * maxEntries applies per model across all scopes.
+ */
+class SemanticCacheService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'SemanticCacheService' });
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info('SemanticCacheService initialized');
+  }
+
+  // Hash of entry ID -> entry for one tenant, chat model and scope
+  private entriesKey(tenantId: string, model: string, scope: string): string {
+    return `tenant:${tenantId}:semantic-cache:${model}:${scope}`;
+  }
+
+  // Sorted set of "<scope>:<entry ID>" for one tenant and chat model, scored by when they were stored
+  private indexKey(tenantId: string, model: string): string {
+    return `tenant:${tenantId}:semantic-cache:${model}:index`;
+  }
+
+  /**
+   * Find the cached reply in the scope whose prompt embedding is most similar
+   * to `vector`, if it reaches the threshold. Expired entries are dropped on the way.
+   */
+  async findSimilar<T>(
+    tenantId: string,
+    model: string,
+    scope: string,
+    vector: number[],
+    settings: CacheSettings = {}
+  ): Promise<SemanticCacheMatch<T> | null> {
+    const threshold = settings.semantic?.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const oldest = Date.now() - (settings.ttlSeconds || DEFAULT_CACHE_TTL_SECONDS) * 1000;
+    const entries = await this.redis!.hGetAll(this.entriesKey(tenantId, model, scope));
+    const expired: string[] = [];
+    let best: SemanticCacheMatch<T> | null = null;
+
+    for (const [entryId, data] of Object.entries(entries)) {
+      const entry: SemanticCacheEntry = JSON.parse(data);
+      if (entry.storedAt < oldest) {
+        expired.push(`${scope}:${entryId}`);
+        continue;
+      }
+
+      const similarity = cosineSimilarity(vector, entry.vector);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { reply: entry.reply as T, similarity };
+      }
+    }
+
+    await this.evict(tenantId, model, expired);
+
+    return best;
+  }
+
+  // Store a reply under its prompt embedding, evicting expired entries and the oldest past the limits
+  async add(
+    tenantId: string,
+    model: string,
+    scope: string,
+    vector: number[],
+    reply: unknown,
+    settings: CacheSettings = {}
+  ): Promise<void> {
+    const ttlSeconds = settings.ttlSeconds || DEFAULT_CACHE_TTL_SECONDS;
+    const maxEntries = settings.maxEntries || DEFAULT_CACHE_MAX_ENTRIES;
+    const key = this.entriesKey(tenantId, model, scope);
+    const indexKey = this.indexKey(tenantId, model);
+    const now = Date.now();
+    const entryId = uuidv4();
+    const entry: SemanticCacheEntry = { vector, reply, storedAt: now };
+
+    await this.redis!.hSet(key, entryId, JSON.stringify(entry));
+    await this.redis!.zAdd(indexKey, { score: now, value: `${scope}:${entryId}` });
+
+    const evicted = await this.redis!.zRangeByScore(indexKey, 0, now - ttlSeconds * 1000);
+    const overflow = await this.redis!.zCard(indexKey) - evicted.length - maxEntries;
+    if (overflow > 0) {
+      evicted.push(...await this.redis!.zRange(indexKey, evicted.length, evicted.length + overflow - 1));
+    }
+
+    // The scope's own cap keeps lookups bounded however many replies the model has
+    const scopeOverflow = await this.redis!.hLen(key) - MAX_ENTRIES_PER_SCOPE;
+    if (scopeOverflow > 0) {
+      const entries = await this.redis!.hGetAll(key);
+      evicted.push(...Object.entries(entries)
+        .map(([id, data]) => ({ id, storedAt: (JSON.parse(data) as SemanticCacheEntry).storedAt }))
+        .sort((a, b) => a.storedAt - b.storedAt)
+        .slice(0, scopeOverflow)
+        .map(({ id }) => `${scope}:${id}`));
+    }
+
+    await this.evict(tenantId, model, evicted);
+    if (evicted.length > 0) {
+      this.logger.debug({ tenantId, model, evicted: evicted.length }, 'Evicted semantic cache entries');
+    }
+
+    await this.redis!.expire(key, ttlSeconds);
+    await this.redis!.expire(indexKey, ttlSeconds);
+  }
+
+  // Remove "<scope>:<entry ID>" members from their scopes and the model index
+  private async evict(tenantId: string, model: string, members: string[]): Promise<void> {
+    const unique = Array.from(new Set(members));
+    if (unique.length === 0) {
+      return;
+    }
+
+    const byScope = new Map<string, string[]>();
+    for (const member of unique) {
+      const [scope, entryId] = member.split(':');
+      byScope.set(scope, [...(byScope.get(scope) || []), entryId]);
+    }
+
+    for (const [scope, entryIds] of byScope) {
+      await this.redis!.hDel(this.entriesKey(tenantId, model, scope), entryIds);
+    }
+    await this.redis!.zRem(this.indexKey(tenantId, model), unique);
+  }
+}
+
+export default new SemanticCacheService();
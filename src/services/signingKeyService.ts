@@ -0,0 +1,193 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import JWT from '@hapi/jwt';
+import { Logger } from 'pino';
+import logger from '../config/logger';
+import { ACCESS_TOKEN_TTL_SECONDS } from './refreshTokenService';
+import { SigningAlgorithm, SigningKeyConfig } from '../types';
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+// Clock skew allowed when verifying tokens; retired keys are kept this much longer too
+export const TOKEN_CLOCK_SKEW_SECONDS = 15;
+
+interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: string;
+  publicKey: KeyObject;
+  // Milliseconds since the epoch
+  activeFrom: number;
+}
+
+export interface VerificationKey {
+  kid: string;
+  key: string;
+  algorithms: SigningAlgorithm[];
+}
+
+export interface JsonWebKeySet {
+  keys: Array<Record<string, unknown>>;
+}
+
+// The key type each algorithm needs; ES256 keys must also be on P-256
+const KEY_TYPES: Record<SigningAlgorithm, string> = {
+  RS256: 'rsa',
+  ES256: 'ec'
+};
+
+/**
+ * Asymmetric keys for signing access tokens. Each key signs from its
+ * activeFrom until the next key takes over, then stays valid for
+ * verification until the last token it signed has expired. Keys scheduled
+ * for later are published in the JWKS ahead of time so that other services
+ * have them cached by the time tokens signed with them show up.
+ */
+class SigningKeyService {
+  private keys: SigningKey[] | null = null;
+  private logger: Logger;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'SigningKeyService' });
+  }
+
+  // Throws when the configured keys are invalid, or missing in production
+  initialize(): void {
+    this.keys = this.load();
+    this.logger.info({ kids: this.keys.map((key) => key.kid) }, 'SigningKeyService initialized');
+  }
+
+  // Sign an access token with the key active now
+  sign(payload: object, ttlSec: number): string {
+    const key = this.activeKey(Date.now());
+    return JWT.token.generate(
+      payload,
+      { key: key.privateKey, algorithm: key.alg },
+      { ttlSec, header: { kid: key.kid } }
+    );
+  }
+
+  // Keys tokens may currently be signed with: the active key, the ones it replaced and the upcoming ones
+  verificationKeys(now: number = Date.now()): VerificationKey[] {
+    return this.publishedKeys(now).map((key) => ({
+      kid: key.kid,
+      key: key.publicKey.export({ type: 'spki', format: 'pem' }) as string,
+      algorithms: [key.alg]
+    }));
+  }
+
+  jwks(now: number = Date.now()): JsonWebKeySet {
+    return {
+      keys: this.publishedKeys(now).map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig'
+      }))
+    };
+  }
+
+  private getKeys(): SigningKey[] {
+    if (!this.keys) {
+      this.initialize();
+    }
+    return this.keys!;
+  }
+
+  private activeKey(now: number): SigningKey {
+    const active = this.getKeys().filter((key) => key.activeFrom <= now);
+    if (active.length === 0) {
+      throw new Error('No JWT signing key is active yet');
+    }
+    return active[active.length - 1];
+  }
+
+  private publishedKeys(now: number): SigningKey[] {
+    const keys = this.getKeys();
+    const retentionMs = (ACCESS_TOKEN_TTL_SECONDS + TOKEN_CLOCK_SKEW_SECONDS) * 1000;
+    return keys.filter((_key, index) => {
+      const next = keys[index + 1];
+      return !next || next.activeFrom + retentionMs > now;
+    });
+  }
+
+  private load(): SigningKey[] {
+    const configs = this.readConfig();
+
+    if (configs.length === 0) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('JWT signing keys are not configured; set JWT_KEYS or JWT_KEYS_FILE');
+      }
+      this.logger.warn('No JWT signing keys configured; using a temporary ES256 key, so tokens stop working on restart');
+      const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      return [this.toKey({
+        kid: `dev-${Date.now().toString(36)}`,
+        alg: 'ES256',
+        privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string
+      })];
+    }
+
+    const keys = configs.map((config) => this.toKey(config)).sort((a, b) => a.activeFrom - b.activeFrom);
+
+    const kids = new Set(keys.map((key) => key.kid));
+    if (kids.size !== keys.length) {
+      throw new Error('JWT signing key IDs must be unique');
+    }
+    if (new Set(keys.map((key) => key.activeFrom)).size !== keys.length) {
+      throw new Error('JWT signing keys must have distinct activeFrom times');
+    }
+    if (keys[0].activeFrom > Date.now()) {
+      throw new Error('No JWT signing key is active yet');
+    }
+
+    return keys;
+  }
+
+  private readConfig(): SigningKeyConfig[] {
+    const raw = process.env.JWT_KEYS_FILE
+      ? readFileSync(process.env.JWT_KEYS_FILE, 'utf8')
+      : process.env.JWT_KEYS;
+    if (!raw || !raw.trim()) {
+      return [];
+    }
+
+    const configs = JSON.parse(raw);
+    if (!Array.isArray(configs)) {
+      throw new Error('JWT signing keys must be a JSON array');
+    }
+    return configs;
+  }
+
+  private toKey(config: SigningKeyConfig): SigningKey {
+    if (!config.kid) {
+      throw new Error('JWT signing keys need a kid');
+    }
+    if (!SIGNING_ALGORITHMS.includes(config.alg)) {
+      throw new Error(`JWT signing key "${config.kid}" must use one of ${SIGNING_ALGORITHMS.join(', ')}`);
+    }
+
+    const pem = config.privateKey || (config.privateKeyFile ? readFileSync(config.privateKeyFile, 'utf8') : '');
+    if (!pem) {
+      throw new Error(`JWT signing key "${config.kid}" has no privateKey or privateKeyFile`);
+    }
+    const privateKey = createPrivateKey(pem);
+    if (privateKey.asymmetricKeyType !== KEY_TYPES[config.alg] ||
+        (config.alg === 'ES256' && privateKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1')) {
+      throw new Error(`JWT signing key "${config.kid}" is not a valid ${config.alg} key`);
+    }
+
+    const activeFrom = config.activeFrom ? Date.parse(config.activeFrom) : 0;
+    if (Number.isNaN(activeFrom)) {
+      throw new Error(`JWT signing key "${config.kid}" has an invalid activeFrom`);
+    }
+
+    return {
+      kid: config.kid,
+      alg: config.alg,
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      publicKey: createPublicKey(privateKey),
+      activeFrom
+    };
+  }
+}
+
+export default new SigningKeyService();
@@ -11,6 +11,7 @@ import {
   Session,
   CreateTenantData,
   CreateUserData,
+  TenantSettings,
   UpdateTenantData,
   UpdateUserData
 } from '../types';
@@ -80,6 +81,26 @@ class TenantService {
     return this.getTenant(tenantId);
   }
 
+  async getTenantSettings(tenantId: string): Promise<TenantSettings> {
+    const tenant = await this.getTenant(tenantId);
+    return tenant?.settings || {};
+  }
+
+  // Replaces only the settings sections present in `updates`
+  async updateTenantSettings(tenantId: string, updates: TenantSettings): Promise<TenantSettings | null> {
+    this.logger.info({ tenantId, sections: Object.keys(updates) }, 'Updating tenant settings');
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      this.logger.warn({ tenantId }, 'Tenant not found for settings update');
+      return null;
+    }
+
+    const updatedTenant = await this.updateTenant(tenantId, {
+      settings: { ...tenant.settings, ...updates }
+    });
+    return updatedTenant?.settings || null;
+  }
+
   async updateTenant(tenantId: string, updates: UpdateTenantData): Promise<Tenant | null> {
     this.logger.info({ tenantId, updates }, 'Updating tenant');
     const tenant = await this.getTenant(tenantId);
@@ -219,7 +240,12 @@ class TenantService {
   }
 
   // Session Management
-  async createSession(tenantId: string, userId: string, sessionData: Partial<Session>): Promise<Session> {
+  async createSession(
+    tenantId: string,
+    userId: string,
+    sessionData: Partial<Session>,
+    ttlSeconds: number = 14400
+  ): Promise<Session> {
     const sessionId = uuidv4();
     this.logger.info({ tenantId, userId, sessionId }, 'Creating session');
     
@@ -233,7 +259,7 @@ class TenantService {
     };
 
     const sessionKey = `session:${sessionId}`;
-    await this.redis!.setEx(sessionKey, 14400, JSON.stringify(session)); // 4 hours
+    await this.redis!.setEx(sessionKey, ttlSeconds, JSON.stringify(session)); // 4 hours by default
     
     this.logger.info({ sessionId }, 'Session created successfully');
     return session;
@@ -0,0 +1,129 @@
+import { RedisClientType } from 'redis';
+import { Logger } from 'pino';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { UsageGroupBy, UsageQuery, UsageRecord, UsageRow, UsageTotals } from '../types';
+
+// Hash fields are `${userId}|${model}|${metric}`; model names may contain ':' but not '|'
+const FIELD_SEPARATOR = '|';
+const DAY_MS = 86400000;
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  duration_ms: 0
+});
+
+const addTotals = (target: UsageTotals, source: UsageTotals): void => {
+  target.requests += source.requests;
+  target.prompt_tokens += source.prompt_tokens;
+  target.completion_tokens += source.completion_tokens;
+  target.total_tokens += source.total_tokens;
+  target.duration_ms += source.duration_ms;
+};
+
+class UsageService {
+  private redis: RedisClientType | null = null;
+  private logger: Logger;
+  private retentionDays: number;
+
+  constructor(loggerInstance: Logger = logger) {
+    this.logger = loggerInstance.child({ module: 'UsageService' });
+    this.retentionDays = Number(process.env.USAGE_RETENTION_DAYS) || 400;
+  }
+
+  initialize(): void {
+    this.redis = redisClient.getClient();
+    this.logger.info({ retentionDays: this.retentionDays }, 'UsageService initialized');
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    const day = new Date().toISOString().slice(0, 10);
+    const key = `tenant:${record.tenantId}:usage:${day}`;
+    const prefix = [record.userId, record.model].join(FIELD_SEPARATOR) + FIELD_SEPARATOR;
+
+    await this.redis!.hIncrBy(key, `${prefix}requests`, 1);
+    await this.redis!.hIncrBy(key, `${prefix}prompt_tokens`, record.promptTokens);
+    await this.redis!.hIncrBy(key, `${prefix}completion_tokens`, record.completionTokens);
+    await this.redis!.hIncrBy(key, `${prefix}duration_ms`, Math.round(record.durationMs || 0));
+    await this.redis!.expire(key, this.retentionDays * 86400);
+
+    this.logger.debug({
+      tenantId: record.tenantId,
+      userId: record.userId,
+      model: record.model,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens
+    }, 'Usage recorded');
+  }
+
+  // One row per day, user and model within the (inclusive) date range
+  async getRows(tenantId: string, query: UsageQuery): Promise<UsageRow[]> {
+    this.logger.debug({ tenantId, query }, 'Fetching usage');
+    const rows = new Map<string, UsageRow>();
+
+    for (const date of this.listDays(query.from, query.to)) {
+      const fields = await this.redis!.hGetAll(`tenant:${tenantId}:usage:${date}`);
+
+      for (const [field, value] of Object.entries(fields)) {
+        const parts = field.split(FIELD_SEPARATOR);
+        const userId = parts[0];
+        const metric = parts[parts.length - 1] as keyof UsageTotals;
+        const model = parts.slice(1, -1).join(FIELD_SEPARATOR);
+
+        if (query.userId && query.userId !== userId) continue;
+        if (query.model && query.model !== model) continue;
+
+        const rowKey = [date, userId, model].join(FIELD_SEPARATOR);
+        let row = rows.get(rowKey);
+        if (!row) {
+          row = { date, user_id: userId, model, ...emptyTotals() };
+          rows.set(rowKey, row);
+        }
+        row[metric] = Number(value) || 0;
+      }
+    }
+
+    return Array.from(rows.values()).map((row) => ({
+      ...row,
+      total_tokens: row.prompt_tokens + row.completion_tokens
+    }));
+  }
+
+  group(rows: UsageRow[], groupBy: UsageGroupBy): Array<UsageTotals & { key: string }> {
+    const groups = new Map<string, UsageTotals & { key: string }>();
+
+    for (const row of rows) {
+      const key = groupBy === 'model' ? row.model : groupBy === 'user' ? row.user_id : row.date;
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, ...emptyTotals() };
+        groups.set(key, group);
+      }
+      addTotals(group, row);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  total(rows: UsageRow[]): UsageTotals {
+    const totals = emptyTotals();
+    rows.forEach((row) => addTotals(totals, row));
+    return totals;
+  }
+
+  private listDays(from: string, to: string): string[] {
+    const days: string[] = [];
+    const end = Date.parse(to);
+
+    for (let time = Date.parse(from); time <= end; time += DAY_MS) {
+      days.push(new Date(time).toISOString().slice(0, 10));
+    }
+
+    return days;
+  }
+}
+
+export default new UsageService();
@@ -1,3 +1,130 @@
+// Tenant settings
+export interface ModelLimits {
+  maxNumPredict?: number;
+  maxTemperature?: number;
+  // Overrides the context length reported by the provider
+  contextLength?: number;
+}
+
+export interface ModelSettings {
+  // Model names; an untagged name ("llama2") covers every tag of that model. Unset or empty allows all.
+  allowed?: string[];
+  default?: string;
+  // Keyed like `allowed`
+  limits?: Record<string, ModelLimits>;
+}
+
+// An OpenAI-compatible endpoint; its models are addressed as "<provider name>/<model>"
+export interface ProviderSettings {
+  baseUrl: string;
+  // Stored encrypted (see utils/secrets); never returned by the API
+  apiKey?: string;
+}
+
+// How chat history is trimmed when it does not fit the model's context window
+export type ContextStrategy = 'none' | 'drop_oldest' | 'keep_last' | 'summarize';
+
+export interface ContextSettings {
+  strategy?: ContextStrategy;
+  // Messages kept (besides system messages) by keep_last
+  keepLast?: number;
+  // Tokens left free for the reply when num_predict is not set
+  reserveTokens?: number;
+}
+
+// What was done to fit a request, as reported back to the client
+export interface ContextReport {
+  strategy: ContextStrategy;
+  context_length: number;
+  original_tokens: number;
+  estimated_tokens: number;
+  trimmed_messages: number;
+  summarized_messages?: number;
+}
+
+export interface PromptSettings {
+  // Template whose messages are prepended to chats that bring no system message
+  defaultTemplate?: string;
+}
+
+// Limits on images sent to vision models; defaults are in utils/images
+export interface ImageSettings {
+  // Largest accepted image, in decoded bytes
+  maxBytes?: number;
+  // Images accepted per request, across all messages
+  maxCount?: number;
+}
+
+// Reuse of replies to similar prompts, matched on the embedding of the final user message
+export interface SemanticCacheSettings {
+  enabled?: boolean;
+  // Embedding model, e.g. nomic-embed-text
+  embeddingModel?: string;
+  // Cosine similarity a cached prompt must reach to reuse its reply
+  threshold?: number;
+}
+
+// Opt-in cache of chat replies at temperature 0; defaults are in services/responseCacheService
+export interface CacheSettings {
+  enabled?: boolean;
+  // How long a reply stays cached
+  ttlSeconds?: number;
+  // Replies kept per tenant (per model for the semantic cache); the oldest are evicted first
+  maxEntries?: number;
+  semantic?: SemanticCacheSettings;
+}
+
+// The tenant's share of the Ollama request queue; defaults are in services/requestQueue
+export interface QueueSettings {
+  // Relative share of upstream slots when tenants compete (default 1)
+  weight?: number;
+  // Requests the tenant may have waiting before new ones get 503
+  maxQueued?: number;
+}
+
+// Named permissions, granted through roles and required by routes as Hapi scopes
+export type Permission =
+  | 'llm:chat'
+  | 'llm:generate'
+  | 'llm:embeddings'
+  | 'llm:batches'
+  // See and cancel every user's batches
+  | 'llm:batches:manage'
+  | 'llm:models'
+  // Operator-only, see OPERATOR_PERMISSIONS in utils/permissions
+  | 'llm:models:manage'
+  | 'llm:backends:read'
+  | 'prompts:read'
+  | 'prompts:write'
+  | 'collections:read'
+  | 'collections:write'
+  | 'users:read'
+  | 'users:write'
+  | 'usage:read'
+  | 'quotas:read'
+  | 'quotas:write'
+  | 'settings:read'
+  | 'settings:write'
+  | 'apikeys:manage';
+
+// A tenant-defined role; the built-in admin and user roles are in utils/permissions
+export interface RoleDefinition {
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface TenantSettings {
+  models?: ModelSettings;
+  context?: ContextSettings;
+  prompts?: PromptSettings;
+  images?: ImageSettings;
+  cache?: CacheSettings;
+  queue?: QueueSettings;
+  providers?: Record<string, ProviderSettings>;
+  // Custom roles by name
+  roles?: Record<string, RoleDefinition>;
+}
+
 export interface Tenant {
   tenantId: string;
   name: string;
@@ -5,7 +132,7 @@ export interface Tenant {
   status: 'active' | 'inactive' | 'suspended';
   createdAt: string;
   updatedAt?: string;
-  settings?: Record<string, any>;
+  settings?: TenantSettings;
 }
 
 export interface User {
@@ -14,7 +141,8 @@ export interface User {
   username: string;
   email: string;
   password: string;
-  role: 'admin' | 'user';
+  // "admin", "user" or one of the tenant's custom roles
+  role: string;
   status: 'active' | 'inactive';
   createdAt: string;
   updatedAt?: string;
@@ -34,27 +162,27 @@ export interface Session {
 export interface CreateTenantData {
   name: string;
   domain: string;
-  settings?: Record<string, any>;
+  settings?: TenantSettings;
 }
 
 export interface CreateUserData {
   username: string;
   email: string;
   password: string;
-  role?: 'admin' | 'user';
+  role?: string;
 }
 
 export interface UpdateTenantData {
   name?: string;
   domain?: string;
   status?: 'active' | 'inactive' | 'suspended';
-  settings?: Record<string, any>;
+  settings?: TenantSettings;
 }
 
 export interface UpdateUserData {
   username?: string;
   email?: string;
-  role?: 'admin' | 'user';
+  role?: string;
   status?: 'active' | 'inactive';
 }
 
@@ -63,13 +191,42 @@ export interface JWTPayload {
   iss: string;
   userId: string;
   tenantId: string;
-  role: 'admin' | 'user';
+  role: string;
+  // Login session the token was issued for; logging out revokes it
+  sessionId?: string;
 }
 
 export interface AuthCredentials {
   user: UserWithoutPassword;
   tenantId: string;
+  // The user's role and its permissions, or an API key's scopes
   scope: string[];
+  sessionId?: string;
+  // Set when the request authenticated with an API key; `user` then stands for the key
+  apiKeyId?: string;
+}
+
+// Access token signing keys, configured through JWT_KEYS or JWT_KEYS_FILE
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface SigningKeyConfig {
+  kid: string;
+  alg: SigningAlgorithm;
+  // PEM private key, given inline or as the path of a file holding it
+  privateKey?: string;
+  privateKeyFile?: string;
+  // The key signs from this time until the next key's activeFrom; unset means from the start
+  activeFrom?: string;
+}
+
+// Stored per refresh token under a hash of the token
+export interface RefreshTokenRecord {
+  sessionId: string;
+  tenantId: string;
+  userId: string;
+  createdAt: string;
+  // Set when the token is exchanged; a second exchange is a replay
+  usedAt?: string;
 }
 
 export interface RegisterPayload {
@@ -87,6 +244,284 @@ export interface LoginPayload {
   domain?: string;
 }
 
+// Quotas: any limit left undefined is unlimited
+export interface QuotaLimits {
+  requestsPerMinute?: number;
+  tokensPerDay?: number;
+  tokensPerMonth?: number;
+}
+
+export interface QuotaWindow {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+export interface QuotaStatus {
+  requests?: QuotaWindow;
+  tokensPerDay?: QuotaWindow;
+  tokensPerMonth?: QuotaWindow;
+}
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  status: QuotaStatus;
+  exceeded?: keyof QuotaStatus;
+  retryAfter?: number;
+}
+
+// Usage metering
+export interface UsageRecord {
+  tenantId: string;
+  userId: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  durationMs?: number;
+}
+
+export type UsageGroupBy = 'model' | 'user' | 'day';
+
+export interface UsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  duration_ms: number;
+}
+
+export interface UsageRow extends UsageTotals {
+  date: string;
+  user_id: string;
+  model: string;
+}
+
+export interface UsageQuery {
+  from: string;
+  to: string;
+  userId?: string;
+  model?: string;
+}
+
+// Conversation threads
+export interface ConversationMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  // Model that produced an assistant message
+  model?: string;
+}
+
+export interface Conversation {
+  conversationId: string;
+  tenantId: string;
+  userId: string;
+  title: string | null;
+  model?: string;
+  systemPrompt?: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: ConversationMessage[];
+}
+
+export interface CreateConversationData {
+  title?: string;
+  model?: string;
+  systemPrompt?: string;
+}
+
+export interface UpdateConversationData {
+  title?: string | null;
+  model?: string | null;
+  systemPrompt?: string | null;
+}
+
+// Prompt templates
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant';
+  // May contain {{variable}} placeholders
+  content: string;
+}
+
+// One version of a named template; saving a template adds a version
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  description?: string;
+  messages: PromptMessage[];
+  // Placeholder names used in the messages
+  variables: string[];
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface SavePromptTemplateData {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+// Sent with a chat request to have the template rendered in front of its messages
+export interface PromptTemplateRef {
+  name: string;
+  // Latest version when omitted
+  version?: number;
+  variables?: Record<string, string | number | boolean>;
+}
+
+// Document collections for retrieval
+export interface Collection {
+  name: string;
+  description?: string;
+  // Model the chunks are embedded with; queries are embedded with it too
+  embeddingModel: string;
+  // Chunk length and overlap between neighbouring chunks, in characters
+  chunkSize: number;
+  chunkOverlap: number;
+  documentCount: number;
+  chunkCount: number;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+export interface CreateCollectionData {
+  description?: string;
+  embeddingModel: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export interface CollectionDocument {
+  documentId: string;
+  title: string;
+  // Where the text came from, e.g. a URL or file name
+  source?: string;
+  characters: number;
+  chunkCount: number;
+  createdAt: string;
+  createdBy: string;
+}
+
+// Sent with a chat request to ground the reply in a collection
+export interface RetrievalRef {
+  collection: string;
+  // Chunks to add to the prompt
+  topK?: number;
+  // Chunks less similar to the question than this are left out
+  minScore?: number;
+}
+
+// Chunk added to the prompt, returned with the reply; `index` is the number the model cites
+export interface Citation {
+  index: number;
+  documentId: string;
+  title: string;
+  source?: string;
+  chunk: number;
+  score: number;
+  text: string;
+}
+
+// Model administration
+export type ModelAction = 'pull' | 'delete' | 'copy';
+
+// Entry in a tenant's model audit log
+export interface ModelActionRecord {
+  action: ModelAction;
+  model: string;
+  // Copy target
+  destination?: string;
+  userId: string;
+  // Job tracking a pull
+  jobId?: string;
+  createdAt: string;
+}
+
+export type PullJobStatus = 'running' | 'completed' | 'failed';
+
+export interface PullJob {
+  jobId: string;
+  tenantId: string;
+  userId: string;
+  model: string;
+  status: PullJobStatus;
+  // Latest progress line reported by Ollama
+  progress: {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
+    backend?: string;
+  } | null;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Batch chat jobs
+export type BatchStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface BatchJob {
+  batchId: string;
+  tenantId: string;
+  userId: string;
+  status: BatchStatus;
+  // Requests in the batch, and how many have been answered or have failed so far
+  total: number;
+  succeeded: number;
+  failed: number;
+  // Why the batch as a whole failed
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// One line of a batch's results, in the order of the submitted requests
+export interface BatchResult {
+  index: number;
+  custom_id?: string;
+  response?: Record<string, unknown>;
+  error?: {
+    statusCode: number;
+    message: string;
+  };
+}
+
+// Tenant API keys for service-to-service access
+export type ApiKeyScope = Extract<Permission, 'llm:chat' | 'llm:generate' | 'llm:embeddings' | 'llm:batches' | 'llm:models'>;
+
+export interface ApiKey {
+  keyId: string;
+  tenantId: string;
+  name: string;
+  // Start of the key, enough to tell keys apart; the key itself is only returned on creation
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  // Every scope when omitted; the routes fill in the caller's own
+  scopes?: ApiKeyScope[];
+  expiresAt?: string;
+}
+
+export interface UpdateApiKeyData {
+  name?: string;
+  scopes?: ApiKeyScope[];
+}
+
 // New interface for dependency injection
 export interface ServiceDependencies {
   logger: import('pino').Logger;
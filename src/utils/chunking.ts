@@ -0,0 +1,81 @@
+// Split a paragraph longer than `max` characters between words; words longer than that are cut
+const splitWords = (paragraph: string, max: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const word of paragraph.split(/\s+/)) {
+    for (let start = 0; start < word.length; start += max) {
+      const part = word.slice(start, start + max);
+      if (current && current.length + 1 + part.length <= max) {
+        current += ` ${part}`;
+      } else {
+        if (current) {
+          pieces.push(current);
+        }
+        current = part;
+      }
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+};
+
+// Up to `overlap` characters from the end of a chunk, starting at a word
+const tailOf = (chunk: string, overlap: number): string => {
+  if (overlap <= 0) {
+    return '';
+  }
+  if (chunk.length <= overlap) {
+    return chunk;
+  }
+
+  const tail = chunk.slice(-overlap);
+  const space = tail.search(/\s/);
+  return space === -1 ? '' : tail.slice(space).trim();
+};
+
+/**
+ * Split text into chunks of at most `size` characters for embedding.
+ * Paragraphs are kept together where they fit and longer ones are split
+ * between words. Every chunk after the first starts with up to `overlap`
+ * characters from the end of the one before, so a passage cut at a boundary
+ * still appears whole in one of them.
+ */
+export const chunkText = (text: string, size: number, overlap: number = 0): string[] => {
+  // Long paragraphs are split short enough for the overlap and its separator to fit in front
+  const room = overlap > 0 ? Math.min(overlap + 2, Math.floor(size / 2)) : 0;
+  const pieces: string[] = [];
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    pieces.push(...(trimmed.length <= size ? [trimmed] : splitWords(trimmed, size - room)));
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length <= size) {
+      current += `\n\n${piece}`;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+      const tail = tailOf(current, overlap);
+      current = tail && tail.length + 2 + piece.length <= size ? `${tail}\n\n${piece}` : piece;
+    } else {
+      current = piece;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+};
@@ -0,0 +1,204 @@
+import { ResponseObject } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import logger from '../config/logger';
+import { OllamaChatRequest, OllamaMessage } from '../services/ollamaService';
+import { LLMProvider } from '../services/llmProvider';
+import { getModelLimits } from './modelPolicy';
+import { recordUsage } from './usage';
+import { AuthCredentials, ContextReport, ContextSettings, ContextStrategy, TenantSettings } from '../types';
+
+const log = logger.child({ module: 'ContextWindow' });
+
+// Ollama's num_ctx when neither the tenant nor the model says otherwise
+export const DEFAULT_CONTEXT_LENGTH = 2048;
+export const DEFAULT_RESERVE_TOKENS = 512;
+export const DEFAULT_KEEP_LAST = 10;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const SUMMARY_MAX_TOKENS = 256;
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = ['none', 'drop_oldest', 'keep_last', 'summarize'];
+
+// Per-request override accepted by the chat endpoints
+export const contextOverrideSchema = Joi.object({
+  strategy: Joi.string().valid(...CONTEXT_STRATEGIES).optional(),
+  keepLast: Joi.number().integer().min(1).optional()
+}).optional().description('How to trim history that does not fit the model\'s context window');
+
+// Rough count without a tokenizer: ~4 characters per token plus per-message framing
+export const estimateTokens = (messages: OllamaMessage[]): number => {
+  return messages.reduce((total, message) => {
+    const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls).length : 0;
+    return total + Math.ceil((message.content.length + toolCalls) / 4) + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+};
+
+// Leading system messages are instructions and are never trimmed
+const splitSystem = (messages: OllamaMessage[]): [OllamaMessage[], OllamaMessage[]] => {
+  const index = messages.findIndex((message) => message.role !== 'system');
+  return index === -1 ? [messages, []] : [messages.slice(0, index), messages.slice(index)];
+};
+
+// Drop the oldest turns until the request fits; the latest message is always kept
+export const dropOldest = (messages: OllamaMessage[], budget: number): OllamaMessage[] => {
+  const [system, rest] = splitSystem(messages);
+  let kept = rest;
+  while (kept.length > 1 && estimateTokens([...system, ...kept]) > budget) {
+    kept = kept.slice(1);
+  }
+  // Tool results are meaningless once the call they answer is gone
+  while (kept !== rest && kept.length > 1 && kept[0].role === 'tool') {
+    kept = kept.slice(1);
+  }
+  return [...system, ...kept];
+};
+
+export const keepLast = (messages: OllamaMessage[], count: number, budget: number): OllamaMessage[] => {
+  const [system, rest] = splitSystem(messages);
+  return dropOldest([...system, ...rest.slice(-Math.max(count, 1))], budget);
+};
+
+const summarize = async (
+  messages: OllamaMessage[],
+  budget: number,
+  provider: LLMProvider,
+  model: string,
+  credentials: AuthCredentials
+): Promise<{ messages: OllamaMessage[]; summarized: number }> => {
+  const [system, rest] = splitSystem(messages);
+
+  // Keep as many recent turns as fit in half the budget; the rest is summarized
+  let recentStart = rest.length - 1;
+  while (recentStart > 0 && estimateTokens([...system, ...rest.slice(recentStart - 1)]) <= budget / 2) {
+    recentStart--;
+  }
+  const older = rest.slice(0, recentStart);
+  const recent = rest.slice(recentStart);
+  if (older.length === 0) {
+    return { messages, summarized: 0 };
+  }
+
+  // The summarizer gets the most recent part of the transcript if all of it would not fit
+  const transcript = older.map((message) => `${message.role}: ${message.content}`).join('\n\n').slice(-budget * 4);
+  const response = await provider.chat({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: 'Summarize the following conversation in a few sentences. Keep names, facts, decisions and open questions.'
+      },
+      { role: 'user', content: transcript }
+    ],
+    options: { num_predict: SUMMARY_MAX_TOKENS }
+  }, credentials.tenantId);
+
+  await recordUsage(credentials, response);
+
+  const summary: OllamaMessage = {
+    role: 'system',
+    content: `Summary of the earlier conversation:\n${response.message.content}`
+  };
+
+  return {
+    messages: dropOldest([...system, summary, ...recent], budget),
+    summarized: older.length
+  };
+};
+
+// null when neither the tenant nor the provider knows the window; such requests are forwarded as-is
+export const resolveContextLength = async (
+  settings: TenantSettings,
+  provider: LLMProvider,
+  model: string
+): Promise<number | null> => {
+  const configured = getModelLimits(settings, model)?.contextLength;
+  if (configured) {
+    return configured;
+  }
+  if (!provider.getContextLength) {
+    return null;
+  }
+  return (await provider.getContextLength(model)) || DEFAULT_CONTEXT_LENGTH;
+};
+
+/**
+ * Trim the chat history so prompt plus reply fit the model's context window,
+ * using the request's strategy, the tenant's, or drop_oldest. Returns the
+ * request to forward and, when anything was removed, a report for the client.
+ */
+export const fitContextWindow = async <T extends OllamaChatRequest>(
+  chatRequest: T,
+  settings: TenantSettings,
+  provider: LLMProvider,
+  credentials: AuthCredentials,
+  override: ContextSettings = {}
+): Promise<{ request: T; report?: ContextReport }> => {
+  const config = { ...settings.context, ...override };
+  const strategy: ContextStrategy = config.strategy || 'drop_oldest';
+  if (strategy === 'none') {
+    return { request: chatRequest };
+  }
+
+  const contextLength = await resolveContextLength(settings, provider, chatRequest.model);
+  if (!contextLength) {
+    return { request: chatRequest };
+  }
+
+  const reserve = chatRequest.options?.num_predict ?? config.reserveTokens ?? DEFAULT_RESERVE_TOKENS;
+  const budget = Math.max(contextLength - reserve, 0);
+  const originalTokens = estimateTokens(chatRequest.messages);
+
+  if (originalTokens <= budget) {
+    return { request: chatRequest };
+  }
+
+  let messages: OllamaMessage[];
+  let summarized = 0;
+
+  if (strategy === 'keep_last') {
+    messages = keepLast(chatRequest.messages, config.keepLast ?? DEFAULT_KEEP_LAST, budget);
+  } else if (strategy === 'summarize') {
+    try {
+      ({ messages, summarized } = await summarize(chatRequest.messages, budget, provider, chatRequest.model, credentials));
+    } catch (error) {
+      log.warn({
+        tenantId: credentials.tenantId,
+        model: chatRequest.model,
+        error: error instanceof Error ? error.message : error
+      }, 'Summarizing history failed, dropping oldest messages instead');
+      messages = dropOldest(chatRequest.messages, budget);
+    }
+  } else {
+    messages = dropOldest(chatRequest.messages, budget);
+  }
+
+  const estimatedTokens = estimateTokens(messages);
+  if (estimatedTokens > budget) {
+    throw Boom.badRequest(
+      `Prompt is too long for model "${chatRequest.model}" (about ${estimatedTokens} tokens, ${budget} available)`
+    );
+  }
+
+  const keptOriginals = messages.filter((message) => chatRequest.messages.includes(message)).length;
+  const report: ContextReport = {
+    strategy,
+    context_length: contextLength,
+    original_tokens: originalTokens,
+    estimated_tokens: estimatedTokens,
+    trimmed_messages: chatRequest.messages.length - keptOriginals,
+    ...(summarized > 0 ? { summarized_messages: summarized } : {})
+  };
+
+  log.info({ tenantId: credentials.tenantId, model: chatRequest.model, ...report }, 'Trimmed chat history to fit context window');
+
+  return { request: { ...chatRequest, messages }, report };
+};
+
+// For response formats with no room for the report (the OpenAI facade)
+export const withContextHeaders = (response: ResponseObject, report?: ContextReport): ResponseObject => {
+  if (report) {
+    response.header('X-Context-Strategy', report.strategy);
+    response.header('X-Context-Trimmed-Messages', String(report.trimmed_messages));
+  }
+  return response;
+};
@@ -0,0 +1,85 @@
+import dns, { LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Loopback, private, link-local and other addresses that are not on the public internet
+const privateRanges = new net.BlockList();
+privateRanges.addSubnet('0.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('10.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('100.64.0.0', 10, 'ipv4');
+privateRanges.addSubnet('127.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('169.254.0.0', 16, 'ipv4');
+privateRanges.addSubnet('172.16.0.0', 12, 'ipv4');
+privateRanges.addSubnet('192.168.0.0', 16, 'ipv4');
+privateRanges.addAddress('::', 'ipv6');
+privateRanges.addAddress('::1', 'ipv6');
+privateRanges.addSubnet('fc00::', 7, 'ipv6');
+privateRanges.addSubnet('fe80::', 10, 'ipv6');
+
+// PROVIDER_ALLOWED_HOSTS="vllm.internal,10.0.0.5" lets providers reach those hosts on private networks
+const allowedHosts = (): Set<string> => new Set(
+  (process.env.PROVIDER_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+const normalizeHost = (hostname: string): string => hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+export const isPrivateAddress = (address: string): boolean => {
+  const host = normalizeHost(address);
+  // IPv4-mapped IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return privateRanges.check(mapped[1], 'ipv4');
+  }
+
+  const family = net.isIP(host);
+  if (family === 0) {
+    return false;
+  }
+  return privateRanges.check(host, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Whether a provider may not be sent to this host without resolving it:
+ * localhost names and private IP literals, unless the operator allowed the host.
+ * Hostnames that resolve to private addresses are caught when connecting.
+ */
+export const isBlockedHost = (hostname: string): boolean => {
+  const host = normalizeHost(hostname);
+  if (allowedHosts().has(host)) {
+    return false;
+  }
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+};
+
+// Resolve as usual, then refuse private addresses so DNS cannot point a provider inside the network
+const lookup = (
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    if (!allowedHosts().has(normalizeHost(hostname)) && addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error(`Provider host ${hostname} resolves to a private address`), { code: 'EPRIVATEADDR' }), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Agents for outbound provider requests; connections to private addresses fail
+export const providerHttpAgent = new http.Agent({ lookup });
+export const providerHttpsAgent = new https.Agent({ lookup });
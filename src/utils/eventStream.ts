@@ -0,0 +1,76 @@
+import { PassThrough } from 'stream';
+import { Request, ResponseObject, ResponseToolkit } from '@hapi/hapi';
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+// NDJSON is opt-in via Accept; everything else gets server-sent events
+export const resolveStreamFormat = (accept?: string): StreamFormat => {
+  return accept && accept.includes('application/x-ndjson') ? 'ndjson' : 'sse';
+};
+
+export class EventStream {
+  readonly format: StreamFormat;
+  readonly signal: AbortSignal;
+  private stream: PassThrough;
+  private controller: AbortController;
+
+  constructor(request: Request, format?: StreamFormat) {
+    this.format = format || resolveStreamFormat(request.headers.accept as string | undefined);
+    this.stream = new PassThrough();
+    this.controller = new AbortController();
+    this.signal = this.controller.signal;
+
+    // Abort the upstream request as soon as the client disconnects
+    request.events.once('disconnect', () => this.abort());
+    this.stream.once('close', () => this.abort());
+  }
+
+  get closed(): boolean {
+    return this.signal.aborted || this.stream.writableEnded;
+  }
+
+  // Regular data chunk (unnamed SSE event or a plain NDJSON line); strings are written as-is
+  send(data: object | string): void {
+    if (this.closed) return;
+
+    const line = typeof data === 'string' ? data : JSON.stringify(data);
+
+    if (this.format === 'ndjson') {
+      this.stream.write(`${line}\n`);
+    } else {
+      this.stream.write(`data: ${line}\n\n`);
+    }
+  }
+
+  // Named event; NDJSON carries the name in a `type` field instead
+  event(name: string, data: object): void {
+    if (this.closed) return;
+
+    if (this.format === 'ndjson') {
+      this.stream.write(`${JSON.stringify({ type: name, ...data })}\n`);
+    } else {
+      this.stream.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  }
+
+  end(): void {
+    if (!this.stream.writableEnded) {
+      this.stream.end();
+    }
+  }
+
+  abort(): void {
+    if (!this.signal.aborted) {
+      this.controller.abort();
+    }
+  }
+
+  toResponse(h: ResponseToolkit): ResponseObject {
+    return h.response(this.stream)
+      .type(this.format === 'ndjson' ? 'application/x-ndjson' : 'text/event-stream')
+      .header('Cache-Control', 'no-cache')
+      .header('X-Accel-Buffering', 'no')
+      // Compression would buffer events until the stream ends
+      .compressed('identity');
+  }
+}
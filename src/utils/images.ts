@@ -0,0 +1,79 @@
+import Boom from '@hapi/boom';
+import { OllamaMessage } from '../services/ollamaService';
+import { TenantSettings } from '../types';
+
+export const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_MAX_IMAGES = 4;
+// Body limit for the multipart upload route; JSON chat bodies keep hapi's 1 MB default
+export const MAX_IMAGE_PAYLOAD_BYTES = 32 * 1024 * 1024;
+
+// Formats vision models accept, recognised by their leading bytes
+const SIGNATURES: Array<{ type: string; matches: (bytes: Buffer) => boolean }> = [
+  { type: 'image/png', matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { type: 'image/jpeg', matches: (bytes) => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { type: 'image/gif', matches: (bytes) => ['GIF87a', 'GIF89a'].includes(bytes.subarray(0, 6).toString('latin1')) },
+  {
+    type: 'image/webp',
+    matches: (bytes) => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP'
+  }
+];
+
+const DATA_URL = /^data:[\w.+-]+\/[\w.+-]+;base64,/;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export const sniffImageType = (bytes: Buffer): string | null => {
+  return SIGNATURES.find((signature) => signature.matches(bytes))?.type || null;
+};
+
+// Only the first bytes are decoded; enough for every signature above
+export const imageMimeType = (base64: string): string | null => {
+  return sniffImageType(Buffer.from(base64.slice(0, 24), 'base64'));
+};
+
+const decodedSize = (base64: string): number => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+/**
+ * Check every image in the request against the tenant's size and count limits
+ * and make sure it really is an image. Data URLs are reduced to the bare base64
+ * Ollama expects. Messages without images are returned untouched.
+ */
+export const applyImagePolicy = (messages: OllamaMessage[], settings: TenantSettings): OllamaMessage[] => {
+  const maxBytes = settings.images?.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+  const maxCount = settings.images?.maxCount ?? DEFAULT_MAX_IMAGES;
+
+  const count = messages.reduce((total, message) => total + (message.images?.length || 0), 0);
+  if (count === 0) {
+    return messages;
+  }
+  if (count > maxCount) {
+    throw Boom.badRequest(`Too many images: at most ${maxCount} per request`);
+  }
+
+  let position = 0;
+  return messages.map((message) => {
+    if (!message.images?.length) {
+      return message;
+    }
+
+    const images = message.images.map((image) => {
+      position++;
+      const base64 = image.replace(DATA_URL, '').replace(/\s/g, '');
+
+      if (!base64 || !BASE64.test(base64)) {
+        throw Boom.badRequest(`Image ${position} is not valid base64`);
+      }
+      if (decodedSize(base64) > maxBytes) {
+        throw Boom.entityTooLarge(`Image ${position} is larger than ${maxBytes} bytes`);
+      }
+      if (!imageMimeType(base64)) {
+        throw Boom.unsupportedMediaType(`Image ${position} is not a PNG, JPEG, GIF or WebP image`);
+      }
+      return base64;
+    });
+
+    return { ...message, images };
+  });
+};
@@ -0,0 +1,71 @@
+import Boom from '@hapi/boom';
+import { OllamaChatRequest } from '../services/ollamaService';
+import { ModelLimits, TenantSettings } from '../types';
+
+// "llama2" matches "llama2", "llama2:latest" and "llama2:7b"; "llama2:7b" matches only itself
+export const matchesModel = (entry: string, model: string): boolean => {
+  if (entry === model) return true;
+  return !entry.includes(':') && model.split(':')[0] === entry;
+};
+
+export const isModelAllowed = (settings: TenantSettings, model: string): boolean => {
+  const allowed = settings.models?.allowed;
+  if (!allowed || allowed.length === 0) return true;
+  return allowed.some((entry) => matchesModel(entry, model));
+};
+
+export const getModelLimits = (settings: TenantSettings, model: string): ModelLimits | undefined => {
+  const limits = settings.models?.limits;
+  if (!limits) return undefined;
+  if (limits[model]) return limits[model];
+
+  const entry = Object.keys(limits).find((key) => matchesModel(key, model));
+  return entry ? limits[entry] : undefined;
+};
+
+export const filterModels = <T extends { name: string }>(models: T[], settings: TenantSettings): T[] => {
+  return models.filter((model) => isModelAllowed(settings, model.name));
+};
+
+// Fill in the tenant's default model and reject models it is not entitled to
+export const resolveModel = (requested: string | undefined, settings: TenantSettings): string => {
+  const model = requested || settings.models?.default;
+  if (!model) {
+    throw Boom.badRequest('"model" is required because the tenant has no default model');
+  }
+
+  if (!isModelAllowed(settings, model)) {
+    throw Boom.forbidden(`Model "${model}" is not enabled for this tenant`);
+  }
+
+  return model;
+};
+
+// Resolve the model as above and clamp options to the tenant's caps for it
+export const applyModelPolicy = <T extends Pick<OllamaChatRequest, 'model' | 'options'>>(
+  chatRequest: T,
+  settings: TenantSettings
+): T => {
+  const model = resolveModel(chatRequest.model, settings);
+
+  const limits = getModelLimits(settings, model);
+  if (!limits) {
+    return { ...chatRequest, model };
+  }
+
+  const options = { ...chatRequest.options };
+
+  // Always bound generation length when a cap exists, even if the client did not ask for one
+  if (limits.maxNumPredict !== undefined) {
+    options.num_predict = Math.min(options.num_predict ?? limits.maxNumPredict, limits.maxNumPredict);
+  }
+  if (limits.maxTemperature !== undefined && options.temperature !== undefined) {
+    options.temperature = Math.min(options.temperature, limits.maxTemperature);
+  }
+
+  return {
+    ...chatRequest,
+    model,
+    ...(Object.keys(options).length > 0 ? { options } : {})
+  };
+};
@@ -0,0 +1,323 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaMessage,
+  OllamaTool,
+  OllamaToolCall
+} from '../services/ollamaService';
+import { imageMimeType } from './images';
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    // JSON-encoded, unlike Ollama's object
+    arguments: string;
+  };
+}
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  // Only data URLs are accepted; remote images are not fetched
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface OpenAIMessage {
+  role: OllamaMessage['role'];
+  // Null on assistant messages that only call tools
+  content: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+// Subset of the OpenAI Chat Completions wire format that maps onto Ollama
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: OllamaTool[];
+  // Ollama always lets the model choose; 'none' withholds the tools
+  tool_choice?: 'auto' | 'none';
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  n?: number;
+  stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  response_format?:
+    | { type: 'text' }
+    | { type: 'json_object' }
+    | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown> } };
+  user?: string;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface OpenAIChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string;
+  }>;
+  usage: OpenAIUsage;
+}
+
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string;
+      // Streamed in pieces: the first delta for an index carries the id and name
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+export const createCompletionId = (): string => `chatcmpl-${uuidv4().replace(/-/g, '')}`;
+
+export const unixTimestamp = (): number => Math.floor(Date.now() / 1000);
+
+// Text parts are joined; images keep their data URL, which the image policy strips
+const toOllamaMessage = (role: OllamaMessage['role'], content: OpenAIMessage['content']): OllamaMessage => {
+  if (content === null) {
+    return { role, content: '' };
+  }
+  if (typeof content === 'string') {
+    return { role, content };
+  }
+
+  const text = content.flatMap((part) => (part.type === 'text' ? [part.text] : []));
+  const images = content.flatMap((part) => (part.type === 'image_url' ? [part.image_url.url] : []));
+  return { role, content: text.join('\n'), ...(images.length > 0 ? { images } : {}) };
+};
+
+// Ollama names the function a tool result belongs to rather than the call id, so
+// ids are resolved against the calls in the earlier assistant messages
+const toOllamaMessages = (messages: OpenAIMessage[]): OllamaMessage[] => {
+  const callNames = new Map<string, string>();
+
+  return messages.map((message) => {
+    const converted = toOllamaMessage(message.role, message.content);
+
+    if (message.tool_calls?.length) {
+      message.tool_calls.forEach((call) => callNames.set(call.id, call.function.name));
+      return { ...converted, tool_calls: toOllamaToolCalls(message.tool_calls) };
+    }
+
+    if (message.role === 'tool') {
+      const name = message.tool_call_id ? callNames.get(message.tool_call_id) : undefined;
+      return name ? { ...converted, tool_name: name } : converted;
+    }
+
+    return converted;
+  });
+};
+
+const toOllamaFormat = (responseFormat: OpenAIChatRequest['response_format']): OllamaChatRequest['format'] => {
+  if (responseFormat?.type === 'json_object') {
+    return 'json';
+  }
+  return responseFormat?.type === 'json_schema' ? responseFormat.json_schema.schema : undefined;
+};
+
+export const toOllamaChatRequest = (request: OpenAIChatRequest): OllamaChatRequest => {
+  const options: NonNullable<OllamaChatRequest['options']> = {};
+
+  if (request.temperature !== undefined) options.temperature = request.temperature;
+  if (request.top_p !== undefined) options.top_p = request.top_p;
+  if (request.max_tokens !== undefined) options.num_predict = request.max_tokens;
+  if (request.stop !== undefined) {
+    options.stop = Array.isArray(request.stop) ? request.stop : [request.stop];
+  }
+
+  const format = toOllamaFormat(request.response_format);
+
+  return {
+    model: request.model,
+    messages: toOllamaMessages(request.messages),
+    stream: request.stream,
+    ...(request.tools?.length && request.tool_choice !== 'none' ? { tools: request.tools } : {}),
+    ...(format ? { format } : {}),
+    ...(Object.keys(options).length > 0 ? { options } : {})
+  };
+};
+
+// Ollama has no call ids, so each call the model asks for gets a fresh one
+export const toOpenAIToolCalls = (toolCalls: OllamaToolCall[]): OpenAIToolCall[] => {
+  return toolCalls.map((call) => ({
+    id: `call_${uuidv4().replace(/-/g, '').slice(0, 24)}`,
+    type: 'function',
+    function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments) }
+  }));
+};
+
+// Ollama has no call ids: calls are numbered here and each tool result is paired
+// with the earliest unanswered call to the same function
+const toOpenAIMessages = (messages: OllamaMessage[]): OpenAIMessage[] => {
+  const pending: Array<{ id: string; name: string }> = [];
+
+  return messages.map((message, index) => {
+    if (message.tool_calls?.length) {
+      const toolCalls = message.tool_calls.map((call, callIndex): OpenAIToolCall => {
+        const id = `call_${index}_${callIndex}`;
+        pending.push({ id, name: call.function.name });
+        return {
+          id,
+          type: 'function',
+          function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments) }
+        };
+      });
+      return { role: message.role, content: message.content, tool_calls: toolCalls };
+    }
+
+    if (message.role === 'tool') {
+      const position = pending.findIndex((call) => !message.tool_name || call.name === message.tool_name);
+      const call = position === -1 ? undefined : pending.splice(position, 1)[0];
+      return { role: 'tool', content: message.content, tool_call_id: call?.id || `call_${index}` };
+    }
+
+    if (message.images?.length) {
+      return {
+        role: message.role,
+        content: [
+          { type: 'text', text: message.content },
+          ...message.images.map((image): OpenAIContentPart => ({
+            type: 'image_url',
+            image_url: { url: `data:${imageMimeType(image) || 'image/png'};base64,${image}` }
+          }))
+        ]
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+};
+
+// Arguments the model did not encode as valid JSON are passed on as an empty object
+export const toOllamaToolCalls = (
+  toolCalls: Array<{ function?: { name?: string; arguments?: string } }> | undefined
+): OllamaToolCall[] | undefined => {
+  if (!toolCalls?.length) {
+    return undefined;
+  }
+
+  return toolCalls.map((call) => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(call.function?.arguments || '{}');
+    } catch (e) {
+      // keep the empty object
+    }
+    return { function: { name: call.function?.name || '', arguments: args } };
+  });
+};
+
+// Inverse of toOllamaChatRequest, for forwarding to OpenAI-compatible providers
+export const toOpenAIChatRequest = (request: OllamaChatRequest): OpenAIChatRequest => {
+  const { temperature, top_p, num_predict, stop } = request.options || {};
+
+  return {
+    model: request.model,
+    messages: toOpenAIMessages(request.messages),
+    ...(request.tools?.length ? { tools: request.tools } : {}),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(top_p !== undefined ? { top_p } : {}),
+    ...(num_predict !== undefined ? { max_tokens: num_predict } : {}),
+    ...(stop !== undefined ? { stop } : {}),
+    ...(request.format === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    ...(request.format && request.format !== 'json'
+      ? { response_format: { type: 'json_schema' as const, json_schema: { name: 'response', schema: request.format } } }
+      : {})
+  };
+};
+
+export const toUsage = (response: Pick<OllamaChatResponse, 'prompt_eval_count' | 'eval_count'>): OpenAIUsage => {
+  const promptTokens = response.prompt_eval_count || 0;
+  const completionTokens = response.eval_count || 0;
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens
+  };
+};
+
+// Ollama reports 'stop' or 'length'; older versions omit done_reason entirely
+export const toFinishReason = (response: OllamaChatResponse, calledTools: boolean = false): string => {
+  if (calledTools || response.message.tool_calls?.length) {
+    return 'tool_calls';
+  }
+  return response.done_reason === 'length' ? 'length' : 'stop';
+};
+
+// Merge one Ollama reply per requested choice into a single completion
+export const toChatCompletion = (
+  id: string,
+  model: string,
+  responses: OllamaChatResponse[]
+): OpenAIChatCompletion => {
+  const usage = responses.map(toUsage).reduce((total, current) => ({
+    // The prompt is identical for every choice, so count it once
+    prompt_tokens: Math.max(total.prompt_tokens, current.prompt_tokens),
+    completion_tokens: total.completion_tokens + current.completion_tokens,
+    total_tokens: 0
+  }), { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 });
+  usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+
+  return {
+    id,
+    object: 'chat.completion',
+    created: unixTimestamp(),
+    model,
+    choices: responses.map((response, index) => ({
+      index,
+      message: response.message.tool_calls?.length
+        ? {
+          role: 'assistant',
+          content: response.message.content || null,
+          tool_calls: toOpenAIToolCalls(response.message.tool_calls)
+        }
+        : { role: 'assistant', content: response.message.content },
+      finish_reason: toFinishReason(response)
+    })),
+    usage
+  };
+};
+
+export const toChatCompletionChunk = (
+  id: string,
+  created: number,
+  model: string,
+  delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+  finishReason: string | null = null
+): OpenAIChatCompletionChunk => ({
+  id,
+  object: 'chat.completion.chunk',
+  created,
+  model,
+  choices: [{ index: 0, delta, finish_reason: finishReason }]
+});
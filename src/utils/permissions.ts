@@ -0,0 +1,79 @@
+import { Permission, TenantSettings } from '../types';
+
+// Every permission a role can grant; routes require one of them as their Hapi scope
+export const PERMISSIONS: Permission[] = [
+  'llm:chat',
+  'llm:generate',
+  'llm:embeddings',
+  'llm:batches',
+  'llm:batches:manage',
+  'llm:models',
+  'prompts:read',
+  'prompts:write',
+  'collections:read',
+  'collections:write',
+  'users:read',
+  'users:write',
+  'usage:read',
+  'quotas:read',
+  'quotas:write',
+  'settings:read',
+  'settings:write',
+  'apikeys:manage'
+];
+
+// Roles every tenant has; tenants define further roles in their settings
+export const BUILT_IN_ROLES: Record<string, Permission[]> = {
+  admin: [...PERMISSIONS],
+  user: ['llm:chat', 'llm:generate', 'llm:embeddings', 'llm:batches', 'llm:models', 'prompts:read', 'collections:read']
+};
+
+/**
+ * Permissions no role can grant. The Ollama backends are shared by every tenant, so only admins of
+ * the operator tenants listed in OPERATOR_TENANT_IDS get them.
+ */
+export const OPERATOR_PERMISSIONS: Permission[] = ['llm:models:manage', 'llm:backends:read'];
+
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+
+// Permissions granted by the role, or null when the tenant has no such role
+const rolePermissions = (role: string, settings: TenantSettings): Permission[] | null => {
+  if (Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, role)) {
+    return BUILT_IN_ROLES[role];
+  }
+  if (settings.roles && Object.prototype.hasOwnProperty.call(settings.roles, role)) {
+    // Roles saved before a permission became operator-only do not keep it
+    return settings.roles[role].permissions.filter((permission) => PERMISSIONS.includes(permission));
+  }
+  return null;
+};
+
+// Whether users can be given the role in this tenant
+export const isRoleDefined = (role: string, settings: TenantSettings): boolean => {
+  return rolePermissions(role, settings) !== null;
+};
+
+/**
+ * Hapi scope for a user with the given role: the role name followed by the
+ * permissions it grants. A role the tenant no longer defines grants nothing.
+ */
+export const scopeForRole = (role: string, settings: TenantSettings): string[] => {
+  return [role, ...(rolePermissions(role, settings) || [])];
+};
+
+const operatorTenants = (): Set<string> => new Set(
+  (process.env.OPERATOR_TENANT_IDS || '')
+    .split(',')
+    .map((tenantId) => tenantId.trim())
+    .filter(Boolean)
+);
+
+// Operator permissions for a user with the given role: admins of operator tenants get all of them
+export const operatorScope = (role: string, tenantId: string): Permission[] => {
+  return role === 'admin' && operatorTenants().has(tenantId) ? [...OPERATOR_PERMISSIONS] : [];
+};
+
+// Permissions in `permissions` that the caller does not hold; callers cannot hand out more than they have
+export const missingPermissions = (scope: string[], permissions: string[]): string[] => {
+  return permissions.filter((permission) => !scope.includes(permission));
+};
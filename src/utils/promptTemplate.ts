@@ -0,0 +1,62 @@
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import logger from '../config/logger';
+import promptService, { renderMessages } from '../services/promptService';
+import { OllamaMessage } from '../services/ollamaService';
+import { PromptTemplateRef, TenantSettings } from '../types';
+
+const log = logger.child({ module: 'PromptTemplate' });
+
+export const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+// `template` field accepted by the chat endpoint
+export const promptTemplateRefSchema = Joi.object({
+  name: Joi.string().pattern(TEMPLATE_NAME_PATTERN).required(),
+  version: Joi.number().integer().min(1).optional().description('Defaults to the latest version'),
+  variables: Joi.object().pattern(
+    Joi.string(),
+    Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean())
+  ).optional()
+}).optional().description('Prompt template rendered in front of "messages"');
+
+/**
+ * Put the rendered template in front of the request's messages. Without a
+ * template, the tenant's default template is used for chats that bring no
+ * system message of their own.
+ */
+export const applyPromptTemplate = async (
+  messages: OllamaMessage[],
+  settings: TenantSettings,
+  tenantId: string,
+  ref?: PromptTemplateRef
+): Promise<OllamaMessage[]> => {
+  if (ref) {
+    const template = await promptService.getTemplate(tenantId, ref.name, ref.version);
+    if (!template) {
+      const version = ref.version ? ` version ${ref.version}` : '';
+      throw Boom.badRequest(`Prompt template "${ref.name}"${version} not found`);
+    }
+
+    const variables = ref.variables || {};
+    const missing = template.variables.filter((name) => variables[name] === undefined);
+    if (missing.length > 0) {
+      throw Boom.badRequest(`Missing template variables: ${missing.join(', ')}`);
+    }
+
+    return [...renderMessages(template.messages, variables), ...messages];
+  }
+
+  const defaultName = settings.prompts?.defaultTemplate;
+  if (!defaultName || messages.some((message) => message.role === 'system')) {
+    return messages;
+  }
+
+  // A broken default must not break every chat; it is skipped instead
+  const template = await promptService.getTemplate(tenantId, defaultName);
+  if (!template || template.variables.length > 0) {
+    log.warn({ tenantId, template: defaultName }, 'Default prompt template is missing or has variables, skipping it');
+    return messages;
+  }
+
+  return [...template.messages, ...messages];
+};
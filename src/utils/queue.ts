@@ -0,0 +1,32 @@
+import { ResponseObject } from '@hapi/hapi';
+import requestQueue, { QueueTicket } from '../services/requestQueue';
+import { DEFAULT_PROVIDER } from '../services/providerService';
+import { LLMProvider } from '../services/llmProvider';
+import { AuthCredentials, TenantSettings } from '../types';
+
+// Wait for the caller's turn at the Ollama backends; other providers are not queued and get null.
+// Throws a 503 with Retry-After when the tenant's queue is full or the wait times out.
+export const acquireSlot = async (
+  credentials: AuthCredentials,
+  settings: TenantSettings,
+  provider: LLMProvider,
+  slots: number = 1
+): Promise<QueueTicket | null> => {
+  if (provider.name !== DEFAULT_PROVIDER) {
+    return null;
+  }
+
+  return requestQueue.acquire(credentials.tenantId, {
+    weight: settings.queue?.weight,
+    maxQueued: settings.queue?.maxQueued,
+    slots
+  });
+};
+
+export const withQueueHeaders = (response: ResponseObject, ticket: QueueTicket | null): ResponseObject => {
+  if (ticket) {
+    response.header('X-Queue-Position', String(ticket.position));
+    response.header('X-Queue-Wait-Ms', String(ticket.waitedMs));
+  }
+  return response;
+};
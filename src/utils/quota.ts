@@ -0,0 +1,51 @@
+import Boom from '@hapi/boom';
+import { ResponseObject } from '@hapi/hapi';
+import quotaService from '../services/quotaService';
+import { AuthCredentials, QuotaStatus } from '../types';
+
+const QUOTA_MESSAGES: Record<keyof QuotaStatus, string> = {
+  requests: 'Request rate limit exceeded',
+  tokensPerDay: 'Daily token quota exceeded',
+  tokensPerMonth: 'Monthly token quota exceeded'
+};
+
+export const quotaHeaders = (status: QuotaStatus): Record<string, string> => {
+  const headers: Record<string, string> = {};
+
+  if (status.requests) {
+    headers['X-RateLimit-Limit-Requests'] = String(status.requests.limit);
+    headers['X-RateLimit-Remaining-Requests'] = String(status.requests.remaining);
+  }
+  if (status.tokensPerDay) {
+    headers['X-Quota-Limit-Tokens-Day'] = String(status.tokensPerDay.limit);
+    headers['X-Quota-Remaining-Tokens-Day'] = String(status.tokensPerDay.remaining);
+  }
+  if (status.tokensPerMonth) {
+    headers['X-Quota-Limit-Tokens-Month'] = String(status.tokensPerMonth.limit);
+    headers['X-Quota-Remaining-Tokens-Month'] = String(status.tokensPerMonth.remaining);
+  }
+
+  return headers;
+};
+
+export const withQuotaHeaders = (response: ResponseObject, status: QuotaStatus): ResponseObject => {
+  for (const [name, value] of Object.entries(quotaHeaders(status))) {
+    response.header(name, value);
+  }
+  return response;
+};
+
+// Throws a 429 carrying Retry-After and the remaining-quota headers when the caller is over quota
+export const enforceQuota = async (credentials: AuthCredentials): Promise<QuotaStatus> => {
+  const result = await quotaService.checkQuota(credentials.tenantId, credentials.user.userId);
+
+  if (!result.allowed) {
+    const error = Boom.tooManyRequests(QUOTA_MESSAGES[result.exceeded || 'requests']);
+    Object.assign(error.output.headers, quotaHeaders(result.status), {
+      'Retry-After': String(result.retryAfter || 60)
+    });
+    throw error;
+  }
+
+  return result.status;
+};
@@ -0,0 +1,180 @@
+import { Request, ResponseObject } from '@hapi/hapi';
+import responseCacheService from '../services/responseCacheService';
+import semanticCacheService, { SemanticCacheMatch } from '../services/semanticCacheService';
+import providerService from '../services/providerService';
+import logger from '../config/logger';
+import { OllamaChatRequest } from '../services/ollamaService';
+import { recordUsage } from './usage';
+import { AuthCredentials, CacheSettings, TenantSettings } from '../types';
+
+const log = logger.child({ module: 'ResponseCache' });
+
+export interface CachePlan {
+  hash: string;
+  settings: CacheSettings;
+  // Cache-Control: no-cache skips the lookup, no-store also skips saving the reply
+  lookup: boolean;
+  store: boolean;
+}
+
+export interface SemanticCachePlan {
+  model: string;
+  // Hash of what comes before the prompt; replies are only reused within the same scope
+  scope: string;
+  prompt: string;
+  settings: CacheSettings;
+  lookup: boolean;
+  store: boolean;
+  // Embedding of the prompt, once computed
+  vector?: number[];
+}
+
+const cacheDirectives = (request: Request): { lookup: boolean; store: boolean } => {
+  const directives = String(request.headers['cache-control'] || '')
+    .split(',')
+    .map((directive) => directive.trim().toLowerCase());
+
+  return {
+    lookup: !directives.includes('no-cache') && !directives.includes('no-store'),
+    store: !directives.includes('no-store')
+  };
+};
+
+// Decide whether a chat may use the tenant's reply cache. Only non-streamed chats at
+// temperature 0 are cached; `extra` holds request fields that shape the reply besides the chat request.
+export const planCache = (
+  request: Request,
+  settings: TenantSettings,
+  tenantId: string,
+  chatRequest: OllamaChatRequest,
+  extra: object = {}
+): CachePlan | null => {
+  if (!settings.cache?.enabled || chatRequest.stream || chatRequest.options?.temperature !== 0) {
+    return null;
+  }
+
+  return {
+    hash: responseCacheService.hashRequest(tenantId, { ...chatRequest, stream: undefined, ...extra }),
+    settings: settings.cache,
+    ...cacheDirectives(request)
+  };
+};
+
+// Decide whether a chat may reuse the reply to a similar prompt. The final user message is matched
+// by similarity and everything before it (system prompt, template, history) must be identical.
+// Chats whose reply depends on more (tools, a schema, images, retrieved documents) are left out;
+// `shaped` marks the ones the chat request does not show.
+export const planSemanticCache = (
+  request: Request,
+  settings: TenantSettings,
+  tenantId: string,
+  chatRequest: OllamaChatRequest,
+  shaped: boolean
+): SemanticCachePlan | null => {
+  const semantic = settings.cache?.semantic;
+  const last = chatRequest.messages[chatRequest.messages.length - 1];
+  if (
+    !semantic?.enabled ||
+    !semantic.embeddingModel ||
+    chatRequest.stream ||
+    chatRequest.tools?.length ||
+    chatRequest.format ||
+    shaped ||
+    last?.role !== 'user' ||
+    last.images?.length ||
+    !last.content.trim()
+  ) {
+    return null;
+  }
+
+  return {
+    model: chatRequest.model,
+    scope: responseCacheService.hashRequest(tenantId, { messages: chatRequest.messages.slice(0, -1) }),
+    prompt: last.content,
+    settings: settings.cache!,
+    ...cacheDirectives(request)
+  };
+};
+
+// Cache failures only cost a call to the model, so they never fail the request
+export const readCache = async <T>(tenantId: string, plan: CachePlan): Promise<T | null> => {
+  if (!plan.lookup) {
+    return null;
+  }
+
+  try {
+    return await responseCacheService.get<T>(tenantId, plan.hash);
+  } catch (error) {
+    log.error({ tenantId, error: error instanceof Error ? error.message : error }, 'Failed to read cached reply');
+    return null;
+  }
+};
+
+export const writeCache = async (tenantId: string, plan: CachePlan, value: unknown): Promise<void> => {
+  if (!plan.store) {
+    return;
+  }
+
+  try {
+    await responseCacheService.set(tenantId, plan.hash, value, plan.settings);
+  } catch (error) {
+    log.error({ tenantId, error: error instanceof Error ? error.message : error }, 'Failed to cache reply');
+  }
+};
+
+// Embed the prompt (charged like any embedding) and look for a reply to a similar one
+export const readSemanticCache = async <T>(
+  credentials: AuthCredentials,
+  settings: TenantSettings,
+  plan: SemanticCachePlan
+): Promise<SemanticCacheMatch<T> | null> => {
+  const { tenantId } = credentials;
+  if (!plan.lookup && !plan.store) {
+    return null;
+  }
+
+  try {
+    const embeddingModel = plan.settings.semantic!.embeddingModel!;
+    const provider = providerService.getProvider(settings, embeddingModel);
+    if (!provider.embed) {
+      log.warn({ tenantId, embeddingModel, provider: provider.name }, 'Semantic cache embedding model has no embeddings support');
+      return null;
+    }
+
+    const embedding = await provider.embed({ model: embeddingModel, input: plan.prompt }, tenantId);
+    await recordUsage(credentials, embedding);
+    plan.vector = embedding.embeddings[0];
+
+    return plan.lookup && plan.vector
+      ? await semanticCacheService.findSimilar<T>(tenantId, plan.model, plan.scope, plan.vector, plan.settings)
+      : null;
+  } catch (error) {
+    log.error({ tenantId, error: error instanceof Error ? error.message : error }, 'Failed to read semantic cache');
+    return null;
+  }
+};
+
+export const writeSemanticCache = async (tenantId: string, plan: SemanticCachePlan, value: unknown): Promise<void> => {
+  if (!plan.store || !plan.vector) {
+    return;
+  }
+
+  try {
+    await semanticCacheService.add(tenantId, plan.model, plan.scope, plan.vector, value, plan.settings);
+  } catch (error) {
+    log.error({ tenantId, error: error instanceof Error ? error.message : error }, 'Failed to add reply to semantic cache');
+  }
+};
+
+// Only chats that could have been answered from a cache get the header; similarity is set for semantic hits
+export const withCacheHeader = (response: ResponseObject, eligible: boolean, hit: boolean, similarity?: number): ResponseObject => {
+  if (!eligible) {
+    return response;
+  }
+
+  response.header('X-Cache', hit ? 'HIT' : 'MISS');
+  if (similarity !== undefined) {
+    response.header('X-Cache-Similarity', similarity.toFixed(4));
+  }
+  return response;
+};
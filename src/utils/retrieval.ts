@@ -0,0 +1,94 @@
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import collectionService from '../services/collectionService';
+import providerService from '../services/providerService';
+import { OllamaMessage } from '../services/ollamaService';
+import { recordUsage } from './usage';
+import { AuthCredentials, Citation, RetrievalRef, TenantSettings } from '../types';
+
+export const COLLECTION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+export const DEFAULT_TOP_K = 4;
+// Texts sent to the embedding model per call
+const EMBED_BATCH_SIZE = 64;
+
+// `retrieval` field accepted by the chat endpoint
+export const retrievalRefSchema = Joi.object({
+  collection: Joi.string().pattern(COLLECTION_NAME_PATTERN).required(),
+  topK: Joi.number().integer().min(1).max(20).optional().description(`Chunks to add to the prompt (default ${DEFAULT_TOP_K})`),
+  minScore: Joi.number().min(-1).max(1).optional().description('Leave out chunks less similar to the question than this')
+}).optional().description('Collection whose most relevant chunks are added to the prompt and returned as citations');
+
+// Embed texts with the given model, charging the caller for each call
+export const embedTexts = async (
+  credentials: AuthCredentials,
+  settings: TenantSettings,
+  model: string,
+  texts: string[]
+): Promise<number[][]> => {
+  const provider = providerService.getProvider(settings, model);
+  if (!provider.embed) {
+    throw Boom.badRequest(`Provider "${provider.name}" does not support embeddings`);
+  }
+
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const embedding = await provider.embed({ model, input: texts.slice(start, start + EMBED_BATCH_SIZE) }, credentials.tenantId);
+    await recordUsage(credentials, embedding);
+    vectors.push(...embedding.embeddings);
+  }
+
+  return vectors;
+};
+
+const contextMessage = (citations: Citation[]): OllamaMessage => ({
+  role: 'system',
+  content: [
+    'Answer using the numbered sources below when they are relevant, and cite them by number, e.g. [1]. ' +
+      'If they do not contain the answer, say so.',
+    ...citations.map((citation) => `[${citation.index}] ${citation.title}\n${citation.text}`)
+  ].join('\n\n')
+});
+
+/**
+ * Search the collection with the last user message and put the best chunks
+ * in a system message just before it. Returns the messages to send and the
+ * chunks used, numbered as the model is asked to cite them.
+ */
+export const applyRetrieval = async (
+  credentials: AuthCredentials,
+  settings: TenantSettings,
+  messages: OllamaMessage[],
+  ref: RetrievalRef
+): Promise<{ messages: OllamaMessage[]; citations: Citation[] }> => {
+  const collection = await collectionService.getCollection(credentials.tenantId, ref.collection);
+  if (!collection) {
+    throw Boom.badRequest(`Collection "${ref.collection}" not found`);
+  }
+
+  let last = messages.length - 1;
+  while (last >= 0 && messages[last].role !== 'user') {
+    last--;
+  }
+  if (last < 0 || !messages[last].content.trim()) {
+    throw Boom.badRequest('"retrieval" needs a user message to search with');
+  }
+
+  const [vector] = await embedTexts(credentials, settings, collection.embeddingModel, [messages[last].content]);
+  const matches = await collectionService.searchExhaustive(
+    credentials.tenantId,
+    collection.name,
+    vector,
+    ref.topK || DEFAULT_TOP_K,
+    ref.minScore
+  );
+
+  if (matches.length === 0) {
+    return { messages, citations: [] };
+  }
+
+  const citations = matches.map((match, position) => ({ index: position + 1, ...match }));
+  return {
+    messages: [...messages.slice(0, last), contextMessage(citations), ...messages.slice(last)],
+    citations
+  };
+};
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import logger from '../config/logger';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const DEVELOPMENT_KEY = 'development-only-settings-key';
+
+// Example values from this repo's docs and manifests, which production must not run with
+const PLACEHOLDER_KEYS = [
+  DEVELOPMENT_KEY,
+  'change-this-to-a-long-random-string',
+  'change-this-to-a-secure-random-string-in-production',
+  'dev-settings-key-change-me'
+];
+
+const isPlaceholder = (secret: string): boolean => {
+  return PLACEHOLDER_KEYS.includes(secret) || /^change[-_ ]?(this|me)\b/i.test(secret);
+};
+
+// SETTINGS_ENCRYPTION_KEY is hashed so any sufficiently long passphrase works as a key
+const getKey = (): Buffer => {
+  const secret = process.env.SETTINGS_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Settings encryption key is not configured; set SETTINGS_ENCRYPTION_KEY');
+    }
+    return crypto.createHash('sha256').update(DEVELOPMENT_KEY).digest();
+  }
+  if (process.env.NODE_ENV === 'production' && isPlaceholder(secret)) {
+    throw new Error('SETTINGS_ENCRYPTION_KEY is an example value; set it to a random secret (openssl rand -base64 32)');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+// Called at startup so production refuses to run without a key instead of failing on the first secret
+export const checkEncryptionKey = (): void => {
+  getKey();
+  if (!process.env.SETTINGS_ENCRYPTION_KEY) {
+    logger.warn('SETTINGS_ENCRYPTION_KEY is not set; using a development key for stored secrets');
+  }
+};
+
+export const isEncrypted = (value: string): boolean => value.startsWith(PREFIX);
+
+// Encrypt with AES-256-GCM; output is "enc:v1:<iv>:<auth tag>:<ciphertext>" in base64
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return PREFIX + [iv, tag, ciphertext].map((part) => part.toString('base64')).join(':');
+};
+
+export const decryptSecret = (value: string): string => {
+  if (!isEncrypted(value)) {
+    throw new Error('Value is not an encrypted secret');
+  }
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,178 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import logger from '../config/logger';
+import { OllamaChatRequest, OllamaChatResponse } from '../services/ollamaService';
+import { LLMProvider } from '../services/llmProvider';
+import { recordUsage } from './usage';
+import { AuthCredentials } from '../types';
+
+const log = logger.child({ module: 'StructuredOutput' });
+
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+export interface ResponseFormat {
+  type: 'json_schema';
+  schema: Record<string, unknown>;
+  // Extra model calls allowed to fix output that does not match the schema
+  max_repairs?: number;
+}
+
+export interface StructuredResult {
+  // Last model reply, with usage summed over every attempt
+  response: OllamaChatResponse;
+  parsed: unknown;
+  repairs: number;
+}
+
+// `response_format` field accepted by the chat endpoint
+export const responseFormatSchema = Joi.object({
+  type: Joi.string().valid('json_schema').required(),
+  schema: Joi.object().unknown(true).required().description('JSON schema the reply must match'),
+  max_repairs: Joi.number().integer().min(0).max(MAX_REPAIR_ATTEMPTS).default(0)
+    .description('How many times the model may be asked to fix an invalid reply')
+}).optional().description('Ask for a JSON reply matching a schema; the parsed value is returned as "parsed"');
+
+// Compiled validators keyed by the schema's JSON; schemas are usually reused across requests.
+// Each has an Ajv instance of its own, so evicting a validator frees everything it compiled.
+const validators = new Map<string, ValidateFunction>();
+const MAX_CACHED_VALIDATORS = 100;
+
+// Client schemas must stand alone: an $id or a $ref outside the schema could reach other tenants' schemas
+const findReferenceError = (value: unknown, path: string): string | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '$id') {
+      return `${path}/$id is not allowed`;
+    }
+    if (key === '$ref' && (typeof child !== 'string' || !child.startsWith('#'))) {
+      return `${path}/$ref must point inside the schema`;
+    }
+
+    const error = findReferenceError(child, `${path}/${key}`);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+};
+
+export const compileSchema = (schema: Record<string, unknown>): ValidateFunction => {
+  const key = JSON.stringify(schema);
+  const cached = validators.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const referenceError = findReferenceError(schema, '');
+  if (referenceError) {
+    throw Boom.badRequest(`Invalid JSON schema: ${referenceError}`);
+  }
+
+  let validate: ValidateFunction;
+  try {
+    validate = new Ajv({ allErrors: true, strict: false }).compile(schema);
+  } catch (error) {
+    throw Boom.badRequest(`Invalid JSON schema: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (validators.size >= MAX_CACHED_VALIDATORS) {
+    validators.delete(validators.keys().next().value as string);
+  }
+  validators.set(key, validate);
+  return validate;
+};
+
+const formatError = (error: ErrorObject): string => {
+  return `${error.instancePath || '/'} ${error.message || 'is invalid'}`;
+};
+
+// Models sometimes wrap JSON in a Markdown code fence despite being told not to
+const stripCodeFence = (content: string): string => {
+  const match = /^\s*```(?:json)?\s*\n([\s\S]*?)\n?```\s*$/.exec(content);
+  return match ? match[1] : content;
+};
+
+export const validateOutput = (
+  content: string,
+  validate: ValidateFunction
+): { valid: true; value: unknown } | { valid: false; errors: string[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(content));
+  } catch (error) {
+    return { valid: false, errors: [`Reply is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  if (!validate(value)) {
+    return { valid: false, errors: (validate.errors || []).map(formatError) };
+  }
+  return { valid: true, value };
+};
+
+const repairPrompt = (errors: string[]): string => {
+  return [
+    'Your reply does not match the required JSON schema:',
+    ...errors.map((error) => `- ${error}`),
+    'Reply again with only the corrected JSON, without any other text.'
+  ].join('\n');
+};
+
+/**
+ * Ask for JSON matching the schema (passed to the model as `format`), validate
+ * the reply and, while repairs are left, send the errors back to the model.
+ * Every call is charged. Throws a 422 with the validation errors when the
+ * last reply still does not match.
+ */
+export const completeStructured = async (
+  provider: LLMProvider,
+  chatRequest: OllamaChatRequest,
+  credentials: AuthCredentials,
+  responseFormat: ResponseFormat
+): Promise<StructuredResult> => {
+  const validate = compileSchema(responseFormat.schema);
+  const maxRepairs = Math.min(responseFormat.max_repairs ?? 0, MAX_REPAIR_ATTEMPTS);
+  let messages = chatRequest.messages;
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await provider.chat({ ...chatRequest, messages, format: responseFormat.schema }, credentials.tenantId);
+    await recordUsage(credentials, response);
+
+    promptTokens += response.prompt_eval_count || 0;
+    completionTokens += response.eval_count || 0;
+    const total = { ...response, prompt_eval_count: promptTokens, eval_count: completionTokens };
+
+    const result = validateOutput(response.message.content, validate);
+    if (result.valid) {
+      return { response: total, parsed: result.value, repairs: attempt };
+    }
+
+    log.info({
+      tenantId: credentials.tenantId,
+      model: chatRequest.model,
+      attempt,
+      errors: result.errors
+    }, 'Structured output does not match the schema');
+
+    if (attempt >= maxRepairs) {
+      const error = Boom.badData('Model output does not match the requested schema');
+      Object.assign(error.output.payload, {
+        validation_errors: result.errors,
+        raw: response.message.content,
+        repairs: attempt
+      });
+      throw error;
+    }
+
+    messages = [
+      ...messages,
+      { role: 'assistant', content: response.message.content },
+      { role: 'user', content: repairPrompt(result.errors) }
+    ];
+  }
+};
@@ -0,0 +1,38 @@
+import { Request } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+import Joi from 'joi';
+import { Logger } from 'pino';
+import { ApiKeyScope, AuthCredentials } from '../types';
+
+// Headers every tenant-scoped LLM route requires alongside the JWT or API key
+export const tenantHeadersSchema = Joi.object({
+  'x-tenant-id': Joi.string().uuid().required(),
+  authorization: Joi.string().required()
+}).unknown();
+
+// Credentials of a request authenticated by the jwt or apiKey strategy
+export const getCredentials = (request: Request): AuthCredentials => request.auth.credentials as unknown as AuthCredentials;
+
+// Verify the x-tenant-id header matches the authenticated user's tenant
+export const assertTenantAccess = (request: Request, log: Logger): AuthCredentials => {
+  const credentials = getCredentials(request);
+  const headerTenantId = request.headers['x-tenant-id'];
+
+  if (headerTenantId !== credentials.tenantId) {
+    log.warn({
+      userId: credentials.user.userId,
+      credentialsTenantId: credentials.tenantId,
+      headerTenantId
+    }, 'Tenant ID mismatch');
+
+    throw Boom.forbidden('Tenant ID does not match authenticated user');
+  }
+
+  return credentials;
+};
+
+// Route auth accepting the JWT of a user whose role grants `scope`, or an API key granted it
+export const jwtOrApiKey = (scope: ApiKeyScope) => ({
+  strategies: ['apiKey', 'jwt'],
+  scope: [scope]
+});
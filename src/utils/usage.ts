@@ -0,0 +1,67 @@
+import quotaService from '../services/quotaService';
+import usageService from '../services/usageService';
+import logger from '../config/logger';
+import { OllamaChatResponse } from '../services/ollamaService';
+import { AuthCredentials } from '../types';
+
+const log = logger.child({ module: 'Usage' });
+
+// Token counts and timings as reported by Ollama (durations are in nanoseconds)
+export interface UsageMetrics {
+  model: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  total_duration?: number;
+}
+
+// Rough count without a tokenizer: ~4 characters per token
+export const tokensForChars = (chars: number): number => Math.ceil(chars / 4);
+
+// Text a streamed chat chunk adds to the reply, tool calls included
+export const chatChunkText = (chunk: OllamaChatResponse): string => {
+  const toolCalls = chunk.message?.tool_calls?.length ? JSON.stringify(chunk.message.tool_calls) : '';
+  return (chunk.message?.content || '') + toolCalls;
+};
+
+// Counts for a streamed reply. Taken from the final chunk where the provider reported them;
+// an aborted or failed stream never gets one, so the rest is estimated from the prompt and
+// the text relayed to the client.
+export const streamedUsage = (
+  model: string,
+  promptTokens: number,
+  streamedChars: number,
+  finalChunk: UsageMetrics | null
+): UsageMetrics => ({
+  model: finalChunk?.model || model,
+  prompt_eval_count: finalChunk?.prompt_eval_count ?? promptTokens,
+  eval_count: finalChunk?.eval_count ?? tokensForChars(streamedChars),
+  total_duration: finalChunk?.total_duration
+});
+
+// Charge the call to the caller's quota and write it to the usage ledger.
+// Runs after the reply was produced, so a Redis hiccup must not fail the request.
+export const recordUsage = async (credentials: AuthCredentials, metrics: UsageMetrics): Promise<void> => {
+  const { tenantId } = credentials;
+  const userId = credentials.user.userId;
+  const promptTokens = metrics.prompt_eval_count || 0;
+  const completionTokens = metrics.eval_count || 0;
+
+  try {
+    await quotaService.recordTokens(tenantId, userId, promptTokens + completionTokens);
+    await usageService.record({
+      tenantId,
+      userId,
+      model: metrics.model,
+      promptTokens,
+      completionTokens,
+      durationMs: (metrics.total_duration || 0) / 1e6
+    });
+  } catch (error) {
+    log.error({
+      tenantId,
+      userId,
+      model: metrics.model,
+      error: error instanceof Error ? error.message : error
+    }, 'Failed to record usage');
+  }
+};
@@ -0,0 +1,17 @@
+// Cosine similarity of two embeddings; 0 when they differ in length or either is all zeros
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
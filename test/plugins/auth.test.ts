@@ -1,11 +1,11 @@
 import { Server } from '@hapi/hapi';
-import JWT from '@hapi/jwt';
 
 jest.mock('../../src/config/redis');
 
 import authPlugin from '../../src/plugins/auth';
 import redisClient from '../../src/config/redis';
 import { User } from '../../src/types';
+import signingKeyService from '../../src/services/signingKeyService';
 
 describe('Auth Plugin', () => {
   let server: Server;
@@ -29,7 +29,6 @@ describe('Auth Plugin', () => {
       host: 'localhost',
     });
 
-    await server.register(JWT);
     await server.register(authPlugin);
   });
 
@@ -74,12 +73,14 @@ describe('Auth Plugin', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser)) // User data
-        .mockResolvedValueOnce(null); // Token not blacklisted
+        .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -87,13 +88,7 @@ describe('Auth Plugin', () => {
           tenantId: 'tenant-123',
           role: 'admin',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -110,7 +105,7 @@ describe('Auth Plugin', () => {
     it('should reject if tenant does not exist', async () => {
       mockRedisClient.exists.mockResolvedValue(0);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -118,13 +113,7 @@ describe('Auth Plugin', () => {
           tenantId: 'non-existent',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -139,10 +128,12 @@ describe('Auth Plugin', () => {
     });
 
     it('should reject if user does not exist', async () => {
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get.mockResolvedValue(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -150,13 +141,7 @@ describe('Auth Plugin', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -187,7 +172,7 @@ describe('Auth Plugin', () => {
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce('true'); // Token is blacklisted
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -195,13 +180,7 @@ describe('Auth Plugin', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -227,12 +206,14 @@ describe('Auth Plugin', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -240,13 +221,7 @@ describe('Auth Plugin', () => {
           tenantId: 'tenant-123',
           role: 'admin',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       // Add admin-only route
@@ -285,12 +260,14 @@ describe('Auth Plugin', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -298,13 +275,7 @@ describe('Auth Plugin', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       // Add admin-only route
@@ -360,12 +331,14 @@ describe('Auth Plugin', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -373,13 +346,7 @@ describe('Auth Plugin', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       await server.inject({
@@ -0,0 +1,65 @@
+import { Server } from '@hapi/hapi';
+import Boom from '@hapi/boom';
+
+import errorPlugin from '../../src/plugins/errors';
+
+describe('Error Plugin', () => {
+  let server: Server;
+
+  beforeEach(async () => {
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3014,
+      host: 'localhost',
+    });
+
+    await server.register(errorPlugin);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should keep fields added to the error payload', async () => {
+    server.route({
+      method: 'GET',
+      path: '/test',
+      options: { auth: false },
+      handler: () => {
+        const error = Boom.badData('Model output does not match the requested schema');
+        Object.assign(error.output.payload, { validation_errors: ['/a must be string'], repairs: 1 });
+        throw error;
+      },
+    });
+
+    const response = await server.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(422);
+    expect(JSON.parse(response.payload)).toEqual({
+      statusCode: 422,
+      error: 'Unprocessable Entity',
+      message: 'Model output does not match the requested schema',
+      validation_errors: ['/a must be string'],
+      repairs: 1,
+    });
+  });
+
+  it('should keep headers set on the error', async () => {
+    server.route({
+      method: 'GET',
+      path: '/test',
+      options: { auth: false },
+      handler: () => {
+        const error = Boom.tooManyRequests('Quota exceeded');
+        error.output.headers['Retry-After'] = '30';
+        throw error;
+      },
+    });
+
+    const response = await server.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers['retry-after']).toBe('30');
+    expect(JSON.parse(response.payload).message).toBe('Quota exceeded');
+  });
+});
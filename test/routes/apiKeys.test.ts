@@ -0,0 +1,228 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/apiKeyService', () => ({
+  __esModule: true,
+  ...jest.requireActual('../../src/services/apiKeyService'),
+  default: {
+    createKey: jest.fn(),
+    listKeys: jest.fn(),
+    updateKey: jest.fn(),
+    revokeKey: jest.fn(),
+    authenticate: jest.fn(),
+  },
+}));
+
+import apiKeyRoutes from '../../src/routes/apiKeys';
+import authPlugin from '../../src/plugins/auth';
+import apiKeyService from '../../src/services/apiKeyService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('API Key Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const keyId = '9b2c7e4a-3f1d-4a6b-8c5e-1d2f3a4b5c6d';
+
+  const apiKey = {
+    keyId,
+    tenantId: mockTenantId,
+    name: 'nightly-job',
+    prefix: 'sk-AbCdEf',
+    scopes: ['llm:chat'],
+    createdAt: '2024-01-15T10:30:00.000Z',
+    createdBy: 'user-1',
+    updatedAt: '2024-01-15T10:30:00.000Z',
+  };
+
+  const createToken = (): string => signingKeyService.sign(
+    {
+      aud: 'urn:audience:api',
+      iss: 'urn:issuer:api',
+      userId: 'user-1',
+      tenantId: mockTenantId,
+    },
+    14400
+  );
+
+  const mockUser = (role: 'admin' | 'user') => {
+    mockRedisClient.get.mockResolvedValue(JSON.stringify({
+      userId: 'user-1',
+      tenantId: mockTenantId,
+      username: 'someone',
+      email: 'someone@test.com',
+      password: 'hashed-password',
+      role,
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    }));
+  };
+
+  // A user whose custom role grants only `permissions`
+  const mockCustomRole = (permissions: string[]) => {
+    mockRedisClient.get.mockImplementation(async (key: string) => JSON.stringify(key === `tenant:${mockTenantId}`
+      ? { tenantId: mockTenantId, settings: { roles: { keys: { permissions } } } }
+      : { userId: 'user-1', tenantId: mockTenantId, username: 'someone', role: 'keys', status: 'active' }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn(),
+    };
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    mockUser('admin');
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3013,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(apiKeyRoutes);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const inject = (method: string, url: string, payload?: object, authorization = `Bearer ${createToken()}`) => server.inject({
+    method,
+    url,
+    headers: { authorization },
+    payload,
+  });
+
+  describe('POST /api/api-keys', () => {
+    it('should create a key and show it once', async () => {
+      (apiKeyService.createKey as jest.Mock).mockResolvedValue({ apiKey, key: 'sk-AbCdEf-full-key' });
+
+      const response = await inject('POST', '/api/api-keys', {
+        name: 'nightly-job',
+        scopes: ['llm:chat'],
+        expiresAt: '2999-01-01T00:00:00.000Z',
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.payload)).toEqual({ ...apiKey, key: 'sk-AbCdEf-full-key' });
+      expect(apiKeyService.createKey).toHaveBeenCalledWith(
+        mockTenantId,
+        { name: 'nightly-job', scopes: ['llm:chat'], expiresAt: '2999-01-01T00:00:00.000Z' },
+        'user-1'
+      );
+    });
+
+    it('should reject unknown scopes and past expiry times', async () => {
+      const badScope = await inject('POST', '/api/api-keys', { name: 'job', scopes: ['admin'] });
+      expect(badScope.statusCode).toBe(400);
+
+      mockRedisClient.exists.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+      const expired = await inject('POST', '/api/api-keys', { name: 'job', expiresAt: '2000-01-01T00:00:00.000Z' });
+      expect(expired.statusCode).toBe(400);
+
+      expect(apiKeyService.createKey).not.toHaveBeenCalled();
+    });
+
+    it('should give a key without scopes the caller\'s own', async () => {
+      mockCustomRole(['apikeys:manage', 'llm:chat', 'usage:read']);
+      (apiKeyService.createKey as jest.Mock).mockResolvedValue({ apiKey, key: 'sk-AbCdEf-full-key' });
+
+      const response = await inject('POST', '/api/api-keys', { name: 'job' });
+
+      expect(response.statusCode).toBe(201);
+      expect(apiKeyService.createKey).toHaveBeenCalledWith(mockTenantId, { name: 'job', scopes: ['llm:chat'] }, 'user-1');
+    });
+
+    it('should not give a key permissions the caller does not have', async () => {
+      mockCustomRole(['apikeys:manage', 'llm:chat']);
+
+      const response = await inject('POST', '/api/api-keys', { name: 'job', scopes: ['llm:chat', 'llm:batches'] });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.payload).message).toContain('llm:batches');
+      expect(apiKeyService.createKey).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a key when the caller has none of the scopes', async () => {
+      mockCustomRole(['apikeys:manage']);
+
+      const response = await inject('POST', '/api/api-keys', { name: 'job' });
+
+      expect(response.statusCode).toBe(403);
+      expect(apiKeyService.createKey).not.toHaveBeenCalled();
+    });
+
+    it('should require the admin role', async () => {
+      mockUser('user');
+
+      const response = await inject('POST', '/api/api-keys', { name: 'job' });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should not accept an API key', async () => {
+      const response = await inject('POST', '/api/api-keys', { name: 'job' }, 'Bearer sk-AbCdEf-full-key');
+
+      expect(response.statusCode).toBe(401);
+      expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/api-keys', () => {
+    it('should list the tenant\'s keys', async () => {
+      (apiKeyService.listKeys as jest.Mock).mockResolvedValue([apiKey]);
+
+      const response = await inject('GET', '/api/api-keys');
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ apiKeys: [apiKey] });
+      expect(apiKeyService.listKeys).toHaveBeenCalledWith(mockTenantId);
+    });
+  });
+
+  describe('PATCH /api/api-keys/{keyId}', () => {
+    it('should relabel a key', async () => {
+      (apiKeyService.updateKey as jest.Mock).mockResolvedValue({ ...apiKey, name: 'reports' });
+
+      const response = await inject('PATCH', `/api/api-keys/${keyId}`, { name: 'reports' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).name).toBe('reports');
+      expect(apiKeyService.updateKey).toHaveBeenCalledWith(mockTenantId, keyId, { name: 'reports' });
+    });
+
+    it('should not upgrade a key beyond the caller\'s permissions', async () => {
+      mockCustomRole(['apikeys:manage', 'llm:chat']);
+
+      const response = await inject('PATCH', `/api/api-keys/${keyId}`, { scopes: ['llm:chat', 'llm:embeddings'] });
+
+      expect(response.statusCode).toBe(403);
+      expect(apiKeyService.updateKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/api-keys/{keyId}', () => {
+    it('should revoke a key', async () => {
+      (apiKeyService.revokeKey as jest.Mock).mockResolvedValue(true);
+
+      const response = await inject('DELETE', `/api/api-keys/${keyId}`);
+
+      expect(response.statusCode).toBe(204);
+      expect(apiKeyService.revokeKey).toHaveBeenCalledWith(mockTenantId, keyId);
+    });
+
+    it('should answer 404 for unknown keys', async () => {
+      (apiKeyService.revokeKey as jest.Mock).mockResolvedValue(false);
+
+      const response = await inject('DELETE', `/api/api-keys/${keyId}`);
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
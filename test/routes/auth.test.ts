@@ -3,12 +3,15 @@ import JWT from '@hapi/jwt';
 
 jest.mock('../../src/config/redis');
 jest.mock('../../src/services/tenantService');
+jest.mock('../../src/services/refreshTokenService');
 
 import authRoutes from '../../src/routes/auth';
 import authPlugin from '../../src/plugins/auth';
 import tenantService from '../../src/services/tenantService';
+import refreshTokenService from '../../src/services/refreshTokenService';
 import redisClient from '../../src/config/redis';
 import { Tenant, User } from '../../src/types';
+import signingKeyService from '../../src/services/signingKeyService';
 
 describe('Auth Routes', () => {
   let server: Server;
@@ -33,7 +36,6 @@ describe('Auth Routes', () => {
       host: 'localhost',
     });
 
-    await server.register(JWT);
     await server.register(authPlugin);
     server.route(authRoutes);
   });
@@ -199,7 +201,7 @@ describe('Auth Routes', () => {
         payload: {
           email: 'test@test.com',
           password: 'password123',
-          tenantId: 'tenant-123',
+          tenantId: '550e8400-e29b-41d4-a716-446655440000',
         },
       });
 
@@ -298,6 +300,81 @@ describe('Auth Routes', () => {
     });
   });
 
+  describe('POST /api/auth/refresh', () => {
+    const record = {
+      sessionId: 'session-123',
+      tenantId: 'tenant-123',
+      userId: 'user-123',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    const mockUser = {
+      userId: 'user-123',
+      tenantId: 'tenant-123',
+      username: 'testuser',
+      email: 'test@test.com',
+      role: 'user',
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    const refresh = () => server.inject({
+      method: 'POST',
+      url: '/api/auth/refresh',
+      payload: { refreshToken: 'refresh-token-1' },
+    });
+
+    beforeEach(() => {
+      (tenantService.getSession as jest.Mock).mockResolvedValue({ ...record, loginTime: record.createdAt });
+      (tenantService.getTenant as jest.Mock).mockResolvedValue({ tenantId: 'tenant-123', status: 'active' });
+      (tenantService.getUser as jest.Mock).mockResolvedValue(mockUser);
+    });
+
+    it('should rotate the refresh token', async () => {
+      (refreshTokenService.consume as jest.Mock).mockResolvedValue({ record, reused: false });
+      (refreshTokenService.issue as jest.Mock).mockResolvedValue('refresh-token-2');
+
+      const response = await refresh();
+
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result.token).toBeDefined();
+      expect(result.refreshToken).toBe('refresh-token-2');
+      expect(result.expiresIn).toBe(900);
+      expect(refreshTokenService.consume).toHaveBeenCalledWith('refresh-token-1');
+      expect(JWT.token.decode(result.token).decoded.payload.sessionId).toBe('session-123');
+    });
+
+    it('should end the session when a used token is replayed', async () => {
+      (refreshTokenService.consume as jest.Mock).mockResolvedValue({ record, reused: true });
+
+      const response = await refresh();
+
+      expect(response.statusCode).toBe(401);
+      expect(tenantService.deleteSession).toHaveBeenCalledWith('session-123');
+      expect(refreshTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens', async () => {
+      (refreshTokenService.consume as jest.Mock).mockResolvedValue(null);
+
+      const response = await refresh();
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should revoke the session if the user is no longer active', async () => {
+      (refreshTokenService.consume as jest.Mock).mockResolvedValue({ record, reused: false });
+      (tenantService.getUser as jest.Mock).mockResolvedValue({ ...mockUser, status: 'inactive' });
+
+      const response = await refresh();
+
+      expect(response.statusCode).toBe(401);
+      expect(refreshTokenService.revokeFamily).toHaveBeenCalledWith('session-123');
+      expect(refreshTokenService.issue).not.toHaveBeenCalled();
+    });
+  });
+
   describe('POST /api/auth/logout', () => {
     it('should logout and blacklist token', async () => {
       (tenantService.blacklistToken as jest.Mock).mockResolvedValue(undefined);
@@ -313,12 +390,14 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -326,13 +405,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -349,6 +422,49 @@ describe('Auth Routes', () => {
       expect(tenantService.blacklistToken).toHaveBeenCalledWith(token);
     });
 
+    it('should end the session the token was issued for', async () => {
+      (tenantService.blacklistToken as jest.Mock).mockResolvedValue(undefined);
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1); // Session and tenant exist
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({
+        userId: 'user-123',
+        tenantId: 'tenant-123',
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'hashed-password',
+        role: 'user',
+        status: 'active',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      }));
+
+      const token = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: 'user-123',
+          tenantId: 'tenant-123',
+          role: 'user',
+          sessionId: 'session-123',
+        },
+        900
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/auth/logout',
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockRedisClient.exists).toHaveBeenCalledWith('session:session-123');
+      expect(refreshTokenService.revokeFamily).toHaveBeenCalledWith('session-123');
+      expect(tenantService.deleteSession).toHaveBeenCalledWith('session-123');
+    });
+
     it('should require authentication', async () => {
       const response = await server.inject({
         method: 'POST',
@@ -381,14 +497,16 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
       (tenantService.getTenant as jest.Mock).mockResolvedValue(mockTenant);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -396,13 +514,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -427,6 +539,56 @@ describe('Auth Routes', () => {
 
       expect(response.statusCode).toBe(401);
     });
+
+    it('should reject tokens signed with a shared secret', async () => {
+      mockRedisClient.exists.mockResolvedValueOnce(0).mockResolvedValue(1);
+
+      const token = JWT.token.generate(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: 'user-123',
+          tenantId: 'tenant-123',
+          role: 'admin',
+        },
+        {
+          key: 'your-secret-key-change-in-production',
+          algorithm: 'HS256',
+        },
+        {
+          ttlSec: 14400,
+        }
+      );
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/auth/me',
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(mockRedisClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /.well-known/jwks.json', () => {
+    it('should publish the public signing keys without authentication', async () => {
+      const token = signingKeyService.sign({ userId: 'user-123' }, 60);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/.well-known/jwks.json',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['cache-control']).toContain('public');
+      const { keys } = JSON.parse(response.payload);
+      expect(keys).toEqual([expect.objectContaining({ use: 'sig', alg: 'ES256', kty: 'EC', crv: 'P-256' })]);
+      expect(keys[0]).not.toHaveProperty('d');
+      expect(JWT.token.decode(token).decoded.header).toEqual(expect.objectContaining({ kid: keys[0].kid }));
+    });
   });
 
   describe('POST /api/users', () => {
@@ -452,7 +614,9 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
@@ -460,7 +624,7 @@ describe('Auth Routes', () => {
       (tenantService.getUserByEmail as jest.Mock).mockResolvedValue(null);
       (tenantService.createUser as jest.Mock).mockResolvedValue(newUser);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -468,13 +632,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'admin',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -509,7 +667,9 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
@@ -519,7 +679,7 @@ describe('Auth Routes', () => {
         email: 'newuser@example.com',
       });
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -527,13 +687,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'admin',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -564,12 +718,14 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -577,13 +733,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -601,6 +751,83 @@ describe('Auth Routes', () => {
 
       expect(response.statusCode).toBe(403);
     });
+
+    describe('custom roles', () => {
+      const createUser = async (callerRole: string, role: string) => {
+        const caller: User = {
+          userId: 'caller-123',
+          tenantId: 'tenant-123',
+          username: 'caller',
+          email: 'caller@example.com',
+          password: 'hashed-password',
+          role: callerRole,
+          status: 'active',
+          createdAt: '2024-01-01T00:00:00.000Z',
+        };
+        const tenant = {
+          tenantId: 'tenant-123',
+          settings: {
+            roles: {
+              'user-manager': { permissions: ['users:read', 'users:write'] },
+              analyst: { permissions: ['usage:read'] },
+            },
+          },
+        };
+
+        mockRedisClient.exists.mockResolvedValueOnce(0).mockResolvedValue(1);
+        mockRedisClient.get
+          .mockResolvedValueOnce(JSON.stringify(caller))
+          .mockResolvedValueOnce(JSON.stringify(tenant));
+        (tenantService.getTenantSettings as jest.Mock).mockResolvedValue(tenant.settings);
+        (tenantService.getUserByEmail as jest.Mock).mockResolvedValue(null);
+        (tenantService.createUser as jest.Mock).mockImplementation(async (_tenantId, data) => ({ userId: 'user-456', ...data }));
+
+        const token = signingKeyService.sign(
+          {
+            aud: 'urn:audience:api',
+            iss: 'urn:issuer:api',
+            userId: 'caller-123',
+            tenantId: 'tenant-123',
+          },
+          14400
+        );
+
+        return server.inject({
+          method: 'POST',
+          url: '/api/users',
+          headers: {
+            authorization: `Bearer ${token}`,
+          },
+          payload: {
+            username: 'newuser',
+            email: 'newuser@example.com',
+            password: 'password123',
+            role,
+          },
+        });
+      };
+
+      it('should create users with a role the tenant defines', async () => {
+        const response = await createUser('admin', 'analyst');
+
+        expect(response.statusCode).toBe(201);
+        expect(JSON.parse(response.payload).user.role).toBe('analyst');
+      });
+
+      it('should reject roles the tenant does not define', async () => {
+        const response = await createUser('admin', 'auditor');
+
+        expect(response.statusCode).toBe(400);
+        expect(tenantService.createUser).not.toHaveBeenCalled();
+      });
+
+      it('should let a custom role create users only with permissions it has', async () => {
+        const response = await createUser('user-manager', 'admin');
+
+        expect(response.statusCode).toBe(403);
+        expect(tenantService.createUser).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('GET /api/users', () => {
@@ -616,7 +843,9 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockAdmin))
         .mockResolvedValueOnce(null);
@@ -626,7 +855,7 @@ describe('Auth Routes', () => {
         { userId: 'user-2', username: 'user2' },
       ]);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -634,13 +863,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'admin',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
@@ -669,12 +892,14 @@ describe('Auth Routes', () => {
         createdAt: '2024-01-01T00:00:00.000Z',
       };
 
-      mockRedisClient.exists.mockResolvedValue(1);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0) // Token not blacklisted
+        .mockResolvedValue(1);    // Tenant exists
       mockRedisClient.get
         .mockResolvedValueOnce(JSON.stringify(mockUser))
         .mockResolvedValueOnce(null);
 
-      const token = JWT.token.generate(
+      const token = signingKeyService.sign(
         {
           aud: 'urn:audience:api',
           iss: 'urn:issuer:api',
@@ -682,13 +907,7 @@ describe('Auth Routes', () => {
           tenantId: 'tenant-123',
           role: 'user',
         },
-        {
-          key: 'your-secret-key-change-in-production',
-          algorithm: 'HS256',
-        },
-        {
-          ttlSec: 14400,
-        }
+        14400
       );
 
       const response = await server.inject({
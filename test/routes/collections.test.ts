@@ -0,0 +1,261 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/collectionService');
+jest.mock('../../src/services/tenantService');
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
+
+import collectionRoutes from '../../src/routes/collections';
+import authPlugin from '../../src/plugins/auth';
+import ollamaService from '../../src/services/ollamaService';
+import collectionService from '../../src/services/collectionService';
+import tenantService from '../../src/services/tenantService';
+import quotaService from '../../src/services/quotaService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('Collection Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const collection = {
+    name: 'handbook',
+    embeddingModel: 'nomic-embed-text',
+    chunkSize: 1000,
+    chunkOverlap: 150,
+    documentCount: 0,
+    chunkCount: 0,
+    createdAt: '2024-01-15T10:30:00.000Z',
+    createdBy: 'user-1',
+    updatedAt: '2024-01-15T10:30:00.000Z',
+  };
+
+  const createToken = (): string => signingKeyService.sign(
+    {
+      aud: 'urn:audience:api',
+      iss: 'urn:issuer:api',
+      userId: 'user-1',
+      tenantId: mockTenantId,
+    },
+    14400
+  );
+
+  const mockUser = (role: 'admin' | 'user') => {
+    mockRedisClient.get.mockResolvedValue(JSON.stringify({
+      userId: 'user-1',
+      tenantId: mockTenantId,
+      username: 'someone',
+      email: 'someone@test.com',
+      password: 'hashed-password',
+      role,
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn(),
+    };
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({});
+    (quotaService.checkQuota as jest.Mock).mockResolvedValue({ allowed: true, status: {} });
+    mockUser('admin');
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3012,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(collectionRoutes);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const inject = (method: string, url: string, payload?: object) => server.inject({
+    method,
+    url,
+    headers: {
+      authorization: `Bearer ${createToken()}`,
+      'x-tenant-id': mockTenantId,
+    },
+    payload,
+  });
+
+  describe('POST /api/collections', () => {
+    it('should create a collection', async () => {
+      (collectionService.createCollection as jest.Mock).mockResolvedValue(collection);
+
+      const response = await inject('POST', '/api/collections', { name: 'handbook', embeddingModel: 'nomic-embed-text' });
+
+      expect(response.statusCode).toBe(201);
+      expect(collectionService.createCollection).toHaveBeenCalledWith(
+        mockTenantId,
+        'handbook',
+        { embeddingModel: 'nomic-embed-text' },
+        'user-1'
+      );
+    });
+
+    it('should answer 409 when the name is taken', async () => {
+      (collectionService.createCollection as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('POST', '/api/collections', { name: 'handbook', embeddingModel: 'nomic-embed-text' });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should reject an overlap of more than half a chunk', async () => {
+      const response = await inject('POST', '/api/collections', {
+        name: 'handbook',
+        embeddingModel: 'nomic-embed-text',
+        chunkSize: 400,
+        chunkOverlap: 300,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(collectionService.createCollection).not.toHaveBeenCalled();
+    });
+
+    it('should be forbidden for non-admins', async () => {
+      mockUser('user');
+
+      const response = await inject('POST', '/api/collections', { name: 'handbook', embeddingModel: 'nomic-embed-text' });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /api/collections/{name}/documents', () => {
+    beforeEach(() => {
+      (collectionService.reserveChunks as jest.Mock).mockResolvedValue(true);
+    });
+
+    it('should chunk and embed the document', async () => {
+      (collectionService.getCollection as jest.Mock).mockResolvedValue({ ...collection, chunkSize: 200, chunkOverlap: 0 });
+      (collectionService.addDocument as jest.Mock).mockImplementation(async (_t, _n, document, chunks) => ({
+        documentId: '7d3f2a9e-1b4c-4e8a-9f6d-2c5b8a1e3f7d',
+        ...document,
+        chunkCount: chunks.length,
+      }));
+      (ollamaService.embed as jest.Mock).mockResolvedValue({
+        model: 'nomic-embed-text',
+        embeddings: [[0.1, 0.2], [0.3, 0.4]],
+        prompt_eval_count: 80,
+      });
+      const content = `${'Reset links expire after an hour. '.repeat(5)}\n\n${'Support unlocks accounts. '.repeat(5)}`;
+
+      const response = await inject('POST', '/api/collections/handbook/documents', {
+        title: 'Accounts',
+        source: 'accounts.md',
+        content,
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.payload).chunkCount).toBe(2);
+      expect(ollamaService.embed).toHaveBeenCalledWith(
+        { model: 'nomic-embed-text', input: [expect.stringContaining('Reset links'), expect.stringContaining('Support unlocks')] },
+        mockTenantId
+      );
+      expect(collectionService.addDocument).toHaveBeenCalledWith(
+        mockTenantId,
+        'handbook',
+        { title: 'Accounts', source: 'accounts.md', characters: content.length },
+        [expect.objectContaining({ vector: [0.1, 0.2] }), expect.objectContaining({ vector: [0.3, 0.4] })],
+        'user-1'
+      );
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(mockTenantId, 'user-1', 80);
+    });
+
+    it('should return 404 for unknown collections', async () => {
+      (collectionService.getCollection as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('POST', '/api/collections/missing/documents', { title: 'Accounts', content: 'Text' });
+
+      expect(response.statusCode).toBe(404);
+      expect(ollamaService.embed).not.toHaveBeenCalled();
+    });
+
+    it('should refuse documents that do not fit in the collection', async () => {
+      (collectionService.getCollection as jest.Mock).mockResolvedValue(collection);
+      (collectionService.reserveChunks as jest.Mock).mockResolvedValue(false);
+
+      const response = await inject('POST', '/api/collections/handbook/documents', { title: 'Accounts', content: 'Text' });
+
+      expect(response.statusCode).toBe(413);
+      expect(ollamaService.embed).not.toHaveBeenCalled();
+      expect(collectionService.releaseChunks).not.toHaveBeenCalled();
+    });
+
+    it('should give the reserved room back when embedding fails', async () => {
+      (collectionService.getCollection as jest.Mock).mockResolvedValue(collection);
+      (ollamaService.embed as jest.Mock).mockRejectedValue(new Error('model not found'));
+
+      const response = await inject('POST', '/api/collections/handbook/documents', { title: 'Accounts', content: 'Text' });
+
+      expect(response.statusCode).toBe(500);
+      expect(collectionService.reserveChunks).toHaveBeenCalledWith(mockTenantId, 'handbook', 1);
+      expect(collectionService.releaseChunks).toHaveBeenCalledWith(mockTenantId, 'handbook', 1);
+      expect(collectionService.addDocument).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 when the collection is deleted during the upload', async () => {
+      (collectionService.getCollection as jest.Mock).mockResolvedValue(collection);
+      (collectionService.addDocument as jest.Mock).mockResolvedValue(null);
+      (ollamaService.embed as jest.Mock).mockResolvedValue({ model: 'nomic-embed-text', embeddings: [[0.1, 0.2]] });
+
+      const response = await inject('POST', '/api/collections/handbook/documents', { title: 'Accounts', content: 'Text' });
+
+      expect(response.statusCode).toBe(404);
+      expect(collectionService.releaseChunks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/collections/{name}', () => {
+    it('should delete the collection', async () => {
+      (collectionService.deleteCollection as jest.Mock).mockResolvedValue(true);
+
+      const response = await inject('DELETE', '/api/collections/handbook');
+
+      expect(response.statusCode).toBe(204);
+      expect(collectionService.deleteCollection).toHaveBeenCalledWith(mockTenantId, 'handbook');
+    });
+
+    it('should require the tenant header like the other collection routes', async () => {
+      const response = await server.inject({
+        method: 'DELETE',
+        url: '/api/collections/handbook',
+        headers: { authorization: `Bearer ${createToken()}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(collectionService.deleteCollection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/collections/{name}', () => {
+    it('should return the collection with its documents to any tenant user', async () => {
+      mockUser('user');
+      const documents = [{ documentId: '7d3f2a9e-1b4c-4e8a-9f6d-2c5b8a1e3f7d', title: 'Accounts', chunkCount: 2 }];
+      (collectionService.getCollection as jest.Mock).mockResolvedValue(collection);
+      (collectionService.listDocuments as jest.Mock).mockResolvedValue(documents);
+
+      const response = await inject('GET', '/api/collections/handbook');
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ ...collection, documents });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
+jest.mock('../../src/services/tenantService');
+jest.mock('../../src/services/conversationService');
+
+import conversationRoutes from '../../src/routes/conversations';
+import authPlugin from '../../src/plugins/auth';
+import ollamaService from '../../src/services/ollamaService';
+import quotaService from '../../src/services/quotaService';
+import usageService from '../../src/services/usageService';
+import tenantService from '../../src/services/tenantService';
+import conversationService from '../../src/services/conversationService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('Conversation Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  let mockToken: string;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const mockUserId = 'user-456';
+  const conversationId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const conversation = {
+    conversationId,
+    tenantId: mockTenantId,
+    userId: mockUserId,
+    title: null,
+    model: 'mistral',
+    systemPrompt: 'You are terse.',
+    messageCount: 2,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn().mockResolvedValue(JSON.stringify({
+        userId: mockUserId,
+        tenantId: mockTenantId,
+        username: 'testuser',
+        email: 'test@test.com',
+        password: 'hashed-password',
+        role: 'user',
+        status: 'active',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      })),
+    };
+
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    (quotaService.checkQuota as jest.Mock).mockResolvedValue({ allowed: true, status: {} });
+    (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({});
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3009,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(conversationRoutes);
+
+    mockToken = signingKeyService.sign(
+      {
+        aud: 'urn:audience:api',
+        iss: 'urn:issuer:api',
+        userId: mockUserId,
+        tenantId: mockTenantId,
+        role: 'user',
+      },
+      14400
+    );
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const inject = (method: string, url: string, payload?: object) => server.inject({
+    method,
+    url,
+    headers: {
+      authorization: `Bearer ${mockToken}`,
+      'x-tenant-id': mockTenantId,
+    },
+    payload,
+  });
+
+  describe('POST /api/conversations', () => {
+    it('should create a conversation for the current user', async () => {
+      (conversationService.createConversation as jest.Mock).mockResolvedValue(conversation);
+
+      const response = await inject('POST', '/api/conversations', { model: 'mistral', systemPrompt: 'You are terse.' });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.payload)).toEqual(conversation);
+      expect(conversationService.createConversation).toHaveBeenCalledWith(mockTenantId, mockUserId, {
+        model: 'mistral',
+        systemPrompt: 'You are terse.',
+      });
+    });
+  });
+
+  describe('GET /api/conversations', () => {
+    it('should page through the user\'s conversations', async () => {
+      (conversationService.listConversations as jest.Mock).mockResolvedValue({ conversations: [conversation], total: 3 });
+
+      const response = await inject('GET', '/api/conversations?limit=1&offset=2');
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ conversations: [conversation], total: 3, limit: 1, offset: 2 });
+      expect(conversationService.listConversations).toHaveBeenCalledWith(mockTenantId, mockUserId, 1, 2);
+    });
+  });
+
+  describe('GET /api/conversations/{conversationId}', () => {
+    it('should return 404 for an unknown conversation', async () => {
+      (conversationService.getConversationWithMessages as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('GET', `/api/conversations/${conversationId}`);
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/conversations/{conversationId}', () => {
+    it('should delete the conversation', async () => {
+      (conversationService.deleteConversation as jest.Mock).mockResolvedValue(true);
+
+      const response = await inject('DELETE', `/api/conversations/${conversationId}`);
+
+      expect(response.statusCode).toBe(204);
+      expect(conversationService.deleteConversation).toHaveBeenCalledWith(mockTenantId, mockUserId, conversationId);
+    });
+  });
+
+  describe('POST /api/conversations/{conversationId}/messages', () => {
+    beforeEach(() => {
+      (conversationService.getConversation as jest.Mock).mockResolvedValue(conversation);
+      (conversationService.getMessages as jest.Mock).mockResolvedValue([
+        { role: 'user', content: 'Hi', createdAt: '2024-01-15T10:00:00.000Z' },
+        { role: 'assistant', content: 'Hello.', createdAt: '2024-01-15T10:00:01.000Z', model: 'mistral' },
+      ]);
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'mistral',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'Paris.' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 30,
+        eval_count: 2,
+      });
+    });
+
+    it('should replay the thread and store the exchange', async () => {
+      const response = await inject('POST', `/api/conversations/${conversationId}/messages`, {
+        content: 'Capital of France?',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith({
+        model: 'mistral',
+        messages: [
+          { role: 'system', content: 'You are terse.' },
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello.' },
+          { role: 'user', content: 'Capital of France?' },
+        ],
+      }, mockTenantId);
+      expect(conversationService.appendMessages).toHaveBeenCalledWith(mockTenantId, mockUserId, conversationId, [
+        expect.objectContaining({ role: 'user', content: 'Capital of France?' }),
+        expect.objectContaining({ role: 'assistant', content: 'Paris.', model: 'mistral' }),
+      ]);
+      expect(usageService.record).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 30, completionTokens: 2 }));
+
+      const result = JSON.parse(response.payload);
+      expect(result).toEqual(expect.objectContaining({
+        conversation_id: conversationId,
+        model: 'mistral',
+        message: expect.objectContaining({ role: 'assistant', content: 'Paris.' }),
+        prompt_eval_count: 30,
+        eval_count: 2,
+      }));
+    });
+
+    it('should let a turn override the thread model', async () => {
+      await inject('POST', `/api/conversations/${conversationId}/messages`, {
+        content: 'Capital of France?',
+        model: 'llama2',
+      });
+
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({ model: 'llama2' }), mockTenantId);
+    });
+
+    it('should not store anything when the model call fails', async () => {
+      (ollamaService.chat as jest.Mock).mockRejectedValue(new Error('Ollama request failed'));
+
+      const response = await inject('POST', `/api/conversations/${conversationId}/messages`, {
+        content: 'Capital of France?',
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(conversationService.appendMessages).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown conversation', async () => {
+      (conversationService.getConversation as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('POST', `/api/conversations/${conversationId}/messages`, {
+        content: 'Capital of France?',
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,16 +1,37 @@
 import { Server } from '@hapi/hapi';
-import JWT from '@hapi/jwt';
+import Boom from '@hapi/boom';
 
 jest.mock('../../src/config/redis');
 jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
 jest.mock('../../src/services/tenantService');
+jest.mock('../../src/services/responseCacheService');
+jest.mock('../../src/services/semanticCacheService');
+jest.mock('../../src/services/batchService');
+jest.mock('../../src/services/collectionService');
+jest.mock('../../src/services/apiKeyService', () => ({
+  __esModule: true,
+  API_KEY_PREFIX: 'sk-',
+  default: { authenticate: jest.fn(), getKey: jest.fn() },
+}));
 
 import llmRoutes from '../../src/routes/llm';
 import authPlugin from '../../src/plugins/auth';
+import errorPlugin from '../../src/plugins/errors';
 import ollamaService from '../../src/services/ollamaService';
+import quotaService from '../../src/services/quotaService';
 import tenantService from '../../src/services/tenantService';
+import usageService from '../../src/services/usageService';
+import responseCacheService from '../../src/services/responseCacheService';
+import semanticCacheService from '../../src/services/semanticCacheService';
+import requestQueue from '../../src/services/requestQueue';
+import batchService from '../../src/services/batchService';
+import collectionService from '../../src/services/collectionService';
+import apiKeyService from '../../src/services/apiKeyService';
 import redisClient from '../../src/config/redis';
 import { Tenant } from '../../src/types';
+import signingKeyService from '../../src/services/signingKeyService';
 
 describe('LLM Routes', () => {
   let server: Server;
@@ -39,6 +60,7 @@ describe('LLM Routes', () => {
     };
 
     (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    (quotaService.checkQuota as jest.Mock).mockResolvedValue({ allowed: true, status: {} });
 
     // Mock tenant
     const mockTenant: Tenant = {
@@ -50,6 +72,7 @@ describe('LLM Routes', () => {
       settings: {},
     };
     (tenantService.getTenant as jest.Mock).mockResolvedValue(mockTenant);
+    (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({});
 
     // Create test server
     const Hapi = require('@hapi/hapi');
@@ -58,12 +81,13 @@ describe('LLM Routes', () => {
       host: 'localhost',
     });
 
-    // Register auth plugin (which internally registers JWT)
+    // Register auth plugin (which internally registers JWT) and the server's error responses
     await server.register(authPlugin);
+    await server.register(errorPlugin);
     server.route(llmRoutes);
 
     // Generate a mock token
-    const token = JWT.token.generate(
+    const token = signingKeyService.sign(
       {
         aud: 'urn:audience:api',
         iss: 'urn:issuer:api',
@@ -75,13 +99,7 @@ describe('LLM Routes', () => {
         tenantId: mockTenantId,
         scope: ['user'],
       },
-      {
-        key: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
-        algorithm: 'HS256',
-      },
-      {
-        ttlSec: 14400,
-      }
+      14400
     );
     mockToken = token;
   });
@@ -330,156 +348,1693 @@ describe('LLM Routes', () => {
     });
   });
 
-  describe('GET /api/llm/models', () => {
-    it('should successfully list available models', async () => {
-      const mockModels = {
-        models: [
-          {
-            name: 'llama2',
-            modified_at: '2024-01-15T10:30:00Z',
-            size: 3826793677,
-            digest: 'sha256:abc123',
-          },
-          {
-            name: 'mistral',
-            modified_at: '2024-01-14T09:20:00Z',
-            size: 4109865159,
-            digest: 'sha256:def456',
-          },
-        ],
-      };
+  describe('POST /api/llm/chat (streaming)', () => {
+    const streamTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let streamToken: string;
+
+    const chunks = [
+      { model: 'llama2', created_at: '2024-01-15T10:30:00Z', message: { role: 'assistant', content: 'Hello' }, done: false },
+      { model: 'llama2', created_at: '2024-01-15T10:30:01Z', message: { role: 'assistant', content: ' there' }, done: false },
+      {
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:02Z',
+        message: { role: 'assistant', content: '' },
+        done: true,
+        total_duration: 1000,
+        prompt_eval_count: 12,
+        eval_count: 2,
+      },
+    ];
+
+    beforeEach(() => {
+      streamToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: streamTenantId,
+          role: 'user',
+        },
+        14400
+      );
 
-      (ollamaService.listModels as jest.Mock).mockResolvedValue(mockModels);
       mockRedisClient.exists
         .mockResolvedValueOnce(0)  // Token not blacklisted
         .mockResolvedValueOnce(1); // Tenant exists
+    });
 
-      const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/models',
-        headers: {
-          authorization: `Bearer ${mockToken}`,
-          'x-tenant-id': mockTenantId,
-        },
-      });
+    const streamRequest = (accept?: string) => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${streamToken}`,
+        'x-tenant-id': streamTenantId,
+        ...(accept ? { accept } : {}),
+      },
+      payload: {
+        model: 'llama2',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      },
+    });
+
+    it('should relay chunks as server-sent events with a summary event', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          chunks.forEach(onChunk);
+        }
+      );
+
+      const response = await streamRequest();
 
       expect(response.statusCode).toBe(200);
-      const result = JSON.parse(response.payload);
-      expect(result.models).toHaveLength(2);
-      expect(result.models[0].name).toBe('llama2');
-      expect(result.models[1].name).toBe('mistral');
-      expect(result.tenant_id).toBe(mockTenantId);
-      expect(ollamaService.listModels).toHaveBeenCalled();
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+
+      const events = response.payload.trim().split('\n\n');
+      expect(events).toHaveLength(4);
+      expect(JSON.parse(events[0].replace('data: ', '')).message.content).toBe('Hello');
+      expect(events[3]).toMatch(/^event: summary\n/);
+
+      const summary = JSON.parse(events[3].split('\n')[1].replace('data: ', ''));
+      expect(summary).toEqual(expect.objectContaining({
+        prompt_eval_count: 12,
+        eval_count: 2,
+        total_tokens: 14,
+        tenant_id: streamTenantId,
+        user_id: mockUserId,
+      }));
     });
 
-    it('should return 401 when token is missing', async () => {
+    it('should relay chunks as NDJSON when requested via Accept', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          chunks.forEach(onChunk);
+        }
+      );
+
+      const response = await streamRequest('application/x-ndjson');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+
+      const lines = response.payload.trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines).toHaveLength(4);
+      expect(lines[3]).toEqual(expect.objectContaining({ type: 'summary', total_tokens: 14 }));
+    });
+
+    it('should pass an abort signal to the upstream request', async () => {
+      (ollamaService.streamChat as jest.Mock).mockResolvedValue(undefined);
+
+      await streamRequest();
+
+      const signal = (ollamaService.streamChat as jest.Mock).mock.calls[0][3];
+      expect(signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should emit an error event when Ollama fails mid-stream', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk(chunks[0]);
+          throw new Error('Ollama connection reset');
+        }
+      );
+
+      const response = await streamRequest();
+
+      expect(response.statusCode).toBe(200);
+      expect(response.payload).toContain('event: error');
+      expect(response.payload).not.toContain('event: summary');
+    });
+
+    it('should bill the reported counts once the stream completes', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          chunks.forEach(onChunk);
+        }
+      );
+
+      await streamRequest();
+
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(streamTenantId, mockUserId, 14);
+    });
+
+    it('should bill an estimate when the stream fails before the final chunk', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk(chunks[0]);
+          throw new Error('Ollama connection reset');
+        }
+      );
+
+      await streamRequest();
+
+      // "Hi" with message framing is 5 prompt tokens, "Hello" about 2
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(streamTenantId, mockUserId, 7);
+    });
+
+    it('should bill an estimate when the client goes away mid-stream', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk(chunks[0]);
+          onChunk(chunks[1]);
+        }
+      );
+
+      await streamRequest();
+
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(streamTenantId, mockUserId, 8);
+    });
+
+    it('should not bill a stream that produced nothing', async () => {
+      (ollamaService.streamChat as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await streamRequest();
+
+      expect(quotaService.recordTokens).not.toHaveBeenCalled();
+    });
+
+    it('should still validate non-streamed replies against the response schema', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue({ ...chunks[2], done: 'sometimes' });
+
       const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/models',
+        method: 'POST',
+        url: '/api/llm/chat',
         headers: {
-          'x-tenant-id': mockTenantId,
+          authorization: `Bearer ${streamToken}`,
+          'x-tenant-id': streamTenantId,
+        },
+        payload: {
+          model: 'llama2',
+          messages: [{ role: 'user', content: 'Hi' }],
         },
       });
 
-      expect(response.statusCode).toBe(401);
+      expect(response.statusCode).toBe(500);
     });
+  });
+
+  describe('tenant model settings', () => {
+    const settingsTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let settingsToken: string;
+
+    beforeEach(() => {
+      settingsToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: settingsTenantId,
+          role: 'user',
+        },
+        14400
+      );
 
-    it('should return 403 when tenant ID does not match', async () => {
       mockRedisClient.exists
         .mockResolvedValueOnce(0)  // Token not blacklisted
         .mockResolvedValueOnce(1); // Tenant exists
 
-      const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/models',
-        headers: {
-          authorization: `Bearer ${mockToken}`,
-          'x-tenant-id': 'wrong-tenant-id',
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({
+        models: {
+          allowed: ['llama2', 'mistral:7b'],
+          default: 'llama2',
+          limits: { llama2: { maxNumPredict: 256, maxTemperature: 0.5 } },
         },
       });
+    });
 
-      expect(response.statusCode).toBe(403);
+    const chat = (payload: Record<string, any>) => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${settingsToken}`,
+        'x-tenant-id': settingsTenantId,
+      },
+      payload: {
+        messages: [{ role: 'user', content: 'Hello' }],
+        ...payload,
+      },
     });
 
-    it('should return 502 when Ollama service fails', async () => {
-      (ollamaService.listModels as jest.Mock).mockRejectedValue(
-        new Error('Service unavailable')
+    it('should use the default model and apply its caps', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'Hi' },
+        done: true,
+      });
+
+      const response = await chat({ options: { temperature: 1.2 } });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'llama2',
+          options: { temperature: 0.5, num_predict: 256 },
+        }),
+        settingsTenantId
       );
-      mockRedisClient.exists
-        .mockResolvedValueOnce(0)  // Token not blacklisted
-        .mockResolvedValueOnce(1); // Tenant exists
+    });
+
+    it('should reject models the tenant is not entitled to', async () => {
+      const response = await chat({ model: 'codellama' });
+
+      expect(response.statusCode).toBe(403);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should only list allowed models', async () => {
+      (ollamaService.listModels as jest.Mock).mockResolvedValue({
+        models: [
+          { name: 'llama2:latest', size: 1, modified_at: '2024-01-15T10:30:00Z' },
+          { name: 'mistral:7b', size: 1, modified_at: '2024-01-15T10:30:00Z' },
+          { name: 'mistral:latest', size: 1, modified_at: '2024-01-15T10:30:00Z' },
+          { name: 'codellama', size: 1, modified_at: '2024-01-15T10:30:00Z' },
+        ],
+      });
 
       const response = await server.inject({
         method: 'GET',
         url: '/api/llm/models',
         headers: {
-          authorization: `Bearer ${mockToken}`,
-          'x-tenant-id': mockTenantId,
+          authorization: `Bearer ${settingsToken}`,
+          'x-tenant-id': settingsTenantId,
         },
       });
 
-      expect(response.statusCode).toBe(502);
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result.models.map((model: any) => model.name)).toEqual(['llama2:latest', 'mistral:7b']);
     });
   });
 
-  describe('GET /api/llm/health', () => {
-    it('should return healthy status when Ollama is available', async () => {
-      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(true);
+  describe('POST /api/llm/chat (structured output)', () => {
+    const structuredTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let structuredToken: string;
+    const schema = {
+      type: 'object',
+      properties: { sentiment: { type: 'string', enum: ['positive', 'negative'] } },
+      required: ['sentiment'],
+    };
 
-      const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/health',
-      });
+    beforeEach(() => {
+      structuredToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: structuredTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+    });
+
+    const chat = (payload: Record<string, any>) => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${structuredToken}`,
+        'x-tenant-id': structuredTenantId,
+      },
+      payload: {
+        model: 'llama2',
+        messages: [{ role: 'user', content: 'Classify: "I love it"' }],
+        ...payload,
+      },
+    });
+
+    const reply = (content: string) => ({
+      model: 'llama2',
+      created_at: '2024-01-15T10:30:00Z',
+      message: { role: 'assistant', content },
+      done: true,
+      prompt_eval_count: 20,
+      eval_count: 5,
+    });
+
+    it('should return the parsed object alongside the raw text', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(reply('{"sentiment":"positive"}'));
+
+      const response = await chat({ response_format: { type: 'json_schema', schema } });
 
       expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({ format: schema }), structuredTenantId);
       const result = JSON.parse(response.payload);
-      expect(result.status).toBe('healthy');
-      expect(result.service).toBe('ollama');
-      expect(result.timestamp).toBeDefined();
-      expect(ollamaService.checkHealth).toHaveBeenCalled();
+      expect(result.message.content).toBe('{"sentiment":"positive"}');
+      expect(result.parsed).toEqual({ sentiment: 'positive' });
+      expect(result.repairs).toBe(0);
     });
 
-    it('should return 503 when Ollama is unavailable', async () => {
-      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(false);
+    it('should return 422 describing the validation errors', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(reply('{"sentiment":"meh"}'));
 
-      const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/health',
-      });
+      const response = await chat({ response_format: { type: 'json_schema', schema } });
 
-      expect(response.statusCode).toBe(503);
-      const result = JSON.parse(response.payload);
-      expect(result.status).toBe('unhealthy');
-      expect(result.service).toBe('ollama');
-      expect(result.timestamp).toBeDefined();
+      expect(response.statusCode).toBe(422);
+      expect(JSON.parse(response.payload)).toEqual(expect.objectContaining({
+        message: 'Model output does not match the requested schema',
+        validation_errors: ['/sentiment must be equal to one of the allowed values'],
+        raw: '{"sentiment":"meh"}',
+        repairs: 0,
+      }));
     });
 
-    it('should return 503 when health check throws an error', async () => {
-      (ollamaService.checkHealth as jest.Mock).mockRejectedValue(
-        new Error('Connection refused')
+    it('should not allow streaming', async () => {
+      const response = await chat({ stream: true, response_format: { type: 'json_schema', schema } });
+
+      expect(response.statusCode).toBe(400);
+      expect(ollamaService.streamChat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/llm/chat (tool calling)', () => {
+    const toolsTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let toolsToken: string;
+    const tools = [{
+      type: 'function',
+      function: {
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      },
+    }];
+    const toolCall = { function: { name: 'get_weather', arguments: { city: 'Paris' } } };
+
+    beforeEach(() => {
+      toolsToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: toolsTenantId,
+          role: 'user',
+        },
+        14400
       );
 
-      const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/health',
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+    });
+
+    const chat = (payload: Record<string, any>) => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${toolsToken}`,
+        'x-tenant-id': toolsTenantId,
+      },
+      payload: { model: 'llama2', tools, ...payload },
+    });
+
+    it('should forward tools and return the tool calls', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: '', tool_calls: [toolCall] },
+        done: true,
+        prompt_eval_count: 60,
+        eval_count: 12,
       });
 
-      expect(response.statusCode).toBe(503);
-      const result = JSON.parse(response.payload);
-      expect(result.status).toBe('unhealthy');
-      expect(result.error).toBeDefined();
+      const response = await chat({ messages: [{ role: 'user', content: 'Weather in Paris?' }] });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({ tools }), toolsTenantId);
+      expect(JSON.parse(response.payload).message.tool_calls).toEqual([toolCall]);
     });
 
-    it('should be accessible without authentication', async () => {
-      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(true);
+    it('should accept tool results in the history', async () => {
+      const messages = [
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', content: '', tool_calls: [toolCall] },
+        { role: 'tool', content: '{"temperature":18}', tool_name: 'get_weather' },
+      ];
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'It is 18°C in Paris.' },
+        done: true,
+      });
 
-      // No authorization header
-      const response = await server.inject({
-        method: 'GET',
-        url: '/api/llm/health',
+      const response = await chat({ messages });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({ messages }), toolsTenantId);
+    });
+
+    it('should reject tool fields on other roles', async () => {
+      const response = await chat({ messages: [{ role: 'user', content: 'Hi', tool_calls: [toolCall] }] });
+
+      expect(response.statusCode).toBe(400);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should not allow a response format', async () => {
+      const response = await chat({
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        response_format: { type: 'json_schema', schema: { type: 'object' } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toBe('"response_format" cannot be combined with "tools"');
+    });
+  });
+
+  describe('POST /api/llm/chat (images)', () => {
+    const imagesTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let imagesToken: string;
+    const pngBytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+    const png = pngBytes.toString('base64');
+
+    beforeEach(() => {
+      imagesToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: imagesTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llava',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'A tiny PNG.' },
+        done: true,
       });
+    });
+
+    it('should forward base64 images to Ollama', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/llm/chat',
+        headers: {
+          authorization: `Bearer ${imagesToken}`,
+          'x-tenant-id': imagesTenantId,
+        },
+        payload: {
+          model: 'llava',
+          messages: [{ role: 'user', content: 'What is this?', images: [`data:image/png;base64,${png}`] }],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({
+        messages: [{ role: 'user', content: 'What is this?', images: [png] }],
+      }), imagesTenantId);
+    });
+
+    it('should keep the 1 MB limit on JSON bodies', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/llm/chat',
+        headers: {
+          authorization: `Bearer ${imagesToken}`,
+          'x-tenant-id': imagesTenantId,
+        },
+        payload: {
+          model: 'llava',
+          messages: [{ role: 'user', content: 'What is this?', images: [png + 'A'.repeat(1024 * 1024)] }],
+        },
+      });
+
+      expect(response.statusCode).toBe(413);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should reject images over the tenant limit', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ images: { maxCount: 0 } });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/llm/chat',
+        headers: {
+          authorization: `Bearer ${imagesToken}`,
+          'x-tenant-id': imagesTenantId,
+        },
+        payload: {
+          model: 'llava',
+          messages: [{ role: 'user', content: 'What is this?', images: [png] }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should attach uploaded files to the last user message', async () => {
+      const boundary = 'chat-upload-boundary';
+      const request = JSON.stringify({
+        model: 'llava',
+        messages: [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello!' },
+          { role: 'user', content: 'What is this?' },
+        ],
+      });
+      const payload = Buffer.concat([
+        Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="request"\r\n\r\n${request}\r\n`),
+        Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="images"; filename="pixel.png"\r\nContent-Type: image/png\r\n\r\n`),
+        pngBytes,
+        Buffer.from(`\r\n--${boundary}--\r\n`),
+      ]);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/llm/chat/upload',
+        headers: {
+          authorization: `Bearer ${imagesToken}`,
+          'x-tenant-id': imagesTenantId,
+          'content-type': `multipart/form-data; boundary=${boundary}`,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const forwarded = (ollamaService.chat as jest.Mock).mock.calls[0][0];
+      expect(forwarded.messages[0].images).toBeUndefined();
+      expect(forwarded.messages[2]).toEqual({ role: 'user', content: 'What is this?', images: [png] });
+    });
+  });
+
+  describe('POST /api/llm/chat (response cache)', () => {
+    const cacheTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let cacheToken: string;
+    const reply = {
+      model: 'llama2',
+      created_at: '2024-01-15T10:30:00Z',
+      message: { role: 'assistant', content: 'Paris.' },
+      done: true,
+      prompt_eval_count: 12,
+      eval_count: 3,
+    };
+
+    beforeEach(() => {
+      cacheToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: cacheTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ cache: { enabled: true, ttlSeconds: 600 } });
+      (responseCacheService.hashRequest as jest.Mock).mockReturnValue('hash-1');
+      (ollamaService.chat as jest.Mock).mockResolvedValue(reply);
+    });
+
+    const ask = (temperature: number, headers: Record<string, string> = {}, history: object[] = []) => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${cacheToken}`,
+        'x-tenant-id': cacheTenantId,
+        ...headers,
+      },
+      payload: {
+        model: 'llama2',
+        messages: [...history, { role: 'user', content: 'What is the capital of France?' }],
+        options: { temperature },
+      },
+    });
+
+    it('should call the model on a miss and cache the reply', async () => {
+      (responseCacheService.get as jest.Mock).mockResolvedValue(null);
+
+      const response = await ask(0);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['x-cache']).toBe('MISS');
+      expect(ollamaService.chat).toHaveBeenCalled();
+      expect(responseCacheService.set).toHaveBeenCalledWith(cacheTenantId, 'hash-1', reply, { enabled: true, ttlSeconds: 600 });
+    });
+
+    it('should answer a hit from the cache and record it without tokens', async () => {
+      (responseCacheService.get as jest.Mock).mockResolvedValue(reply);
+
+      const response = await ask(0);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['x-cache']).toBe('HIT');
+      expect(JSON.parse(response.payload)).toEqual({ ...reply, tenant_id: cacheTenantId, user_id: mockUserId });
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+      expect(usageService.record).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'llama2',
+        promptTokens: 0,
+        completionTokens: 0,
+      }));
+    });
+
+    it('should skip the lookup with Cache-Control: no-cache', async () => {
+      const response = await ask(0, { 'cache-control': 'no-cache' });
+
+      expect(response.headers['x-cache']).toBe('MISS');
+      expect(responseCacheService.get).not.toHaveBeenCalled();
+      expect(ollamaService.chat).toHaveBeenCalled();
+      expect(responseCacheService.set).toHaveBeenCalled();
+    });
+
+    it('should not cache chats with a non-zero temperature', async () => {
+      const response = await ask(0.7);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['x-cache']).toBeUndefined();
+      expect(responseCacheService.get).not.toHaveBeenCalled();
+      expect(responseCacheService.set).not.toHaveBeenCalled();
+    });
+
+    describe('semantic', () => {
+      const semanticSettings = {
+        cache: { semantic: { enabled: true, embeddingModel: 'nomic-embed-text', threshold: 0.9 } },
+      };
+
+      beforeEach(() => {
+        (tenantService.getTenantSettings as jest.Mock).mockResolvedValue(semanticSettings);
+        (ollamaService.embed as jest.Mock).mockResolvedValue({
+          model: 'nomic-embed-text',
+          embeddings: [[0.1, 0.2, 0.3]],
+          prompt_eval_count: 8,
+        });
+      });
+
+      it('should answer from a similar prompt\'s reply', async () => {
+        (semanticCacheService.findSimilar as jest.Mock).mockResolvedValue({ reply, similarity: 0.9612 });
+
+        const response = await ask(0.7);
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['x-cache']).toBe('HIT');
+        expect(response.headers['x-cache-similarity']).toBe('0.9612');
+        expect(ollamaService.embed).toHaveBeenCalledWith(
+          { model: 'nomic-embed-text', input: 'What is the capital of France?' },
+          cacheTenantId
+        );
+        expect(semanticCacheService.findSimilar).toHaveBeenCalledWith(
+          cacheTenantId, 'llama2', 'hash-1', [0.1, 0.2, 0.3], semanticSettings.cache
+        );
+        expect(ollamaService.chat).not.toHaveBeenCalled();
+      });
+
+      it('should store the reply under the prompt embedding on a miss', async () => {
+        (semanticCacheService.findSimilar as jest.Mock).mockResolvedValue(null);
+
+        const response = await ask(0.7);
+
+        expect(response.headers['x-cache']).toBe('MISS');
+        expect(ollamaService.chat).toHaveBeenCalled();
+        expect(semanticCacheService.add).toHaveBeenCalledWith(
+          cacheTenantId, 'llama2', 'hash-1', [0.1, 0.2, 0.3], reply, semanticSettings.cache
+        );
+      });
+
+      it('should only match prompts that follow the same conversation', async () => {
+        (semanticCacheService.findSimilar as jest.Mock).mockResolvedValue(null);
+        const system = { role: 'system', content: 'Answer in French.' };
+
+        await ask(0.7, {}, [system]);
+
+        expect(responseCacheService.hashRequest).toHaveBeenCalledWith(cacheTenantId, { messages: [system] });
+        expect(semanticCacheService.findSimilar).toHaveBeenCalledWith(
+          cacheTenantId, 'llama2', 'hash-1', [0.1, 0.2, 0.3], semanticSettings.cache
+        );
+      });
+
+      it('should still answer when the embedding fails', async () => {
+        (ollamaService.embed as jest.Mock).mockRejectedValue(new Error('model not found'));
+
+        const response = await ask(0.7);
+
+        expect(response.statusCode).toBe(200);
+        expect(semanticCacheService.findSimilar).not.toHaveBeenCalled();
+        expect(semanticCacheService.add).not.toHaveBeenCalled();
+      });
+
+      it('should skip the lookup with Cache-Control: no-cache', async () => {
+        await ask(0.7, { 'cache-control': 'no-cache' });
+
+        expect(semanticCacheService.findSimilar).not.toHaveBeenCalled();
+        expect(semanticCacheService.add).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('POST /api/llm/chat (retrieval)', () => {
+    const ragTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let ragToken: string;
+
+    const citation = {
+      documentId: '7d3f2a9e-1b4c-4e8a-9f6d-2c5b8a1e3f7d',
+      title: 'Accounts',
+      source: 'accounts.md',
+      chunk: 0,
+      score: 0.91,
+      text: 'Reset links expire after an hour.',
+    };
+
+    beforeEach(() => {
+      ragToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: ragTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      (collectionService.getCollection as jest.Mock).mockResolvedValue({ name: 'handbook', embeddingModel: 'nomic-embed-text' });
+      (collectionService.searchExhaustive as jest.Mock).mockResolvedValue([citation]);
+      (ollamaService.embed as jest.Mock).mockResolvedValue({ model: 'nomic-embed-text', embeddings: [[0.1, 0.2, 0.3]] });
+    });
+
+    const ask = (extra: object = {}) => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${ragToken}`,
+        'x-tenant-id': ragTenantId,
+      },
+      payload: {
+        model: 'llama2',
+        messages: [{ role: 'user', content: 'How long is a reset link valid?' }],
+        retrieval: { collection: 'handbook', topK: 3 },
+        ...extra,
+      },
+    });
+
+    it('should add the relevant chunks to the prompt and return them as citations', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'An hour [1].' },
+        done: true,
+      });
+
+      const response = await ask();
+
+      expect(response.statusCode).toBe(200);
+      expect(collectionService.searchExhaustive).toHaveBeenCalledWith(ragTenantId, 'handbook', [0.1, 0.2, 0.3], 3, undefined);
+
+      const sent = (ollamaService.chat as jest.Mock).mock.calls[0][0];
+      expect(sent.messages).toHaveLength(2);
+      expect(sent.messages[0]).toEqual({ role: 'system', content: expect.stringContaining('[1] Accounts\nReset links expire after an hour.') });
+      expect(sent.messages[1]).toEqual({ role: 'user', content: 'How long is a reset link valid?' });
+
+      expect(JSON.parse(response.payload).citations).toEqual([{ index: 1, ...citation }]);
+    });
+
+    it('should send the citations in the summary event of a stream', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk({ model: 'llama2', message: { role: 'assistant', content: 'An hour [1].' }, done: true, eval_count: 4 });
+        }
+      );
+
+      const response = await ask({ stream: true });
+
+      const events = response.payload.trim().split('\n\n');
+      const summary = JSON.parse(events[events.length - 1].split('\n')[1].replace('data: ', ''));
+      expect(summary.citations).toEqual([{ index: 1, ...citation }]);
+    });
+
+    it('should reject unknown collections', async () => {
+      (collectionService.getCollection as jest.Mock).mockResolvedValue(null);
+
+      const response = await ask();
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toBe('Collection "handbook" not found');
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/llm/chat (request queue)', () => {
+    const queueTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let queueToken: string;
+
+    beforeEach(() => {
+      queueToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: queueTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'Paris.' },
+        done: true,
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const ask = () => server.inject({
+      method: 'POST',
+      url: '/api/llm/chat',
+      headers: {
+        authorization: `Bearer ${queueToken}`,
+        'x-tenant-id': queueTenantId,
+      },
+      payload: {
+        model: 'llama2',
+        messages: [{ role: 'user', content: 'What is the capital of France?' }],
+      },
+    });
+
+    it('should report the queue position and wait, and free the slot afterwards', async () => {
+      const release = jest.fn();
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ queue: { weight: 3, maxQueued: 10 } });
+      jest.spyOn(requestQueue, 'acquire').mockResolvedValue({ position: 4, waitedMs: 1250, release });
+
+      const response = await ask();
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['x-queue-position']).toBe('4');
+      expect(response.headers['x-queue-wait-ms']).toBe('1250');
+      expect(requestQueue.acquire).toHaveBeenCalledWith(queueTenantId, { weight: 3, maxQueued: 10, slots: 1 });
+      expect(release).toHaveBeenCalled();
+    });
+
+    it('should free the slot when the model call fails', async () => {
+      const release = jest.fn();
+      jest.spyOn(requestQueue, 'acquire').mockResolvedValue({ position: 0, waitedMs: 0, release });
+      (ollamaService.chat as jest.Mock).mockRejectedValue(new Error('Ollama request failed'));
+
+      const response = await ask();
+
+      expect(response.statusCode).toBe(500);
+      expect(release).toHaveBeenCalled();
+    });
+
+    it('should answer 503 when the tenant queue is full', async () => {
+      const full = Boom.serverUnavailable('Too many queued requests for this tenant');
+      full.output.headers['Retry-After'] = '1';
+      jest.spyOn(requestQueue, 'acquire').mockRejectedValue(full);
+
+      const response = await ask();
+
+      expect(response.statusCode).toBe(503);
+      expect(response.headers['retry-after']).toBe('1');
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/api/llm/batches', () => {
+    const batchTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    const batchId = '7d3f2a9e-1b4c-4e8a-9f6d-2c5b8a1e3f7d';
+    let batchToken: string;
+
+    const batch = {
+      batchId,
+      tenantId: batchTenantId,
+      userId: mockUserId,
+      status: 'running',
+      total: 2,
+      succeeded: 0,
+      failed: 0,
+      createdAt: '2024-01-15T10:30:00.000Z',
+      updatedAt: '2024-01-15T10:30:00.000Z',
+    };
+
+    beforeEach(() => {
+      batchToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: batchTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      // Looked up again as each line runs
+      (tenantService.getTenant as jest.Mock).mockResolvedValue({
+        tenantId: batchTenantId,
+        status: 'active',
+        settings: { models: { default: 'llama2' } },
+      });
+      (tenantService.getUser as jest.Mock).mockResolvedValue({
+        userId: mockUserId,
+        tenantId: batchTenantId,
+        role: 'user',
+        status: 'active',
+      });
+    });
+
+    const inject = (method: string, url: string, payload?: string) => server.inject({
+      method,
+      url,
+      headers: {
+        authorization: `Bearer ${batchToken}`,
+        'x-tenant-id': batchTenantId,
+        ...(payload !== undefined ? { 'content-type': 'application/x-ndjson' } : {}),
+      },
+      payload,
+    });
+
+    it('should accept a JSONL batch and answer each line like a chat', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ models: { default: 'llama2' } });
+      (batchService.submit as jest.Mock).mockResolvedValue({ job: batch, completion: Promise.resolve(batch) });
+      (ollamaService.chat as jest.Mock).mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'Paris.' },
+        done: true,
+        prompt_eval_count: 12,
+        eval_count: 3,
+      });
+
+      const response = await inject('POST', '/api/llm/batches', [
+        JSON.stringify({ custom_id: 'q1', messages: [{ role: 'user', content: 'Capital of France?' }] }),
+        '',
+        JSON.stringify({ model: 'llama2', messages: [{ role: 'user', content: 'Capital of Spain?' }] }),
+      ].join('\n'));
+
+      expect(response.statusCode).toBe(202);
+      expect(JSON.parse(response.payload)).toEqual(batch);
+
+      const [tenantId, userId, lines, run] = (batchService.submit as jest.Mock).mock.calls[0];
+      expect(tenantId).toBe(batchTenantId);
+      expect(userId).toBe(mockUserId);
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toEqual(expect.objectContaining({ custom_id: 'q1', model: 'llama2', stream: false }));
+
+      const reply = await run(lines[0], 0);
+      expect(reply).toEqual(expect.objectContaining({ message: { role: 'assistant', content: 'Paris.' } }));
+      expect(ollamaService.chat).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'llama2', messages: [{ role: 'user', content: 'Capital of France?' }] }),
+        batchTenantId
+      );
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(batchTenantId, mockUserId, 15);
+    });
+
+    it('should check the quota for every line', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ models: { default: 'llama2' } });
+      (batchService.submit as jest.Mock).mockResolvedValue({ job: batch, completion: Promise.resolve(batch) });
+
+      const response = await inject('POST', '/api/llm/batches', [
+        JSON.stringify({ messages: [{ role: 'user', content: 'Capital of France?' }] }),
+        JSON.stringify({ messages: [{ role: 'user', content: 'Capital of Spain?' }] }),
+      ].join('\n'));
+      expect(response.statusCode).toBe(202);
+
+      (quotaService.checkQuota as jest.Mock).mockResolvedValue({
+        allowed: false,
+        exceeded: 'tokensPerDay',
+        retryAfter: 3600,
+        status: {},
+      });
+      const [, , lines, run] = (batchService.submit as jest.Mock).mock.calls[0];
+
+      await expect(run(lines[1], 1)).rejects.toMatchObject({
+        output: { statusCode: 429, payload: { message: 'Daily token quota exceeded' } },
+      });
+      expect(quotaService.checkQuota).toHaveBeenCalledTimes(2);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should stop running lines once the submitter is deleted', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ models: { default: 'llama2' } });
+      (batchService.submit as jest.Mock).mockResolvedValue({ job: batch, completion: Promise.resolve(batch) });
+
+      const response = await inject('POST', '/api/llm/batches', [
+        JSON.stringify({ messages: [{ role: 'user', content: 'Capital of France?' }] }),
+      ].join('\n'));
+      expect(response.statusCode).toBe(202);
+
+      (tenantService.getUser as jest.Mock).mockResolvedValue(null);
+      const [, , lines, run] = (batchService.submit as jest.Mock).mock.calls[0];
+
+      await expect(run(lines[0], 0)).rejects.toMatchObject({ output: { statusCode: 401 } });
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should run lines with the tenant settings as they are when the line runs', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ models: { default: 'llama2' } });
+      (batchService.submit as jest.Mock).mockResolvedValue({ job: batch, completion: Promise.resolve(batch) });
+
+      const response = await inject('POST', '/api/llm/batches', [
+        JSON.stringify({ messages: [{ role: 'user', content: 'Capital of France?' }] }),
+      ].join('\n'));
+      expect(response.statusCode).toBe(202);
+
+      (tenantService.getTenant as jest.Mock).mockResolvedValue({
+        tenantId: batchTenantId,
+        status: 'active',
+        settings: { models: { allowed: ['mistral'] } },
+      });
+      const [, , lines, run] = (batchService.submit as jest.Mock).mock.calls[0];
+
+      await expect(run(lines[0], 0)).rejects.toMatchObject({
+        output: { statusCode: 403, payload: { message: 'Model "llama2" is not enabled for this tenant' } },
+      });
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should reject the whole batch when a line is invalid', async () => {
+      const response = await inject('POST', '/api/llm/batches', [
+        JSON.stringify({ model: 'llama2', messages: [{ role: 'user', content: 'Hi' }] }),
+        JSON.stringify({ model: 'llama2', messages: [{ role: 'user', content: 'Hi' }], stream: true }),
+      ].join('\n'));
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toContain('Line 2: "stream" must be [false]');
+      expect(batchService.submit).not.toHaveBeenCalled();
+    });
+
+    it('should download the results as JSONL', async () => {
+      (batchService.getJob as jest.Mock).mockResolvedValue(batch);
+      (batchService.getResults as jest.Mock).mockResolvedValue([
+        { index: 0, custom_id: 'q1', response: { message: { role: 'assistant', content: 'Paris.' } } },
+        { index: 1, error: { statusCode: 403, message: 'Model "gpt-4" is not enabled for this tenant' } },
+      ]);
+
+      const response = await inject('GET', `/api/llm/batches/${batchId}/results`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      const lines = response.payload.trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.index)).toEqual([0, 1]);
+      expect(batchService.getJob).toHaveBeenCalledWith(batchTenantId, batchId);
+    });
+
+    it('should hide batches submitted by other users', async () => {
+      (batchService.getJob as jest.Mock).mockResolvedValue({ ...batch, userId: 'someone-else' });
+
+      const response = await inject('GET', `/api/llm/batches/${batchId}`);
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should refuse to cancel a finished batch', async () => {
+      (batchService.getJob as jest.Mock).mockResolvedValue({ ...batch, status: 'completed' });
+
+      const response = await inject('POST', `/api/llm/batches/${batchId}/cancel`);
+
+      expect(response.statusCode).toBe(409);
+      expect(batchService.cancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/llm/generate', () => {
+    const generateTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let generateToken: string;
+
+    const completion = {
+      model: 'codellama',
+      created_at: '2024-01-15T10:30:00Z',
+      response: '  return a + b;',
+      done: true,
+      done_reason: 'stop',
+      total_duration: 2000,
+      prompt_eval_count: 20,
+      eval_count: 6,
+    };
+
+    beforeEach(() => {
+      generateToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: generateTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+    });
+
+    const generate = (payload: Record<string, any>, accept?: string) => server.inject({
+      method: 'POST',
+      url: '/api/llm/generate',
+      headers: {
+        authorization: `Bearer ${generateToken}`,
+        'x-tenant-id': generateTenantId,
+        ...(accept ? { accept } : {}),
+      },
+      payload,
+    });
+
+    it('should complete a fill-in-the-middle prompt', async () => {
+      (ollamaService.generate as jest.Mock).mockResolvedValue(completion);
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({
+        models: { limits: { codellama: { maxNumPredict: 64 } } },
+      });
+
+      const response = await generate({
+        model: 'codellama',
+        prompt: 'def add(a, b):\n',
+        suffix: '\n\nprint(add(1, 2))',
+        raw: true,
+        format: 'json',
+        options: { temperature: 0 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.generate).toHaveBeenCalledWith({
+        model: 'codellama',
+        prompt: 'def add(a, b):\n',
+        suffix: '\n\nprint(add(1, 2))',
+        raw: true,
+        format: 'json',
+        stream: false,
+        options: { temperature: 0, num_predict: 64 },
+      }, generateTenantId);
+      expect(JSON.parse(response.payload)).toEqual({
+        ...completion,
+        tenant_id: generateTenantId,
+        user_id: mockUserId,
+      });
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(generateTenantId, mockUserId, 26);
+    });
+
+    it('should stream chunks followed by a summary event', async () => {
+      (ollamaService.streamGenerate as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk({ model: 'codellama', created_at: '2024-01-15T10:30:00Z', response: '  return', done: false });
+          onChunk({ ...completion, response: '' });
+        }
+      );
+
+      const response = await generate({ model: 'codellama', prompt: 'def add(a, b):', stream: true }, 'application/x-ndjson');
+
+      expect(response.statusCode).toBe(200);
+      const lines = response.payload.trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines[0].response).toBe('  return');
+      expect(lines[2]).toEqual(expect.objectContaining({ type: 'summary', total_tokens: 26, tenant_id: generateTenantId }));
+    });
+
+    it('should reject models served by other providers', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({
+        providers: { acme: { baseUrl: 'https://api.acme.test/v1' } },
+      });
+
+      const response = await generate({ model: 'acme/gpt-4o-mini', prompt: 'Hello' });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toBe('Provider "acme" does not support raw completion');
+    });
+
+    it('should require a prompt', async () => {
+      const response = await generate({ model: 'codellama' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /api/llm/embeddings', () => {
+    const embedTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    let embedToken: string;
+
+    beforeEach(() => {
+      embedToken = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: embedTenantId,
+          role: 'user',
+        },
+        14400
+      );
+
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      (ollamaService.embed as jest.Mock).mockResolvedValue({
+        model: 'nomic-embed-text',
+        embeddings: [[0.1, 0.2, 0.3], [0.4, 0.5, 0.6]],
+        total_duration: 14143917,
+        prompt_eval_count: 8,
+      });
+    });
+
+    const embed = (payload: Record<string, any>, tenantId = embedTenantId) => server.inject({
+      method: 'POST',
+      url: '/api/llm/embeddings',
+      headers: {
+        authorization: `Bearer ${embedToken}`,
+        'x-tenant-id': tenantId,
+      },
+      payload,
+    });
+
+    it('should embed a batch of inputs and report the dimensions', async () => {
+      const response = await embed({ model: 'nomic-embed-text', input: ['first', 'second'] });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.embed).toHaveBeenCalledWith(
+        { model: 'nomic-embed-text', input: ['first', 'second'] },
+        embedTenantId
+      );
+
+      const result = JSON.parse(response.payload);
+      expect(result).toEqual(expect.objectContaining({
+        model: 'nomic-embed-text',
+        embeddings: [[0.1, 0.2, 0.3], [0.4, 0.5, 0.6]],
+        dimensions: 3,
+        prompt_eval_count: 8,
+        tenant_id: embedTenantId,
+      }));
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(embedTenantId, mockUserId, 8);
+    });
+
+    it('should use the tenant default model for a single input', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({
+        models: { allowed: ['nomic-embed-text'], default: 'nomic-embed-text' },
+      });
+
+      const response = await embed({ input: 'hello' });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.embed).toHaveBeenCalledWith({ model: 'nomic-embed-text', input: 'hello' }, embedTenantId);
+    });
+
+    it('should reject models the tenant is not entitled to', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ models: { allowed: ['llama2'] } });
+
+      const response = await embed({ model: 'nomic-embed-text', input: 'hello' });
+
+      expect(response.statusCode).toBe(403);
+      expect(ollamaService.embed).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when tenant ID does not match credentials', async () => {
+      const response = await embed({ model: 'nomic-embed-text', input: 'hello' }, '7c9e6679-7425-40de-944b-e07fc1f90ae7');
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 400 for empty input lists', async () => {
+      const response = await embed({ model: 'nomic-embed-text', input: [] });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/llm/models', () => {
+    it('should successfully list available models', async () => {
+      const mockModels = {
+        models: [
+          {
+            name: 'llama2',
+            modified_at: '2024-01-15T10:30:00Z',
+            size: 3826793677,
+            digest: 'sha256:abc123',
+          },
+          {
+            name: 'mistral',
+            modified_at: '2024-01-14T09:20:00Z',
+            size: 4109865159,
+            digest: 'sha256:def456',
+          },
+        ],
+      };
+
+      (ollamaService.listModels as jest.Mock).mockResolvedValue(mockModels);
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/models',
+        headers: {
+          authorization: `Bearer ${mockToken}`,
+          'x-tenant-id': mockTenantId,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result.models).toHaveLength(2);
+      expect(result.models[0].name).toBe('llama2');
+      expect(result.models[1].name).toBe('mistral');
+      expect(result.tenant_id).toBe(mockTenantId);
+      expect(ollamaService.listModels).toHaveBeenCalled();
+    });
+
+    it('should return 401 when token is missing', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/models',
+        headers: {
+          'x-tenant-id': mockTenantId,
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 403 when tenant ID does not match', async () => {
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/models',
+        headers: {
+          authorization: `Bearer ${mockToken}`,
+          'x-tenant-id': 'wrong-tenant-id',
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 502 when Ollama service fails', async () => {
+      (ollamaService.listModels as jest.Mock).mockRejectedValue(
+        new Error('Service unavailable')
+      );
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/models',
+        headers: {
+          authorization: `Bearer ${mockToken}`,
+          'x-tenant-id': mockTenantId,
+        },
+      });
+
+      expect(response.statusCode).toBe(502);
+    });
+  });
+
+  describe('GET /api/llm/health', () => {
+    const backends = [
+      { url: 'http://ollama-a:11434', weight: 1, healthy: true, inflight: 0, models: ['llama2:latest'], lastCheckedAt: null },
+      { url: 'http://ollama-b:11434', weight: 1, healthy: true, inflight: 0, models: ['llama2:latest'], lastCheckedAt: null },
+    ];
+
+    beforeEach(() => {
+      (ollamaService.getBackendStatus as jest.Mock).mockReturnValue(backends);
+    });
+
+    it('should return healthy status when Ollama is available', async () => {
+      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(true);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/health',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result.status).toBe('healthy');
+      expect(result.service).toBe('ollama');
+      expect(result.timestamp).toBeDefined();
+      expect(ollamaService.checkHealth).toHaveBeenCalled();
+    });
+
+    it('should report degraded without revealing the backends or the queue', async () => {
+      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(true);
+      (ollamaService.getBackendStatus as jest.Mock).mockReturnValue([backends[0], { ...backends[1], healthy: false }]);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/health',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result.status).toBe('degraded');
+      expect(result).not.toHaveProperty('backends');
+      expect(result).not.toHaveProperty('queue');
+    });
+
+    it('should return 503 when Ollama is unavailable', async () => {
+      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(false);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/health',
+      });
+
+      expect(response.statusCode).toBe(503);
+      const result = JSON.parse(response.payload);
+      expect(result.status).toBe('unhealthy');
+      expect(result.service).toBe('ollama');
+      expect(result.timestamp).toBeDefined();
+    });
+
+    it('should return 503 when health check throws an error', async () => {
+      (ollamaService.checkHealth as jest.Mock).mockRejectedValue(
+        new Error('Connection refused')
+      );
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/health',
+      });
+
+      expect(response.statusCode).toBe(503);
+      const result = JSON.parse(response.payload);
+      expect(result.status).toBe('unhealthy');
+      expect(result.error).toBeDefined();
+    });
+
+    it('should be accessible without authentication', async () => {
+      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(true);
+
+      // No authorization header
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/llm/health',
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
+  describe('GET /api/llm/health/details', () => {
+    const env = { ...process.env };
+    const operatorTenantId = '550e8400-e29b-41d4-a716-446655440000';
+    const backends = [
+      { url: 'http://ollama-a:11434', weight: 1, healthy: true, inflight: 0, models: ['llama2:latest'], lastCheckedAt: null },
+    ];
+
+    const details = (role: 'admin' | 'user') => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({
+        userId: mockUserId,
+        tenantId: operatorTenantId,
+        username: 'operator',
+        email: 'operator@test.com',
+        password: 'hashed-password',
+        role,
+        status: 'active',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      }));
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      const token = signingKeyService.sign(
+        { aud: 'urn:audience:api', iss: 'urn:issuer:api', userId: mockUserId, tenantId: operatorTenantId },
+        14400
+      );
+      return server.inject({
+        method: 'GET',
+        url: '/api/llm/health/details',
+        headers: { authorization: `Bearer ${token}` },
+      });
+    };
+
+    beforeEach(() => {
+      process.env.OPERATOR_TENANT_IDS = operatorTenantId;
+      (ollamaService.checkHealth as jest.Mock).mockResolvedValue(true);
+      (ollamaService.getBackendStatus as jest.Mock).mockReturnValue(backends);
+    });
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should show operators every backend and the queue', async () => {
+      const response = await details('admin');
+
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result.status).toBe('healthy');
+      expect(result.backends).toEqual(backends);
+      expect(result.queue).toEqual(expect.objectContaining({ running: 0, waiting: 0 }));
+    });
+
+    it('should be forbidden for users', async () => {
+      expect((await details('user')).statusCode).toBe(403);
+    });
+
+    it('should be forbidden for admins of tenants that do not operate the backends', async () => {
+      delete process.env.OPERATOR_TENANT_IDS;
+
+      expect((await details('admin')).statusCode).toBe(403);
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({ method: 'GET', url: '/api/llm/health/details' });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('API key authentication', () => {
+    const keyTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+    const apiKey = {
+      keyId: '9b2c7e4a-3f1d-4a6b-8c5e-1d2f3a4b5c6d',
+      tenantId: keyTenantId,
+      name: 'nightly-job',
+      prefix: 'sk-AbCdEf',
+      scopes: ['llm:embeddings'],
+      createdAt: '2024-01-15T10:30:00.000Z',
+      createdBy: 'admin-1',
+      updatedAt: '2024-01-15T10:30:00.000Z',
+    };
+
+    const embed = (authorization: string) => server.inject({
+      method: 'POST',
+      url: '/api/llm/embeddings',
+      headers: {
+        authorization,
+        'x-tenant-id': keyTenantId,
+      },
+      payload: { model: 'nomic-embed-text', input: 'hello' },
+    });
+
+    beforeEach(() => {
+      (ollamaService.embed as jest.Mock).mockResolvedValue({
+        model: 'nomic-embed-text',
+        embeddings: [[0.1, 0.2, 0.3]],
+        prompt_eval_count: 2,
+      });
+    });
+
+    it('should accept a key with the route\'s scope and act as the key', async () => {
+      (apiKeyService.authenticate as jest.Mock).mockResolvedValue(apiKey);
+
+      const response = await embed('Bearer sk-test-key');
+
+      expect(response.statusCode).toBe(200);
+      expect(apiKeyService.authenticate).toHaveBeenCalledWith('sk-test-key');
+      expect(mockRedisClient.exists).toHaveBeenCalledWith(`tenant:${keyTenantId}`);
+      expect(usageService.record).toHaveBeenCalledWith(expect.objectContaining({
+        tenantId: keyTenantId,
+        userId: `apikey:${apiKey.keyId}`,
+      }));
+    });
+
+    it('should stop running a key\'s batch once the key is revoked', async () => {
+      (apiKeyService.authenticate as jest.Mock).mockResolvedValue({ ...apiKey, scopes: ['llm:batches'] });
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ models: { default: 'llama2' } });
+      (batchService.submit as jest.Mock).mockResolvedValue({ job: {}, completion: Promise.resolve({}) });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/llm/batches',
+        headers: {
+          authorization: 'Bearer sk-test-key',
+          'x-tenant-id': keyTenantId,
+          'content-type': 'application/x-ndjson',
+        },
+        payload: JSON.stringify({ messages: [{ role: 'user', content: 'Hi' }] }),
+      });
+      expect(response.statusCode).toBe(202);
+
+      (tenantService.getTenant as jest.Mock).mockResolvedValue({ tenantId: keyTenantId, status: 'active', settings: {} });
+      (apiKeyService.getKey as jest.Mock).mockResolvedValue(null);
+      const [, , lines, run] = (batchService.submit as jest.Mock).mock.calls[0];
+
+      await expect(run(lines[0], 0)).rejects.toMatchObject({ output: { statusCode: 401 } });
+      expect(apiKeyService.getKey).toHaveBeenCalledWith(keyTenantId, apiKey.keyId);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key without the route\'s scope', async () => {
+      (apiKeyService.authenticate as jest.Mock).mockResolvedValue({ ...apiKey, scopes: ['llm:chat'] });
+
+      const response = await embed('Bearer sk-test-key');
+
+      expect(response.statusCode).toBe(403);
+      expect(ollamaService.embed).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown, revoked or expired keys', async () => {
+      (apiKeyService.authenticate as jest.Mock).mockResolvedValue(null);
+
+      const response = await embed('Bearer sk-revoked');
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.payload).message).toBe('Invalid API key');
+    });
+
+    it('should still accept JWTs', async () => {
+      const token = signingKeyService.sign(
+        {
+          aud: 'urn:audience:api',
+          iss: 'urn:issuer:api',
+          userId: mockUserId,
+          tenantId: keyTenantId,
+          role: 'user',
+        },
+        14400
+      );
+      mockRedisClient.exists
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1); // Tenant exists
+
+      const response = await embed(`Bearer ${token}`);
 
       expect(response.statusCode).toBe(200);
+      expect(apiKeyService.authenticate).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,238 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/modelAdminService');
+
+import modelRoutes from '../../src/routes/models';
+import authPlugin from '../../src/plugins/auth';
+import ollamaService from '../../src/services/ollamaService';
+import modelAdminService from '../../src/services/modelAdminService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('Model Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  const env = { ...process.env };
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const job = {
+    jobId: '7d3f2a9e-1b4c-4e8a-9f6d-2c5b8a1e3f7d',
+    tenantId: mockTenantId,
+    userId: 'user-1',
+    model: 'llama3.1:8b',
+    status: 'running',
+    progress: null,
+    createdAt: '2024-01-15T10:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z',
+  };
+
+  const createToken = (): string => signingKeyService.sign(
+    {
+      aud: 'urn:audience:api',
+      iss: 'urn:issuer:api',
+      userId: 'user-1',
+      tenantId: mockTenantId,
+    },
+    14400
+  );
+
+  const mockUser = (role: 'admin' | 'user') => {
+    mockRedisClient.get.mockResolvedValue(JSON.stringify({
+      userId: 'user-1',
+      tenantId: mockTenantId,
+      username: 'someone',
+      email: 'someone@test.com',
+      password: 'hashed-password',
+      role,
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_TENANT_IDS = mockTenantId;
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn(),
+    };
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    mockUser('admin');
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3011,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(modelRoutes);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await server.stop();
+  });
+
+  const inject = (method: string, url: string, payload?: object) => server.inject({
+    method,
+    url,
+    headers: {
+      authorization: `Bearer ${createToken()}`,
+    },
+    payload,
+  });
+
+  describe('POST /api/models/pull', () => {
+    it('should start a pull job and answer 202', async () => {
+      (modelAdminService.startPull as jest.Mock).mockResolvedValue({ job, completion: Promise.resolve(job) });
+
+      const response = await inject('POST', '/api/models/pull', { model: 'llama3.1:8b' });
+
+      expect(response.statusCode).toBe(202);
+      expect(JSON.parse(response.payload)).toEqual(job);
+      expect(modelAdminService.startPull).toHaveBeenCalledWith(mockTenantId, 'user-1', 'llama3.1:8b', undefined);
+    });
+
+    it('should stream progress followed by the finished job', async () => {
+      const finished = { ...job, status: 'completed' };
+      (modelAdminService.startPull as jest.Mock).mockImplementation(async (_t, _u, _m, _i, onProgress) => {
+        const completion = Promise.resolve().then(() => {
+          onProgress({ status: 'pulling manifest' });
+          onProgress({ status: 'success' });
+          return finished;
+        });
+        return { job, completion };
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/models/pull',
+        headers: {
+          authorization: `Bearer ${createToken()}`,
+          accept: 'application/x-ndjson',
+        },
+        payload: { model: 'llama3.1:8b', stream: true },
+      });
+
+      expect(response.headers['x-job-id']).toBe(job.jobId);
+      const lines = response.payload.trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.type || line.status)).toEqual(['pulling manifest', 'success', 'job']);
+      expect(lines[2].status).toBe('completed');
+    });
+
+    it('should be forbidden for non-admins', async () => {
+      mockUser('user');
+
+      const response = await inject('POST', '/api/models/pull', { model: 'llama3.1:8b' });
+
+      expect(response.statusCode).toBe(403);
+      expect(modelAdminService.startPull).not.toHaveBeenCalled();
+    });
+
+    it('should be forbidden for admins of tenants that do not operate the backends', async () => {
+      process.env.OPERATOR_TENANT_IDS = 'a2d7c1e4-0f3b-4c6a-9e8d-5b1f2a3c4d5e';
+
+      const response = await inject('POST', '/api/models/pull', { model: 'llama3.1:8b' });
+
+      expect(response.statusCode).toBe(403);
+      expect(modelAdminService.startPull).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/models/pulls/{jobId}', () => {
+    it('should return the job', async () => {
+      (modelAdminService.getJob as jest.Mock).mockResolvedValue(job);
+
+      const response = await inject('GET', `/api/models/pulls/${job.jobId}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(modelAdminService.getJob).toHaveBeenCalledWith(mockTenantId, job.jobId);
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      (modelAdminService.getJob as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('GET', `/api/models/pulls/${job.jobId}`);
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /api/models/{model}', () => {
+    it('should show models with a namespace and tag', async () => {
+      (ollamaService.showModel as jest.Mock).mockResolvedValue({ parameters: 'num_ctx 8192', capabilities: ['completion'] });
+
+      const response = await inject('GET', '/api/models/hf.co/org/model:Q4_K_M');
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.showModel).toHaveBeenCalledWith('hf.co/org/model:Q4_K_M');
+      expect(JSON.parse(response.payload).model).toBe('hf.co/org/model:Q4_K_M');
+    });
+
+    it('should return 404 for unknown models', async () => {
+      (ollamaService.showModel as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('GET', '/api/models/missing');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/models/{model}', () => {
+    it('should delete the model and record the action', async () => {
+      (ollamaService.deleteModel as jest.Mock).mockResolvedValue(true);
+
+      const response = await inject('DELETE', '/api/models/llama2:7b');
+
+      expect(response.statusCode).toBe(204);
+      expect(modelAdminService.recordAction).toHaveBeenCalledWith(mockTenantId, {
+        action: 'delete',
+        model: 'llama2:7b',
+        userId: 'user-1',
+      });
+    });
+
+    it('should not record anything when the model does not exist', async () => {
+      (ollamaService.deleteModel as jest.Mock).mockResolvedValue(false);
+
+      const response = await inject('DELETE', '/api/models/llama2:7b');
+
+      expect(response.statusCode).toBe(404);
+      expect(modelAdminService.recordAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/models/copy', () => {
+    it('should copy the model and record the action', async () => {
+      (ollamaService.copyModel as jest.Mock).mockResolvedValue(true);
+
+      const response = await inject('POST', '/api/models/copy', { source: 'llama2', destination: 'support-bot' });
+
+      expect(response.statusCode).toBe(201);
+      expect(ollamaService.copyModel).toHaveBeenCalledWith('llama2', 'support-bot');
+      expect(modelAdminService.recordAction).toHaveBeenCalledWith(mockTenantId, expect.objectContaining({
+        action: 'copy',
+        destination: 'support-bot',
+      }));
+    });
+  });
+
+  describe('GET /api/models/actions', () => {
+    it('should list the tenant\'s actions', async () => {
+      const actions = [{ action: 'delete', model: 'llama2:7b', userId: 'user-1', createdAt: '2024-01-15T10:30:00.000Z' }];
+      (modelAdminService.listActions as jest.Mock).mockResolvedValue(actions);
+
+      const response = await inject('GET', '/api/models/actions?limit=10');
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ actions });
+      expect(modelAdminService.listActions).toHaveBeenCalledWith(mockTenantId, 10);
+    });
+  });
+});
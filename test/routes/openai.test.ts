@@ -0,0 +1,386 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
+jest.mock('../../src/services/tenantService');
+
+import openaiRoutes from '../../src/routes/openai';
+import authPlugin from '../../src/plugins/auth';
+import ollamaService from '../../src/services/ollamaService';
+import quotaService from '../../src/services/quotaService';
+import usageService from '../../src/services/usageService';
+import tenantService from '../../src/services/tenantService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('OpenAI Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  let mockToken: string;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const mockUserId = 'user-456';
+
+  const ollamaReply = (content: string, overrides: Record<string, any> = {}) => ({
+    model: 'llama2',
+    created_at: '2024-01-15T10:30:00Z',
+    message: { role: 'assistant', content },
+    done: true,
+    done_reason: 'stop',
+    prompt_eval_count: 10,
+    eval_count: 5,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn().mockResolvedValue(JSON.stringify({
+        userId: mockUserId,
+        tenantId: mockTenantId,
+        username: 'testuser',
+        email: 'test@test.com',
+        password: 'hashed-password',
+        role: 'user',
+        status: 'active',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      })),
+    };
+
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    (quotaService.checkQuota as jest.Mock).mockResolvedValue({ allowed: true, status: {} });
+    (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({});
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3006,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(openaiRoutes);
+
+    mockToken = signingKeyService.sign(
+      {
+        aud: 'urn:audience:api',
+        iss: 'urn:issuer:api',
+        userId: mockUserId,
+        tenantId: mockTenantId,
+        role: 'user',
+      },
+      14400
+    );
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const completionRequest = (payload: Record<string, any>, tenantId: string = mockTenantId) => server.inject({
+    method: 'POST',
+    url: '/v1/chat/completions',
+    headers: {
+      authorization: `Bearer ${mockToken}`,
+      'x-tenant-id': tenantId,
+    },
+    payload: {
+      model: 'llama2',
+      messages: [{ role: 'user', content: 'Hi' }],
+      ...payload,
+    },
+  });
+
+  describe('POST /v1/chat/completions', () => {
+    it('should map OpenAI parameters onto the Ollama request', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(ollamaReply('Hello!'));
+
+      const response = await completionRequest({
+        temperature: 0.2,
+        top_p: 0.9,
+        max_tokens: 64,
+        stop: 'END',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(
+        {
+          model: 'llama2',
+          messages: [{ role: 'user', content: 'Hi' }],
+          stream: false,
+          options: { temperature: 0.2, top_p: 0.9, num_predict: 64, stop: ['END'] },
+        },
+        mockTenantId
+      );
+    });
+
+    it('should reject parameters Ollama has no equivalent for', async () => {
+      const penalty = await completionRequest({ presence_penalty: 0.5 });
+
+      expect(penalty.statusCode).toBe(400);
+      expect(JSON.parse(penalty.payload).message).toContain('"presence_penalty" is not allowed');
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should reject tool choices other than auto and none', async () => {
+      const response = await completionRequest({ tool_choice: 'required' });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toContain('Only "auto" and "none" are supported for tool_choice');
+    });
+
+    it('should pass tools and response_format on to Ollama', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(ollamaReply('{"city":"Paris"}'));
+      const tools = [{
+        type: 'function',
+        function: { name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } },
+      }];
+      const schema = { type: 'object', properties: { city: { type: 'string' } } };
+
+      const response = await completionRequest({
+        tools,
+        response_format: { type: 'json_schema', json_schema: { name: 'answer', schema, strict: true } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({ tools, format: schema }), mockTenantId);
+    });
+
+    it('should return tool calls and map tool results back by call id', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(ollamaReply('', {
+        message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }] },
+      }));
+
+      const response = await completionRequest({
+        messages: [
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              { id: 'call_a', type: 'function', function: { name: 'get_time', arguments: '{"city":"Rome"}' } },
+              { id: 'call_b', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'call_b', content: 'Sunny' },
+        ],
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({
+        messages: [
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { function: { name: 'get_time', arguments: { city: 'Rome' } } },
+              { function: { name: 'get_weather', arguments: { city: 'Rome' } } },
+            ],
+          },
+          { role: 'tool', content: 'Sunny', tool_name: 'get_weather' },
+        ],
+      }), mockTenantId);
+
+      const [choice] = JSON.parse(response.payload).choices;
+      expect(choice.finish_reason).toBe('tool_calls');
+      expect(choice.message).toEqual({
+        role: 'assistant',
+        content: null,
+        tool_calls: [{
+          id: expect.stringMatching(/^call_/),
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        }],
+      });
+    });
+
+    it('should stream tool calls as deltas', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk(ollamaReply('', {
+            done: false,
+            message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }] },
+          }));
+          onChunk(ollamaReply(''));
+        }
+      );
+
+      const response = await completionRequest({ stream: true });
+
+      const chunks = response.payload.trim().split('\n\n')
+        .map((event) => event.replace('data: ', ''))
+        .filter((event) => event !== '[DONE]')
+        .map((event) => JSON.parse(event));
+      expect(chunks[1].choices[0].delta.tool_calls).toEqual([{
+        index: 0,
+        id: expect.stringMatching(/^call_/),
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+      }]);
+      expect(chunks[2].choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('should turn image content parts into Ollama images', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).toString('base64');
+      (ollamaService.chat as jest.Mock).mockResolvedValue(ollamaReply('A pixel.'));
+
+      const response = await completionRequest({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${png}` } },
+          ],
+        }],
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(ollamaService.chat).toHaveBeenCalledWith(expect.objectContaining({
+        messages: [{ role: 'user', content: 'What is this?', images: [png] }],
+      }), mockTenantId);
+    });
+
+    it('should return an OpenAI-shaped completion with usage', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(ollamaReply('Hello!'));
+
+      const response = await completionRequest({});
+
+      const result = JSON.parse(response.payload);
+      expect(result.id).toMatch(/^chatcmpl-/);
+      expect(result.object).toBe('chat.completion');
+      expect(result.choices).toEqual([
+        { index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' },
+      ]);
+      expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+    });
+
+    it('should generate one choice per n', async () => {
+      (ollamaService.chat as jest.Mock)
+        .mockResolvedValueOnce(ollamaReply('First'))
+        .mockResolvedValueOnce(ollamaReply('Second', { done_reason: 'length' }));
+
+      const response = await completionRequest({ n: 2 });
+
+      const result = JSON.parse(response.payload);
+      expect(ollamaService.chat).toHaveBeenCalledTimes(2);
+      expect(result.choices.map((choice: any) => choice.message.content)).toEqual(['First', 'Second']);
+      expect(result.choices[1].finish_reason).toBe('length');
+      expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 });
+    });
+
+    it('should stream chat.completion.chunk deltas terminated by [DONE]', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk(ollamaReply('Hel', { done: false }));
+          onChunk(ollamaReply('lo', { done: false }));
+          onChunk(ollamaReply(''));
+        }
+      );
+
+      const response = await completionRequest({ stream: true, stream_options: { include_usage: true } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = response.payload.trim().split('\n\n').map((event) => event.replace('data: ', ''));
+      expect(events[events.length - 1]).toBe('[DONE]');
+
+      const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+      expect(chunks[0].choices[0].delta).toEqual({ role: 'assistant', content: '' });
+      expect(chunks[1].object).toBe('chat.completion.chunk');
+      expect(chunks[1].choices[0].delta).toEqual({ content: 'Hel' });
+      expect(chunks[3].choices[0].finish_reason).toBe('stop');
+      expect(chunks[4].usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+    });
+
+    it('should bill an estimate for a stream that fails before the final chunk', async () => {
+      (ollamaService.streamChat as jest.Mock).mockImplementation(
+        async (_req: any, _tenantId: string, onChunk: (chunk: any) => void) => {
+          onChunk(ollamaReply('Hello there', { done: false }));
+          throw new Error('Ollama connection reset');
+        }
+      );
+
+      const response = await completionRequest({ stream: true });
+
+      expect(response.payload).toContain('server_error');
+      // "Hi" with message framing is 5 prompt tokens, "Hello there" about 3
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(mockTenantId, mockUserId, 8);
+      expect(usageService.record).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 5, completionTokens: 3 }));
+    });
+
+    it('should reject streaming with more than one choice', async () => {
+      const response = await completionRequest({ stream: true, n: 2 });
+
+      expect(response.statusCode).toBe(400);
+      expect(ollamaService.streamChat).not.toHaveBeenCalled();
+    });
+
+    it('should charge the quota and record usage for the completion', async () => {
+      (ollamaService.chat as jest.Mock).mockResolvedValue(ollamaReply('Hello!', { total_duration: 2000000 }));
+
+      await completionRequest({});
+
+      expect(quotaService.recordTokens).toHaveBeenCalledWith(mockTenantId, mockUserId, 15);
+      expect(usageService.record).toHaveBeenCalledWith({
+        tenantId: mockTenantId,
+        userId: mockUserId,
+        model: 'llama2',
+        promptTokens: 10,
+        completionTokens: 5,
+        durationMs: 2,
+      });
+    });
+
+    it('should return 429 with Retry-After when the quota is exhausted', async () => {
+      (quotaService.checkQuota as jest.Mock).mockResolvedValue({
+        allowed: false,
+        exceeded: 'tokensPerDay',
+        retryAfter: 3600,
+        status: { tokensPerDay: { limit: 1000, used: 1000, remaining: 0, resetSeconds: 3600 } },
+      });
+
+      const response = await completionRequest({});
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('3600');
+      expect(response.headers['x-quota-remaining-tokens-day']).toBe('0');
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when tenant ID does not match credentials', async () => {
+      const response = await completionRequest({}, '6ba7b810-9dad-11d1-80b4-00c04fd430c8');
+
+      expect(response.statusCode).toBe(403);
+      expect(ollamaService.chat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /v1/models', () => {
+    it('should list models in the OpenAI format', async () => {
+      (ollamaService.listModels as jest.Mock).mockResolvedValue({
+        models: [{ name: 'llama2', size: 1, modified_at: '2024-01-15T10:30:00Z' }],
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/v1/models',
+        headers: {
+          authorization: `Bearer ${mockToken}`,
+          'x-tenant-id': mockTenantId,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        object: 'list',
+        data: [{ id: 'llama2', object: 'model', created: 1705314600, owned_by: 'ollama' }],
+      });
+    });
+  });
+});
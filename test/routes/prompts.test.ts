@@ -0,0 +1,152 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/promptService');
+
+import promptRoutes from '../../src/routes/prompts';
+import authPlugin from '../../src/plugins/auth';
+import promptService from '../../src/services/promptService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('Prompt Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const template = {
+    name: 'support',
+    version: 1,
+    messages: [{ role: 'system', content: 'You support {{product}} customers.' }],
+    variables: ['product'],
+    createdAt: '2024-01-15T10:30:00.000Z',
+    createdBy: 'user-1',
+  };
+
+  const createToken = (): string => signingKeyService.sign(
+    {
+      aud: 'urn:audience:api',
+      iss: 'urn:issuer:api',
+      userId: 'user-1',
+      tenantId: mockTenantId,
+    },
+    14400
+  );
+
+  const mockUser = (role: 'admin' | 'user') => {
+    mockRedisClient.get.mockResolvedValue(JSON.stringify({
+      userId: 'user-1',
+      tenantId: mockTenantId,
+      username: 'someone',
+      email: 'someone@test.com',
+      password: 'hashed-password',
+      role,
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn(),
+    };
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    mockUser('admin');
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3010,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(promptRoutes);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const inject = (method: string, url: string, payload?: object) => server.inject({
+    method,
+    url,
+    headers: {
+      authorization: `Bearer ${createToken()}`,
+      'x-tenant-id': mockTenantId,
+    },
+    payload,
+  });
+
+  describe('PUT /api/prompts/{name}', () => {
+    const payload = { messages: [{ role: 'system', content: 'You support {{product}} customers.' }] };
+
+    it('should create the first version with 201', async () => {
+      (promptService.saveTemplate as jest.Mock).mockResolvedValue(template);
+
+      const response = await inject('PUT', '/api/prompts/support', payload);
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.payload)).toEqual(template);
+      expect(promptService.saveTemplate).toHaveBeenCalledWith(mockTenantId, 'support', payload, 'user-1');
+    });
+
+    it('should answer 200 for later versions', async () => {
+      (promptService.saveTemplate as jest.Mock).mockResolvedValue({ ...template, version: 2 });
+
+      const response = await inject('PUT', '/api/prompts/support', payload);
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should be limited to admins', async () => {
+      mockUser('user');
+
+      const response = await inject('PUT', '/api/prompts/support', payload);
+
+      expect(response.statusCode).toBe(403);
+      expect(promptService.saveTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid names', async () => {
+      const response = await inject('PUT', '/api/prompts/has%20space', payload);
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/prompts/{name}', () => {
+    it('should let any tenant user read a specific version', async () => {
+      mockUser('user');
+      (promptService.getTemplate as jest.Mock).mockResolvedValue(template);
+
+      const response = await inject('GET', '/api/prompts/support?version=1');
+
+      expect(response.statusCode).toBe(200);
+      expect(promptService.getTemplate).toHaveBeenCalledWith(mockTenantId, 'support', 1);
+    });
+
+    it('should return 404 for an unknown template', async () => {
+      (promptService.getTemplate as jest.Mock).mockResolvedValue(null);
+
+      const response = await inject('GET', '/api/prompts/unknown');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/prompts/{name}', () => {
+    it('should delete the template', async () => {
+      (promptService.deleteTemplate as jest.Mock).mockResolvedValue(true);
+
+      const response = await inject('DELETE', '/api/prompts/support');
+
+      expect(response.statusCode).toBe(204);
+      expect(promptService.deleteTemplate).toHaveBeenCalledWith(mockTenantId, 'support');
+    });
+  });
+});
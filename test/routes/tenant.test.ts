@@ -0,0 +1,264 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/tenantService');
+
+import tenantRoutes from '../../src/routes/tenant';
+import authPlugin from '../../src/plugins/auth';
+import tenantService from '../../src/services/tenantService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('Tenant Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const createToken = (): string => signingKeyService.sign(
+    {
+      aud: 'urn:audience:api',
+      iss: 'urn:issuer:api',
+      userId: 'admin-1',
+      tenantId: mockTenantId,
+      role: 'admin',
+    },
+    14400
+  );
+
+  const mockUser = (role: string) => {
+    mockRedisClient.get.mockResolvedValue(JSON.stringify({
+      userId: 'admin-1',
+      tenantId: mockTenantId,
+      username: 'admin',
+      email: 'admin@test.com',
+      password: 'hashed-password',
+      role,
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn(),
+    };
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    mockUser('admin');
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3008,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(tenantRoutes);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const patch = (payload: object) => server.inject({
+    method: 'PATCH',
+    url: '/api/tenant/settings',
+    headers: {
+      authorization: `Bearer ${createToken()}`,
+    },
+    payload,
+  });
+
+  describe('GET /api/tenant/settings', () => {
+    it('should return the tenant settings', async () => {
+      const settings = { models: { allowed: ['llama2'], default: 'llama2' } };
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue(settings);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/tenant/settings',
+        headers: {
+          authorization: `Bearer ${createToken()}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ settings });
+      expect(tenantService.getTenantSettings).toHaveBeenCalledWith(mockTenantId);
+    });
+
+    it('should be restricted to admins', async () => {
+      mockUser('user');
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/tenant/settings',
+        headers: {
+          authorization: `Bearer ${createToken()}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('PATCH /api/tenant/settings', () => {
+    it('should update the model settings', async () => {
+      const models = {
+        allowed: ['llama2', 'mistral:7b'],
+        default: 'mistral:7b',
+        limits: { llama2: { maxNumPredict: 512 } },
+      };
+      (tenantService.updateTenantSettings as jest.Mock).mockResolvedValue({ models });
+
+      const response = await patch({ models });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).settings).toEqual({ models });
+      expect(tenantService.updateTenantSettings).toHaveBeenCalledWith(mockTenantId, { models });
+    });
+
+    it('should reject a default model outside the allow-list', async () => {
+      const response = await patch({ models: { allowed: ['llama2'], default: 'mistral' } });
+
+      expect(response.statusCode).toBe(400);
+      expect(tenantService.updateTenantSettings).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid limits', async () => {
+      const response = await patch({ models: { limits: { llama2: { maxTemperature: 5 } } } });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should encrypt provider API keys and never return them', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({});
+      (tenantService.updateTenantSettings as jest.Mock).mockImplementation(async (_tenantId, updates) => updates);
+
+      const response = await patch({
+        providers: { acme: { baseUrl: 'https://llm.acme.test/v1', apiKey: 'sk-acme' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const stored = (tenantService.updateTenantSettings as jest.Mock).mock.calls[0][1];
+      expect(stored.providers.acme.apiKey).toMatch(/^enc:v1:/);
+      expect(response.payload).not.toContain('sk-acme');
+      expect(JSON.parse(response.payload).settings.providers).toEqual({
+        acme: { baseUrl: 'https://llm.acme.test/v1', hasApiKey: true },
+      });
+    });
+
+    it('should not allow a provider to shadow Ollama', async () => {
+      const response = await patch({ providers: { ollama: { baseUrl: 'https://llm.acme.test/v1' } } });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it.each([
+      'http://localhost:11434/v1',
+      'http://169.254.169.254/latest',
+      'http://[::1]:8000/v1',
+      'http://10.0.0.5/v1',
+    ])('should not allow a provider at %s', async (baseUrl) => {
+      const response = await patch({ providers: { acme: { baseUrl } } });
+
+      expect(response.statusCode).toBe(400);
+      expect(tenantService.updateTenantSettings).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the tenant does not exist', async () => {
+      (tenantService.updateTenantSettings as jest.Mock).mockResolvedValue(null);
+
+      const response = await patch({ models: { default: 'llama2' } });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('roles', () => {
+    const analyst = { description: 'Reads usage', permissions: ['usage:read', 'settings:read'] };
+
+    it('should store custom roles', async () => {
+      (tenantService.updateTenantSettings as jest.Mock).mockResolvedValue({ roles: { analyst } });
+
+      const response = await patch({ roles: { analyst } });
+
+      expect(response.statusCode).toBe(200);
+      expect(tenantService.updateTenantSettings).toHaveBeenCalledWith(mockTenantId, { roles: { analyst } });
+    });
+
+    it('should reject unknown permissions and built-in role names', async () => {
+      const unknown = await patch({ roles: { analyst: { permissions: ['everything'] } } });
+      expect(unknown.statusCode).toBe(400);
+
+      mockRedisClient.exists.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+      const builtIn = await patch({ roles: { admin: { permissions: ['usage:read'] } } });
+      expect(builtIn.statusCode).toBe(400);
+
+      expect(tenantService.updateTenantSettings).not.toHaveBeenCalled();
+    });
+
+    it('should not let a role grant permissions the caller lacks', async () => {
+      // A custom role that may edit settings but not read usage
+      mockRedisClient.get
+        .mockResolvedValueOnce(JSON.stringify({
+          userId: 'admin-1',
+          tenantId: mockTenantId,
+          role: 'settings-editor',
+          status: 'active',
+        }))
+        .mockResolvedValueOnce(JSON.stringify({
+          tenantId: mockTenantId,
+          settings: { roles: { 'settings-editor': { permissions: ['settings:write'] } } },
+        }));
+
+      const response = await patch({ roles: { analyst } });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.payload).message).toContain('usage:read');
+      expect(tenantService.updateTenantSettings).not.toHaveBeenCalled();
+    });
+
+    it('should give users of a custom role exactly its permissions', async () => {
+      mockRedisClient.get
+        .mockResolvedValueOnce(JSON.stringify({ userId: 'admin-1', tenantId: mockTenantId, role: 'analyst', status: 'active' }))
+        .mockResolvedValueOnce(JSON.stringify({ tenantId: mockTenantId, settings: { roles: { analyst } } }));
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ roles: { analyst } });
+
+      const allowed = await server.inject({
+        method: 'GET',
+        url: '/api/tenant/settings',
+        headers: { authorization: `Bearer ${createToken()}` },
+      });
+      expect(allowed.statusCode).toBe(200);
+
+      mockRedisClient.exists.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+      mockRedisClient.get
+        .mockResolvedValueOnce(JSON.stringify({ userId: 'admin-1', tenantId: mockTenantId, role: 'analyst', status: 'active' }))
+        .mockResolvedValueOnce(JSON.stringify({ tenantId: mockTenantId, settings: { roles: { analyst } } }));
+      const denied = await patch({ models: { default: 'llama2' } });
+      expect(denied.statusCode).toBe(403);
+    });
+
+    it('should list built-in and custom roles', async () => {
+      (tenantService.getTenantSettings as jest.Mock).mockResolvedValue({ roles: { analyst } });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/tenant/roles',
+        headers: { authorization: `Bearer ${createToken()}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.permissions).toContain('apikeys:manage');
+      expect(body.permissions).not.toContain('llm:models:manage');
+      expect(body.roles.map((role: { name: string }) => role.name)).toEqual(['admin', 'user', 'analyst']);
+      expect(body.roles[2]).toEqual({ name: 'analyst', builtIn: false, ...analyst });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Server } from '@hapi/hapi';
+
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/usageService');
+
+import usageRoutes from '../../src/routes/usage';
+import authPlugin from '../../src/plugins/auth';
+import usageService from '../../src/services/usageService';
+import redisClient from '../../src/config/redis';
+import signingKeyService from '../../src/services/signingKeyService';
+
+describe('Usage Routes', () => {
+  let server: Server;
+  let mockRedisClient: any;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const rows = [
+    {
+      date: '2024-01-01',
+      user_id: 'user-1',
+      model: 'llama2',
+      requests: 2,
+      prompt_tokens: 100,
+      completion_tokens: 50,
+      total_tokens: 150,
+      duration_ms: 900,
+    },
+  ];
+
+  const createToken = (): string => signingKeyService.sign(
+    {
+      aud: 'urn:audience:api',
+      iss: 'urn:issuer:api',
+      userId: 'admin-1',
+      tenantId: mockTenantId,
+      role: 'admin',
+    },
+    14400
+  );
+
+  const mockUser = (role: 'admin' | 'user') => {
+    mockRedisClient.get.mockResolvedValue(JSON.stringify({
+      userId: 'admin-1',
+      tenantId: mockTenantId,
+      username: 'admin',
+      email: 'admin@test.com',
+      password: 'hashed-password',
+      role,
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRedisClient = {
+      exists: jest.fn()
+        .mockResolvedValueOnce(0)  // Token not blacklisted
+        .mockResolvedValueOnce(1), // Tenant exists
+      get: jest.fn(),
+    };
+    (redisClient.getClient as jest.Mock).mockReturnValue(mockRedisClient);
+    mockUser('admin');
+
+    (usageService.getRows as jest.Mock).mockResolvedValue(rows);
+    (usageService.group as jest.Mock).mockReturnValue([{ key: 'llama2', ...rows[0] }]);
+    (usageService.total as jest.Mock).mockReturnValue({ requests: 2, total_tokens: 150 });
+
+    const Hapi = require('@hapi/hapi');
+    server = Hapi.server({
+      port: 3007,
+      host: 'localhost',
+    });
+
+    await server.register(authPlugin);
+    server.route(usageRoutes);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const get = (url: string) => server.inject({
+    method: 'GET',
+    url,
+    headers: {
+      authorization: `Bearer ${createToken()}`,
+    },
+  });
+
+  describe('GET /api/usage', () => {
+    it('should return grouped usage for the requested range', async () => {
+      const response = await get('/api/usage?from=2024-01-01&to=2024-01-31&groupBy=model');
+
+      expect(response.statusCode).toBe(200);
+      const result = JSON.parse(response.payload);
+      expect(result).toEqual(expect.objectContaining({
+        tenant_id: mockTenantId,
+        from: '2024-01-01',
+        to: '2024-01-31',
+        groupBy: 'model',
+        totals: { requests: 2, total_tokens: 150 },
+      }));
+      expect(usageService.getRows).toHaveBeenCalledWith(mockTenantId, {
+        from: '2024-01-01',
+        to: '2024-01-31',
+        userId: undefined,
+        model: undefined,
+      });
+      expect(usageService.group).toHaveBeenCalledWith(rows, 'model');
+    });
+
+    it('should filter by an API key', async () => {
+      const userId = 'apikey:6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+
+      const response = await get(`/api/usage?from=2024-01-01&to=2024-01-31&userId=${userId}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(usageService.getRows).toHaveBeenCalledWith(mockTenantId, expect.objectContaining({ userId }));
+    });
+
+    it('should reject a range longer than a year', async () => {
+      const response = await get('/api/usage?from=2022-01-01&to=2024-01-01');
+
+      expect(response.statusCode).toBe(400);
+      expect(usageService.getRows).not.toHaveBeenCalled();
+    });
+
+    it('should reject an inverted range', async () => {
+      const response = await get('/api/usage?from=2024-02-01&to=2024-01-01');
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should be restricted to admins', async () => {
+      mockUser('user');
+
+      const response = await get('/api/usage');
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('GET /api/usage/export', () => {
+    it('should export detail rows as CSV', async () => {
+      const response = await get('/api/usage/export?from=2024-01-01&to=2024-01-31');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="usage-2024-01-01-2024-01-31.csv"');
+      expect(response.payload).toBe(
+        'date,user_id,model,requests,prompt_tokens,completion_tokens,total_tokens,duration_ms\n' +
+        '2024-01-01,user-1,llama2,2,100,50,150,900\n'
+      );
+    });
+
+    it('should prefix values a spreadsheet would run as formulas', async () => {
+      (usageService.getRows as jest.Mock).mockResolvedValue([
+        { ...rows[0], user_id: '@user', model: '=HYPERLINK("http://example.com","x")' },
+      ]);
+
+      const response = await get('/api/usage/export?from=2024-01-01&to=2024-01-31');
+
+      expect(response.payload.split('\n')[1])
+        .toBe(`2024-01-01,'@user,"'=HYPERLINK(""http://example.com"",""x"")",2,100,50,150,900`);
+    });
+
+    it('should export grouped rows when groupBy is given', async () => {
+      const response = await get('/api/usage/export?from=2024-01-01&to=2024-01-31&groupBy=model');
+
+      expect(response.payload.split('\n')[0]).toBe('model,requests,prompt_tokens,completion_tokens,total_tokens,duration_ms');
+      expect(response.payload.split('\n')[1]).toBe('llama2,2,100,50,150,900');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+jest.mock('../../src/config/redis');
+
+import apiKeyService, { API_KEY_SCOPES } from '../../src/services/apiKeyService';
+import redisClient from '../../src/config/redis';
+
+describe('ApiKeyService', () => {
+  let mockRedisClient: any;
+  let hashes: Record<string, Record<string, string>>;
+  let strings: Record<string, string>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    hashes = {};
+    strings = {};
+    mockRedisClient = {
+      hSet: jest.fn(async (key: string, field: string, value: string) => {
+        hashes[key] = { ...hashes[key], [field]: value };
+      }),
+      hGet: jest.fn(async (key: string, field: string) => hashes[key]?.[field] ?? null),
+      hGetAll: jest.fn(async (key: string) => ({ ...hashes[key] })),
+      hLen: jest.fn(async (key: string) => Object.keys(hashes[key] || {}).length),
+      hDel: jest.fn(async (key: string, field: string) => {
+        delete hashes[key]?.[field];
+      }),
+      get: jest.fn(async (key: string) => strings[key] ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        strings[key] = value;
+      }),
+      del: jest.fn(async (key: string) => {
+        delete strings[key];
+      }),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    apiKeyService.initialize();
+  });
+
+  it('should return the key once and store only its hash', async () => {
+    const created = await apiKeyService.createKey(tenantId, { name: 'nightly-job' }, 'admin-1');
+
+    expect(created!.key).toMatch(/^sk-[A-Za-z0-9_-]{43}$/);
+    expect(created!.apiKey).toEqual(expect.objectContaining({
+      tenantId,
+      name: 'nightly-job',
+      prefix: created!.key.slice(0, 9),
+      scopes: API_KEY_SCOPES,
+      createdBy: 'admin-1',
+    }));
+    expect(JSON.stringify({ hashes, strings })).not.toContain(created!.key);
+
+    const [listed] = await apiKeyService.listKeys(tenantId);
+    expect(listed).toEqual(created!.apiKey);
+    expect(listed).not.toHaveProperty('hash');
+  });
+
+  it('should authenticate a key and record when it was used', async () => {
+    const created = await apiKeyService.createKey(tenantId, { name: 'nightly-job', scopes: ['llm:chat'] }, 'admin-1');
+
+    const apiKey = await apiKeyService.authenticate(created!.key);
+
+    expect(apiKey).toEqual(expect.objectContaining({
+      keyId: created!.apiKey.keyId,
+      scopes: ['llm:chat'],
+      lastUsedAt: expect.any(String),
+    }));
+    expect((await apiKeyService.getKey(tenantId, created!.apiKey.keyId))!.lastUsedAt).toBe(apiKey!.lastUsedAt);
+    expect(await apiKeyService.authenticate('sk-unknown')).toBeNull();
+  });
+
+  it('should not authenticate expired or revoked keys', async () => {
+    const expired = await apiKeyService.createKey(tenantId, {
+      name: 'old',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    }, 'admin-1');
+    const revoked = await apiKeyService.createKey(tenantId, { name: 'leaked' }, 'admin-1');
+
+    expect(await apiKeyService.revokeKey(tenantId, revoked!.apiKey.keyId)).toBe(true);
+
+    expect(await apiKeyService.authenticate(expired!.key)).toBeNull();
+    expect(await apiKeyService.authenticate(revoked!.key)).toBeNull();
+    expect(await apiKeyService.listKeys(tenantId)).toHaveLength(1);
+    expect(await apiKeyService.revokeKey(tenantId, revoked!.apiKey.keyId)).toBe(false);
+  });
+
+  it('should rename a key and change its scopes', async () => {
+    const created = await apiKeyService.createKey(tenantId, { name: 'nightly-job' }, 'admin-1');
+
+    const updated = await apiKeyService.updateKey(tenantId, created!.apiKey.keyId, {
+      name: 'reports',
+      scopes: ['llm:embeddings'],
+    });
+
+    expect(updated).toEqual(expect.objectContaining({ name: 'reports', scopes: ['llm:embeddings'] }));
+    expect(await apiKeyService.updateKey(tenantId, 'missing', { name: 'x' })).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+jest.mock('../../src/config/redis');
+
+import Boom from '@hapi/boom';
+import batchService from '../../src/services/batchService';
+import redisClient from '../../src/config/redis';
+
+describe('BatchService', () => {
+  let mockRedisClient: any;
+  let hashes: Record<string, Record<string, string>>;
+  let sets: Record<string, Array<{ score: number; value: string }>>;
+  let members: Record<string, Set<string>>;
+  let leases: Set<string>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    hashes = {};
+    sets = {};
+    members = {};
+    leases = new Set();
+    mockRedisClient = {
+      hSet: jest.fn(async (key: string, field: string | Record<string, string>, value?: string) => {
+        hashes[key] = { ...hashes[key], ...(typeof field === 'string' ? { [field]: value! } : field) };
+      }),
+      hGet: jest.fn(async (key: string, field: string) => hashes[key]?.[field] ?? null),
+      hGetAll: jest.fn(async (key: string) => ({ ...hashes[key] })),
+      hIncrBy: jest.fn(async (key: string, field: string, increment: number) => {
+        hashes[key] = { ...hashes[key], [field]: String((Number(hashes[key]?.[field]) || 0) + increment) };
+      }),
+      expire: jest.fn(),
+      zAdd: jest.fn(async (key: string, member: { score: number; value: string }) => {
+        sets[key] = [...(sets[key] || []), member].sort((a, b) => a.score - b.score);
+      }),
+      zRemRangeByScore: jest.fn(),
+      zRange: jest.fn(async (key: string) => (sets[key] || []).map((member) => member.value).reverse()),
+      sAdd: jest.fn(async (key: string, member: string) => {
+        members[key] = (members[key] || new Set()).add(member);
+      }),
+      sRem: jest.fn(async (key: string, member: string) => members[key]?.delete(member)),
+      sMembers: jest.fn(async (key: string) => [...(members[key] || [])]),
+      setEx: jest.fn(async (key: string) => leases.add(key)),
+      exists: jest.fn(async (key: string) => (leases.has(key) ? 1 : 0)),
+      del: jest.fn(async (key: string) => leases.delete(key)),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    batchService.initialize();
+  });
+
+  it('should answer every request with bounded concurrency and keep the results in order', async () => {
+    let running = 0;
+    let peak = 0;
+    const run = jest.fn(async (request: { custom_id?: string; prompt: string }) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return { answer: request.prompt.toUpperCase() };
+    });
+    const requests = ['a', 'b', 'c', 'd', 'e'].map((prompt, index) => ({ custom_id: `req-${index}`, prompt }));
+
+    const { job, completion } = await batchService.submit(tenantId, 'user-1', requests, run, 2);
+    expect(job).toEqual(expect.objectContaining({ status: 'running', total: 5, succeeded: 0 }));
+
+    const finished = await completion;
+
+    expect(finished).toEqual(expect.objectContaining({ status: 'completed', succeeded: 5, failed: 0 }));
+    expect(finished.completedAt).toBeDefined();
+    expect(peak).toBe(2);
+
+    const results = await batchService.getResults(job.batchId);
+    expect(results.map((result) => result.custom_id)).toEqual(['req-0', 'req-1', 'req-2', 'req-3', 'req-4']);
+    expect(results[4]).toEqual({ index: 4, custom_id: 'req-4', response: { answer: 'E' } });
+  });
+
+  it('should record failed requests without stopping the batch', async () => {
+    const run = jest.fn()
+      .mockResolvedValueOnce({ answer: 'ok' })
+      .mockRejectedValueOnce(Boom.forbidden('Model "gpt-4" is not enabled for this tenant'))
+      .mockRejectedValueOnce(new Error('Ollama request failed'));
+
+    const { job, completion } = await batchService.submit(tenantId, 'user-1', [{}, {}, {}], run, 1);
+    const finished = await completion;
+
+    expect(finished).toEqual(expect.objectContaining({ status: 'completed', succeeded: 1, failed: 2 }));
+    const results = await batchService.getResults(job.batchId);
+    expect(results[1].error).toEqual({ statusCode: 403, message: 'Model "gpt-4" is not enabled for this tenant' });
+    expect(results[2].error).toEqual({ statusCode: 500, message: 'Failed to process chat request' });
+  });
+
+  it('should stop taking requests once cancelled', async () => {
+    let batchId = '';
+    const run = jest.fn(async () => {
+      if (run.mock.calls.length === 2) {
+        await batchService.cancel(tenantId, batchId);
+      }
+      return { answer: 'ok' };
+    });
+
+    const { job, completion } = await batchService.submit(tenantId, 'user-1', [{}, {}, {}, {}], run, 1);
+    batchId = job.batchId;
+    const finished = await completion;
+
+    expect(finished).toEqual(expect.objectContaining({ status: 'cancelled', succeeded: 2 }));
+    expect(run).toHaveBeenCalledTimes(2);
+    await expect(batchService.cancel(tenantId, batchId)).resolves.toEqual(expect.objectContaining({ status: 'cancelled' }));
+  });
+
+  it('should hide batches from other tenants and list a user\'s own', async () => {
+    const { job, completion } = await batchService.submit(tenantId, 'user-1', [{}], async () => ({}));
+    await completion;
+    const other = await batchService.submit(tenantId, 'user-2', [{}], async () => ({}));
+    await other.completion;
+
+    await expect(batchService.getJob('other-tenant', job.batchId)).resolves.toBeNull();
+    await expect(batchService.listJobs(tenantId, 10, 'user-1')).resolves.toEqual([
+      expect.objectContaining({ batchId: job.batchId }),
+    ]);
+    await expect(batchService.listJobs(tenantId, 10)).resolves.toHaveLength(2);
+  });
+
+  it('should mark failed the batches left running by a replica that went away', async () => {
+    let finish: () => void = () => {};
+    const run = jest.fn(() => new Promise<Record<string, unknown>>((resolve) => {
+      finish = () => resolve({});
+    }));
+    const { job, completion } = await batchService.submit(tenantId, 'user-1', [{}], run, 1);
+
+    // A batch whose replica crashed: still listed as running, but its lease has expired
+    hashes['batch:orphan'] = { ...hashes[`batch:${job.batchId}`], batchId: 'orphan' };
+    members['batches:running'].add('orphan');
+
+    await expect(batchService.recoverInterrupted()).resolves.toBe(1);
+    await expect(batchService.getJob(tenantId, 'orphan')).resolves.toEqual(expect.objectContaining({
+      status: 'failed',
+      error: 'Interrupted by a server restart',
+    }));
+    expect(members['batches:running'].has('orphan')).toBe(false);
+
+    // The batch still running here keeps going
+    finish();
+    await expect(completion).resolves.toEqual(expect.objectContaining({ status: 'completed' }));
+    expect(members['batches:running'].size).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+jest.mock('../../src/config/redis');
+
+import collectionService, { MAX_COLLECTION_CHUNKS } from '../../src/services/collectionService';
+import redisClient from '../../src/config/redis';
+
+describe('CollectionService', () => {
+  let mockRedisClient: any;
+  let hashes: Record<string, Record<string, string | Buffer>>;
+  let counters: Record<string, number>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    hashes = {};
+    counters = {};
+    mockRedisClient = {
+      set: jest.fn(async (key: string, value: string, options?: { NX?: boolean }) => {
+        if (options?.NX && counters[key] !== undefined) {
+          return null;
+        }
+        counters[key] = Number(value);
+        return 'OK';
+      }),
+      incrBy: jest.fn(async (key: string, by: number) => (counters[key] = (counters[key] || 0) + by)),
+      decrBy: jest.fn(async (key: string, by: number) => (counters[key] = (counters[key] || 0) - by)),
+      hSet: jest.fn(async (key: string, field: string | Record<string, string | Buffer>, value?: string) => {
+        hashes[key] = { ...hashes[key], ...(typeof field === 'string' ? { [field]: value! } : field) };
+      }),
+      hSetNX: jest.fn(async (key: string, field: string, value: string) => {
+        if (hashes[key]?.[field] !== undefined) {
+          return false;
+        }
+        hashes[key] = { ...hashes[key], [field]: value };
+        return true;
+      }),
+      hGet: jest.fn(async (key: string, field: string) => hashes[key]?.[field] ?? null),
+      // Called with command options first when asking for Buffers
+      hGetAll: jest.fn(async (...args: any[]) => ({ ...hashes[args[args.length - 1]] })),
+      hmGet: jest.fn(async (key: string, fields: string[]) => fields.map((field) => hashes[key]?.[field] ?? null)),
+      hLen: jest.fn(async (key: string) => Object.keys(hashes[key] || {}).length),
+      hDel: jest.fn(async (key: string, fields: string | string[]) => {
+        let deleted = 0;
+        for (const field of Array.isArray(fields) ? fields : [fields]) {
+          if (hashes[key]?.[field] !== undefined) {
+            delete hashes[key][field];
+            deleted++;
+          }
+        }
+        return deleted;
+      }),
+      del: jest.fn(async (keys: string | string[]) => {
+        (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+          delete hashes[key];
+          delete counters[key];
+        });
+      }),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    collectionService.initialize();
+  });
+
+  const createHandbook = () => collectionService.createCollection(tenantId, 'handbook', {
+    embeddingModel: 'nomic-embed-text',
+  }, 'admin-1');
+
+  it('should create a collection once per name', async () => {
+    const collection = await createHandbook();
+
+    expect(collection).toEqual(expect.objectContaining({
+      name: 'handbook',
+      embeddingModel: 'nomic-embed-text',
+      chunkSize: 1000,
+      chunkOverlap: 150,
+      documentCount: 0,
+    }));
+    await expect(createHandbook()).resolves.toBeNull();
+    await expect(collectionService.listCollections(tenantId)).resolves.toHaveLength(1);
+  });
+
+  it('should find the chunks most similar to a question', async () => {
+    await createHandbook();
+    const document = await collectionService.addDocument(tenantId, 'handbook', { title: 'Accounts', characters: 60 }, [
+      { text: 'Reset links expire after an hour.', vector: [1, 0] },
+      { text: 'Support unlocks accounts.', vector: [0.6, 0.8] },
+      { text: 'The office is closed on Sundays.', vector: [0, 1] },
+    ], 'admin-1');
+
+    await expect(collectionService.getCollection(tenantId, 'handbook')).resolves.toEqual(expect.objectContaining({
+      documentCount: 1,
+      chunkCount: 3,
+    }));
+
+    const matches = await collectionService.searchExhaustive(tenantId, 'handbook', [1, 0.1], 2);
+    expect(matches.map((match) => match.text)).toEqual(['Reset links expire after an hour.', 'Support unlocks accounts.']);
+    expect(matches[0]).toEqual(expect.objectContaining({ documentId: document!.documentId, title: 'Accounts', chunk: 0 }));
+
+    const confident = await collectionService.searchExhaustive(tenantId, 'handbook', [1, 0.1], 2, 0.9);
+    expect(confident).toHaveLength(1);
+  });
+
+  it('should store embeddings as float32 apart from the texts and read only the best texts', async () => {
+    await createHandbook();
+    await collectionService.addDocument(tenantId, 'handbook', { title: 'Accounts', characters: 60 }, [
+      { text: 'Reset links expire after an hour.', vector: [1, 0] },
+      { text: 'The office is closed on Sundays.', vector: [0, 1] },
+    ], 'admin-1');
+
+    const vectors = hashes[`tenant:${tenantId}:collection:handbook:vectors`];
+    expect(Object.values(vectors).map((vector) => (vector as Buffer).length)).toEqual([8, 8]);
+    expect(Object.values(hashes[`tenant:${tenantId}:collection:handbook:chunks`])[0]).not.toContain('vector');
+
+    await collectionService.searchExhaustive(tenantId, 'handbook', [0, 1], 1);
+    expect(mockRedisClient.hmGet).toHaveBeenCalledWith(`tenant:${tenantId}:collection:handbook:chunks`, [expect.stringMatching(/:1$/)]);
+  });
+
+  it('should remove what it wrote when the collection is deleted during an upload', async () => {
+    await createHandbook();
+    const hSet = mockRedisClient.hSet.getMockImplementation();
+    // The collection goes away just before the chunks are written
+    mockRedisClient.hSet.mockImplementationOnce(async (...args: any[]) => {
+      await collectionService.deleteCollection(tenantId, 'handbook');
+      return hSet(...args);
+    });
+
+    const document = await collectionService.addDocument(tenantId, 'handbook', { title: 'Accounts', characters: 20 }, [
+      { text: 'Reset links expire after an hour.', vector: [1, 0] },
+    ], 'admin-1');
+
+    expect(document).toBeNull();
+    expect(hashes[`tenant:${tenantId}:collection:handbook:chunks`]).toEqual({});
+    expect(hashes[`tenant:${tenantId}:collection:handbook:vectors`]).toEqual({});
+    expect(hashes[`tenant:${tenantId}:collection:handbook:documents`]).toEqual({});
+  });
+
+  it('should remove a document with its chunks', async () => {
+    await createHandbook();
+    const document = await collectionService.addDocument(tenantId, 'handbook', { title: 'Accounts', characters: 20 }, [
+      { text: 'Reset links expire after an hour.', vector: [1, 0] },
+    ], 'admin-1');
+
+    await expect(collectionService.deleteDocument(tenantId, 'handbook', document!.documentId)).resolves.toBe(true);
+    expect(counters[`tenant:${tenantId}:collection:handbook:reserved-chunks`]).toBe(0);
+
+    await expect(collectionService.searchExhaustive(tenantId, 'handbook', [1, 0], 4)).resolves.toEqual([]);
+    await expect(collectionService.getCollection(tenantId, 'handbook')).resolves.toEqual(expect.objectContaining({
+      documentCount: 0,
+      chunkCount: 0,
+    }));
+    await expect(collectionService.deleteDocument(tenantId, 'handbook', document!.documentId)).resolves.toBe(false);
+  });
+
+  it('should reserve room for chunks so concurrent uploads cannot exceed the limit', async () => {
+    await createHandbook();
+    const key = `tenant:${tenantId}:collection:handbook:reserved-chunks`;
+    hashes[`tenant:${tenantId}:collection:handbook:chunks`] = { 'doc-1:0': '{}', 'doc-1:1': '{}' };
+
+    const reservations = await Promise.all([
+      collectionService.reserveChunks(tenantId, 'handbook', MAX_COLLECTION_CHUNKS - 10),
+      collectionService.reserveChunks(tenantId, 'handbook', 10),
+    ]);
+
+    expect(reservations).toEqual([true, false]);
+    expect(counters[key]).toBe(MAX_COLLECTION_CHUNKS - 8);
+
+    await collectionService.releaseChunks(tenantId, 'handbook', MAX_COLLECTION_CHUNKS - 10);
+    await expect(collectionService.reserveChunks(tenantId, 'handbook', 10)).resolves.toBe(true);
+    expect(counters[key]).toBe(12);
+  });
+
+  it('should keep collections apart between tenants', async () => {
+    await createHandbook();
+
+    await expect(collectionService.getCollection('other-tenant', 'handbook')).resolves.toBeNull();
+    await expect(collectionService.deleteCollection('other-tenant', 'handbook')).resolves.toBe(false);
+    await expect(collectionService.deleteCollection(tenantId, 'handbook')).resolves.toBe(true);
+  });
+});
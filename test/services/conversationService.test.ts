@@ -0,0 +1,129 @@
+jest.mock('../../src/config/redis');
+
+import conversationService from '../../src/services/conversationService';
+import redisClient from '../../src/config/redis';
+
+describe('ConversationService', () => {
+  let mockRedisClient: any;
+  let strings: Record<string, string>;
+  let lists: Record<string, string[]>;
+  let sortedSets: Record<string, Map<string, number>>;
+  const tenantId = 'tenant-123';
+  const userId = 'user-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    strings = {};
+    lists = {};
+    sortedSets = {};
+    const byScore = (key: string) => Array.from((sortedSets[key] || new Map()).entries())
+      .sort(([, a], [, b]) => a - b)
+      .map(([value]) => value);
+
+    mockRedisClient = {
+      get: jest.fn(async (key: string) => strings[key] ?? null),
+      set: jest.fn(async (key: string, value: string) => { strings[key] = value; }),
+      del: jest.fn(async (keys: string[]) => keys.reduce((count, key) => {
+        const existed = key in strings || key in lists;
+        delete strings[key];
+        delete lists[key];
+        return count + (existed ? 1 : 0);
+      }, 0)),
+      rPush: jest.fn(async (key: string, values: string[]) => {
+        lists[key] = [...(lists[key] || []), ...values];
+      }),
+      lRange: jest.fn(async (key: string) => lists[key] || []),
+      zAdd: jest.fn(async (key: string, { score, value }: { score: number; value: string }) => {
+        sortedSets[key] = sortedSets[key] || new Map();
+        sortedSets[key].set(value, score);
+      }),
+      zRem: jest.fn(async (key: string, value: string) => sortedSets[key]?.delete(value)),
+      zCard: jest.fn(async (key: string) => sortedSets[key]?.size || 0),
+      zRange: jest.fn(async (key: string, start: number, stop: number, options?: { REV?: boolean }) => {
+        const values = byScore(key);
+        return (options?.REV ? values.reverse() : values).slice(start, stop + 1);
+      }),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    conversationService.initialize();
+  });
+
+  it('should create a conversation scoped to the user', async () => {
+    const conversation = await conversationService.createConversation(tenantId, userId, {
+      systemPrompt: 'You are terse.',
+      model: 'llama2',
+    });
+
+    expect(conversation).toEqual(expect.objectContaining({
+      tenantId,
+      userId,
+      title: null,
+      model: 'llama2',
+      systemPrompt: 'You are terse.',
+      messageCount: 0,
+    }));
+    expect(strings[`tenant:${tenantId}:user:${userId}:conversation:${conversation.conversationId}`]).toBeDefined();
+    expect(await conversationService.getConversation(tenantId, 'user-2', conversation.conversationId)).toBeNull();
+  });
+
+  it('should append messages and title the thread after the first user message', async () => {
+    const { conversationId } = await conversationService.createConversation(tenantId, userId, {});
+
+    const updated = await conversationService.appendMessages(tenantId, userId, conversationId, [
+      { role: 'user', content: 'How do I reverse a list in Python?\nThanks', createdAt: '2024-01-15T10:30:00Z' },
+      { role: 'assistant', content: 'Use reversed().', createdAt: '2024-01-15T10:30:01Z', model: 'llama2' },
+    ]);
+
+    expect(updated).toEqual(expect.objectContaining({
+      title: 'How do I reverse a list in Python?',
+      messageCount: 2,
+    }));
+
+    const thread = await conversationService.getConversationWithMessages(tenantId, userId, conversationId);
+    expect(thread?.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('should list conversations most recently updated first', async () => {
+    const first = await conversationService.createConversation(tenantId, userId, { title: 'First' });
+    const second = await conversationService.createConversation(tenantId, userId, { title: 'Second' });
+    sortedSets[`tenant:${tenantId}:user:${userId}:conversations`].set(first.conversationId, Date.now() + 1000);
+
+    const page = await conversationService.listConversations(tenantId, userId, 1, 0);
+
+    expect(page.total).toBe(2);
+    expect(page.conversations.map((conversation) => conversation.title)).toEqual(['First']);
+    expect((await conversationService.listConversations(tenantId, userId, 10, 1)).conversations[0].conversationId)
+      .toBe(second.conversationId);
+  });
+
+  it('should update and clear thread fields', async () => {
+    const { conversationId } = await conversationService.createConversation(tenantId, userId, {
+      model: 'llama2',
+      systemPrompt: 'Be terse.',
+    });
+
+    const updated = await conversationService.updateConversation(tenantId, userId, conversationId, {
+      title: 'Renamed',
+      systemPrompt: null,
+    });
+
+    expect(updated?.title).toBe('Renamed');
+    expect(updated?.model).toBe('llama2');
+    expect(updated).not.toHaveProperty('systemPrompt');
+  });
+
+  it('should delete the thread, its messages and its index entry', async () => {
+    const { conversationId } = await conversationService.createConversation(tenantId, userId, {});
+    await conversationService.appendMessages(tenantId, userId, conversationId, [
+      { role: 'user', content: 'Hi', createdAt: '2024-01-15T10:30:00Z' },
+    ]);
+
+    await expect(conversationService.deleteConversation(tenantId, userId, conversationId)).resolves.toBe(true);
+    await expect(conversationService.deleteConversation(tenantId, userId, conversationId)).resolves.toBe(false);
+    expect(lists).toEqual({});
+    expect((await conversationService.listConversations(tenantId, userId, 10, 0)).total).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/ollamaService');
+
+import modelAdminService from '../../src/services/modelAdminService';
+import ollamaService from '../../src/services/ollamaService';
+import redisClient from '../../src/config/redis';
+
+describe('ModelAdminService', () => {
+  let mockRedisClient: any;
+  let store: Record<string, string>;
+  let lists: Record<string, string[]>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    store = {};
+    lists = {};
+    mockRedisClient = {
+      get: jest.fn(async (key: string) => store[key] ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        store[key] = value;
+      }),
+      lPush: jest.fn(async (key: string, value: string) => {
+        lists[key] = [value, ...(lists[key] || [])];
+      }),
+      lTrim: jest.fn(),
+      lRange: jest.fn(async (key: string, start: number, stop: number) => (lists[key] || []).slice(start, stop + 1)),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    modelAdminService.initialize();
+  });
+
+  it('should track a pull as a job and record the action', async () => {
+    (ollamaService.pullModel as jest.Mock).mockImplementation(async (_model, _tenantId, onProgress) => {
+      onProgress({ status: 'pulling 6a0746a1ec1a', digest: 'sha256:6a07', total: 100, completed: 100 });
+    });
+    const onProgress = jest.fn();
+
+    const { job, completion } = await modelAdminService.startPull(tenantId, 'user-1', 'llama3.1:8b', false, onProgress);
+    expect(job.status).toBe('running');
+    expect(mockRedisClient.set).toHaveBeenCalledWith(`model-pull:${job.jobId}`, expect.any(String), { EX: 86400 });
+
+    const finished = await completion;
+
+    expect(finished.status).toBe('completed');
+    expect(finished.progress).toEqual(expect.objectContaining({ completed: 100 }));
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    await expect(modelAdminService.getJob(tenantId, job.jobId)).resolves.toEqual(finished);
+    await expect(modelAdminService.listActions(tenantId, 10)).resolves.toEqual([
+      expect.objectContaining({ action: 'pull', model: 'llama3.1:8b', userId: 'user-1', jobId: job.jobId }),
+    ]);
+  });
+
+  it('should mark the job failed when the pull fails', async () => {
+    (ollamaService.pullModel as jest.Mock).mockRejectedValue(new Error('Ollama pull failed: file does not exist'));
+
+    const { completion } = await modelAdminService.startPull(tenantId, 'user-1', 'nope');
+    const finished = await completion;
+
+    expect(finished.status).toBe('failed');
+    expect(finished.error).toBe('Ollama pull failed: file does not exist');
+  });
+
+  it('should hide jobs from other tenants', async () => {
+    (ollamaService.pullModel as jest.Mock).mockResolvedValue(undefined);
+
+    const { job, completion } = await modelAdminService.startPull(tenantId, 'user-1', 'llama2');
+    await completion;
+
+    await expect(modelAdminService.getJob('other-tenant', job.jobId)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+import { AxiosError } from 'axios';
+import { OllamaPool, isRetryableError, normalizeModelName, parseBackends, parseMaxConcurrent } from '../../src/services/ollamaPool';
+
+describe('OllamaPool', () => {
+  const connectionError = () => new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED');
+  const httpError = (status: number) => new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_RESPONSE',
+    undefined,
+    undefined,
+    { status } as any
+  );
+
+  describe('parseBackends', () => {
+    it('should fall back to the single URL when no backends are configured', () => {
+      expect(parseBackends(undefined, 'http://localhost:11434')).toEqual([
+        { url: 'http://localhost:11434', weight: 1 },
+      ]);
+    });
+
+    it('should parse URLs with optional weights', () => {
+      expect(parseBackends('http://a:11434/|3, http://b:11434,http://c:11434|x', 'http://unused')).toEqual([
+        { url: 'http://a:11434', weight: 3 },
+        { url: 'http://b:11434', weight: 1 },
+        { url: 'http://c:11434', weight: 1 },
+      ]);
+    });
+  });
+
+  describe('parseMaxConcurrent', () => {
+    it('should default to 4 and accept 0 for no cap', () => {
+      expect(parseMaxConcurrent(undefined)).toBe(4);
+      expect(parseMaxConcurrent('0')).toBe(0);
+      expect(parseMaxConcurrent('8')).toBe(8);
+      expect(parseMaxConcurrent('lots')).toBe(4);
+    });
+  });
+
+  describe('normalizeModelName', () => {
+    it('should add the implicit latest tag', () => {
+      expect(normalizeModelName('llama2')).toBe('llama2:latest');
+      expect(normalizeModelName('llama2:13b')).toBe('llama2:13b');
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry connection failures, server errors and missing models only', () => {
+      expect(isRetryableError(connectionError())).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(httpError(404))).toBe(true);
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('select', () => {
+    it('should spread requests by weight with round-robin', () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 2 },
+        { url: 'http://b', weight: 1 },
+      ]);
+
+      const picks = Array.from({ length: 6 }, () => pool.select()!.url);
+
+      expect(picks.filter((url) => url === 'http://a')).toHaveLength(4);
+      expect(picks.filter((url) => url === 'http://b')).toHaveLength(2);
+      // Smooth: never three in a row for a 2:1 split
+      expect(picks.join(',')).not.toContain('http://a,http://a,http://a');
+    });
+
+    it('should pick the backend with the fewest in-flight requests per weight', () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 2 },
+      ], 'least-inflight');
+      const [a, b] = pool.getBackends();
+      a.inflight = 1;
+      b.inflight = 3;
+
+      expect(pool.select()).toBe(a);
+
+      b.inflight = 1;
+      expect(pool.select()).toBe(b);
+    });
+
+    it('should prefer healthy backends that have the model', () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 5 },
+        { url: 'http://b', weight: 1 },
+        { url: 'http://c', weight: 1 },
+      ]);
+      const [a, b, c] = pool.getBackends();
+      a.models = new Set(['mistral:latest']);
+      b.models = new Set(['llama2:latest']);
+      c.models = new Set(['llama2:latest']);
+      c.healthy = false;
+
+      expect(pool.select('llama2')).toBe(b);
+      expect(pool.select('llama2:latest')).toBe(b);
+    });
+
+    it('should pass over backends at their concurrency cap while others have room', () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 5 },
+        { url: 'http://b', weight: 1 },
+      ], 'round-robin', undefined, 2);
+      const [a, b] = pool.getBackends();
+      a.inflight = 2;
+
+      expect(pool.select()).toBe(b);
+      expect(pool.select()).toBe(b);
+
+      b.inflight = 2;
+      expect(pool.select()).not.toBeNull();
+    });
+
+    it('should apply the concurrency cap among the backends that have the model', () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+        { url: 'http://c', weight: 1 },
+      ], 'round-robin', undefined, 2);
+      const [a, b, c] = pool.getBackends();
+      a.models = new Set(['llama2:latest']);
+      b.models = new Set(['llama2:latest']);
+      c.models = new Set(['mistral:latest']);
+      a.inflight = 2;
+
+      expect(pool.select('llama2')).toBe(b);
+
+      b.inflight = 2;
+      expect(pool.select('llama2')).not.toBe(c);
+    });
+
+    it('should fall back to any healthy backend, then unhealthy ones', () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+      ]);
+      const [a, b] = pool.getBackends();
+      a.models = new Set(['mistral:latest']);
+      b.healthy = false;
+
+      expect(pool.select('llama2')).toBe(a);
+      expect(pool.select('llama2', new Set([a]))).toBe(b);
+      expect(pool.select('llama2', new Set([a, b]))).toBeNull();
+    });
+  });
+
+  describe('run', () => {
+    it('should retry on another backend and mark the failed one unhealthy', async () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+      ]);
+      const [a, b] = pool.getBackends();
+      const operation = jest.fn(async (backend) => {
+        if (backend === a) throw connectionError();
+        return backend.url;
+      });
+
+      await expect(pool.run('llama2', operation)).resolves.toBe('http://b');
+
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(a.healthy).toBe(false);
+      expect(b.healthy).toBe(true);
+      expect(a.inflight).toBe(0);
+      expect(b.inflight).toBe(0);
+    });
+
+    it('should fail over when a backend lacks the model without marking it unhealthy', async () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+      ]);
+      const [a, b] = pool.getBackends();
+      a.models = new Set(['llama2:latest']);
+      const operation = jest.fn(async (backend) => {
+        if (backend === a) throw httpError(404);
+        return backend.url;
+      });
+
+      await expect(pool.run('llama2', operation)).resolves.toBe('http://b');
+
+      expect(a.healthy).toBe(true);
+      expect(a.models.has('llama2:latest')).toBe(false);
+      expect(b.healthy).toBe(true);
+    });
+
+    it('should not retry errors that are not retryable', async () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+      ]);
+      const operation = jest.fn().mockRejectedValue(httpError(400));
+
+      await expect(pool.run('llama2', operation)).rejects.toThrow('status code 400');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up with the last error once every backend failed', async () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+      ]);
+      const operation = jest.fn().mockRejectedValue(httpError(503));
+
+      await expect(pool.run('llama2', operation)).rejects.toThrow('status code 503');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should record health and loaded models per backend', async () => {
+      const pool = new OllamaPool([
+        { url: 'http://a', weight: 1 },
+        { url: 'http://b', weight: 1 },
+      ]);
+      const [a, b] = pool.getBackends();
+      a.client.get = jest.fn().mockResolvedValue({ data: { models: [{ name: 'llama2:latest' }, { name: 'mistral' }] } });
+      b.client.get = jest.fn().mockRejectedValue(connectionError());
+
+      await expect(pool.refresh()).resolves.toBe(true);
+
+      expect(pool.getStatus()).toEqual([
+        expect.objectContaining({ url: 'http://a', healthy: true, models: ['llama2:latest', 'mistral:latest'] }),
+        expect.objectContaining({ url: 'http://b', healthy: false, models: null }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+describe('OllamaService', () => {
+  const servers: http.Server[] = [];
+
+  // Local stand-in for an Ollama host
+  const startBackend = async (handler: http.RequestListener): Promise<string> => {
+    const server = http.createServer(handler);
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const loadService = (backends: string[]) => {
+    process.env.OLLAMA_BACKENDS = backends.join(',');
+    let service: any;
+    jest.isolateModules(() => {
+      service = require('../../src/services/ollamaService').default;
+    });
+    return service;
+  };
+
+  const chunk = (content: string, done = false) => JSON.stringify({
+    model: 'llama2',
+    created_at: '2024-01-15T10:30:00Z',
+    message: { role: 'assistant', content },
+    done,
+  }) + '\n';
+
+  afterEach(async () => {
+    delete process.env.OLLAMA_BACKENDS;
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(resolve);
+    })));
+  });
+
+  it('should fail over to another backend when one is down', async () => {
+    const failing = await startBackend((_req, res) => {
+      res.writeHead(503);
+      res.end();
+    });
+    const working = await startBackend((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(chunk('Hi', true));
+    });
+    const service = loadService([failing, working]);
+
+    const response = await service.chat({ model: 'llama2', messages: [{ role: 'user', content: 'Hello' }] }, 'tenant-1');
+
+    expect(response.message.content).toBe('Hi');
+    expect(service.getBackendStatus()).toEqual([
+      expect.objectContaining({ url: failing, healthy: false }),
+      expect.objectContaining({ url: working, healthy: true }),
+    ]);
+  });
+
+  it('should retry a stream that failed before any tokens were sent', async () => {
+    const failing = await startBackend((_req, res) => {
+      res.writeHead(500);
+      res.end();
+    });
+    const working = await startBackend((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(chunk('Hel'));
+      res.end(chunk('lo', true));
+    });
+    const service = loadService([failing, working]);
+    const chunks: string[] = [];
+
+    await service.streamChat(
+      { model: 'llama2', messages: [{ role: 'user', content: 'Hello' }] },
+      'tenant-1',
+      (data: any) => chunks.push(data.message.content)
+    );
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('should not retry a stream that broke after tokens were sent', async () => {
+    const requests: string[] = [];
+    const breaking = await startBackend((_req, res) => {
+      requests.push('breaking');
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(chunk('Hel'), () => res.destroy());
+    });
+    const other = await startBackend((_req, res) => {
+      requests.push('other');
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.end(chunk('Hello', true));
+    });
+    const service = loadService([breaking, other]);
+    const chunks: string[] = [];
+
+    await expect(service.streamChat(
+      { model: 'llama2', messages: [{ role: 'user', content: 'Hello' }] },
+      'tenant-1',
+      (data: any) => chunks.push(data.message.content)
+    )).rejects.toThrow();
+
+    expect(chunks).toEqual(['Hel']);
+    expect(requests).toEqual(['breaking']);
+  });
+
+  it('should merge model lists across backends', async () => {
+    const model = (name: string) => ({ name, size: 1, modified_at: '2024-01-15T10:30:00Z' });
+    const a = await startBackend((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ models: [model('llama2:latest'), model('mistral:latest')] }));
+    });
+    const b = await startBackend((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ models: [model('llama2:latest'), model('codellama:latest')] }));
+    });
+    const service = loadService([a, b, 'http://127.0.0.1:1']);
+
+    const result = await service.listModels();
+
+    expect(result.models.map((entry: any) => entry.name)).toEqual(['llama2:latest', 'mistral:latest', 'codellama:latest']);
+    await expect(service.checkHealth()).resolves.toBe(true);
+  });
+
+  it('should read the context window from the model and cache it', async () => {
+    let calls = 0;
+    const backend = await startBackend((_req, res) => {
+      calls++;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        parameters: 'stop "[INST]"\nnum_ctx 8192',
+        model_info: { 'llama.context_length': 4096 },
+      }));
+    });
+    const service = loadService([backend]);
+
+    await expect(service.getContextLength('llama2')).resolves.toBe(8192);
+    await expect(service.getContextLength('llama2')).resolves.toBe(8192);
+    expect(calls).toBe(1);
+  });
+
+  it('should pull a model onto every backend and report progress', async () => {
+    const pulled: string[] = [];
+    const handler = (name: string): http.RequestListener => (req, res) => {
+      if (req.url === '/api/pull') {
+        pulled.push(name);
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write(JSON.stringify({ status: 'pulling manifest' }) + '\n');
+        res.end(JSON.stringify({ status: 'success' }) + '\n');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ models: [] }));
+    };
+    const a = await startBackend(handler('a'));
+    const b = await startBackend(handler('b'));
+    const service = loadService([a, b]);
+    const progress: any[] = [];
+
+    await service.pullModel('llama3.1:8b', 'tenant-1', (line: any) => progress.push(line));
+
+    expect(pulled).toEqual(['a', 'b']);
+    expect(progress).toEqual([
+      { status: 'pulling manifest', backend: a },
+      { status: 'success', backend: a },
+      { status: 'pulling manifest', backend: b },
+      { status: 'success', backend: b },
+    ]);
+  });
+
+  it('should fail a pull that Ollama reports as failed in the stream', async () => {
+    const backend = await startBackend((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.end(JSON.stringify({ error: 'pull model manifest: file does not exist' }) + '\n');
+    });
+    const service = loadService([backend]);
+
+    await expect(service.pullModel('nope', 'tenant-1', () => undefined))
+      .rejects.toThrow('Ollama pull failed: pull model manifest: file does not exist');
+  });
+
+  it('should delete a model from the backends that have it', async () => {
+    const handler = (has: boolean): http.RequestListener => (req, res) => {
+      if (req.url === '/api/delete') {
+        res.writeHead(has ? 200 : 404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ models: [] }));
+    };
+    const a = await startBackend(handler(true));
+    const b = await startBackend(handler(false));
+    const service = loadService([a, b]);
+
+    await expect(service.deleteModel('llama2')).resolves.toBe(true);
+
+    const missing = loadService([b]);
+    await expect(missing.deleteModel('llama2')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,290 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../../src/services/openaiProvider';
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+  let respond: (req: http.IncomingMessage, res: http.ServerResponse, body: any) => void;
+
+  // Local stand-in for an OpenAI-compatible API
+  beforeEach(async () => {
+    process.env.PROVIDER_ALLOWED_HOSTS = '127.0.0.1';
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        respond(req, res, body);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    delete process.env.PROVIDER_ALLOWED_HOSTS;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createProvider = () => new OpenAICompatibleProvider({ name: 'acme', baseUrl, apiKey: 'sk-test' });
+
+  const json = (res: http.ServerResponse, status: number, data: object) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+
+  it('should translate chat requests and responses', async () => {
+    respond = (_req, res) => json(res, 200, {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1705314600,
+      model: 'gpt-4o-mini',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hi!' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+
+    const response = await createProvider().chat({
+      model: 'acme/gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+      options: { temperature: 0.2, num_predict: 3, top_k: 40 },
+    }, 'tenant-1');
+
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+      temperature: 0.2,
+      max_tokens: 3,
+      stream: false,
+    });
+    expect(response).toEqual({
+      model: 'acme/gpt-4o-mini',
+      created_at: '2024-01-15T10:30:00.000Z',
+      message: { role: 'assistant', content: 'Hi!' },
+      done: true,
+      done_reason: 'length',
+      prompt_eval_count: 12,
+      eval_count: 3,
+    });
+  });
+
+  it('should relay streamed deltas and finish with a usage chunk', async () => {
+    respond = (_req, res) => {
+      const event = (data: object | string) => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+      const chunk = (delta: object, finishReason: string | null = null) => ({
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1705314600,
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(event(chunk({ role: 'assistant', content: '' })));
+      res.write(event(chunk({ content: 'Hel' })));
+      res.write(event(chunk({ content: 'lo' })));
+      res.write(event(chunk({}, 'stop')));
+      res.write(event({ ...chunk({}), choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } }));
+      res.end(event('[DONE]'));
+    };
+    const chunks: any[] = [];
+
+    await createProvider().streamChat(
+      { model: 'acme/gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }] },
+      'tenant-1',
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(requests[0].body).toEqual(expect.objectContaining({
+      model: 'gpt-4o-mini',
+      stream: true,
+      stream_options: { include_usage: true },
+    }));
+    expect(chunks.map((chunk) => chunk.message.content)).toEqual(['Hel', 'lo', '']);
+    expect(chunks[2]).toEqual(expect.objectContaining({
+      model: 'acme/gpt-4o-mini',
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: 5,
+      eval_count: 2,
+    }));
+  });
+
+  it('should translate tool definitions, calls and results', async () => {
+    const tools = [{ type: 'function' as const, function: { name: 'get_weather', parameters: { type: 'object' } } }];
+    respond = (_req, res) => json(res, 200, {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1705314600,
+      model: 'gpt-4o-mini',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_abc', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } }],
+        },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 40, completion_tokens: 9, total_tokens: 49 },
+    });
+
+    const response = await createProvider().chat({
+      model: 'acme/gpt-4o-mini',
+      tools,
+      messages: [
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { function: { name: 'get_weather', arguments: { city: 'Paris' } } },
+            { function: { name: 'lookup', arguments: {} } },
+          ],
+        },
+        { role: 'tool', content: 'n/a', tool_name: 'lookup' },
+        { role: 'tool', content: '18', tool_name: 'get_weather' },
+      ],
+    }, 'tenant-1');
+
+    expect(requests[0].body.tools).toEqual(tools);
+    expect(requests[0].body.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'call_1_0', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+          { id: 'call_1_1', type: 'function', function: { name: 'lookup', arguments: '{}' } },
+        ],
+      },
+      { role: 'tool', content: 'n/a', tool_call_id: 'call_1_1' },
+      { role: 'tool', content: '18', tool_call_id: 'call_1_0' },
+    ]);
+    expect(response.message).toEqual({
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Rome' } } }],
+    });
+  });
+
+  it('should send images as data URL content parts', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).toString('base64');
+    respond = (_req, res) => json(res, 200, {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1705314600,
+      model: 'gpt-4o-mini',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'A pixel.' }, finish_reason: 'stop' }],
+    });
+
+    await createProvider().chat({
+      model: 'acme/gpt-4o-mini',
+      messages: [{ role: 'user', content: 'What is this?', images: [png] }],
+    }, 'tenant-1');
+
+    expect(requests[0].body.messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: `data:image/png;base64,${png}` } },
+      ],
+    }]);
+  });
+
+  it('should assemble streamed tool call fragments', async () => {
+    respond = (_req, res) => {
+      const event = (data: object | string) => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+      const chunk = (delta: object, finishReason: string | null = null) => ({
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1705314600,
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(event(chunk({
+        role: 'assistant',
+        tool_calls: [{ index: 0, id: 'call_abc', type: 'function', function: { name: 'get_weather', arguments: '' } }],
+      })));
+      res.write(event(chunk({ tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] })));
+      res.write(event(chunk({ tool_calls: [{ index: 0, function: { arguments: '"Rome"}' } }] })));
+      res.write(event(chunk({}, 'tool_calls')));
+      res.end(event('[DONE]'));
+    };
+    const chunks: any[] = [];
+
+    await createProvider().streamChat(
+      { model: 'acme/gpt-4o-mini', messages: [{ role: 'user', content: 'Weather in Rome?' }] },
+      'tenant-1',
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].message.tool_calls).toEqual([{ function: { name: 'get_weather', arguments: { city: 'Rome' } } }]);
+    expect(chunks[0].done).toBe(false);
+    expect(chunks[1].done).toBe(true);
+  });
+
+  it('should translate embedding responses into input order', async () => {
+    respond = (_req, res) => json(res, 200, {
+      object: 'list',
+      model: 'text-embedding-3-small',
+      data: [
+        { object: 'embedding', index: 1, embedding: [0.3, 0.4] },
+        { object: 'embedding', index: 0, embedding: [0.1, 0.2] },
+      ],
+      usage: { prompt_tokens: 6, total_tokens: 6 },
+    });
+
+    const response = await createProvider().embed({ model: 'acme/text-embedding-3-small', input: ['a', 'b'] }, 'tenant-1');
+
+    expect(requests[0].url).toBe('/v1/embeddings');
+    expect(requests[0].body).toEqual({ model: 'text-embedding-3-small', input: ['a', 'b'] });
+    expect(response).toEqual({
+      model: 'acme/text-embedding-3-small',
+      embeddings: [[0.1, 0.2], [0.3, 0.4]],
+      prompt_eval_count: 6,
+    });
+  });
+
+  it('should list models under the provider name', async () => {
+    respond = (_req, res) => json(res, 200, {
+      object: 'list',
+      data: [{ id: 'gpt-4o-mini', object: 'model', created: 1705314600, owned_by: 'acme' }],
+    });
+
+    const result = await createProvider().listModels();
+
+    expect(result.models).toEqual([
+      { name: 'acme/gpt-4o-mini', size: 0, modified_at: '2024-01-15T10:30:00.000Z' },
+    ]);
+    await expect(createProvider().checkHealth()).resolves.toBe(true);
+  });
+
+  it('should surface upstream failures', async () => {
+    respond = (_req, res) => json(res, 401, { error: { message: 'Invalid API key' } });
+
+    await expect(createProvider().chat({
+      model: 'acme/gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+    }, 'tenant-1')).rejects.toThrow('acme request failed: Request failed with status code 401');
+    await expect(createProvider().checkHealth()).resolves.toBe(false);
+  });
+
+  it('should refuse private addresses the operator has not allowed', async () => {
+    delete process.env.PROVIDER_ALLOWED_HOSTS;
+
+    await expect(createProvider().chat({
+      model: 'acme/gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+    }, 'tenant-1')).rejects.toThrow('Provider host 127.0.0.1 is a private address');
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,118 @@
+jest.mock('../../src/config/redis');
+
+import promptService, { extractVariables, renderMessages } from '../../src/services/promptService';
+import redisClient from '../../src/config/redis';
+
+describe('PromptService', () => {
+  let mockRedisClient: any;
+  let lists: Record<string, string[]>;
+  let sets: Record<string, Set<string>>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    lists = {};
+    sets = {};
+    mockRedisClient = {
+      rPush: jest.fn(async (key: string, value: string) => {
+        lists[key] = [...(lists[key] || []), value];
+        return lists[key].length;
+      }),
+      lIndex: jest.fn(async (key: string, index: number) => (lists[key] || []).at(index) ?? null),
+      lLen: jest.fn(async (key: string) => (lists[key] || []).length),
+      lRange: jest.fn(async (key: string) => lists[key] || []),
+      del: jest.fn(async (key: string) => {
+        const existed = key in lists;
+        delete lists[key];
+        return existed ? 1 : 0;
+      }),
+      sAdd: jest.fn(async (key: string, value: string) => {
+        sets[key] = sets[key] || new Set();
+        sets[key].add(value);
+      }),
+      sRem: jest.fn(async (key: string, value: string) => sets[key]?.delete(value)),
+      sMembers: jest.fn(async (key: string) => Array.from(sets[key] || [])),
+      // Queues the commands above and runs them in order on exec
+      multi: jest.fn(() => {
+        const queued: Array<() => Promise<unknown>> = [];
+        const transaction: any = {
+          exec: jest.fn(async () => {
+            const replies = [];
+            for (const command of queued) {
+              replies.push(await command());
+            }
+            return replies;
+          }),
+        };
+        for (const name of ['rPush', 'del', 'sAdd', 'sRem']) {
+          transaction[name] = (...args: any[]) => {
+            queued.push(() => mockRedisClient[name](...args));
+            return transaction;
+          };
+        }
+        return transaction;
+      }),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    promptService.initialize();
+  });
+
+  describe('templating', () => {
+    const messages = [
+      { role: 'system' as const, content: 'You answer questions about {{ product }} in {{language}}.' },
+      { role: 'user' as const, content: 'My plan is {{plan}}. Language: {{language}}' },
+    ];
+
+    it('should list each placeholder once', () => {
+      expect(extractVariables(messages)).toEqual(['product', 'language', 'plan']);
+    });
+
+    it('should fill in placeholders and leave unknown ones alone', () => {
+      expect(renderMessages(messages, { product: 'Acme', language: 'French', unused: true })).toEqual([
+        { role: 'system', content: 'You answer questions about Acme in French.' },
+        { role: 'user', content: 'My plan is {{plan}}. Language: French' },
+      ]);
+    });
+  });
+
+  it('should add a version on every save and keep the old ones', async () => {
+    const first = await promptService.saveTemplate(tenantId, 'support', {
+      messages: [{ role: 'system', content: 'Help with {{product}}.' }],
+    }, 'admin-1');
+    const second = await promptService.saveTemplate(tenantId, 'support', {
+      description: 'Friendlier',
+      messages: [{ role: 'system', content: 'Kindly help with {{product}}.' }],
+    }, 'admin-1');
+
+    expect(first).toEqual(expect.objectContaining({ name: 'support', version: 1, variables: ['product'], createdBy: 'admin-1' }));
+    expect(second.version).toBe(2);
+
+    expect((await promptService.getTemplate(tenantId, 'support'))?.description).toBe('Friendlier');
+    expect((await promptService.getTemplate(tenantId, 'support', 1))?.messages[0].content).toBe('Help with {{product}}.');
+    expect(await promptService.getTemplate(tenantId, 'support', 3)).toBeNull();
+    expect((await promptService.listVersions(tenantId, 'support')).map((template) => template.version)).toEqual([1, 2]);
+  });
+
+  it('should list the latest version of each template by name', async () => {
+    await promptService.saveTemplate(tenantId, 'support', { messages: [{ role: 'system', content: 'v1' }] }, 'admin-1');
+    await promptService.saveTemplate(tenantId, 'support', { messages: [{ role: 'system', content: 'v2' }] }, 'admin-1');
+    await promptService.saveTemplate(tenantId, 'billing', { messages: [{ role: 'system', content: 'Billing' }] }, 'admin-1');
+
+    const templates = await promptService.listTemplates(tenantId);
+
+    expect(templates.map((template) => [template.name, template.version])).toEqual([['billing', 1], ['support', 2]]);
+  });
+
+  it('should delete every version', async () => {
+    await promptService.saveTemplate(tenantId, 'support', { messages: [{ role: 'system', content: 'v1' }] }, 'admin-1');
+
+    await expect(promptService.deleteTemplate(tenantId, 'support')).resolves.toBe(true);
+    await expect(promptService.deleteTemplate(tenantId, 'support')).resolves.toBe(false);
+    expect(await promptService.listTemplates(tenantId)).toEqual([]);
+    // Save and both deletes each write the list and the index in one transaction
+    expect(mockRedisClient.multi).toHaveBeenCalledTimes(3);
+  });
+});
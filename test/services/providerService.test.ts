@@ -0,0 +1,103 @@
+jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/openaiProvider');
+
+import providerService from '../../src/services/providerService';
+import ollamaService from '../../src/services/ollamaService';
+import { OpenAICompatibleProvider } from '../../src/services/openaiProvider';
+import { encryptSecret, isEncrypted, decryptSecret } from '../../src/utils/secrets';
+import { TenantSettings } from '../../src/types';
+
+describe('ProviderService', () => {
+  const settings: TenantSettings = {
+    providers: {
+      acme: { baseUrl: 'https://llm.acme.test/v1', apiKey: encryptSecret('sk-acme') },
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getProvider', () => {
+    it('should route provider/model names to the configured provider with the decrypted key', () => {
+      const provider = providerService.getProvider(settings, 'acme/gpt-4o-mini');
+
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(OpenAICompatibleProvider).toHaveBeenCalledWith({
+        name: 'acme',
+        baseUrl: 'https://llm.acme.test/v1',
+        apiKey: 'sk-acme',
+      });
+    });
+
+    it('should send everything else to Ollama', () => {
+      expect(providerService.getProvider(settings, 'llama2')).toBe(ollamaService);
+      expect(providerService.getProvider(settings, 'library/llama2')).toBe(ollamaService);
+      expect(providerService.getProvider({}, 'acme/gpt-4o-mini')).toBe(ollamaService);
+      expect(providerService.getProviderName(settings, 'acme/gpt-4o-mini')).toBe('acme');
+      expect(providerService.getProviderName(settings, 'llama2')).toBe('ollama');
+    });
+  });
+
+  describe('listModels', () => {
+    it('should combine Ollama and provider models, skipping failing providers', async () => {
+      (ollamaService.listModels as jest.Mock).mockResolvedValue({
+        models: [{ name: 'llama2:latest', size: 1, modified_at: '2024-01-15T10:30:00Z' }],
+      });
+      (OpenAICompatibleProvider as jest.Mock)
+        .mockImplementationOnce(() => ({
+          name: 'acme',
+          listModels: jest.fn().mockResolvedValue({
+            models: [{ name: 'acme/gpt-4o-mini', size: 0, modified_at: '2024-01-15T10:30:00Z' }],
+          }),
+        }))
+        .mockImplementationOnce(() => ({
+          name: 'broken',
+          listModels: jest.fn().mockRejectedValue(new Error('down')),
+        }));
+
+      const models = await providerService.listModels({
+        providers: {
+          acme: { baseUrl: 'https://llm.acme.test/v1' },
+          broken: { baseUrl: 'https://broken.test/v1' },
+        },
+      });
+
+      expect(models.map((model) => model.name)).toEqual(['llama2:latest', 'acme/gpt-4o-mini']);
+    });
+  });
+
+  describe('sealProviders', () => {
+    it('should encrypt new keys and keep stored ones when omitted', () => {
+      const sealed = providerService.sealProviders(
+        {
+          acme: { baseUrl: 'https://llm.acme.test/v2' },
+          other: { baseUrl: 'https://other.test/v1', apiKey: 'sk-other' },
+        },
+        settings.providers
+      );
+
+      expect(sealed.acme).toEqual({ baseUrl: 'https://llm.acme.test/v2', apiKey: settings.providers!.acme.apiKey });
+      expect(isEncrypted(sealed.other.apiKey!)).toBe(true);
+      expect(decryptSecret(sealed.other.apiKey!)).toBe('sk-other');
+    });
+  });
+
+  describe('redactSettings', () => {
+    it('should replace API keys with a flag', () => {
+      expect(providerService.redactSettings({
+        models: { default: 'llama2' },
+        providers: {
+          acme: settings.providers!.acme,
+          local: { baseUrl: 'http://vllm:8000/v1' },
+        },
+      })).toEqual({
+        models: { default: 'llama2' },
+        providers: {
+          acme: { baseUrl: 'https://llm.acme.test/v1', hasApiKey: true },
+          local: { baseUrl: 'http://vllm:8000/v1', hasApiKey: false },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+jest.mock('../../src/config/redis');
+
+import quotaService from '../../src/services/quotaService';
+import redisClient from '../../src/config/redis';
+
+describe('QuotaService', () => {
+  let mockRedisClient: any;
+  let store: Record<string, string>;
+  const tenantId = 'tenant-123';
+  const userId = 'user-456';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.QUOTA_REQUESTS_PER_MINUTE;
+    delete process.env.QUOTA_TOKENS_PER_DAY;
+    delete process.env.QUOTA_TOKENS_PER_MONTH;
+
+    // In-memory stand-in for the Redis commands the service uses
+    store = {};
+    mockRedisClient = {
+      get: jest.fn(async (key: string) => store[key] ?? null),
+      set: jest.fn(async (key: string, value: string) => { store[key] = value; }),
+      del: jest.fn(async (key: string) => { delete store[key]; }),
+      incr: jest.fn(async (key: string) => {
+        store[key] = String((Number(store[key]) || 0) + 1);
+        return Number(store[key]);
+      }),
+      incrBy: jest.fn(async (key: string, amount: number) => {
+        store[key] = String((Number(store[key]) || 0) + amount);
+        return Number(store[key]);
+      }),
+      expire: jest.fn().mockResolvedValue(true),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    quotaService.initialize();
+  });
+
+  describe('limits', () => {
+    it('should fall back to environment defaults when the tenant has no quota', async () => {
+      process.env.QUOTA_REQUESTS_PER_MINUTE = '30';
+
+      const limits = await quotaService.getTenantLimits(tenantId);
+
+      expect(limits).toEqual({ requestsPerMinute: 30, tokensPerDay: undefined, tokensPerMonth: undefined });
+    });
+
+    it('should store tenant limits next to the tenant key', async () => {
+      await quotaService.setTenantLimits(tenantId, { tokensPerDay: 1000 });
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(`tenant:${tenantId}:quota`, JSON.stringify({ tokensPerDay: 1000 }));
+      expect(await quotaService.getTenantLimits(tenantId)).toEqual({ tokensPerDay: 1000 });
+    });
+  });
+
+  describe('checkQuota', () => {
+    it('should allow everything when no limits are configured', async () => {
+      const result = await quotaService.checkQuota(tenantId, userId);
+
+      expect(result).toEqual({ allowed: true, status: {} });
+      expect(mockRedisClient.incr).not.toHaveBeenCalled();
+    });
+
+    it('should count requests and reject once the per-minute limit is exceeded', async () => {
+      await quotaService.setTenantLimits(tenantId, { requestsPerMinute: 2 });
+
+      const first = await quotaService.checkQuota(tenantId, userId);
+      const second = await quotaService.checkQuota(tenantId, userId);
+      const third = await quotaService.checkQuota(tenantId, userId);
+
+      expect(first.status.requests).toEqual(expect.objectContaining({ limit: 2, remaining: 1 }));
+      expect(second.allowed).toBe(true);
+      expect(third.allowed).toBe(false);
+      expect(third.exceeded).toBe('requests');
+      expect(third.retryAfter).toBeGreaterThan(0);
+      expect(third.retryAfter).toBeLessThanOrEqual(60);
+    });
+
+    it('should reject when the daily token budget is used up', async () => {
+      await quotaService.setTenantLimits(tenantId, { tokensPerDay: 100 });
+      await quotaService.recordTokens(tenantId, userId, 100);
+
+      const result = await quotaService.checkQuota(tenantId, userId);
+
+      expect(result.allowed).toBe(false);
+      expect(result.exceeded).toBe('tokensPerDay');
+      expect(result.status.tokensPerDay).toEqual(expect.objectContaining({ limit: 100, used: 100, remaining: 0 }));
+      expect(result.retryAfter).toBeLessThanOrEqual(86400);
+    });
+
+    it('should enforce per-user limits on top of tenant limits', async () => {
+      await quotaService.setTenantLimits(tenantId, { tokensPerMonth: 10000 });
+      await quotaService.setUserLimits(tenantId, userId, { tokensPerMonth: 50 });
+      await quotaService.recordTokens(tenantId, userId, 60);
+
+      const blocked = await quotaService.checkQuota(tenantId, userId);
+      const otherUser = await quotaService.checkQuota(tenantId, 'user-789');
+
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.exceeded).toBe('tokensPerMonth');
+      expect(otherUser.allowed).toBe(true);
+      expect(otherUser.status.tokensPerMonth).toEqual(expect.objectContaining({ remaining: 9940 }));
+    });
+  });
+
+  describe('recordTokens', () => {
+    it('should charge daily and monthly counters for the tenant and the user', async () => {
+      await quotaService.recordTokens(tenantId, userId, 42);
+
+      const keys = mockRedisClient.incrBy.mock.calls.map(([key]: [string]) => key);
+      expect(keys).toEqual([
+        expect.stringMatching(new RegExp(`^tenant:${tenantId}:quota:tokens:day:`)),
+        expect.stringMatching(new RegExp(`^tenant:${tenantId}:quota:tokens:month:`)),
+        expect.stringMatching(new RegExp(`^tenant:${tenantId}:user:${userId}:quota:tokens:day:`)),
+        expect.stringMatching(new RegExp(`^tenant:${tenantId}:user:${userId}:quota:tokens:month:`)),
+      ]);
+    });
+
+    it('should ignore empty usage', async () => {
+      await quotaService.recordTokens(tenantId, userId, 0);
+
+      expect(mockRedisClient.incrBy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+jest.mock('../../src/config/redis');
+
+import refreshTokenService from '../../src/services/refreshTokenService';
+import redisClient from '../../src/config/redis';
+
+describe('RefreshTokenService', () => {
+  let mockRedisClient: any;
+  let hashes: Record<string, Record<string, string>>;
+  let sets: Record<string, Set<string>>;
+  const session = { sessionId: 'session-123', tenantId: 'tenant-123', userId: 'user-123' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses
+    hashes = {};
+    sets = {};
+    mockRedisClient = {
+      hSet: jest.fn(async (key: string, fields: Record<string, string>) => {
+        hashes[key] = { ...hashes[key], ...fields };
+      }),
+      // Runs the consume script against the in-memory hashes
+      eval: jest.fn(async (_script: string, { keys: [key], arguments: [usedAt] }: { keys: string[]; arguments: string[] }) => {
+        if (!hashes[key]) {
+          return null;
+        }
+        const fields = Object.entries(hashes[key]).flat();
+        const reused = hashes[key].usedAt !== undefined;
+        if (!reused) {
+          hashes[key] = { ...hashes[key], usedAt };
+        }
+        return [reused ? 1 : 0, fields];
+      }),
+      sAdd: jest.fn(async (key: string, member: string) => {
+        sets[key] = (sets[key] || new Set()).add(member);
+      }),
+      sMembers: jest.fn(async (key: string) => Array.from(sets[key] || [])),
+      expire: jest.fn(),
+      del: jest.fn(async (keys: string[]) => {
+        keys.forEach((key) => {
+          delete hashes[key];
+          delete sets[key];
+        });
+      }),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    refreshTokenService.initialize();
+  });
+
+  it('should store only a hash of the token', async () => {
+    const token = await refreshTokenService.issue(session);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    const keys = Object.keys(hashes);
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).not.toContain(token);
+    expect(hashes[keys[0]]).toEqual(expect.objectContaining(session));
+    expect(sets['refresh:family:session-123'].size).toBe(1);
+  });
+
+  it('should accept a token once', async () => {
+    const token = await refreshTokenService.issue(session);
+
+    const use = await refreshTokenService.consume(token);
+
+    expect(use).toEqual({
+      record: expect.objectContaining({ ...session, usedAt: expect.any(String) }),
+      reused: false,
+    });
+  });
+
+  it('should revoke the whole family when a used token is replayed', async () => {
+    const first = await refreshTokenService.issue(session);
+    await refreshTokenService.consume(first);
+    const second = await refreshTokenService.issue(session);
+
+    const replay = await refreshTokenService.consume(first);
+
+    expect(replay).toEqual({ record: expect.objectContaining(session), reused: true });
+    expect(await refreshTokenService.consume(second)).toBeNull();
+    expect(Object.keys(hashes)).toHaveLength(0);
+  });
+
+  it('should return null for unknown tokens', async () => {
+    expect(await refreshTokenService.consume('not-a-token')).toBeNull();
+  });
+
+  it('should not bring back a token revoked while it was being refreshed', async () => {
+    const token = await refreshTokenService.issue(session);
+    await refreshTokenService.revokeFamily(session.sessionId);
+
+    expect(await refreshTokenService.consume(token)).toBeNull();
+    expect(Object.keys(hashes)).toHaveLength(0);
+  });
+});
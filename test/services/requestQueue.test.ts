@@ -0,0 +1,135 @@
+jest.mock('../../src/config/redis');
+
+import { QueueTicket, RequestQueue } from '../../src/services/requestQueue';
+import redisClient from '../../src/config/redis';
+
+describe('RequestQueue', () => {
+  // Let queued promise callbacks run
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should admit requests straight away while there is capacity', async () => {
+    const queue = new RequestQueue({ capacity: 2 });
+
+    const first = await queue.acquire('tenant-a');
+    const second = await queue.acquire('tenant-a');
+
+    expect(first.position).toBe(0);
+    expect(second.waitedMs).toBe(0);
+    expect(queue.getStatus()).toEqual(expect.objectContaining({ running: 2, waiting: 0 }));
+  });
+
+  it('should serve waiting tenants fairly by weight', async () => {
+    const queue = new RequestQueue({ capacity: 1 });
+    const order: string[] = [];
+    const tickets: QueueTicket[] = [];
+    const running = await queue.acquire('busy');
+
+    // The busy tenant queues six requests before the others arrive
+    const tenants = [...Array(6).fill('busy'), 'quiet', 'quiet', 'heavy', 'heavy', 'heavy', 'heavy'];
+    tenants.forEach((tenantId) => {
+      void queue.acquire(tenantId, { weight: tenantId === 'heavy' ? 2 : 1 }).then((ticket) => {
+        order.push(tenantId);
+        tickets.push(ticket);
+      });
+    });
+
+    // Finish each admitted request in turn
+    running.release();
+    while (order.length < tenants.length) {
+      await flush();
+      tickets[tickets.length - 1].release();
+    }
+
+    // The weight 2 tenant gets two turns for every one of the others
+    expect(order).toEqual([
+      'quiet', 'heavy', 'heavy',
+      'busy', 'quiet', 'heavy', 'heavy',
+      'busy', 'busy', 'busy', 'busy', 'busy',
+    ]);
+  });
+
+  it('should reject with 503 once the tenant queue is full', async () => {
+    const queue = new RequestQueue({ capacity: 1, maxQueued: 1 });
+    const running = await queue.acquire('tenant-a');
+    const waiting = queue.acquire('tenant-a');
+
+    await expect(queue.acquire('tenant-a')).rejects.toMatchObject({
+      output: { statusCode: 503, headers: { 'Retry-After': '1' } },
+    });
+    // Other tenants still have room in their own queue
+    const other = queue.acquire('tenant-b', { maxQueued: 1 });
+    expect(queue.getStatus().waiting).toBe(2);
+
+    // tenant-b has had no turn yet, so it goes before tenant-a's second request
+    running.release();
+    const otherTicket = await other;
+    expect(otherTicket.position).toBe(2);
+    otherTicket.release();
+    await expect(waiting).resolves.toEqual(expect.objectContaining({ position: 1 }));
+  });
+
+  it('should give up with 503 after the queue timeout', async () => {
+    jest.useFakeTimers();
+    const queue = new RequestQueue({ capacity: 1, timeoutMs: 5000 });
+    await queue.acquire('tenant-a');
+
+    const waiting = queue.acquire('tenant-b');
+    jest.advanceTimersByTime(5000);
+
+    await expect(waiting).rejects.toMatchObject({ message: 'Timed out waiting for a free model slot' });
+    expect(queue.getStatus().waiting).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('should report the queue position and wait once admitted', async () => {
+    const queue = new RequestQueue({ capacity: 1 });
+    const running = await queue.acquire('tenant-a');
+    const first = queue.acquire('tenant-b');
+    const second = queue.acquire('tenant-c');
+
+    running.release();
+    const ticket = await first;
+    ticket.release();
+    ticket.release(); // Releasing twice frees one slot only
+
+    expect(ticket.position).toBe(1);
+    expect((await second).position).toBe(2);
+    expect(queue.getStatus().running).toBe(1);
+  });
+
+  it('should count requests running on other replicas against the capacity', async () => {
+    const hashes: Record<string, Record<string, string>> = {
+      'queue:replica:other': { running: '2', 'waiting:tenant-a': '3' },
+    };
+    const mockRedisClient = {
+      del: jest.fn(),
+      hSet: jest.fn(async (key: string, values: Record<string, string>) => {
+        hashes[key] = values;
+      }),
+      pExpire: jest.fn(),
+      zAdd: jest.fn(),
+      zRemRangeByScore: jest.fn(),
+      zRange: jest.fn().mockResolvedValue(['other']),
+      hGetAll: jest.fn(async (key: string) => hashes[key] || {}),
+    };
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+
+    const queue = new RequestQueue({ capacity: 3, maxQueued: 4 });
+    queue.initialize();
+    await queue.sync();
+
+    await queue.acquire('tenant-a');
+    const waiting = queue.acquire('tenant-a');
+
+    // Three waiting elsewhere plus one here fill the tenant's queue
+    await expect(queue.acquire('tenant-a')).rejects.toMatchObject({ output: { statusCode: 503 } });
+    expect(queue.getStatus()).toEqual(expect.objectContaining({ running: 1, remoteRunning: 2, waiting: 1 }));
+
+    // The other replica finishes its requests
+    hashes['queue:replica:other'] = { running: '0' };
+    await queue.sync();
+
+    await expect(waiting).resolves.toEqual(expect.objectContaining({ position: 1 }));
+    expect(mockRedisClient.zAdd).toHaveBeenCalledWith('queue:replicas', expect.objectContaining({ value: expect.any(String) }));
+  });
+});
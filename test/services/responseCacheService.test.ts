@@ -0,0 +1,77 @@
+jest.mock('../../src/config/redis');
+
+import responseCacheService from '../../src/services/responseCacheService';
+import redisClient from '../../src/config/redis';
+
+describe('ResponseCacheService', () => {
+  let mockRedisClient: any;
+  let store: Record<string, string>;
+  let index: Array<{ score: number; value: string }>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis commands the service uses; a single sorted set is enough
+    store = {};
+    index = [];
+    mockRedisClient = {
+      get: jest.fn(async (key: string) => store[key] ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        store[key] = value;
+      }),
+      del: jest.fn(async (keys: string[]) => {
+        keys.forEach((key) => delete store[key]);
+      }),
+      zAdd: jest.fn(async (_key: string, member: { score: number; value: string }) => {
+        index = [...index.filter((item) => item.value !== member.value), member].sort((a, b) => a.score - b.score);
+      }),
+      zRemRangeByScore: jest.fn(async (_key: string, min: number, max: number) => {
+        index = index.filter((item) => item.score < min || item.score > max);
+      }),
+      zCard: jest.fn(async () => index.length),
+      zRange: jest.fn(async (_key: string, start: number, stop: number) => index.slice(start, stop + 1).map((item) => item.value)),
+      zRem: jest.fn(async (_key: string, values: string[]) => {
+        index = index.filter((item) => !values.includes(item.value));
+      }),
+      expire: jest.fn(),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    responseCacheService.initialize();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hash requests regardless of key order, per tenant', () => {
+    const a = responseCacheService.hashRequest(tenantId, { model: 'llama2', options: { temperature: 0, seed: 1 } });
+    const b = responseCacheService.hashRequest(tenantId, { options: { seed: 1, temperature: 0 }, model: 'llama2' });
+
+    expect(a).toBe(b);
+    expect(responseCacheService.hashRequest('other-tenant', { model: 'llama2', options: { temperature: 0, seed: 1 } })).not.toBe(a);
+    expect(responseCacheService.hashRequest(tenantId, { model: 'llama3' })).not.toBe(a);
+  });
+
+  it('should store replies with the tenant TTL', async () => {
+    await responseCacheService.set(tenantId, 'hash-1', { answer: 42 }, { ttlSeconds: 60 });
+
+    expect(mockRedisClient.set).toHaveBeenCalledWith(`tenant:${tenantId}:chat-cache:hash-1`, '{"answer":42}', { EX: 60 });
+    await expect(responseCacheService.get(tenantId, 'hash-1')).resolves.toEqual({ answer: 42 });
+    await expect(responseCacheService.get(tenantId, 'hash-2')).resolves.toBeNull();
+  });
+
+  it('should evict the oldest replies past the tenant limit', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+
+    for (const hash of ['hash-1', 'hash-2', 'hash-3']) {
+      await responseCacheService.set(tenantId, hash, { hash }, { maxEntries: 2 });
+      jest.advanceTimersByTime(1000);
+    }
+
+    await expect(responseCacheService.get(tenantId, 'hash-1')).resolves.toBeNull();
+    await expect(responseCacheService.get(tenantId, 'hash-3')).resolves.toEqual({ hash: 'hash-3' });
+    expect(index.map((item) => item.value)).toEqual(['hash-2', 'hash-3']);
+  });
+});
@@ -0,0 +1,115 @@
+jest.mock('../../src/config/redis');
+
+import semanticCacheService, { MAX_ENTRIES_PER_SCOPE } from '../../src/services/semanticCacheService';
+import redisClient from '../../src/config/redis';
+
+describe('SemanticCacheService', () => {
+  let mockRedisClient: any;
+  let hashes: Record<string, Record<string, string>>;
+  let sortedSets: Record<string, Map<string, number>>;
+  const tenantId = 'tenant-123';
+  const scope = 'a1b2c3';
+  const key = `tenant:${tenantId}:semantic-cache:llama2:${scope}`;
+  const indexKey = `tenant:${tenantId}:semantic-cache:llama2:index`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis hash and sorted set commands the service uses
+    hashes = {};
+    sortedSets = {};
+    const byScore = (setKey: string) => Array.from(sortedSets[setKey] || new Map<string, number>())
+      .sort((a, b) => a[1] - b[1])
+      .map(([member, score]) => ({ member, score }));
+
+    mockRedisClient = {
+      hGetAll: jest.fn(async (hashKey: string) => ({ ...(hashes[hashKey] || {}) })),
+      hSet: jest.fn(async (hashKey: string, field: string, value: string) => {
+        hashes[hashKey] = { ...(hashes[hashKey] || {}), [field]: value };
+      }),
+      hDel: jest.fn(async (hashKey: string, fields: string[]) => {
+        fields.forEach((field) => delete hashes[hashKey]?.[field]);
+      }),
+      hLen: jest.fn(async (hashKey: string) => Object.keys(hashes[hashKey] || {}).length),
+      zAdd: jest.fn(async (setKey: string, { score, value }: { score: number; value: string }) => {
+        sortedSets[setKey] = sortedSets[setKey] || new Map();
+        sortedSets[setKey].set(value, score);
+      }),
+      zRangeByScore: jest.fn(async (setKey: string, min: number, max: number) => (
+        byScore(setKey).filter(({ score }) => score >= min && score <= max).map(({ member }) => member)
+      )),
+      zRange: jest.fn(async (setKey: string, start: number, stop: number) => (
+        byScore(setKey).slice(start, stop + 1).map(({ member }) => member)
+      )),
+      zCard: jest.fn(async (setKey: string) => sortedSets[setKey]?.size || 0),
+      zRem: jest.fn(async (setKey: string, members: string[]) => {
+        members.forEach((member) => sortedSets[setKey]?.delete(member));
+      }),
+      expire: jest.fn(),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    semanticCacheService.initialize();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return the most similar reply above the threshold', async () => {
+    await semanticCacheService.add(tenantId, 'llama2', scope, [1, 0, 0], 'capital of France');
+    await semanticCacheService.add(tenantId, 'llama2', scope, [0.9, 0.1, 0], 'largest city in France');
+    await semanticCacheService.add(tenantId, 'llama2', scope, [0, 1, 0], 'weather today');
+
+    const match = await semanticCacheService.findSimilar<string>(
+      tenantId, 'llama2', scope, [0.99, 0.05, 0], { semantic: { threshold: 0.9 } }
+    );
+
+    expect(match?.reply).toBe('capital of France');
+    expect(match?.similarity).toBeGreaterThan(0.99);
+    expect(mockRedisClient.expire).toHaveBeenCalledWith(key, 3600);
+    expect(mockRedisClient.expire).toHaveBeenCalledWith(indexKey, 3600);
+  });
+
+  it('should miss below the threshold, for other models and for other conversations', async () => {
+    await semanticCacheService.add(tenantId, 'llama2', scope, [1, 0, 0], 'capital of France');
+
+    await expect(semanticCacheService.findSimilar(tenantId, 'llama2', scope, [0.7, 0.7, 0])).resolves.toBeNull();
+    await expect(semanticCacheService.findSimilar(tenantId, 'mistral', scope, [1, 0, 0])).resolves.toBeNull();
+    await expect(semanticCacheService.findSimilar(tenantId, 'llama2', 'd4e5f6', [1, 0, 0])).resolves.toBeNull();
+  });
+
+  it('should drop expired entries and evict the oldest past the limit', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    const settings = { ttlSeconds: 60, maxEntries: 2 };
+
+    await semanticCacheService.add(tenantId, 'llama2', scope, [1, 0], 'first', settings);
+    jest.advanceTimersByTime(1000);
+    await semanticCacheService.add(tenantId, 'llama2', 'd4e5f6', [0, 1], 'second', settings);
+    jest.advanceTimersByTime(1000);
+    await semanticCacheService.add(tenantId, 'llama2', scope, [1, 1], 'third', settings);
+
+    await expect(semanticCacheService.findSimilar(tenantId, 'llama2', scope, [1, 0], settings)).resolves.toBeNull();
+    expect(Object.keys(hashes[key])).toHaveLength(1);
+    expect(sortedSets[indexKey].size).toBe(2);
+
+    jest.advanceTimersByTime(61_000);
+    await expect(semanticCacheService.findSimilar(tenantId, 'llama2', scope, [1, 1], settings)).resolves.toBeNull();
+    expect(hashes[key]).toEqual({});
+    expect(sortedSets[indexKey].size).toBe(1);
+  });
+
+  it('should keep at most MAX_ENTRIES_PER_SCOPE replies to compare in one conversation', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+
+    for (let i = 0; i <= MAX_ENTRIES_PER_SCOPE; i++) {
+      await semanticCacheService.add(tenantId, 'llama2', scope, [1, i], `reply ${i}`);
+      jest.advanceTimersByTime(1);
+    }
+
+    expect(Object.keys(hashes[key])).toHaveLength(MAX_ENTRIES_PER_SCOPE);
+    expect(sortedSets[indexKey].size).toBe(MAX_ENTRIES_PER_SCOPE);
+    await expect(semanticCacheService.findSimilar(tenantId, 'llama2', scope, [1, 0], { semantic: { threshold: 0.9999 } }))
+      .resolves.toBeNull();
+  });
+});
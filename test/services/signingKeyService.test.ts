@@ -0,0 +1,89 @@
+import { generateKeyPairSync } from 'crypto';
+import JWT from '@hapi/jwt';
+
+import signingKeyService from '../../src/services/signingKeyService';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../../src/services/refreshTokenService';
+
+describe('SigningKeyService', () => {
+  const env = { ...process.env };
+
+  const pem = (type: 'rsa' | 'ec'): string => {
+    const { privateKey } = type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    return privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+  };
+
+  const configure = (keys: object[]) => {
+    process.env.JWT_KEYS = JSON.stringify(keys);
+    signingKeyService.initialize();
+  };
+
+  beforeEach(() => {
+    delete process.env.JWT_KEYS;
+    delete process.env.JWT_KEYS_FILE;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should sign tokens that verify against the published key', () => {
+    configure([{ kid: 'rsa-1', alg: 'RS256', privateKey: pem('rsa') }]);
+
+    const token = signingKeyService.sign({ userId: 'user-1' }, 60);
+    const artifacts = JWT.token.decode(token);
+    const [key] = signingKeyService.verificationKeys();
+
+    expect(artifacts.decoded.header).toEqual(expect.objectContaining({ alg: 'RS256', kid: 'rsa-1' }));
+    expect(() => JWT.token.verifySignature(artifacts, key.key)).not.toThrow();
+
+    const { keys } = signingKeyService.jwks();
+    expect(keys).toEqual([expect.objectContaining({ kid: 'rsa-1', alg: 'RS256', use: 'sig', kty: 'RSA' })]);
+    expect(keys[0]).not.toHaveProperty('d');
+  });
+
+  it('should rotate to the next key on schedule and keep the old one until its tokens expire', () => {
+    configure([
+      { kid: 'march', alg: 'ES256', privateKey: pem('ec'), activeFrom: '2026-03-01T00:00:00Z' },
+      { kid: 'january', alg: 'ES256', privateKey: pem('ec'), activeFrom: '2026-01-01T00:00:00Z' },
+      { kid: 'february', alg: 'RS256', privateKey: pem('rsa'), activeFrom: '2026-02-01T00:00:00Z' },
+    ]);
+    const kids = (now: number) => signingKeyService.jwks(now).keys.map((key) => key.kid);
+    const justAfterRotation = Date.parse('2026-02-01T00:01:00Z');
+    const afterExpiry = Date.parse('2026-02-01T00:00:00Z') + (ACCESS_TOKEN_TTL_SECONDS + 16) * 1000;
+
+    jest.spyOn(Date, 'now').mockReturnValue(justAfterRotation);
+    const token = signingKeyService.sign({ userId: 'user-1' }, 60);
+
+    expect(JWT.token.decode(token).decoded.header).toEqual(expect.objectContaining({ kid: 'february' }));
+    expect(kids(justAfterRotation)).toEqual(['january', 'february', 'march']);
+    expect(kids(afterExpiry)).toEqual(['february', 'march']);
+    expect(signingKeyService.verificationKeys(afterExpiry).map((key) => key.algorithms))
+      .toEqual([['RS256'], ['ES256']]);
+  });
+
+  it('should reject invalid key configuration', () => {
+    const ec = pem('ec');
+
+    expect(() => configure([{ kid: 'a', alg: 'HS256', privateKey: 'secret' }])).toThrow('must use one of RS256, ES256');
+    expect(() => configure([{ kid: 'a', alg: 'RS256', privateKey: ec }])).toThrow('not a valid RS256 key');
+    expect(() => configure([{ kid: 'a', alg: 'ES256' }])).toThrow('no privateKey or privateKeyFile');
+    expect(() => configure([
+      { kid: 'a', alg: 'ES256', privateKey: ec },
+      { kid: 'a', alg: 'ES256', privateKey: ec, activeFrom: '2026-01-01T00:00:00Z' },
+    ])).toThrow('must be unique');
+    expect(() => configure([
+      { kid: 'a', alg: 'ES256', privateKey: ec, activeFrom: '2999-01-01T00:00:00Z' },
+    ])).toThrow('No JWT signing key is active yet');
+  });
+
+  it('should use a temporary key in development but refuse to run in production without keys', () => {
+    process.env.NODE_ENV = 'development';
+    signingKeyService.initialize();
+    expect(signingKeyService.jwks().keys).toEqual([expect.objectContaining({ alg: 'ES256', kid: expect.stringMatching(/^dev-/) })]);
+
+    process.env.NODE_ENV = 'production';
+    expect(() => signingKeyService.initialize()).toThrow('JWT signing keys are not configured');
+  });
+});
@@ -78,12 +78,12 @@ describe('TenantService', () => {
       const tenantData: CreateTenantData = {
         name: 'Test Corp',
         domain: 'test.com',
-        settings: { maxUsers: 100 },
+        settings: { models: { default: 'llama2' } },
       };
 
       const tenant = await tenantService.createTenant(tenantData);
 
-      expect(tenant.settings).toEqual({ maxUsers: 100 });
+      expect(tenant.settings).toEqual({ models: { default: 'llama2' } });
     });
   });
 
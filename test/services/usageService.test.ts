@@ -0,0 +1,108 @@
+jest.mock('../../src/config/redis');
+
+import usageService from '../../src/services/usageService';
+import redisClient from '../../src/config/redis';
+
+describe('UsageService', () => {
+  let mockRedisClient: any;
+  let hashes: Record<string, Record<string, string>>;
+  const tenantId = 'tenant-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory stand-in for the Redis hash commands the service uses
+    hashes = {};
+    mockRedisClient = {
+      hIncrBy: jest.fn(async (key: string, field: string, amount: number) => {
+        hashes[key] = hashes[key] || {};
+        hashes[key][field] = String((Number(hashes[key][field]) || 0) + amount);
+      }),
+      hGetAll: jest.fn(async (key: string) => hashes[key] || {}),
+      expire: jest.fn().mockResolvedValue(true),
+    };
+
+    (redisClient.getClient as jest.Mock) = jest.fn().mockReturnValue(mockRedisClient);
+    usageService.initialize();
+  });
+
+  describe('record', () => {
+    it('should increment per user and model counters in the daily hash', async () => {
+      const today = new Date().toISOString().slice(0, 10);
+
+      await usageService.record({
+        tenantId,
+        userId: 'user-1',
+        model: 'llama2:7b',
+        promptTokens: 10,
+        completionTokens: 20,
+        durationMs: 1500,
+      });
+
+      expect(hashes[`tenant:${tenantId}:usage:${today}`]).toEqual({
+        'user-1|llama2:7b|requests': '1',
+        'user-1|llama2:7b|prompt_tokens': '10',
+        'user-1|llama2:7b|completion_tokens': '20',
+        'user-1|llama2:7b|duration_ms': '1500',
+      });
+      expect(mockRedisClient.expire).toHaveBeenCalledWith(`tenant:${tenantId}:usage:${today}`, 400 * 86400);
+    });
+  });
+
+  describe('getRows', () => {
+    beforeEach(() => {
+      hashes[`tenant:${tenantId}:usage:2024-01-01`] = {
+        'user-1|llama2|requests': '2',
+        'user-1|llama2|prompt_tokens': '100',
+        'user-1|llama2|completion_tokens': '50',
+        'user-2|mistral|requests': '1',
+        'user-2|mistral|prompt_tokens': '10',
+        'user-2|mistral|completion_tokens': '5',
+      };
+      hashes[`tenant:${tenantId}:usage:2024-01-03`] = {
+        'user-1|mistral|requests': '1',
+        'user-1|mistral|prompt_tokens': '7',
+        'user-1|mistral|completion_tokens': '3',
+      };
+    });
+
+    it('should return one row per day, user and model in the range', async () => {
+      const rows = await usageService.getRows(tenantId, { from: '2024-01-01', to: '2024-01-03' });
+
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledTimes(3);
+      expect(rows).toHaveLength(3);
+      expect(rows).toContainEqual({
+        date: '2024-01-01',
+        user_id: 'user-1',
+        model: 'llama2',
+        requests: 2,
+        prompt_tokens: 100,
+        completion_tokens: 50,
+        total_tokens: 150,
+        duration_ms: 0,
+      });
+    });
+
+    it('should filter by user and model', async () => {
+      const rows = await usageService.getRows(tenantId, {
+        from: '2024-01-01',
+        to: '2024-01-03',
+        userId: 'user-1',
+        model: 'mistral',
+      });
+
+      expect(rows).toEqual([expect.objectContaining({ date: '2024-01-03', total_tokens: 10 })]);
+    });
+
+    it('should group and total rows', async () => {
+      const rows = await usageService.getRows(tenantId, { from: '2024-01-01', to: '2024-01-03' });
+
+      expect(usageService.group(rows, 'model')).toEqual([
+        expect.objectContaining({ key: 'llama2', requests: 2, total_tokens: 150 }),
+        expect.objectContaining({ key: 'mistral', requests: 2, total_tokens: 25 }),
+      ]);
+      expect(usageService.group(rows, 'user').map((group) => group.key)).toEqual(['user-1', 'user-2']);
+      expect(usageService.total(rows)).toEqual(expect.objectContaining({ requests: 4, total_tokens: 175 }));
+    });
+  });
+});
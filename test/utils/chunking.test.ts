@@ -0,0 +1,37 @@
+import { chunkText } from '../../src/utils/chunking';
+
+describe('chunkText', () => {
+  it('should keep short paragraphs together', () => {
+    const text = 'First paragraph.\r\n\r\nSecond paragraph.\n\n\n\nThird paragraph.';
+
+    expect(chunkText(text, 40)).toEqual([
+      'First paragraph.\n\nSecond paragraph.',
+      'Third paragraph.',
+    ]);
+  });
+
+  it('should split long paragraphs between words', () => {
+    const text = 'alpha beta gamma delta epsilon zeta eta theta iota kappa';
+
+    const chunks = chunkText(text, 20);
+
+    expect(chunks).toEqual(['alpha beta gamma', 'delta epsilon zeta', 'eta theta iota kappa']);
+    expect(chunks.every((chunk) => chunk.length <= 20)).toBe(true);
+  });
+
+  it('should start each chunk with the end of the previous one', () => {
+    const text = 'The reset link expires after one hour.\n\nAsk support to unlock the account.';
+
+    const chunks = chunkText(text, 50, 12);
+
+    expect(chunks).toEqual([
+      'The reset link expires after one hour.',
+      'one hour.\n\nAsk support to unlock the account.',
+    ]);
+  });
+
+  it('should cut words longer than a chunk and skip blank text', () => {
+    expect(chunkText('x'.repeat(25), 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+    expect(chunkText(' \n\n ', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
+
+import {
+  dropOldest,
+  estimateTokens,
+  fitContextWindow,
+  keepLast,
+  resolveContextLength,
+} from '../../src/utils/contextWindow';
+import usageService from '../../src/services/usageService';
+import { LLMProvider } from '../../src/services/llmProvider';
+import { OllamaMessage } from '../../src/services/ollamaService';
+import { AuthCredentials } from '../../src/types';
+
+describe('Context window', () => {
+  const credentials = {
+    tenantId: '550e8400-e29b-41d4-a716-446655440000',
+    user: { userId: 'user-1' },
+    scope: ['user'],
+  } as unknown as AuthCredentials;
+
+  // 100 characters: 25 tokens of content plus 4 of framing
+  const turn = (role: 'user' | 'assistant', index: number): OllamaMessage => ({
+    role,
+    content: `${role} turn ${index}`.padEnd(100, '.'),
+  });
+  const system: OllamaMessage = { role: 'system', content: 'Be brief.' };
+  const history: OllamaMessage[] = [
+    system,
+    turn('user', 1), turn('assistant', 1),
+    turn('user', 2), turn('assistant', 2),
+    turn('user', 3),
+  ];
+
+  let provider: jest.Mocked<LLMProvider>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    provider = {
+      name: 'ollama',
+      chat: jest.fn(),
+      streamChat: jest.fn(),
+      listModels: jest.fn(),
+      checkHealth: jest.fn(),
+      getContextLength: jest.fn().mockResolvedValue(4096),
+    };
+  });
+
+  describe('estimateTokens', () => {
+    it('should count about four characters per token plus framing', () => {
+      expect(estimateTokens([turn('user', 1)])).toBe(29);
+      expect(estimateTokens(history)).toBe(7 + 5 * 29);
+    });
+  });
+
+  describe('strategies', () => {
+    it('should drop the oldest turns but keep system messages and the latest turn', () => {
+      const result = dropOldest(history, 80);
+
+      expect(result).toEqual([system, turn('assistant', 2), turn('user', 3)]);
+    });
+
+    it('should not keep tool results whose call was dropped', () => {
+      const toolTurns: OllamaMessage[] = [
+        system,
+        turn('user', 1),
+        { role: 'assistant', content: '', tool_calls: [{ function: { name: 'lookup', arguments: { query: 'x'.repeat(200) } } }] },
+        { role: 'tool', content: 'result', tool_name: 'lookup' },
+        turn('user', 2),
+      ];
+
+      expect(dropOldest(toolTurns, 50)).toEqual([system, turn('user', 2)]);
+    });
+
+    it('should keep system messages and the last N turns', () => {
+      expect(keepLast(history, 1, 1000)).toEqual([system, turn('user', 3)]);
+      expect(keepLast(history, 3, 1000)).toEqual([system, turn('user', 2), turn('assistant', 2), turn('user', 3)]);
+    });
+  });
+
+  describe('resolveContextLength', () => {
+    it('should prefer the tenant setting over the provider', async () => {
+      const settings = { models: { limits: { llama2: { contextLength: 8192 } } } };
+
+      await expect(resolveContextLength(settings, provider, 'llama2:13b')).resolves.toBe(8192);
+      await expect(resolveContextLength({}, provider, 'llama2')).resolves.toBe(4096);
+    });
+
+    it('should fall back to the default for Ollama and give up for providers that cannot tell', async () => {
+      (provider.getContextLength as jest.Mock).mockResolvedValue(null);
+      await expect(resolveContextLength({}, provider, 'llama2')).resolves.toBe(2048);
+
+      delete provider.getContextLength;
+      await expect(resolveContextLength({}, provider, 'acme/gpt')).resolves.toBeNull();
+    });
+  });
+
+  describe('fitContextWindow', () => {
+    // Leaves 100 tokens for the prompt after the default 512 reserved for the reply
+    const settings = { models: { limits: { llama2: { contextLength: 612 } } } };
+    const chatRequest = { model: 'llama2', messages: history };
+
+    it('should forward requests that fit untouched', async () => {
+      const result = await fitContextWindow(chatRequest, {}, provider, credentials);
+
+      expect(result).toEqual({ request: chatRequest });
+    });
+
+    it('should drop the oldest turns by default and report it', async () => {
+      const result = await fitContextWindow(chatRequest, settings, provider, credentials);
+
+      expect(result.request.messages).toEqual([system, turn('user', 2), turn('assistant', 2), turn('user', 3)]);
+      expect(result.report).toEqual({
+        strategy: 'drop_oldest',
+        context_length: 612,
+        original_tokens: 152,
+        estimated_tokens: 94,
+        trimmed_messages: 2,
+      });
+    });
+
+    it('should reserve num_predict tokens for the reply', async () => {
+      const result = await fitContextWindow(
+        { ...chatRequest, options: { num_predict: 560 } },
+        settings,
+        provider,
+        credentials
+      );
+
+      expect(result.request.messages).toEqual([system, turn('user', 3)]);
+    });
+
+    it('should apply the tenant strategy and let the request override it', async () => {
+      const keepLastSettings = { ...settings, context: { strategy: 'keep_last' as const, keepLast: 1 } };
+
+      const tenantResult = await fitContextWindow(chatRequest, keepLastSettings, provider, credentials);
+      expect(tenantResult.request.messages).toEqual([system, turn('user', 3)]);
+
+      const overridden = await fitContextWindow(chatRequest, keepLastSettings, provider, credentials, { strategy: 'none' });
+      expect(overridden.request).toBe(chatRequest);
+    });
+
+    it('should summarize older turns with the model and charge the call', async () => {
+      provider.chat.mockResolvedValue({
+        model: 'llama2',
+        created_at: '2024-01-15T10:30:00Z',
+        message: { role: 'assistant', content: 'They discussed turns one and two.' },
+        done: true,
+        prompt_eval_count: 90,
+        eval_count: 8,
+      });
+
+      const result = await fitContextWindow(chatRequest, settings, provider, credentials, { strategy: 'summarize' });
+
+      expect(provider.chat).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'llama2',
+        options: { num_predict: 256 },
+      }), credentials.tenantId);
+      expect(result.request.messages).toEqual([
+        system,
+        { role: 'system', content: 'Summary of the earlier conversation:\nThey discussed turns one and two.' },
+        turn('user', 3),
+      ]);
+      expect(result.report).toEqual(expect.objectContaining({
+        strategy: 'summarize',
+        trimmed_messages: 4,
+        summarized_messages: 4,
+      }));
+      expect(usageService.record).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 90, completionTokens: 8 }));
+    });
+
+    it('should fall back to dropping turns when summarizing fails', async () => {
+      provider.chat.mockRejectedValue(new Error('Ollama request failed'));
+
+      const result = await fitContextWindow(chatRequest, settings, provider, credentials, { strategy: 'summarize' });
+
+      expect(result.request.messages).toEqual([system, turn('user', 2), turn('assistant', 2), turn('user', 3)]);
+    });
+
+    it('should reject a prompt whose latest message alone does not fit', async () => {
+      const tooLong = { model: 'llama2', messages: [{ role: 'user' as const, content: 'x'.repeat(1000) }] };
+
+      await expect(fitContextWindow(tooLong, settings, provider, credentials))
+        .rejects.toThrow('Prompt is too long for model "llama2"');
+    });
+  });
+});
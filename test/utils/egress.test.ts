@@ -0,0 +1,42 @@
+import http from 'http';
+import { isBlockedHost, isPrivateAddress, providerHttpAgent } from '../../src/utils/egress';
+
+describe('Egress', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should recognise loopback, private and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0',
+      '::1', '[::1]', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1', 'example.com']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('should block localhost and private literals unless the host is allowed', () => {
+    expect(isBlockedHost('localhost')).toBe(true);
+    expect(isBlockedHost('api.localhost')).toBe(true);
+    expect(isBlockedHost('169.254.169.254')).toBe(true);
+    expect(isBlockedHost('api.openai.com')).toBe(false);
+
+    process.env.PROVIDER_ALLOWED_HOSTS = 'vllm.internal, 10.0.0.5';
+    expect(isBlockedHost('10.0.0.5')).toBe(false);
+    expect(isBlockedHost('10.0.0.6')).toBe(true);
+  });
+
+  it('should refuse to connect to hostnames that resolve to private addresses', async () => {
+    const request = () => new Promise((resolve, reject) => {
+      http.get({ host: 'localhost', port: 9, agent: providerHttpAgent }, resolve).on('error', reject);
+    });
+
+    await expect(request()).rejects.toThrow('Provider host localhost resolves to a private address');
+
+    process.env.PROVIDER_ALLOWED_HOSTS = 'localhost';
+    await expect(request()).rejects.toThrow('ECONNREFUSED');
+  });
+});
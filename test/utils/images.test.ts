@@ -0,0 +1,70 @@
+import { applyImagePolicy, imageMimeType, sniffImageType } from '../../src/utils/images';
+import { OllamaMessage } from '../../src/services/ollamaService';
+
+describe('Images', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).toString('base64');
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16]).toString('base64');
+  const text = Buffer.from('just some text').toString('base64');
+
+  const withImages = (...images: string[]): OllamaMessage[] => [
+    { role: 'system', content: 'Describe images.' },
+    { role: 'user', content: 'What is this?', images },
+  ];
+
+  describe('sniffImageType', () => {
+    it('should recognise images by their leading bytes', () => {
+      expect(sniffImageType(Buffer.from('GIF89a...'))).toBe('image/gif');
+      expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+      expect(imageMimeType(png)).toBe('image/png');
+      expect(imageMimeType(jpeg)).toBe('image/jpeg');
+      expect(imageMimeType(text)).toBeNull();
+    });
+  });
+
+  describe('applyImagePolicy', () => {
+    it('should leave messages without images untouched', () => {
+      const messages: OllamaMessage[] = [{ role: 'user', content: 'Hi' }];
+
+      expect(applyImagePolicy(messages, {})).toBe(messages);
+    });
+
+    it('should strip data URL prefixes', () => {
+      const result = applyImagePolicy(withImages(`data:image/png;base64,${png}`, jpeg), {});
+
+      expect(result[1].images).toEqual([png, jpeg]);
+    });
+
+    it('should enforce the tenant image count', () => {
+      expect(() => applyImagePolicy(withImages(png, jpeg), { images: { maxCount: 1 } }))
+        .toThrow('Too many images: at most 1 per request');
+    });
+
+    it('should enforce the tenant image size with a 413', () => {
+      let error: any;
+      try {
+        applyImagePolicy(withImages(png), { images: { maxBytes: 8 } });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error.output.statusCode).toBe(413);
+      expect(error.message).toBe('Image 1 is larger than 8 bytes');
+    });
+
+    it('should reject content that is not an image with a 415', () => {
+      let error: any;
+      try {
+        applyImagePolicy(withImages(png, text), {});
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error.output.statusCode).toBe(415);
+      expect(error.message).toBe('Image 2 is not a PNG, JPEG, GIF or WebP image');
+    });
+
+    it('should reject invalid base64', () => {
+      expect(() => applyImagePolicy(withImages('not base64!'), {})).toThrow('Image 1 is not valid base64');
+    });
+  });
+});
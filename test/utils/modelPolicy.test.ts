@@ -0,0 +1,102 @@
+import { applyModelPolicy, filterModels, getModelLimits, isModelAllowed, matchesModel } from '../../src/utils/modelPolicy';
+import { OllamaChatRequest } from '../../src/services/ollamaService';
+import { TenantSettings } from '../../src/types';
+
+describe('Model policy', () => {
+  const settings: TenantSettings = {
+    models: {
+      allowed: ['llama2', 'mistral:7b'],
+      default: 'llama2',
+      limits: {
+        llama2: { maxNumPredict: 512, maxTemperature: 0.7 },
+        'llama2:70b': { maxNumPredict: 128 },
+      },
+    },
+  };
+
+  describe('matchesModel', () => {
+    it('should let untagged entries cover every tag', () => {
+      expect(matchesModel('llama2', 'llama2')).toBe(true);
+      expect(matchesModel('llama2', 'llama2:13b')).toBe(true);
+      expect(matchesModel('llama2', 'llama2-uncensored')).toBe(false);
+    });
+
+    it('should match tagged entries exactly', () => {
+      expect(matchesModel('mistral:7b', 'mistral:7b')).toBe(true);
+      expect(matchesModel('mistral:7b', 'mistral:latest')).toBe(false);
+    });
+  });
+
+  describe('isModelAllowed', () => {
+    it('should allow every model when no allow-list is configured', () => {
+      expect(isModelAllowed({}, 'anything')).toBe(true);
+      expect(isModelAllowed({ models: { allowed: [] } }, 'anything')).toBe(true);
+    });
+
+    it('should restrict to the allow-list', () => {
+      expect(isModelAllowed(settings, 'llama2:latest')).toBe(true);
+      expect(isModelAllowed(settings, 'codellama')).toBe(false);
+    });
+  });
+
+  describe('getModelLimits', () => {
+    it('should prefer an exact entry over the untagged one', () => {
+      expect(getModelLimits(settings, 'llama2:70b')).toEqual({ maxNumPredict: 128 });
+      expect(getModelLimits(settings, 'llama2:13b')).toEqual({ maxNumPredict: 512, maxTemperature: 0.7 });
+      expect(getModelLimits(settings, 'mistral:7b')).toBeUndefined();
+    });
+  });
+
+  describe('applyModelPolicy', () => {
+    const messages: OllamaChatRequest['messages'] = [{ role: 'user', content: 'Hi' }];
+
+    it('should fill in the default model', () => {
+      const result = applyModelPolicy({ model: '', messages }, settings);
+
+      expect(result.model).toBe('llama2');
+    });
+
+    it('should require a model when the tenant has no default', () => {
+      expect(() => applyModelPolicy({ model: '', messages }, {})).toThrow('"model" is required');
+    });
+
+    it('should reject models outside the allow-list with 403', () => {
+      try {
+        applyModelPolicy({ model: 'codellama', messages }, settings);
+        fail('Expected applyModelPolicy to throw');
+      } catch (error: any) {
+        expect(error.output.statusCode).toBe(403);
+      }
+    });
+
+    it('should clamp requested options to the caps', () => {
+      const result = applyModelPolicy({
+        model: 'llama2',
+        messages,
+        options: { num_predict: 2048, temperature: 1.5, top_k: 40 },
+      }, settings);
+
+      expect(result.options).toEqual({ num_predict: 512, temperature: 0.7, top_k: 40 });
+    });
+
+    it('should bound generation length even when not requested', () => {
+      const result = applyModelPolicy<OllamaChatRequest>({ model: 'llama2', messages }, settings);
+
+      expect(result.options).toEqual({ num_predict: 512 });
+    });
+
+    it('should leave requests untouched when no caps apply', () => {
+      const request = { model: 'mistral:7b', messages, options: { temperature: 1.5 } };
+
+      expect(applyModelPolicy(request, settings)).toEqual(request);
+    });
+  });
+
+  describe('filterModels', () => {
+    it('should drop models the tenant is not entitled to', () => {
+      const models = [{ name: 'llama2:latest' }, { name: 'codellama' }, { name: 'mistral:7b' }];
+
+      expect(filterModels(models, settings)).toEqual([{ name: 'llama2:latest' }, { name: 'mistral:7b' }]);
+    });
+  });
+});
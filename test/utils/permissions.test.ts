@@ -0,0 +1,87 @@
+import {
+  BUILT_IN_ROLES,
+  isRoleDefined,
+  missingPermissions,
+  operatorScope,
+  OPERATOR_PERMISSIONS,
+  PERMISSIONS,
+  scopeForRole,
+} from '../../src/utils/permissions';
+import { TenantSettings } from '../../src/types';
+
+describe('Permissions', () => {
+  const settings: TenantSettings = {
+    roles: {
+      analyst: { permissions: ['usage:read', 'quotas:read'] },
+    },
+  };
+
+  describe('scopeForRole', () => {
+    it('should give admins every permission', () => {
+      expect(scopeForRole('admin', {})).toEqual(['admin', ...PERMISSIONS]);
+    });
+
+    it('should not grant operator permissions through roles', () => {
+      const roles: TenantSettings = { roles: { ops: { permissions: ['llm:models', 'llm:models:manage'] } } };
+
+      expect(scopeForRole('admin', {})).not.toContain('llm:models:manage');
+      expect(scopeForRole('ops', roles)).toEqual(['ops', 'llm:models']);
+    });
+
+    it('should not give users management permissions', () => {
+      const scope = scopeForRole('user', {});
+
+      expect(scope).toEqual(['user', ...BUILT_IN_ROLES.user]);
+      expect(scope).not.toContain('llm:models:manage');
+      expect(scope).not.toContain('users:write');
+    });
+
+    it('should resolve custom roles from the tenant settings', () => {
+      expect(scopeForRole('analyst', settings)).toEqual(['analyst', 'usage:read', 'quotas:read']);
+    });
+
+    it('should grant nothing for a role the tenant does not define', () => {
+      expect(scopeForRole('analyst', {})).toEqual(['analyst']);
+      expect(scopeForRole('constructor', settings)).toEqual(['constructor']);
+    });
+  });
+
+  describe('operatorScope', () => {
+    const env = { ...process.env };
+    const operatorTenantId = '550e8400-e29b-41d4-a716-446655440000';
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should give operator permissions to admins of operator tenants only', () => {
+      process.env.OPERATOR_TENANT_IDS = ` ${operatorTenantId} ,other`;
+
+      expect(operatorScope('admin', operatorTenantId)).toEqual(OPERATOR_PERMISSIONS);
+      expect(operatorScope('user', operatorTenantId)).toEqual([]);
+      expect(operatorScope('admin', 'a2d7c1e4-0f3b-4c6a-9e8d-5b1f2a3c4d5e')).toEqual([]);
+    });
+
+    it('should give nobody operator permissions when no operator tenant is configured', () => {
+      delete process.env.OPERATOR_TENANT_IDS;
+
+      expect(operatorScope('admin', operatorTenantId)).toEqual([]);
+    });
+  });
+
+  describe('isRoleDefined', () => {
+    it('should know built-in and custom roles', () => {
+      expect(isRoleDefined('admin', {})).toBe(true);
+      expect(isRoleDefined('analyst', settings)).toBe(true);
+      expect(isRoleDefined('analyst', {})).toBe(false);
+      expect(isRoleDefined('toString', settings)).toBe(false);
+    });
+  });
+
+  describe('missingPermissions', () => {
+    it('should list the permissions not in the scope', () => {
+      expect(missingPermissions(['user', 'llm:chat'], ['llm:chat', 'usage:read'])).toEqual(['usage:read']);
+      expect(missingPermissions(scopeForRole('admin', {}), PERMISSIONS)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+jest.mock('../../src/config/redis');
+
+import promptService from '../../src/services/promptService';
+import { applyPromptTemplate } from '../../src/utils/promptTemplate';
+import { PromptTemplate } from '../../src/types';
+
+describe('Prompt templates', () => {
+  const tenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const question = { role: 'user' as const, content: 'How do I reset my password?' };
+
+  const template = (overrides: Partial<PromptTemplate> = {}): PromptTemplate => ({
+    name: 'support',
+    version: 2,
+    messages: [{ role: 'system', content: 'You support {{product}} customers on the {{plan}} plan.' }],
+    variables: ['product', 'plan'],
+    createdAt: '2024-01-15T10:30:00Z',
+    createdBy: 'admin-1',
+    ...overrides,
+  });
+
+  let getTemplate: jest.SpyInstance;
+
+  beforeEach(() => {
+    getTemplate = jest.spyOn(promptService, 'getTemplate').mockResolvedValue(template());
+  });
+
+  it('should render the requested template in front of the messages', async () => {
+    const messages = await applyPromptTemplate([question], {}, tenantId, {
+      name: 'support',
+      version: 2,
+      variables: { product: 'Acme', plan: 'Pro' },
+    });
+
+    expect(getTemplate).toHaveBeenCalledWith(tenantId, 'support', 2);
+    expect(messages).toEqual([
+      { role: 'system', content: 'You support Acme customers on the Pro plan.' },
+      question,
+    ]);
+  });
+
+  it('should reject unknown templates and missing variables', async () => {
+    await expect(applyPromptTemplate([question], {}, tenantId, { name: 'support', variables: { product: 'Acme' } }))
+      .rejects.toThrow('Missing template variables: plan');
+
+    getTemplate.mockResolvedValue(null);
+    await expect(applyPromptTemplate([question], {}, tenantId, { name: 'sales', version: 4 }))
+      .rejects.toThrow('Prompt template "sales" version 4 not found');
+  });
+
+  it('should add the tenant default only to chats without a system message', async () => {
+    getTemplate.mockResolvedValue(template({ messages: [{ role: 'system', content: 'Be polite.' }], variables: [] }));
+    const settings = { prompts: { defaultTemplate: 'support' } };
+
+    await expect(applyPromptTemplate([question], settings, tenantId))
+      .resolves.toEqual([{ role: 'system', content: 'Be polite.' }, question]);
+
+    const ownSystem = [{ role: 'system' as const, content: 'Be terse.' }, question];
+    await expect(applyPromptTemplate(ownSystem, settings, tenantId)).resolves.toBe(ownSystem);
+  });
+
+  it('should skip a default template that needs variables', async () => {
+    const messages = await applyPromptTemplate([question], { prompts: { defaultTemplate: 'support' } }, tenantId);
+
+    expect(messages).toEqual([question]);
+  });
+});
@@ -0,0 +1,82 @@
+jest.mock('../../src/config/redis');
+jest.mock('../../src/services/ollamaService');
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
+
+import collectionService from '../../src/services/collectionService';
+import ollamaService from '../../src/services/ollamaService';
+import usageService from '../../src/services/usageService';
+import { applyRetrieval } from '../../src/utils/retrieval';
+import { AuthCredentials, Collection } from '../../src/types';
+
+describe('Retrieval', () => {
+  const tenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const credentials = {
+    user: { userId: 'user-1' },
+    tenantId,
+    scope: ['user'],
+  } as unknown as AuthCredentials;
+
+  const collection: Collection = {
+    name: 'handbook',
+    embeddingModel: 'nomic-embed-text',
+    chunkSize: 1000,
+    chunkOverlap: 150,
+    documentCount: 1,
+    chunkCount: 2,
+    createdAt: '2024-01-15T10:30:00Z',
+    createdBy: 'admin-1',
+    updatedAt: '2024-01-15T10:30:00Z',
+  };
+
+  const system = { role: 'system' as const, content: 'You are a helpful assistant.' };
+  const question = { role: 'user' as const, content: 'How long is a reset link valid?' };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(collectionService, 'getCollection').mockResolvedValue(collection);
+    (ollamaService.embed as jest.Mock).mockResolvedValue({
+      model: 'nomic-embed-text',
+      embeddings: [[0.1, 0.2]],
+      prompt_eval_count: 9,
+    });
+  });
+
+  it('should put the best chunks just before the question and number them', async () => {
+    const search = jest.spyOn(collectionService, 'searchExhaustive').mockResolvedValue([
+      { documentId: 'doc-1', title: 'Accounts', chunk: 0, score: 0.91, text: 'Reset links expire after an hour.' },
+      { documentId: 'doc-1', title: 'Accounts', chunk: 3, score: 0.72, text: 'Support unlocks accounts.' },
+    ]);
+
+    const { messages, citations } = await applyRetrieval(credentials, {}, [system, question], { collection: 'handbook', topK: 2 });
+
+    expect(ollamaService.embed).toHaveBeenCalledWith({ model: 'nomic-embed-text', input: [question.content] }, tenantId);
+    expect(usageService.record).toHaveBeenCalledWith(expect.objectContaining({ model: 'nomic-embed-text', promptTokens: 9 }));
+    expect(search).toHaveBeenCalledWith(tenantId, 'handbook', [0.1, 0.2], 2, undefined);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toBe(system);
+    expect(messages[1].role).toBe('system');
+    expect(messages[1].content).toContain('[1] Accounts\nReset links expire after an hour.');
+    expect(messages[1].content).toContain('[2] Accounts\nSupport unlocks accounts.');
+    expect(messages[2]).toBe(question);
+    expect(citations.map((citation) => citation.index)).toEqual([1, 2]);
+  });
+
+  it('should leave the messages alone when nothing relevant is found', async () => {
+    jest.spyOn(collectionService, 'searchExhaustive').mockResolvedValue([]);
+
+    const result = await applyRetrieval(credentials, {}, [question], { collection: 'handbook', minScore: 0.5 });
+
+    expect(result).toEqual({ messages: [question], citations: [] });
+  });
+
+  it('should reject unknown collections and chats without a question', async () => {
+    await expect(applyRetrieval(credentials, {}, [system], { collection: 'handbook' }))
+      .rejects.toThrow('"retrieval" needs a user message to search with');
+
+    jest.spyOn(collectionService, 'getCollection').mockResolvedValue(null);
+    await expect(applyRetrieval(credentials, {}, [question], { collection: 'missing' }))
+      .rejects.toThrow('Collection "missing" not found');
+  });
+});
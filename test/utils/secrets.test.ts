@@ -0,0 +1,55 @@
+import { checkEncryptionKey, decryptSecret, encryptSecret, isEncrypted } from '../../src/utils/secrets';
+
+describe('Secrets', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should round-trip a secret', () => {
+    const encrypted = encryptSecret('sk-live-123');
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('sk-live-123');
+    expect(decryptSecret(encrypted)).toBe('sk-live-123');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptSecret('sk-live-123')).not.toBe(encryptSecret('sk-live-123'));
+  });
+
+  it('should reject tampered or plain values', () => {
+    const [prefix, version, iv, tag, ciphertext] = encryptSecret('sk-live-123').split(':');
+    const tampered = [prefix, version, iv, tag, Buffer.from('forged').toString('base64')].join(':');
+
+    expect(() => decryptSecret(tampered)).toThrow();
+    expect(() => decryptSecret('sk-live-123')).toThrow('Value is not an encrypted secret');
+    expect(ciphertext).toBeDefined();
+  });
+
+  it('should refuse to run in production without an encryption key', () => {
+    delete process.env.SETTINGS_ENCRYPTION_KEY;
+    process.env.NODE_ENV = 'development';
+    expect(() => checkEncryptionKey()).not.toThrow();
+
+    process.env.NODE_ENV = 'production';
+    expect(() => checkEncryptionKey()).toThrow('set SETTINGS_ENCRYPTION_KEY');
+    expect(() => encryptSecret('sk-live-123')).toThrow('set SETTINGS_ENCRYPTION_KEY');
+
+    process.env.SETTINGS_ENCRYPTION_KEY = 'a-long-random-passphrase';
+    expect(() => checkEncryptionKey()).not.toThrow();
+  });
+
+  it('should refuse to run in production with an example key', () => {
+    process.env.SETTINGS_ENCRYPTION_KEY = 'change-this-to-a-secure-random-string-in-production';
+    process.env.NODE_ENV = 'development';
+    expect(() => checkEncryptionKey()).not.toThrow();
+
+    process.env.NODE_ENV = 'production';
+    expect(() => checkEncryptionKey()).toThrow('SETTINGS_ENCRYPTION_KEY is an example value');
+
+    process.env.SETTINGS_ENCRYPTION_KEY = 'changeme';
+    expect(() => checkEncryptionKey()).toThrow('SETTINGS_ENCRYPTION_KEY is an example value');
+  });
+});
@@ -0,0 +1,143 @@
+jest.mock('../../src/services/quotaService');
+jest.mock('../../src/services/usageService');
+
+import Boom from '@hapi/boom';
+import { compileSchema, completeStructured, validateOutput } from '../../src/utils/structuredOutput';
+import usageService from '../../src/services/usageService';
+import { LLMProvider } from '../../src/services/llmProvider';
+import { AuthCredentials } from '../../src/types';
+
+describe('Structured output', () => {
+  const credentials = {
+    tenantId: '550e8400-e29b-41d4-a716-446655440000',
+    user: { userId: 'user-1' },
+    scope: ['user'],
+  } as unknown as AuthCredentials;
+
+  const schema = {
+    type: 'object',
+    properties: {
+      city: { type: 'string' },
+      population: { type: 'integer' },
+    },
+    required: ['city', 'population'],
+  };
+
+  const reply = (content: string) => ({
+    model: 'llama2',
+    created_at: '2024-01-15T10:30:00Z',
+    message: { role: 'assistant' as const, content },
+    done: true,
+    prompt_eval_count: 40,
+    eval_count: 10,
+  });
+
+  const chatRequest = { model: 'llama2', messages: [{ role: 'user' as const, content: 'Largest city in France?' }] };
+
+  let provider: jest.Mocked<LLMProvider>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    provider = {
+      name: 'ollama',
+      chat: jest.fn(),
+      streamChat: jest.fn(),
+      listModels: jest.fn(),
+      checkHealth: jest.fn(),
+    };
+  });
+
+  describe('validateOutput', () => {
+    const validate = compileSchema(schema);
+
+    it('should parse JSON, also inside a code fence', () => {
+      expect(validateOutput('{"city":"Paris","population":2102650}', validate))
+        .toEqual({ valid: true, value: { city: 'Paris', population: 2102650 } });
+      expect(validateOutput('```json\n{"city":"Paris","population":1}\n```', validate))
+        .toEqual({ valid: true, value: { city: 'Paris', population: 1 } });
+    });
+
+    it('should describe schema violations and malformed JSON', () => {
+      expect(validateOutput('{"city":"Paris","population":"many"}', validate))
+        .toEqual({ valid: false, errors: ['/population must be integer'] });
+      expect(validateOutput('Paris', validate)).toEqual({
+        valid: false,
+        errors: [expect.stringContaining('Reply is not valid JSON')],
+      });
+    });
+
+    it('should reject invalid schemas with 400', () => {
+      expect(() => compileSchema({ type: 'banana' })).toThrow(/Invalid JSON schema/);
+    });
+
+    it('should reject $id and references outside the schema', () => {
+      expect(() => compileSchema({ $id: 'https://example.com/city', type: 'object' })).toThrow('/$id is not allowed');
+      expect(() => compileSchema({ type: 'object', properties: { city: { $ref: 'https://example.com/city' } } }))
+        .toThrow('/properties/city/$ref must point inside the schema');
+    });
+
+    it('should accept references within the schema', () => {
+      const validateList = compileSchema({
+        definitions: { city: { type: 'string' } },
+        type: 'array',
+        items: { $ref: '#/definitions/city' },
+      });
+
+      expect(validateOutput('["Paris"]', validateList)).toEqual({ valid: true, value: ['Paris'] });
+    });
+  });
+
+  describe('completeStructured', () => {
+    it('should pass the schema as the format and return the parsed reply', async () => {
+      provider.chat.mockResolvedValue(reply('{"city":"Paris","population":2102650}'));
+
+      const result = await completeStructured(provider, chatRequest, credentials, { type: 'json_schema', schema });
+
+      expect(provider.chat).toHaveBeenCalledWith({ ...chatRequest, format: schema }, credentials.tenantId);
+      expect(result.parsed).toEqual({ city: 'Paris', population: 2102650 });
+      expect(result.repairs).toBe(0);
+    });
+
+    it('should send the errors back to the model and charge every attempt', async () => {
+      provider.chat
+        .mockResolvedValueOnce(reply('{"city":"Paris"}'))
+        .mockResolvedValueOnce(reply('{"city":"Paris","population":2102650}'));
+
+      const result = await completeStructured(provider, chatRequest, credentials, {
+        type: 'json_schema',
+        schema,
+        max_repairs: 2,
+      });
+
+      expect(provider.chat).toHaveBeenCalledTimes(2);
+      expect(provider.chat.mock.calls[1][0].messages).toEqual([
+        ...chatRequest.messages,
+        { role: 'assistant', content: '{"city":"Paris"}' },
+        { role: 'user', content: expect.stringContaining("/ must have required property 'population'") },
+      ]);
+      expect(result.repairs).toBe(1);
+      expect(result.response).toEqual(expect.objectContaining({ prompt_eval_count: 80, eval_count: 20 }));
+      expect(usageService.record).toHaveBeenCalledTimes(2);
+    });
+
+    it('should answer 422 with the validation errors once repairs run out', async () => {
+      provider.chat.mockResolvedValue(reply('{"city":"Paris"}'));
+
+      const error = await completeStructured(provider, chatRequest, credentials, {
+        type: 'json_schema',
+        schema,
+        max_repairs: 1,
+      }).catch((e) => e);
+
+      expect(Boom.isBoom(error)).toBe(true);
+      expect(error.output.statusCode).toBe(422);
+      expect(error.output.payload).toEqual(expect.objectContaining({
+        validation_errors: ["/ must have required property 'population'"],
+        raw: '{"city":"Paris"}',
+        repairs: 1,
+      }));
+      expect(provider.chat).toHaveBeenCalledTimes(2);
+    });
+  });
+});